@@ -1,23 +1,31 @@
 import React from 'react';
 import { Routes, Route } from 'react-router-dom';
 import { ThirdwebProvider, metamaskWallet, coinbaseWallet, rainbowWallet, walletConnect } from '@thirdweb-dev/react';
-import { BaseSepoliaTestnet } from '@thirdweb-dev/chains';
 import { THIRDWEB_CLIENT_ID } from './config/contracts';
+import { NetworkProvider, THIRDWEB_CHAINS, useNetwork } from './context/NetworkContext';
+import { VaultProvider } from './context/VaultContext';
 import Header from './components/Header';
+import DeploymentInfo from './components/DeploymentInfo';
 import Home from './pages/Home';
 import DataBrokers from './pages/DataBrokers';
+import BrokerDetail from './pages/BrokerDetail';
 import Processors from './pages/Processors';
 import UserDashboard from './pages/UserDashboard';
 import ProcessorDashboard from './pages/ProcessorDashboard';
+import TaskDetail from './pages/TaskDetail';
 import TokenPage from './pages/TokenPage';
+import Vault from './pages/Vault';
+import Verifier from './pages/Verifier';
+import Disputes from './pages/Disputes';
 
-// Base Sepolia testnet configuration
-const ACTIVE_CHAIN = BaseSepoliaTestnet;
+// Chain follows the network selected in NetworkProvider
+const AppShell: React.FC = () => {
+  const { chain } = useNetwork();
 
-function App() {
   return (
     <ThirdwebProvider
-      activeChain={ACTIVE_CHAIN}
+      activeChain={chain}
+      supportedChains={Object.values(THIRDWEB_CHAINS)}
       clientId={THIRDWEB_CLIENT_ID}
       supportedWallets={[
         metamaskWallet(),
@@ -26,21 +34,37 @@ function App() {
         walletConnect(),
       ]}
     >
-      <div className="min-h-screen bg-gray-50">
-        <Header />
-        <main className="container py-8">
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/brokers" element={<DataBrokers />} />
-            <Route path="/processors" element={<Processors />} />
-            <Route path="/token" element={<TokenPage />} />
-            <Route path="/dashboard" element={<UserDashboard />} />
-            <Route path="/processor-dashboard" element={<ProcessorDashboard />} />
-          </Routes>
-        </main>
-      </div>
+      <VaultProvider>
+        <div className="min-h-screen bg-gray-50">
+          <Header />
+          <main className="container py-8">
+            <Routes>
+              <Route path="/" element={<Home />} />
+              <Route path="/brokers" element={<DataBrokers />} />
+              <Route path="/brokers/:brokerId" element={<BrokerDetail />} />
+              <Route path="/processors" element={<Processors />} />
+              <Route path="/token" element={<TokenPage />} />
+              <Route path="/dashboard" element={<UserDashboard />} />
+              <Route path="/processor-dashboard" element={<ProcessorDashboard />} />
+              <Route path="/tasks/:taskId" element={<TaskDetail />} />
+              <Route path="/vault" element={<Vault />} />
+              <Route path="/verifier" element={<Verifier />} />
+              <Route path="/disputes" element={<Disputes />} />
+            </Routes>
+          </main>
+          <DeploymentInfo />
+        </div>
+      </VaultProvider>
     </ThirdwebProvider>
   );
+};
+
+function App() {
+  return (
+    <NetworkProvider>
+      <AppShell />
+    </NetworkProvider>
+  );
 }
 
 export default App;
@@ -14,6 +14,7 @@ jest.mock('@thirdweb-dev/react', () => ({
   walletConnect: jest.fn(),
   useAddress: jest.fn(() => null),
   useDisconnect: jest.fn(),
+  useSigner: jest.fn(),
   useConnectionStatus: jest.fn(() => 'disconnected'),
   ConnectWallet: jest.fn(() => <button>Connect Wallet</button>),
 }));
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BROKER_TAG_LABELS, BROKER_TAGS, BrokerTag } from '../types/contracts';
+
+interface BrokerTagPickerProps {
+  legend: string;
+  selected: BrokerTag[];
+  onChange: (tags: BrokerTag[]) => void;
+}
+
+// A checkbox per category, kept in taxonomy order whatever order they are ticked in
+export const BrokerTagPicker: React.FC<BrokerTagPickerProps> = ({ legend, selected, onChange }) => {
+  const toggle = (tag: BrokerTag) => {
+    const next = selected.includes(tag) ? selected.filter((other) => other !== tag) : [...selected, tag];
+    onChange(BROKER_TAGS.filter((other) => next.includes(other)));
+  };
+
+  return (
+    <fieldset className="flex flex-wrap gap-x-4 gap-y-2">
+      <legend className="form-label">{legend}</legend>
+      {BROKER_TAGS.map((tag) => (
+        <label key={tag} className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={selected.includes(tag)} onChange={() => toggle(tag)} />
+          {BROKER_TAG_LABELS[tag]}
+        </label>
+      ))}
+    </fieldset>
+  );
+};
+
+// Tag chips for a broker; each links to the broker list filtered to that tag
+const BrokerTags: React.FC<{ tags: BrokerTag[] }> = ({ tags }) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label="Tags">
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            to={`/brokers?tags=${tag}`}
+            className="inline-block rounded-full bg-ninja-50 px-3 py-1 text-xs font-medium text-ninja-700 hover:bg-ninja-100"
+          >
+            {BROKER_TAG_LABELS[tag]}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default BrokerTags;
@@ -0,0 +1,516 @@
+import React, { useEffect, useState } from 'react';
+import { formatFailure, useFactoryContract, useTokenContract } from '../contracts';
+import { useNetwork } from '../context/NetworkContext';
+import { useVault } from '../context/VaultContext';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useBrokers,
+  useNetworkGuard,
+  usePlatformFeeRate,
+  useTokenAllowance,
+  useTokenBalance,
+  useTransaction,
+} from '../hooks';
+import { BrokerTag, CreateTaskForm, UserTaskData, ValidationError } from '../types/contracts';
+import {
+  BrokerSet,
+  BulkTaskItem,
+  BulkTaskRun,
+  bulkTaskCost,
+  chunkItems,
+  clearBulkRun,
+  getBulkRun,
+  PayoutRule,
+  pendingItems,
+  planBulkTasks,
+  reconcileBulkRun,
+  saveBulkRun,
+  selectBrokers,
+} from '../utils/bulkTasks';
+import { HIGH_IMPACT_WEIGHT } from '../utils/brokerFilters';
+import { createSubjectCommitment, saveSubjectSalt } from '../utils/commitments';
+import { formatAmount, formatUnits, toBigInt } from '../utils/formatters';
+import { errorProps, parseAmount, TASK_SCHEMA, validate } from '../utils/validation';
+import type { SubjectProfile } from '../vault';
+import { BrokerTagPicker } from './BrokerTags';
+import FieldError from './FieldError';
+import SubjectFields, { EMPTY_SUBJECT, SubjectForm, subjectFromProfile } from './SubjectFields';
+import TransactionStatus from './TransactionStatus';
+
+const STEPS = ['Subject', 'Brokers', 'Payout', 'Review'];
+
+const SUBJECT_FIELDS = ['subjectName', 'subjectEmail', 'subjectPhone', 'subjectLocation'];
+const PAYOUT_FIELDS = ['payout', 'duration'];
+
+const BROKER_SET_LABELS: Record<BrokerSet, string> = {
+  active: 'All active brokers',
+  highImpact: `High impact brokers (weight ${HIGH_IMPACT_WEIGHT} or more)`,
+  tagged: 'Brokers in categories I pick',
+  custom: 'Brokers I pick',
+};
+
+// Every write that creates tasks moves the creator's tasks, balance and allowance
+const TASK_QUERIES = [QUERY_KEYS.userTasks, QUERY_KEYS.tokenBalance, QUERY_KEYS.tokenAllowance];
+
+interface BulkTaskWizardProps {
+  userTasks: UserTaskData[]; // The creator's tasks, to spot ones a stopped run already created
+  onClose: () => void;
+}
+
+// Creates one removal task per broker in a set, approving the aggregate payout once
+const BulkTaskWizard: React.FC<BulkTaskWizardProps> = ({ userTasks, onClose }) => {
+  const address = useAccount();
+  const { addresses } = useNetwork();
+  const { factory } = useFactoryContract();
+  const { token } = useTokenContract();
+  const vault = useVault();
+  const { isWrongNetwork } = useNetworkGuard();
+
+  const { data: allBrokers } = useBrokers();
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, addresses.TASK_FACTORY);
+  const { data: platformFeeRate } = usePlatformFeeRate();
+
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const taskCreation = useTransaction(factory?.createTask, TASK_QUERIES);
+  const batchCreation = useTransaction(factory?.batchCreateTasks, TASK_QUERIES);
+
+  const [step, setStep] = useState(0);
+  const [subject, setSubject] = useState<SubjectForm>(EMPTY_SUBJECT);
+  const [brokerSet, setBrokerSet] = useState<BrokerSet>('highImpact');
+  const [brokerIds, setBrokerIds] = useState<number[]>([]);
+  const [brokerTags, setBrokerTags] = useState<BrokerTag[]>([]);
+  const [payoutRule, setPayoutRule] = useState<PayoutRule>('flat');
+  const [payout, setPayout] = useState('50');
+  const [duration, setDuration] = useState('30');
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [run, setRun] = useState<BulkTaskRun>();
+  const [running, setRunning] = useState(false);
+
+  // A run stopped part way is offered for resuming instead of a new plan
+  const factoryAddress = factory?.contract.getAddress();
+  useEffect(() => {
+    setRun(factoryAddress && address ? getBulkRun(factoryAddress, address) : undefined);
+  }, [factoryAddress, address]);
+
+  const batched = factory?.supportsBatchCreate ?? false;
+  const feeRate = batched ? platformFeeRate ?? 0 : 0;
+  const balance = tokenBalance != null ? toBigInt(tokenBalance) : undefined;
+
+  const brokers = (allBrokers ?? []).filter((broker) => broker.isActive);
+  const selected = selectBrokers(brokers, brokerSet, brokerIds, brokerTags);
+  const basePayout = parseAmount(payout) ?? BigInt(0);
+  const plan = planBulkTasks(selected, basePayout, payoutRule);
+  const total = bulkTaskCost(plan, feeRate);
+
+  // The single-task schema checks every field; each step reports its own
+  const taskForm = (overrides: Partial<CreateTaskForm> = {}): CreateTaskForm => ({
+    ...subject,
+    brokerId: String(selected[0]?.id ?? ''),
+    payout,
+    duration,
+    description: '',
+    ...overrides,
+  });
+
+  const stepErrors = (): ValidationError[] => {
+    if (step === 0) return validate(TASK_SCHEMA, taskForm(), {}).filter((error) => SUBJECT_FIELDS.includes(error.field));
+    if (step === 1) {
+      return selected.length > 0 ? [] : [{ field: 'brokers', message: 'Select at least one broker' }];
+    }
+    // A valid base payout is only a scale for weighted payouts, so the minimum applies per broker
+    const formErrors = validate(TASK_SCHEMA, taskForm(), {}).filter(
+      (error) =>
+        PAYOUT_FIELDS.includes(error.field) &&
+        !(error.field === 'payout' && payoutRule === 'weighted' && parseAmount(payout) !== null)
+    );
+    if (formErrors.length > 0) return formErrors;
+    for (const item of plan) {
+      const itemError = validate(TASK_SCHEMA, taskForm({ payout: formatUnits(item.payout) }), {}).find(
+        (error) => error.field === 'payout'
+      );
+      if (itemError) return [{ field: 'payout', message: `${item.brokerName}: ${itemError.message}` }];
+    }
+    return [];
+  };
+
+  const handleNext = () => {
+    const found = stepErrors();
+    setErrors(found);
+    if (found.length === 0) setStep(step + 1);
+  };
+
+  const handleSubjectChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSubject((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => prev.filter((error) => error.field !== name));
+  };
+
+  const handleProfileSelect = (profile: SubjectProfile) => {
+    setSubject(subjectFromProfile(profile));
+    setErrors((prev) => prev.filter((error) => !SUBJECT_FIELDS.includes(error.field)));
+  };
+
+  const toggleBroker = (brokerId: number) => {
+    setBrokerIds((prev) => (prev.includes(brokerId) ? prev.filter((id) => id !== brokerId) : [...prev, brokerId]));
+    setErrors([]);
+  };
+
+  const markCreated = (current: BulkTaskRun, created: BulkTaskItem[]): BulkTaskRun => {
+    const createdIds = created.map((item) => item.brokerId);
+    const next = {
+      ...current,
+      items: current.items.map((item) => (createdIds.includes(item.brokerId) ? { ...item, created: true } : item)),
+    };
+    saveBulkRun(next);
+    setRun(next);
+    return next;
+  };
+
+  // Approve what is left to create, then create it in batches or one task at a time,
+  // recording each success so a failure stops the run where it can be resumed
+  const execute = async (start: BulkTaskRun) => {
+    if (!factory || !address) return;
+    const pending = pendingItems(start.items);
+    const cost = bulkTaskCost(pending, feeRate);
+
+    setRunning(true);
+    try {
+      if (toBigInt(tokenAllowance ?? 0) < cost) {
+        const approved = await approval.execute([addresses.TASK_FACTORY, cost.toString()]);
+        if (!approved.success) {
+          const message = formatFailure('Error approving tokens', approved.error);
+          if (message) alert(message);
+          return;
+        }
+      }
+
+      let current = start;
+      for (const chunk of batched ? chunkItems(pending) : pending.map((item) => [item])) {
+        const params = chunk.map((item) => ({
+          brokerId: item.brokerId,
+          subjectCommit: item.subjectCommit!,
+          payout: item.payout,
+          duration: start.duration,
+        }));
+        const result = batched
+          ? await batchCreation.execute([params])
+          : await taskCreation.execute([params[0].brokerId, params[0].subjectCommit, params[0].payout, params[0].duration]);
+        if (!result.success) {
+          const target = chunk.length === 1 ? chunk[0].brokerName : `${chunk.length} brokers`;
+          const message = formatFailure(`Error creating the task for ${target}`, result.error);
+          if (message) alert(message);
+          return;
+        }
+        current = markCreated(current, chunk);
+      }
+
+      clearBulkRun(factory.contract.getAddress(), address);
+      alert(`Created ${current.items.length} removal tasks! 🎉`);
+      onClose();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!factory || !address || isWrongNetwork) return;
+    if (balance !== undefined && total > balance) return;
+
+    // A fresh salt per task keeps the tasks unlinkable on-chain; every salt is saved before
+    // anything is sent, as for a single task
+    const items: BulkTaskItem[] = [];
+    for (const item of plan) {
+      const { commitment, opening } = createSubjectCommitment({
+        fullName: subject.subjectName,
+        email: subject.subjectEmail,
+        phone: subject.subjectPhone,
+        location: subject.subjectLocation,
+      });
+      if (vault.status === 'unlocked') {
+        await vault.saveSalt(commitment, opening.salt);
+      } else {
+        saveSubjectSalt(commitment, opening.salt);
+      }
+      items.push({ ...item, subjectCommit: commitment });
+    }
+
+    const started: BulkTaskRun = {
+      factory: factory.contract.getAddress(),
+      creator: address,
+      duration: parseInt(duration) * 24 * 60 * 60,
+      items,
+      startedAt: Date.now(),
+    };
+    saveBulkRun(started);
+    setRun(started);
+    await execute(started);
+  };
+
+  const handleResume = () => {
+    if (!run || isWrongNetwork) return;
+    const reconciled = reconcileBulkRun(run, userTasks);
+    saveBulkRun(reconciled);
+    setRun(reconciled);
+    execute(reconciled);
+  };
+
+  const handleDiscard = () => {
+    if (!factoryAddress || !address) return;
+    clearBulkRun(factoryAddress, address);
+    setRun(undefined);
+  };
+
+  const transactions = (
+    <>
+      <TransactionStatus label="Token approval" transaction={approval.transaction} />
+      <TransactionStatus label="Task creation" transaction={(batched ? batchCreation : taskCreation).transaction} />
+    </>
+  );
+
+  if (run) {
+    const created = run.items.length - pendingItems(run.items).length;
+    return (
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold">Remove Me Everywhere</h2>
+        <p role="status" className="text-gray-600">
+          {created} of {run.items.length} tasks created.
+        </p>
+        {!running && (
+          <>
+            <p className="text-sm text-gray-500">
+              This run stopped before every task was created. Resuming creates only the rest; the
+              subject commitments were saved when it started.
+            </p>
+            <div className="flex gap-4">
+              <button type="button" onClick={handleResume} disabled={isWrongNetwork} className="btn">
+                Resume
+              </button>
+              <button type="button" onClick={handleDiscard} className="btn-secondary">
+                Discard Run
+              </button>
+            </div>
+          </>
+        )}
+        {transactions}
+      </div>
+    );
+  }
+
+  return (
+    <div className="card space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Remove Me Everywhere</h2>
+        <p className="text-gray-600 mt-1">
+          Step {step + 1} of {STEPS.length}: {STEPS[step]}
+        </p>
+      </div>
+
+      {step === 0 && (
+        <SubjectFields
+          values={subject}
+          errors={errors}
+          onChange={handleSubjectChange}
+          onProfileSelect={handleProfileSelect}
+        />
+      )}
+
+      {step === 1 && (
+        <div className="space-y-4">
+          <div className="form-group">
+            <label htmlFor="brokerSet" className="form-label">Brokers</label>
+            <select
+              id="brokerSet"
+              value={brokerSet}
+              onChange={(e) => {
+                setBrokerSet(e.target.value as BrokerSet);
+                setErrors([]);
+              }}
+              className="form-input"
+            >
+              {(Object.keys(BROKER_SET_LABELS) as BrokerSet[]).map((set) => (
+                <option key={set} value={set}>
+                  {BROKER_SET_LABELS[set]}
+                  {(set === 'active' || set === 'highImpact') && ` (${selectBrokers(brokers, set).length})`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {brokerSet === 'tagged' && (
+            <BrokerTagPicker
+              legend="Pick the categories"
+              selected={brokerTags}
+              onChange={(tags) => {
+                setBrokerTags(tags);
+                setErrors([]);
+              }}
+            />
+          )}
+
+          {brokerSet === 'custom' && (
+            <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <legend className="form-label">Pick the brokers</legend>
+              {brokers.map((broker) => (
+                <label key={broker.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={brokerIds.includes(broker.id)}
+                    onChange={() => toggleBroker(broker.id)}
+                  />
+                  {broker.name} ({broker.weight / 100}x)
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          <p className="text-sm text-gray-500">
+            {selected.length} broker{selected.length !== 1 ? 's' : ''} selected.
+          </p>
+          <FieldError errors={errors} field="brokers" />
+        </div>
+      )}
+
+      {step === 2 && (
+        <div className="space-y-4">
+          <div className="form-group">
+            <label htmlFor="payoutRule" className="form-label">Payout Rule</label>
+            <select
+              id="payoutRule"
+              value={payoutRule}
+              onChange={(e) => {
+                setPayoutRule(e.target.value as PayoutRule);
+                setErrors([]);
+              }}
+              className="form-input"
+            >
+              <option value="flat">Same payout for every broker</option>
+              <option value="weighted">Scaled by each broker's weight multiplier</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="bulkPayout" className="form-label">
+              {payoutRule === 'weighted' ? 'Base Payout (RN tokens) *' : 'Payout per Task (RN tokens) *'}
+            </label>
+            <input
+              id="bulkPayout"
+              type="number"
+              {...errorProps(errors, 'payout')}
+              value={payout}
+              onChange={(e) => {
+                setPayout(e.target.value);
+                setErrors([]);
+              }}
+              className="form-input"
+              min="10"
+              step="1"
+              required
+            />
+            <FieldError errors={errors} field="payout" />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="bulkDuration" className="form-label">Task Duration (days) *</label>
+            <input
+              id="bulkDuration"
+              type="number"
+              {...errorProps(errors, 'duration')}
+              value={duration}
+              onChange={(e) => {
+                setDuration(e.target.value);
+                setErrors((prev) => prev.filter((error) => error.field !== 'duration'));
+              }}
+              className="form-input"
+              min="7"
+              max="90"
+              step="1"
+              required
+            />
+            <FieldError errors={errors} field="duration" />
+          </div>
+        </div>
+      )}
+
+      {step === 3 && (
+        <div className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1">Broker</th>
+                <th className="py-1">Multiplier</th>
+                <th className="py-1 text-right">Payout</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.map((broker, index) => (
+                <tr key={broker.id} className="border-t">
+                  <td className="py-1">{broker.name}</td>
+                  <td className="py-1">{broker.weight / 100}x</td>
+                  <td className="py-1 text-right">{formatAmount(plan[index].payout)} RN</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="space-y-2">
+            {feeRate > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Platform fee:</span>
+                <span>{feeRate}%</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Total:</span>
+              <span className="font-semibold">{formatAmount(total)} RN</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Your balance:</span>
+              <span>{formatAmount(tokenBalance ?? 0)} RN</span>
+            </div>
+          </div>
+          {balance !== undefined && total > balance && (
+            <p className="text-sm text-red-600">The total is more than your balance.</p>
+          )}
+
+          <p className="text-sm text-gray-500">
+            {batched
+              ? `One approval for the total, then ${chunkItems(plan).length} batch transaction(s) of up to 20 tasks.`
+              : 'One approval for the total, then one transaction per task. If one fails or you leave this page, you can resume where it stopped.'}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        {step > 0 && (
+          <button type="button" onClick={() => setStep(step - 1)} disabled={running} className="btn-secondary">
+            Back
+          </button>
+        )}
+        {step < STEPS.length - 1 ? (
+          <button type="button" onClick={handleNext} className="btn">
+            Next
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={running || isWrongNetwork || (balance !== undefined && total > balance)}
+            className="btn flex items-center gap-2"
+          >
+            {running && <div className="loading"></div>}
+            Approve &amp; Create {plan.length} Task{plan.length !== 1 ? 's' : ''}
+          </button>
+        )}
+        <button type="button" onClick={onClose} disabled={running} className="btn-secondary">
+          Cancel
+        </button>
+      </div>
+
+      {transactions}
+    </div>
+  );
+};
+
+export default BulkTaskWizard;
@@ -0,0 +1,69 @@
+import React, { useEffect, useId } from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+  busy?: boolean; // Locks the dialog while its transaction is pending
+  confirmDisabled?: boolean; // Keeps the action unavailable while something it needs is missing
+  destructive?: boolean;
+  children?: React.ReactNode; // Explanation and any inputs the action needs
+}
+
+// Modal asking the user to confirm an action before anything is sent; Escape cancels
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+  busy = false,
+  confirmDisabled = false,
+  destructive = false,
+  children,
+}) => {
+  const titleId = useId();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !busy) onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [busy, onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div role="dialog" aria-modal="true" aria-labelledby={titleId} className="card w-full max-w-lg">
+        <h2 id={titleId} className="text-xl font-semibold mb-4">
+          {title}
+        </h2>
+        <form
+          noValidate
+          onSubmit={(e) => {
+            e.preventDefault();
+            onConfirm();
+          }}
+          className="space-y-4"
+        >
+          {children}
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onCancel} disabled={busy} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || confirmDisabled}
+              className={`btn flex items-center gap-2 ${destructive ? '!bg-red-600 hover:!bg-red-700' : ''}`}
+            >
+              {busy && <div className="loading"></div>}
+              {confirmLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { useNetwork } from '../context/NetworkContext';
+
+// Which contract deployment the app is talking to, so bug reports can name it
+const DeploymentInfo: React.FC = () => {
+  const { network, deployment } = useNetwork();
+
+  return (
+    <footer className="container py-6 text-center text-xs text-gray-500">
+      {network.name} deployment <span className="font-mono">{deployment.version}</span>
+      {deployment.deployedAt && (
+        <> · deployed {new Date(deployment.deployedAt).toLocaleDateString()}</>
+      )}
+    </footer>
+  );
+};
+
+export default DeploymentInfo;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { EVIDENCE_FILE_TYPES, EvidenceFile, readEvidenceFile } from '../evidence';
+import { formatBytes } from '../utils/formatters';
+
+interface EvidenceUploaderProps {
+  id: string;
+  file?: EvidenceFile;
+  onSelect: (file: EvidenceFile) => void;
+  onError: (message: string) => void; // The picked file was unreadable, too large or of the wrong type
+  disabled?: boolean;
+  inputProps?: React.InputHTMLAttributes<HTMLInputElement>; // e.g. errorProps for the field
+}
+
+// File picker that hashes the chosen file in the browser; nothing is uploaded until the step is confirmed
+const EvidenceUploader: React.FC<EvidenceUploaderProps> = ({ id, file, onSelect, onError, disabled, inputProps }) => {
+  const [hashing, setHashing] = useState(false);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (!picked) return;
+
+    setHashing(true);
+    try {
+      onSelect(await readEvidenceFile(picked));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setHashing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        id={id}
+        type="file"
+        accept={EVIDENCE_FILE_TYPES}
+        onChange={handleChange}
+        disabled={disabled || hashing}
+        className="form-input"
+        {...inputProps}
+      />
+      {hashing && <p className="text-sm text-gray-600">Computing content ID...</p>}
+      {file && !hashing && (
+        <div className="text-sm text-gray-600">
+          <p>
+            {file.name} ({formatBytes(file.size)})
+          </p>
+          <p className="font-mono text-xs break-all">{file.cid}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceUploader;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { ValidationError } from '../types/contracts';
+import { getFieldError } from '../utils/validation';
+
+interface FieldErrorProps {
+  errors: ValidationError[];
+  field: string;
+}
+
+// Inline message under a form input; pair the input with aria-describedby={`${field}-error`}
+const FieldError: React.FC<FieldErrorProps> = ({ errors, field }) => {
+  const message = getFieldError(errors, field);
+  if (!message) return null;
+
+  return (
+    <p id={`${field}-error`} className="text-sm text-red-600 mt-1">
+      {message}
+    </p>
+  );
+};
+
+export default FieldError;
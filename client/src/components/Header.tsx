@@ -1,10 +1,14 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { useAddress, useDisconnect, ConnectWallet } from '@thirdweb-dev/react';
+import { useDisconnect, ConnectWallet } from '@thirdweb-dev/react';
+import { useNetwork } from '../context/NetworkContext';
+import { useAccount } from '../hooks';
+import NetworkSelector from './NetworkSelector';
 
 const Header: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
   const disconnect = useDisconnect();
+  const { simulated } = useNetwork().network;
 
   const formatAddress = (address: string): string => {
     if (!address) return '';
@@ -40,6 +44,12 @@ const Header: React.FC = () => {
           >
             Token
           </Link>
+          <Link 
+            to="/vault" 
+            className="text-gray-700 hover:text-ninja-600 font-medium transition-colors"
+          >
+            Vault
+          </Link>
           {address && (
             <>
               <Link 
@@ -54,23 +64,39 @@ const Header: React.FC = () => {
               >
                 Processor
               </Link>
+              <Link 
+                to="/verifier" 
+                className="text-gray-700 hover:text-ninja-600 font-medium transition-colors"
+              >
+                Verifier
+              </Link>
+              <Link 
+                to="/disputes" 
+                className="text-gray-700 hover:text-ninja-600 font-medium transition-colors"
+              >
+                Disputes
+              </Link>
             </>
           )}
         </div>
 
         <div className="flex gap-4 items-center">
+          <NetworkSelector />
           {address ? (
             <>
               <div className="flex flex-col items-end text-sm">
                 <span className="text-gray-600">{formatAddress(address)}</span>
                 {/* TODO: Add token balance display when contract is integrated */}
+                {simulated && <span className="text-xs text-gray-500">Simulated account</span>}
               </div>
-              <button 
-                className="btn-secondary px-4 py-2 rounded-lg text-sm"
-                onClick={disconnect}
-              >
-                Disconnect
-              </button>
+              {!simulated && (
+                <button 
+                  className="btn-secondary px-4 py-2 rounded-lg text-sm"
+                  onClick={disconnect}
+                >
+                  Disconnect
+                </button>
+              )}
             </>
           ) : (
             <div className="[&>div]:!bg-ninja-600 [&>div]:hover:!bg-ninja-700">
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useNetworkGuard } from '../hooks';
+
+interface NetworkGuardProps {
+  className?: string;
+}
+
+// Banner for pages that send transactions; renders nothing when the wallet is on the right chain
+const NetworkGuard: React.FC<NetworkGuardProps> = ({ className = '' }) => {
+  const { isWrongNetwork, walletChainId, expectedNetwork, switchNetwork, switching, error } = useNetworkGuard();
+
+  if (!isWrongNetwork) return null;
+
+  return (
+    <div className={`card border border-red-200 bg-red-50 ${className}`} role="alert">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-red-800">Wrong network</h2>
+          <p className="text-red-700 text-sm mt-1">
+            Your wallet is connected to chain {walletChainId}. Switch to {expectedNetwork.name} (chain{' '}
+            {expectedNetwork.chainId}) to submit transactions.
+          </p>
+          {error && <p className="text-red-700 text-sm mt-1">{error}</p>}
+        </div>
+        <button
+          onClick={switchNetwork}
+          disabled={switching}
+          className="btn flex items-center gap-2 whitespace-nowrap"
+        >
+          {switching && <div className="loading"></div>}
+          Switch to {expectedNetwork.name}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkGuard;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { isNetworkKey, SUPPORTED_NETWORKS } from '../config/contracts';
+import { useNetwork } from '../context/NetworkContext';
+
+const NetworkSelector: React.FC = () => {
+  const { networkKey, setNetworkKey } = useNetwork();
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (isNetworkKey(e.target.value)) {
+      setNetworkKey(e.target.value);
+    }
+  };
+
+  return (
+    <select
+      aria-label="Network"
+      value={networkKey}
+      onChange={handleChange}
+      className="form-input py-1 text-sm w-auto"
+    >
+      {Object.entries(SUPPORTED_NETWORKS).map(([key, network]) => (
+        <option key={key} value={key}>
+          {network.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default NetworkSelector;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useVault } from '../context/VaultContext';
+import { CreateTaskForm, ValidationError } from '../types/contracts';
+import { errorProps } from '../utils/validation';
+import type { SubjectProfile } from '../vault';
+import FieldError from './FieldError';
+
+export type SubjectForm = Pick<CreateTaskForm, 'subjectName' | 'subjectEmail' | 'subjectPhone' | 'subjectLocation'>;
+
+export const EMPTY_SUBJECT: SubjectForm = {
+  subjectName: '',
+  subjectEmail: '',
+  subjectPhone: '',
+  subjectLocation: '',
+};
+
+export const subjectFromProfile = (profile: SubjectProfile): SubjectForm => ({
+  subjectName: profile.fullName,
+  subjectEmail: profile.email,
+  subjectPhone: profile.phone,
+  subjectLocation: profile.location,
+});
+
+interface SubjectFieldsProps {
+  values: SubjectForm;
+  errors: ValidationError[];
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onProfileSelect: (profile: SubjectProfile) => void;
+}
+
+// The person to remove, filled in by hand or from a Vault profile; inputs are named after the form fields
+const SubjectFields: React.FC<SubjectFieldsProps> = ({ values, errors, onChange, onProfileSelect }) => {
+  const vault = useVault();
+  const profiles = vault.contents?.profiles ?? [];
+
+  const handleProfileSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const profile = profiles.find((candidate) => candidate.id === e.target.value);
+    if (profile) onProfileSelect(profile);
+  };
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="form-label">Who should be removed?</legend>
+      <p className="text-sm text-gray-500">
+        These details never leave your browser. The task only stores a salted hash of them,
+        which you can open for your worker or in a dispute.
+      </p>
+
+      {profiles.length > 0 ? (
+        <div className="form-group">
+          <label htmlFor="subjectProfile" className="form-label">Fill from Vault</label>
+          <select id="subjectProfile" value="" onChange={handleProfileSelect} className="form-input">
+            <option value="">Choose a saved profile...</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>{profile.label}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {vault.status === 'unlocked' ? 'Save a profile in your ' : 'Unlock your '}
+          <Link to="/vault" className="text-ninja-600 hover:underline">Vault</Link>
+          {' to fill these in from a saved profile.'}
+        </p>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="subjectName" className="form-label">Full Name *</label>
+        <input
+          id="subjectName"
+          type="text"
+          name="subjectName"
+          {...errorProps(errors, 'subjectName')}
+          value={values.subjectName}
+          onChange={onChange}
+          className="form-input"
+          autoComplete="name"
+          required
+        />
+        <FieldError errors={errors} field="subjectName" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="form-group">
+          <label htmlFor="subjectEmail" className="form-label">Email</label>
+          <input
+            id="subjectEmail"
+            type="email"
+            name="subjectEmail"
+            {...errorProps(errors, 'subjectEmail')}
+            value={values.subjectEmail}
+            onChange={onChange}
+            className="form-input"
+            autoComplete="email"
+          />
+          <FieldError errors={errors} field="subjectEmail" />
+        </div>
+        <div className="form-group">
+          <label htmlFor="subjectPhone" className="form-label">Phone</label>
+          <input
+            id="subjectPhone"
+            type="tel"
+            name="subjectPhone"
+            {...errorProps(errors, 'subjectPhone')}
+            value={values.subjectPhone}
+            onChange={onChange}
+            className="form-input"
+            autoComplete="tel"
+          />
+          <FieldError errors={errors} field="subjectPhone" />
+        </div>
+        <div className="form-group">
+          <label htmlFor="subjectLocation" className="form-label">City, State</label>
+          <input
+            id="subjectLocation"
+            type="text"
+            name="subjectLocation"
+            {...errorProps(errors, 'subjectLocation')}
+            value={values.subjectLocation}
+            onChange={onChange}
+            className="form-input"
+          />
+          <FieldError errors={errors} field="subjectLocation" />
+        </div>
+      </div>
+    </fieldset>
+  );
+};
+
+export default SubjectFields;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { getWorkerActions, WORKER_ACTIONS } from '../contracts';
+import { useChainTime } from '../hooks';
+import { TASK_STATUS_COLORS, TASK_STATUS_LABELS, TaskCardProps } from '../types/contracts';
+import { formatAddress, formatAmount, formatTimestamp } from '../utils/formatters';
+
+// Summary of one removal task; the title links to its detail page. For the assigned
+// worker, onTakeAction receives the WorkerAction of the step button clicked.
+const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  broker,
+  onViewDetails,
+  onTakeAction,
+  actionsDisabled,
+  userRole,
+}) => {
+  const now = useChainTime();
+  const actions = onTakeAction && userRole === 'worker' ? getWorkerActions(task, now) : [];
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="font-semibold">
+            <Link to={`/tasks/${task.taskId}`} className="hover:text-ninja-600">
+              Task #{task.taskId}
+            </Link>
+          </h3>
+          <p className="text-sm text-gray-600">{broker.name}</p>
+        </div>
+        <span className={`status-badge ${TASK_STATUS_COLORS[task.currentStatus]}`}>
+          {TASK_STATUS_LABELS[task.currentStatus]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <span className="block text-gray-500">Payout</span>
+          <span className="font-semibold">{formatAmount(task.payout)} RN</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Deadline</span>
+          <span>{formatTimestamp(task.deadline)}</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">{userRole === 'worker' ? 'Creator' : 'Worker'}</span>
+          <span className="font-mono">
+            {userRole === 'worker'
+              ? formatAddress(task.creator)
+              : task.assignedWorker
+                ? formatAddress(task.assignedWorker)
+                : 'Unassigned'}
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Evidence</span>
+          <span>{task.evidenceCount}</span>
+        </div>
+      </div>
+
+      {(actions.length > 0 || onViewDetails) && (
+        <div className="flex justify-end flex-wrap gap-2 mt-3">
+          {actions.map((action) => (
+            <button
+              key={action}
+              onClick={() => onTakeAction!(task.taskId, action)}
+              disabled={actionsDisabled}
+              className={action === 'markFailed' ? 'btn-secondary px-3 py-1 text-sm' : 'btn px-3 py-1 text-sm'}
+            >
+              {WORKER_ACTIONS[action].label}
+            </button>
+          ))}
+          {onViewDetails && (
+            <button onClick={() => onViewDetails(task.taskId)} className="btn-secondary px-3 py-1 text-sm">
+              View Details
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskCard;
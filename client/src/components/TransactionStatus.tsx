@@ -0,0 +1,34 @@
+import React from 'react';
+import { TrackedTransaction, TransactionStatus as Status, TRANSACTION_STATUS_LABELS } from '../types/contracts';
+
+interface TransactionStatusProps {
+  label: string;
+  transaction: TrackedTransaction | null;
+}
+
+const STATUS_COLORS: Record<Status, string> = {
+  [Status.Submitted]: 'text-blue-700',
+  [Status.Mined]: 'text-blue-700',
+  [Status.Confirmed]: 'text-green-700',
+  [Status.Failed]: 'text-red-700',
+  [Status.Replaced]: 'text-yellow-700',
+};
+
+const TransactionStatus: React.FC<TransactionStatusProps> = ({ label, transaction }) => {
+  if (!transaction) return null;
+
+  const { hash, status, confirmations, requiredConfirmations, replacedBy, error } = transaction;
+
+  return (
+    <div className={`text-sm ${STATUS_COLORS[status]}`} role="status">
+      <span className="font-medium">{label}:</span>{' '}
+      {TRANSACTION_STATUS_LABELS[status]}
+      {status === Status.Mined && ` (${confirmations}/${requiredConfirmations})`}
+      {replacedBy && ` by ${replacedBy.slice(0, 10)}...`}
+      {error && ` – ${error}`}
+      <span className="block font-mono text-xs text-gray-500">{hash}</span>
+    </div>
+  );
+};
+
+export default TransactionStatus;
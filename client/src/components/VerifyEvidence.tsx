@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { EVIDENCE_STORAGE_MISSING, useEvidenceStorage } from '../context/EvidenceContext';
+import { checkEvidence, EvidenceCheck } from '../evidence';
+
+type VerifyState = 'idle' | 'checking' | 'missing' | 'error' | EvidenceCheck;
+
+const VERIFY_MESSAGES: Record<Exclude<VerifyState, 'idle'>, { text: string; color: string }> = {
+  checking: { text: 'Fetching and re-hashing the content...', color: 'text-gray-600' },
+  missing: { text: 'The content is not available from storage.', color: 'text-yellow-700' },
+  error: { text: 'The content could not be fetched.', color: 'text-red-700' },
+  match: { text: 'The content matches the recorded CID.', color: 'text-green-700' },
+  mismatch: { text: 'The content does not match the recorded CID.', color: 'text-red-700' },
+  unsupported: { text: 'This CID format cannot be re-hashed in the browser.', color: 'text-yellow-700' },
+};
+
+// Fetches the bytes behind an evidence CID and hashes them again
+const VerifyEvidence: React.FC<{ cid: string }> = ({ cid }) => {
+  const storage = useEvidenceStorage();
+  const [state, setState] = useState<VerifyState>('idle');
+
+  if (!storage) {
+    return <p className="text-sm mt-2 text-yellow-700">{EVIDENCE_STORAGE_MISSING}</p>;
+  }
+
+  const verify = async () => {
+    setState('checking');
+    try {
+      const bytes = await storage.get(cid);
+      setState(bytes ? await checkEvidence(bytes, cid) : 'missing');
+    } catch (error) {
+      console.warn(`Could not fetch evidence ${cid}:`, error);
+      setState('error');
+    }
+  };
+
+  if (state === 'idle' || state === 'error') {
+    return (
+      <div className="mt-2">
+        <button onClick={verify} className="btn-secondary px-3 py-1 text-sm">
+          Verify Content
+        </button>
+        {state === 'error' && <p className={`text-sm mt-1 ${VERIFY_MESSAGES.error.color}`}>{VERIFY_MESSAGES.error.text}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <p className={`text-sm mt-2 ${VERIFY_MESSAGES[state].color}`} role="status">
+      {VERIFY_MESSAGES[state].text}
+    </p>
+  );
+};
+
+export default VerifyEvidence;
@@ -1,7 +1,9 @@
 import React, { useEffect, useMemo, useState } from 'react';
-// import { Client } from '@xmtp/xmtp-js'; // TODO: Install @xmtp/xmtp-js dependency
+import { Client } from '@xmtp/xmtp-js';
 import { useAddress, useSigner } from '@thirdweb-dev/react';
 import { isAddress } from 'ethers/lib/utils';
+import { useVault } from '../context/VaultContext';
+import type { SubjectProfile } from '../vault';
 
 interface ProcessorOption {
   address: string;
@@ -13,26 +15,25 @@ interface XmtpMessageSectionProps {
   selectedProcessors: string[];
 }
 
-// type XmtpEnvironment = 'production' | 'dev' | 'local';
-
-// const DEFAULT_XMTP_ENV: XmtpEnvironment = 'production';
-
-// TODO: Re-enable when XMTP is installed
-// const resolveXmtpEnv = (): XmtpEnvironment => {
-//   const env = process.env.REACT_APP_XMTP_ENV?.toLowerCase();
-//
-//   switch (env) {
-//     case 'production':
-//     case 'dev':
-//     case 'local':
-//       return env;
-//     case 'preview':
-//     case 'beta':
-//       return 'dev';
-//     default:
-//       return DEFAULT_XMTP_ENV;
-//   }
-// };
+type XmtpEnvironment = 'production' | 'dev' | 'local';
+
+const DEFAULT_XMTP_ENV: XmtpEnvironment = 'production';
+
+const resolveXmtpEnv = (): XmtpEnvironment => {
+  const env = process.env.REACT_APP_XMTP_ENV?.toLowerCase();
+
+  switch (env) {
+    case 'production':
+    case 'dev':
+    case 'local':
+      return env;
+    case 'preview':
+    case 'beta':
+      return 'dev';
+    default:
+      return DEFAULT_XMTP_ENV;
+  }
+};
 
 const formatAddress = (address: string | undefined | null) => {
   const trimmed = address?.trim() ?? '';
@@ -57,7 +58,8 @@ const statusToneStyles: Record<StatusTone, string> = {
   error: 'border-red-200 bg-red-50 text-red-700',
 };
 
-const buildMessageTemplate = (processors: ProcessorOption[]): string => {
+// Filled from the selected vault profile when the vault is unlocked, blank otherwise
+const buildMessageTemplate = (processors: ProcessorOption[], profile?: SubjectProfile): string => {
   const processorNames = processors.map((processor) => processor.name);
   const greeting = processorNames.length
     ? `Hello ${processorNames.join(', ')},`
@@ -67,10 +69,10 @@ const buildMessageTemplate = (processors: ProcessorOption[]): string => {
 
 I’m requesting a personal data removal through Removal.Ninja. Below is the information you need to process my request:
 
-- Full legal name:
-- Preferred email for confirmations:
-- URLs, accounts, or identifiers to remove:
-- Additional context:
+- Full legal name:${profile?.fullName ? ` ${profile.fullName}` : ''}
+- Preferred email for confirmations:${profile?.email ? ` ${profile.email}` : ''}
+- URLs, accounts, or identifiers to remove:${profile?.identifiers ? ` ${profile.identifiers.split('\n').filter(Boolean).join(', ')}` : ''}
+- Additional context:${profile?.location ? ` Listed in ${profile.location}` : ''}
 
 Please let me know if you require anything else to verify my identity.
 
@@ -83,13 +85,16 @@ const XmtpMessageSection: React.FC<XmtpMessageSectionProps> = ({
 }) => {
   const signer = useSigner();
   const address = useAddress();
-  const [xmtpClient, setXmtpClient] = useState<any | null>(null); // TODO: Replace 'any' with proper Client type when XMTP is installed
+  const [xmtpClient, setXmtpClient] = useState<Client | null>(null);
   const [initializingClient, setInitializingClient] = useState(false);
   const [recipientAddress, setRecipientAddress] = useState('');
   const [messageBody, setMessageBody] = useState('');
   const [hasEditedMessage, setHasEditedMessage] = useState(false);
   const [statusMessage, setStatusMessage] = useState<StatusMessage | null>(null);
   const [sendingMessage, setSendingMessage] = useState(false);
+  const profiles = useVault().contents?.profiles ?? [];
+  const [profileId, setProfileId] = useState<string>();
+  const profile = profiles.find((candidate) => candidate.id === profileId) ?? profiles[0];
 
   const selectedProcessorOptions = useMemo(
     () =>
@@ -119,9 +124,9 @@ const XmtpMessageSection: React.FC<XmtpMessageSectionProps> = ({
 
   useEffect(() => {
     if (!hasEditedMessage) {
-      setMessageBody(buildMessageTemplate(selectedProcessorOptions));
+      setMessageBody(buildMessageTemplate(selectedProcessorOptions, profile));
     }
-  }, [selectedProcessorOptions, hasEditedMessage]);
+  }, [selectedProcessorOptions, hasEditedMessage, profile]);
 
   const handleRecipientChange = (value: string) => {
     setRecipientAddress(value);
@@ -156,9 +161,7 @@ const XmtpMessageSection: React.FC<XmtpMessageSectionProps> = ({
 
     setInitializingClient(true);
     try {
-      // const env = resolveXmtpEnv();
-      // const client = await Client.create(signer, { env }); // TODO: Enable when XMTP is installed
-      const client = null; // Placeholder
+      const client = await Client.create(signer, { env: resolveXmtpEnv() });
       setXmtpClient(client);
       setStatusMessage({
         tone: 'success',
@@ -306,6 +309,26 @@ const XmtpMessageSection: React.FC<XmtpMessageSectionProps> = ({
             )}
           </div>
 
+          {profiles.length > 1 && (
+            <div>
+              <label className="form-label" htmlFor="message-profile">
+                Fill details from
+              </label>
+              <select
+                id="message-profile"
+                className="form-input"
+                value={profile?.id}
+                onChange={(event) => setProfileId(event.target.value)}
+              >
+                {profiles.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="form-label" htmlFor="message-body">
               Message details
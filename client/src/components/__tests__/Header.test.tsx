@@ -2,17 +2,10 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { ThirdwebProvider } from '@thirdweb-dev/react';
+import { connectWallet, resetThirdwebFixture } from '../../test-utils/thirdweb';
 import Header from '../Header';
 
-// Mock Thirdweb hooks
-jest.mock('@thirdweb-dev/react', () => ({
-  __esModule: true,
-  ThirdwebProvider: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
-  useAddress: jest.fn(),
-  useDisconnect: jest.fn(),
-  useConnectionStatus: jest.fn(),
-  ConnectWallet: jest.fn(() => <button>Connect Wallet</button>),
-}));
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
 
 const renderWithProviders = (component: React.ReactElement) => {
   return render(
@@ -26,14 +19,10 @@ const renderWithProviders = (component: React.ReactElement) => {
 
 describe('Header Component', () => {
   beforeEach(() => {
-    jest.clearAllMocks();
+    resetThirdwebFixture();
   });
 
   test('renders removal.ninja logo and navigation', () => {
-    const { useAddress, useConnectionStatus } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-    useConnectionStatus.mockReturnValue('disconnected');
-
     renderWithProviders(<Header />);
     
     expect(screen.getByText('🥷 removal.ninja')).toBeInTheDocument();
@@ -42,21 +31,18 @@ describe('Header Component', () => {
   });
 
   test('shows additional navigation when wallet is connected', () => {
-    const { useAddress, useConnectionStatus } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue('0x1234567890123456789012345678901234567890');
-    useConnectionStatus.mockReturnValue('connected');
+    connectWallet({ address: '0x1234567890123456789012345678901234567890' });
 
     renderWithProviders(<Header />);
     
     expect(screen.getByText('Dashboard')).toBeInTheDocument();
     expect(screen.getByText('Processor')).toBeInTheDocument();
+    expect(screen.getByText('Verifier')).toBeInTheDocument();
+    expect(screen.getByText('Disputes')).toBeInTheDocument();
   });
 
   test('displays formatted address when connected', () => {
-    const { useAddress, useConnectionStatus } = require('@thirdweb-dev/react');
-    const mockAddress = '0x1234567890123456789012345678901234567890';
-    useAddress.mockReturnValue(mockAddress);
-    useConnectionStatus.mockReturnValue('connected');
+    connectWallet({ address: '0x1234567890123456789012345678901234567890' });
 
     renderWithProviders(<Header />);
     
@@ -64,19 +50,10 @@ describe('Header Component', () => {
   });
 
   test('shows connect wallet button when disconnected', () => {
-    const { useAddress, useConnectionStatus, ConnectWallet } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-    useConnectionStatus.mockReturnValue('disconnected');
-
     renderWithProviders(<Header />);
 
-    expect(ConnectWallet).toHaveBeenCalled();
-
-    const [props] = ConnectWallet.mock.calls[0];
-    expect(props).toMatchObject({
-      theme: 'light',
-      btnTitle: 'Connect Wallet',
-    });
-    expect(props.className).toContain('!bg-ninja-600');
+    const connectButton = screen.getByRole('button', { name: 'Connect Wallet' });
+    expect(connectButton).toHaveAttribute('data-theme', 'light');
+    expect(connectButton).toHaveClass('!bg-ninja-600');
   });
 });
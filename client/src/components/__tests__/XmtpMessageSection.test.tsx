@@ -1,6 +1,7 @@
 import React from 'react';
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 
+import type { SubjectProfile } from '../../vault';
 import XmtpMessageSection from '../XmtpMessageSection';
 
 const mockCreate = jest.fn();
@@ -22,6 +23,23 @@ jest.mock('@thirdweb-dev/react', () => ({
   useAddress: () => mockUseAddress(),
 }));
 
+const mockUseVault = jest.fn();
+
+jest.mock('../../context/VaultContext', () => ({
+  useVault: () => mockUseVault(),
+}));
+
+const profile = (overrides: Partial<SubjectProfile>): SubjectProfile => ({
+  id: 'home',
+  label: 'Home',
+  fullName: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '',
+  location: 'Portland, OR',
+  identifiers: 'https://spokeo.com/Jane-Doe\n\nhttps://radaris.com/p/Jane/Doe',
+  ...overrides,
+});
+
 describe('XmtpMessageSection', () => {
   beforeEach(() => {
     mockCreate.mockReset();
@@ -30,9 +48,11 @@ describe('XmtpMessageSection', () => {
     mockNewConversation.mockReset();
     mockUseSigner.mockReset();
     mockUseAddress.mockReset();
+    mockUseVault.mockReset();
 
     mockUseSigner.mockReturnValue({});
     mockUseAddress.mockReturnValue('0x1234567890abcdef1234567890abcdef12345678');
+    mockUseVault.mockReturnValue({ status: 'locked' });
 
     mockCanMessage.mockResolvedValue(true);
     mockSend.mockResolvedValue(undefined);
@@ -65,7 +85,7 @@ describe('XmtpMessageSection', () => {
     ],
   };
 
-  it('prefills the secure message template once XMTP is enabled', async () => {
+  it('prefills a blank secure message template while the vault is locked', async () => {
     render(<XmtpMessageSection {...baseProps} />);
 
     fireEvent.click(screen.getByRole('button', { name: /enable xmtp messaging/i }));
@@ -77,7 +97,33 @@ describe('XmtpMessageSection', () => {
     const textarea = await screen.findByLabelText(/message details/i);
     const message = (textarea as HTMLTextAreaElement).value;
     expect(message).toContain('Hello PrivacyPro Services, FastRemoval Inc,');
-    expect(message).toContain('- Full legal name:');
+    expect(message).toContain('- Full legal name:\n');
+    expect(message).toContain('- Additional context:\n');
+  });
+
+  it('fills the template from the first vault profile and switches profiles on request', async () => {
+    mockUseVault.mockReturnValue({
+      status: 'unlocked',
+      contents: {
+        profiles: [profile({}), profile({ id: 'work', label: 'Work', fullName: 'J. Doe', email: 'jd@work.example' })],
+      },
+    });
+    render(<XmtpMessageSection {...baseProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /enable xmtp messaging/i }));
+
+    const textarea = (await screen.findByLabelText(/message details/i)) as HTMLTextAreaElement;
+    expect(textarea.value).toContain('- Full legal name: Jane Doe\n');
+    expect(textarea.value).toContain('- Preferred email for confirmations: jane@example.com\n');
+    expect(textarea.value).toContain(
+      '- URLs, accounts, or identifiers to remove: https://spokeo.com/Jane-Doe, https://radaris.com/p/Jane/Doe\n'
+    );
+    expect(textarea.value).toContain('- Additional context: Listed in Portland, OR\n');
+
+    fireEvent.change(screen.getByLabelText(/fill details from/i), { target: { value: 'work' } });
+
+    expect(textarea.value).toContain('- Full legal name: J. Doe\n');
+    expect(textarea.value).toContain('- Preferred email for confirmations: jd@work.example\n');
   });
 
   it('lets the user populate the recipient address from a processor shortcut', async () => {
@@ -0,0 +1,56 @@
+import {
+  BROKER_METADATA,
+  BROKER_METADATA_STORAGE_KEY,
+  brokerTagsFor,
+  parseBrokerMetadata,
+  saveBrokerTags,
+  withBrokerTags,
+} from '../brokerMetadata';
+import { DataBroker } from '../../types/contracts';
+
+describe('broker metadata', () => {
+  beforeEach(() => {
+    window.localStorage.removeItem(BROKER_METADATA_STORAGE_KEY);
+  });
+
+  test('ships a document that passes its schema', () => {
+    expect(BROKER_METADATA.brokers['spokeo.com']).toEqual(['people-search', 'public-records']);
+  });
+
+  test('rejects unknown tags, repeated tags and keys that are not hostnames', () => {
+    const parse = (brokers: object) => () => parseBrokerMetadata({ version: '1', brokers }, 'test.json');
+
+    expect(parse({ 'spokeo.com': ['astrology'] })).toThrow(
+      "Invalid broker metadata test.json: metadata/brokers/spokeo.com/0 must be equal to one of the allowed values"
+    );
+    expect(parse({ 'spokeo.com': ['credit', 'credit'] })).toThrow(/must NOT have duplicate items/);
+    expect(parse({ 'https://spokeo.com': ['credit'] })).toThrow(/property name must be valid/);
+  });
+
+  test('keys sites by the registrable domain duplicate checks compare', () => {
+    saveBrokerTags('https://optout.peoplelooker.com', ['background-checks']);
+
+    expect(brokerTagsFor('https://WWW.PeopleLooker.com/optout')).toEqual(['background-checks']);
+    expect(brokerTagsFor('https://optout.spokeo.com')).toEqual(['people-search', 'public-records']);
+    expect(brokerTagsFor('spokeo')).toEqual([]);
+  });
+
+  test('fills in tags kept in this browser for sites the document does not cover', () => {
+    saveBrokerTags('https://www.peoplelooker.com', ['background-checks', 'people-search']);
+    saveBrokerTags('https://spokeo.com', ['marketing']);
+
+    expect(brokerTagsFor('https://peoplelooker.com')).toEqual(['people-search', 'background-checks']);
+    expect(brokerTagsFor('https://www.spokeo.com')).toEqual(['people-search', 'public-records']);
+
+    saveBrokerTags('https://peoplelooker.com', []);
+    expect(brokerTagsFor('https://peoplelooker.com')).toEqual([]);
+  });
+
+  test('ignores a stored document that fails the schema', () => {
+    window.localStorage.setItem(BROKER_METADATA_STORAGE_KEY, JSON.stringify({ brokers: { 'x.com': 'credit' } }));
+    const broker = { id: 2, name: 'Radaris', website: 'https://radaris.com', tags: [] } as unknown as DataBroker;
+
+    expect(withBrokerTags([broker])[0].tags).toEqual(['people-search', 'public-records']);
+    expect(brokerTagsFor('https://x.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { SUPPORTED_NETWORKS, switchNetworkInWallet } from '../contracts';
+
+describe('switchNetworkInWallet', () => {
+  const originalEthereum = window.ethereum;
+
+  afterEach(() => {
+    window.ethereum = originalEthereum;
+  });
+
+  test('asks the wallet to switch to the selected chain', async () => {
+    const request = jest.fn().mockResolvedValue(null);
+    window.ethereum = { request } as any;
+
+    await switchNetworkInWallet('BASE_SEPOLIA');
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledWith({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: '0x14a34' }],
+    });
+  });
+
+  test('adds the chain when the wallet does not know it', async () => {
+    const request = jest.fn().mockRejectedValueOnce({ code: 4902 }).mockResolvedValueOnce(null);
+    window.ethereum = { request } as any;
+
+    await switchNetworkInWallet('LOCALHOST');
+
+    expect(request).toHaveBeenLastCalledWith({
+      method: 'wallet_addEthereumChain',
+      params: [expect.objectContaining({ chainId: '0x7a69', rpcUrls: [SUPPORTED_NETWORKS.LOCALHOST.rpcUrl] })],
+    });
+  });
+
+  test('rethrows other wallet errors', async () => {
+    const request = jest.fn().mockRejectedValue({ code: 4001, message: 'User rejected the request.' });
+    window.ethereum = { request } as any;
+
+    await expect(switchNetworkInWallet('BASE_SEPOLIA')).rejects.toMatchObject({ code: 4001 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test('fails without an injected wallet', async () => {
+    window.ethereum = undefined;
+
+    await expect(switchNetworkInWallet('BASE_SEPOLIA')).rejects.toThrow('Switch your wallet to Base Sepolia');
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  DEPLOYMENTS,
+  getContractAddress,
+  getContractAddresses,
+  getContractConfig,
+  isDevelopment,
+  NetworkKey,
+} from '../contracts';
+import { parseDeploymentManifest, ZERO_ADDRESS } from '../deployments';
+import { FACTORY_ABI } from '../../contracts/abis';
+
+const manifest = () => ({
+  version: '2025.09.23',
+  chainId: 84532,
+  deployedAt: '2025-09-23T03:25:50Z',
+  contracts: {
+    REMOVAL_NINJA_TOKEN: { address: '0xA7b02F76D863b9467eCd80Eab3b9fd6aCe18200A', abi: 'RemovalNinja' },
+    DATA_BROKER_REGISTRY: { address: '0xC3760343D798f7A3DA9FCa33DBD725f7b3246760', abi: 'DataBrokerRegistryUltraSimple' },
+    TASK_FACTORY: { address: '0x6e7eF8A7B0219C0acE923dc9a0f76bBa65273Ef7', abi: 'RemovalTaskFactoryUltraSimple' },
+    SIMPLE_DEX: { address: '0x8936a4c0257C302d05cddf4ECeA7cC347AC63ccd', abi: 'SimpleDEX' },
+  },
+});
+
+describe('parseDeploymentManifest', () => {
+  test('accepts a complete manifest', () => {
+    expect(parseDeploymentManifest(manifest(), 'test.json', 84532).version).toBe('2025.09.23');
+  });
+
+  test('rejects a manifest missing a required contract', () => {
+    const invalid = manifest();
+    delete (invalid.contracts as Record<string, unknown>).TASK_FACTORY;
+
+    expect(() => parseDeploymentManifest(invalid, 'test.json', 84532)).toThrow(
+      "Invalid deployment manifest test.json: manifest/contracts must have required property 'TASK_FACTORY'"
+    );
+  });
+
+  test('rejects unknown ABIs and malformed addresses', () => {
+    const invalid = manifest();
+    invalid.contracts.SIMPLE_DEX = { address: '0x1234', abi: 'UniswapV2' };
+
+    expect(() => parseDeploymentManifest(invalid, 'test.json', 84532)).toThrow(/SIMPLE_DEX\/address must match pattern/);
+    expect(() => parseDeploymentManifest(invalid, 'test.json', 84532)).toThrow(/SIMPLE_DEX\/abi must be equal to one of the allowed values/);
+  });
+
+  test('accepts a deployment block and rejects a negative one', () => {
+    const registry = { ...manifest().contracts.DATA_BROKER_REGISTRY, deploymentBlock: 31337 };
+    const withBlock = { ...manifest(), contracts: { ...manifest().contracts, DATA_BROKER_REGISTRY: registry } };
+    expect(parseDeploymentManifest(withBlock, 'test.json', 84532).contracts.DATA_BROKER_REGISTRY.deploymentBlock).toBe(31337);
+
+    registry.deploymentBlock = -1;
+    expect(() => parseDeploymentManifest(withBlock, 'test.json', 84532)).toThrow(
+      /DATA_BROKER_REGISTRY\/deploymentBlock must be >= 0/
+    );
+  });
+
+  test('fails loudly on a zero address', () => {
+    const invalid = manifest();
+    invalid.contracts.SIMPLE_DEX.address = ZERO_ADDRESS;
+
+    expect(() => parseDeploymentManifest(invalid, 'test.json', 84532)).toThrow(
+      'Deployment manifest test.json lists SIMPLE_DEX at the zero address'
+    );
+  });
+
+  test('rejects a manifest for another chain', () => {
+    expect(() => parseDeploymentManifest(manifest(), 'test.json', 31337)).toThrow(
+      'Deployment manifest test.json is for chain 84532, expected 31337'
+    );
+  });
+});
+
+describe('deployed contracts', () => {
+  test('resolves addresses and ABIs from the manifest', () => {
+    expect(getContractAddress('BASE_SEPOLIA', 'SIMPLE_DEX')).toBe('0x8936a4c0257C302d05cddf4ECeA7cC347AC63ccd');
+    expect(getContractConfig('BASE_SEPOLIA', 'TASK_FACTORY')?.abi).toBe(FACTORY_ABI);
+  });
+
+  // Public RPCs reject log queries from genesis, so broker history and tasks start at these blocks
+  test.each(
+    (Object.keys(DEPLOYMENTS) as NetworkKey[]).filter((networkKey) => !isDevelopment(networkKey))
+  )('%s records where its event-queried contracts were deployed', (networkKey) => {
+    const { contracts } = DEPLOYMENTS[networkKey];
+    expect(contracts.DATA_BROKER_REGISTRY.deploymentBlock).toEqual(expect.any(Number));
+    expect(contracts.TASK_FACTORY.deploymentBlock).toEqual(expect.any(Number));
+  });
+
+  test('throws for a contract the network has not deployed', () => {
+    expect(getContractAddresses('LOCALHOST').SIMPLE_DEX).toBeUndefined();
+    expect(getContractConfig('LOCALHOST', 'SIMPLE_DEX')).toBeUndefined();
+    expect(() => getContractAddress('LOCALHOST', 'SIMPLE_DEX')).toThrow(
+      'SIMPLE_DEX is not deployed on Localhost (deployment local)'
+    );
+  });
+});
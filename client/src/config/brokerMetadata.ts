@@ -0,0 +1,87 @@
+// Schema and lookup for the broker metadata document in config/broker-metadata.json. The deployed
+// registry has no tags, so categories live off-chain, keyed by the registrable domain of the broker's
+// website rather than its id so one document serves every network. Duplicate checks compare
+// submissions by the same domain, so a site they treat as registered shares its tags.
+import Ajv from 'ajv';
+import { BROKER_TAGS, BrokerMetadataDocument, BrokerTag, DataBroker } from '../types/contracts';
+import { registrableDomain } from '../utils/brokerDuplicates';
+import brokerMetadata from './broker-metadata.json';
+
+export const BROKER_METADATA_STORAGE_KEY = 'removal-ninja:broker-metadata';
+
+export const BROKER_METADATA_SCHEMA = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    brokers: {
+      type: 'object',
+      propertyNames: { pattern: '^[a-z0-9-]+(\\.[a-z0-9-]+)+$' },
+      additionalProperties: {
+        type: 'array',
+        items: { type: 'string', enum: [...BROKER_TAGS] },
+        minItems: 1,
+        uniqueItems: true,
+      },
+    },
+  },
+  required: ['version', 'brokers'],
+  additionalProperties: false,
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateMetadata = ajv.compile<BrokerMetadataDocument>(BROKER_METADATA_SCHEMA);
+
+export const parseBrokerMetadata = (document: unknown, source: string): BrokerMetadataDocument => {
+  if (!validateMetadata(document)) {
+    throw new Error(`Invalid broker metadata ${source}: ${ajv.errorsText(validateMetadata.errors, { dataVar: 'metadata' })}`);
+  }
+  return document;
+};
+
+// Parsed at startup, so a bad edit to the document fails the build's tests rather than a filter
+export const BROKER_METADATA = parseBrokerMetadata(brokerMetadata, 'broker-metadata.json');
+
+// ============ Tags entered in this browser ============
+
+const EMPTY_METADATA: BrokerMetadataDocument = { version: '1', brokers: {} };
+
+// A stored document that no longer passes the schema is dropped rather than breaking the broker list
+const readLocalMetadata = (): BrokerMetadataDocument => {
+  try {
+    return parseBrokerMetadata(
+      JSON.parse(window.localStorage.getItem(BROKER_METADATA_STORAGE_KEY) ?? 'null') ?? EMPTY_METADATA,
+      BROKER_METADATA_STORAGE_KEY
+    );
+  } catch {
+    return EMPTY_METADATA;
+  }
+};
+
+/**
+ * Keep the tags picked for a submitted broker in this browser, in the same shape as the
+ * shared document so they can be copied into it. No tags removes the entry.
+ */
+export const saveBrokerTags = (website: string, tags: BrokerTag[]) => {
+  const site = registrableDomain(website);
+  if (!site) return;
+  const local = readLocalMetadata();
+  const brokers = { ...local.brokers };
+  if (tags.length > 0) brokers[site] = BROKER_TAGS.filter((tag) => tags.includes(tag));
+  else delete brokers[site];
+  const document = parseBrokerMetadata({ ...local, brokers }, BROKER_METADATA_STORAGE_KEY);
+  window.localStorage.setItem(BROKER_METADATA_STORAGE_KEY, JSON.stringify(document));
+};
+
+const lookupTags = (website: string, local: BrokerMetadataDocument): BrokerTag[] => {
+  const site = registrableDomain(website);
+  if (!site) return [];
+  return BROKER_METADATA.brokers[site] ?? local.brokers[site] ?? [];
+};
+
+// The shared document wins; tags from this browser only fill in sites it does not cover yet
+export const brokerTagsFor = (website: string): BrokerTag[] => lookupTags(website, readLocalMetadata());
+
+export const withBrokerTags = (brokers: DataBroker[]): DataBroker[] => {
+  const local = readLocalMetadata();
+  return brokers.map((broker) => ({ ...broker, tags: lookupTags(broker.website, local) }));
+};
@@ -1,48 +1,16 @@
 // Contract configuration for RemovalNinja modular protocol
+import { CONTRACT_ABIS } from '../contracts/abis';
+import { ContractConfig, DeploymentManifest, NetworkConfig } from '../types/contracts';
+import { ContractName, parseDeploymentManifest, RequiredContractName } from './deployments';
+import baseSepoliaDeployment from './deployments/base-sepolia.json';
+import localhostDeployment from './deployments/localhost.json';
+import simulatedDeployment from './deployments/simulated.json';
+
+export type { ContractName, RequiredContractName } from './deployments';
 
 // Thirdweb configuration
 export const THIRDWEB_CLIENT_ID = "f527a70b19f540f6574f9071aab31da1";
 
-// Contract addresses for different networks
-export const CONTRACTS = {
-  LOCALHOST: {
-    REMOVAL_NINJA_TOKEN: {
-      address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
-      abi: [], // Will be populated with contract ABI
-    },
-    DATA_BROKER_REGISTRY: {
-      address: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512", 
-      abi: [], // Will be populated with contract ABI
-    },
-    TASK_FACTORY: {
-      address: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
-      abi: [], // Will be populated with contract ABI
-    },
-    SIMPLE_DEX: {
-      address: "0x0000000000000000000000000000000000000000", // Not deployed on localhost yet
-      abi: [], // Will be populated with contract ABI
-    },
-  },
-    BASE_SEPOLIA: {
-      REMOVAL_NINJA_TOKEN: {
-        address: "0xA7b02F76D863b9467eCd80Eab3b9fd6aCe18200A", // Deployed Sept 23, 2025
-        abi: [],
-      },
-      DATA_BROKER_REGISTRY: {
-        address: "0xC3760343D798f7A3DA9FCa33DBD725f7b3246760", // Deployed Sept 23, 2025
-        abi: [],
-      },
-      TASK_FACTORY: {
-        address: "0x6e7eF8A7B0219C0acE923dc9a0f76bBa65273Ef7", // Deployed Sept 23, 2025
-        abi: [],
-      },
-      SIMPLE_DEX: {
-        address: "0x8936a4c0257C302d05cddf4ECeA7cC347AC63ccd", // Deployed Sept 23, 2025
-        abi: [],
-      },
-    },
-} as const;
-
 // Network configuration
 export const SUPPORTED_NETWORKS = {
   LOCALHOST: {
@@ -66,28 +34,57 @@ export const SUPPORTED_NETWORKS = {
       symbol: "ETH",
       decimals: 18,
     },
+    multicall3: "0xcA11bde05977b3631167028862bE2a173976CA11",
+  },
+  // In-memory chain from src/simulation; nothing is sent to these URLs (.invalid never resolves)
+  SIMULATED: {
+    chainId: 1337,
+    name: "Simulated (offline)",
+    rpcUrl: "http://simulated.invalid",
+    blockExplorer: "http://simulated.invalid",
+    nativeCurrency: {
+      name: "Ethereum",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    simulated: true,
   },
 } as const;
 
-// Current active network (switch to BASE_SEPOLIA for production testing)
-export const ACTIVE_NETWORK = SUPPORTED_NETWORKS.BASE_SEPOLIA;
+export type NetworkKey = keyof typeof SUPPORTED_NETWORKS;
+export type ContractAddresses = Record<RequiredContractName, string> & Partial<Record<ContractName, string>>;
 
-// Get contracts for current network
-const getCurrentNetworkContracts = () => {
-  // Use type assertion to handle compile-time chain ID comparison
-  const activeChainId = ACTIVE_NETWORK.chainId as number;
-  const localhostChainId = SUPPORTED_NETWORKS.LOCALHOST.chainId;
-  const isLocalhost = activeChainId === localhostChainId;
-  return isLocalhost ? CONTRACTS.LOCALHOST : CONTRACTS.BASE_SEPOLIA;
+// Deployed contracts per network, validated when this module loads
+export const DEPLOYMENTS: Record<NetworkKey, DeploymentManifest> = {
+  LOCALHOST: parseDeploymentManifest(localhostDeployment, 'localhost.json', SUPPORTED_NETWORKS.LOCALHOST.chainId),
+  BASE_SEPOLIA: parseDeploymentManifest(baseSepoliaDeployment, 'base-sepolia.json', SUPPORTED_NETWORKS.BASE_SEPOLIA.chainId),
+  SIMULATED: parseDeploymentManifest(simulatedDeployment, 'simulated.json', SUPPORTED_NETWORKS.SIMULATED.chainId),
 };
 
-// Contract addresses for current network
-export const CONTRACT_ADDRESSES = {
-  REMOVAL_NINJA_TOKEN: getCurrentNetworkContracts().REMOVAL_NINJA_TOKEN.address,
-  DATA_BROKER_REGISTRY: getCurrentNetworkContracts().DATA_BROKER_REGISTRY.address,
-  TASK_FACTORY: getCurrentNetworkContracts().TASK_FACTORY.address,
-  SIMPLE_DEX: getCurrentNetworkContracts().SIMPLE_DEX.address,
-} as const;
+export const isNetworkKey = (value: unknown): value is NetworkKey =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SUPPORTED_NETWORKS, value);
+
+// Network used until the user picks one; set REACT_APP_NETWORK=LOCALHOST for local development,
+// or REACT_APP_NETWORK=SIMULATED to run with no node at all
+const ENV_NETWORK = process.env.REACT_APP_NETWORK;
+export const DEFAULT_NETWORK_KEY: NetworkKey = isNetworkKey(ENV_NETWORK) ? ENV_NETWORK : 'BASE_SEPOLIA';
+
+export const getNetwork = (networkKey: NetworkKey): NetworkConfig => SUPPORTED_NETWORKS[networkKey];
+
+export const getDeployment = (networkKey: NetworkKey): DeploymentManifest => DEPLOYMENTS[networkKey];
+
+// Contract addresses for a network; contracts missing from its manifest are left out
+export const getContractAddresses = (networkKey: NetworkKey): ContractAddresses => {
+  const { contracts } = getDeployment(networkKey);
+  return {
+    REMOVAL_NINJA_TOKEN: contracts.REMOVAL_NINJA_TOKEN.address,
+    DATA_BROKER_REGISTRY: contracts.DATA_BROKER_REGISTRY.address,
+    TASK_FACTORY: contracts.TASK_FACTORY.address,
+    SIMPLE_DEX: contracts.SIMPLE_DEX?.address,
+    VERIFIER_REGISTRY: contracts.VERIFIER_REGISTRY?.address,
+    DISPUTE_RESOLUTION: contracts.DISPUTE_RESOLUTION?.address,
+  };
+};
 
 // Common contract constants
 export const CONTRACT_CONSTANTS = {
@@ -99,45 +96,62 @@ export const CONTRACT_CONSTANTS = {
   MAX_SELECTED_PROCESSORS: 5, // Max processors a user can select
 } as const;
 
-// Environment-specific configuration
-export const getContractAddress = (contractName: keyof typeof CONTRACT_ADDRESSES): string => {
-  const address = CONTRACT_ADDRESSES[contractName];
-  
-  if (address.toLowerCase() === "0x0000000000000000000000000000000000000000") {
-    console.warn(`⚠️  ${contractName} address not configured. Please deploy and update config/contracts.ts`);
+// Address of a deployed contract; throws when the network's manifest does not list it
+export const getContractAddress = (networkKey: NetworkKey, contractName: ContractName): string => {
+  const deployment = getDeployment(networkKey);
+  const contract = deployment.contracts[contractName];
+
+  if (!contract) {
+    throw new Error(
+      `${contractName} is not deployed on ${getNetwork(networkKey).name} (deployment ${deployment.version}). Add it to config/deployments`
+    );
   }
-  
-  return address;
+
+  return contract.address;
 };
 
-// Helper functions for each contract
-export const getTokenAddress = () => getContractAddress('REMOVAL_NINJA_TOKEN');
-export const getRegistryAddress = () => getContractAddress('DATA_BROKER_REGISTRY');
-export const getFactoryAddress = () => getContractAddress('TASK_FACTORY');
-export const getDexAddress = () => getContractAddress('SIMPLE_DEX');
+// Address and ABI of a contract, or undefined when the network's manifest does not list it
+export const getContractConfig = (networkKey: NetworkKey, contractName: ContractName): ContractConfig | undefined => {
+  const contract = getDeployment(networkKey).contracts[contractName];
+  return contract ? { address: contract.address, abi: CONTRACT_ABIS[contract.abi] } : undefined;
+};
+
+// Multicall3 address for a network (undefined on chains without it, e.g. a bare local node)
+export const getMulticallAddress = (networkKey: NetworkKey): string | undefined => getNetwork(networkKey).multicall3;
+
+export const getExplorerAddressUrl = (networkKey: NetworkKey, address: string): string =>
+  `${getNetwork(networkKey).blockExplorer}/address/${address}`;
+
+export const getExplorerTxUrl = (networkKey: NetworkKey, transactionHash: string): string =>
+  `${getNetwork(networkKey).blockExplorer}/tx/${transactionHash}`;
 
 // Helper function to validate network
-export const isValidNetwork = (chainId: number): boolean => {
-  return chainId === ACTIVE_NETWORK.chainId;
+export const isValidNetwork = (chainId: number, networkKey: NetworkKey): boolean => {
+  return chainId === getNetwork(networkKey).chainId;
 };
 
 // Network switch helpers
-export const addNetworkToWallet = async (networkKey: keyof typeof SUPPORTED_NETWORKS) => {
-  const network = SUPPORTED_NETWORKS[networkKey];
+const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
+
+// EIP-3326 error code for a chain the wallet has not been told about yet
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+const getAddChainParams = (network: NetworkConfig) => ({
+  chainId: toHexChainId(network.chainId),
+  chainName: network.name,
+  rpcUrls: [network.rpcUrl],
+  nativeCurrency: network.nativeCurrency,
+  blockExplorerUrls: [network.blockExplorer],
+});
+
+export const addNetworkToWallet = async (networkKey: NetworkKey) => {
+  const network = getNetwork(networkKey);
   
   if (typeof window.ethereum !== 'undefined') {
     try {
       await window.ethereum.request({
         method: 'wallet_addEthereumChain',
-        params: [
-          {
-            chainId: `0x${network.chainId.toString(16)}`,
-            chainName: network.name,
-            rpcUrls: [network.rpcUrl],
-            nativeCurrency: network.nativeCurrency,
-            blockExplorerUrls: [network.blockExplorer],
-          },
-        ],
+        params: [getAddChainParams(network)],
       });
     } catch (error) {
       console.error(`Failed to add ${network.name} network:`, error);
@@ -145,13 +159,34 @@ export const addNetworkToWallet = async (networkKey: keyof typeof SUPPORTED_NETW
   }
 };
 
+// Ask an injected wallet to switch chains, adding the chain first if the wallet does not know it
+export const switchNetworkInWallet = async (networkKey: NetworkKey) => {
+  const network = getNetwork(networkKey);
+
+  if (typeof window.ethereum === 'undefined') {
+    throw new Error(`Switch your wallet to ${network.name} to continue`);
+  }
+
+  try {
+    await window.ethereum.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: toHexChainId(network.chainId) }],
+    });
+  } catch (error: any) {
+    // MetaMask mobile nests the code under data.originalError
+    const code = error?.code ?? error?.data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN_ERROR) throw error;
+
+    await window.ethereum.request({
+      method: 'wallet_addEthereumChain',
+      params: [getAddChainParams(network)],
+    });
+  }
+};
+
 // Convenience functions
 export const addBaseSepoliaNetwork = () => addNetworkToWallet('BASE_SEPOLIA');
 export const addLocalhostNetwork = () => addNetworkToWallet('LOCALHOST');
 
 // Check if we're in development mode
-export const isDevelopment = () => {
-  const activeChainId = ACTIVE_NETWORK.chainId as number;
-  const localhostChainId = SUPPORTED_NETWORKS.LOCALHOST.chainId;
-  return activeChainId === localhostChainId;
-};
+export const isDevelopment = (networkKey: NetworkKey) => networkKey === 'LOCALHOST' || networkKey === 'SIMULATED';
@@ -0,0 +1,74 @@
+// Schema and validation for the per-chain deployment manifests in config/deployments
+import Ajv from 'ajv';
+import { CONTRACT_ABIS } from '../contracts/abis';
+import { DeploymentManifest } from '../types/contracts';
+
+export const CONTRACT_NAMES = [
+  'REMOVAL_NINJA_TOKEN',
+  'DATA_BROKER_REGISTRY',
+  'TASK_FACTORY',
+  'SIMPLE_DEX',
+  'VERIFIER_REGISTRY',
+  'DISPUTE_RESOLUTION',
+] as const;
+export type ContractName = typeof CONTRACT_NAMES[number];
+
+// Every chain needs the core protocol; the DEX is only deployed where tokens are sold, and
+// the verifier registry and dispute resolution only where the modular verification flow is live
+export const REQUIRED_CONTRACTS = ['REMOVAL_NINJA_TOKEN', 'DATA_BROKER_REGISTRY', 'TASK_FACTORY'] as const;
+export type RequiredContractName = typeof REQUIRED_CONTRACTS[number];
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const contractDeploymentSchema = {
+  type: 'object',
+  properties: {
+    address: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+    abi: { type: 'string', enum: Object.keys(CONTRACT_ABIS) },
+    deploymentBlock: { type: 'integer', minimum: 0 },
+  },
+  required: ['address', 'abi'],
+  additionalProperties: false,
+};
+
+export const DEPLOYMENT_MANIFEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    chainId: { type: 'integer', minimum: 1 },
+    deployedAt: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}T' },
+    contracts: {
+      type: 'object',
+      properties: CONTRACT_NAMES.reduce<Record<string, object>>(
+        (properties, name) => ({ ...properties, [name]: contractDeploymentSchema }),
+        {}
+      ),
+      required: [...REQUIRED_CONTRACTS],
+      additionalProperties: false,
+    },
+  },
+  required: ['version', 'chainId', 'contracts'],
+  additionalProperties: false,
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateManifest = ajv.compile<DeploymentManifest>(DEPLOYMENT_MANIFEST_SCHEMA);
+
+// Throws on anything the app cannot run against, so a bad manifest breaks startup instead of a later transaction
+export const parseDeploymentManifest = (manifest: unknown, source: string, chainId: number): DeploymentManifest => {
+  if (!validateManifest(manifest)) {
+    throw new Error(`Invalid deployment manifest ${source}: ${ajv.errorsText(validateManifest.errors, { dataVar: 'manifest' })}`);
+  }
+
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Deployment manifest ${source} is for chain ${manifest.chainId}, expected ${chainId}`);
+  }
+
+  Object.entries(manifest.contracts).forEach(([name, contract]) => {
+    if (contract.address.toLowerCase() === ZERO_ADDRESS) {
+      throw new Error(`Deployment manifest ${source} lists ${name} at the zero address; remove the entry or record the deployed address`);
+    }
+  });
+
+  return manifest;
+};
@@ -0,0 +1,34 @@
+import React, { createContext, useContext } from 'react';
+import { isDevelopment } from '../config/contracts';
+import { createConfiguredEvidenceStorage, createMemoryEvidenceStorage, EvidenceStorage } from '../evidence';
+import { useNetwork } from './NetworkContext';
+
+const configuredStorage = createConfiguredEvidenceStorage();
+
+// Files kept here are gone on reload and never reach other browsers, so only development
+// networks fall back to it
+const pageStorage = createMemoryEvidenceStorage();
+
+export const EVIDENCE_STORAGE_MISSING =
+  'No IPFS node is configured for this network, so evidence files cannot be stored or fetched. Set REACT_APP_IPFS_API_URL to enable them.';
+
+const EvidenceStorageContext = createContext<EvidenceStorage | undefined>(undefined);
+
+interface EvidenceStorageProviderProps {
+  children: React.ReactNode;
+  storage?: EvidenceStorage; // Configured from the environment by default
+}
+
+export const EvidenceStorageProvider: React.FC<EvidenceStorageProviderProps> = ({ children, storage }) => (
+  <EvidenceStorageContext.Provider value={storage}>{children}</EvidenceStorageContext.Provider>
+);
+
+/**
+ * Where evidence files are stored on the selected network, or undefined when nowhere
+ * would keep them: without an IPFS node, evidence cannot be submitted on public networks.
+ */
+export const useEvidenceStorage = (): EvidenceStorage | undefined => {
+  const provided = useContext(EvidenceStorageContext);
+  const { networkKey } = useNetwork();
+  return provided ?? configuredStorage ?? (isDevelopment(networkKey) ? pageStorage : undefined);
+};
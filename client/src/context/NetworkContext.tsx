@@ -0,0 +1,88 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { BaseSepoliaTestnet } from '@thirdweb-dev/chains';
+import type { Chain } from '@thirdweb-dev/chains';
+import {
+  ContractAddresses,
+  DEFAULT_NETWORK_KEY,
+  getContractAddresses,
+  getDeployment,
+  getNetwork,
+  isNetworkKey,
+  NetworkKey,
+  SUPPORTED_NETWORKS,
+} from '../config/contracts';
+import { DeploymentManifest, NetworkConfig } from '../types/contracts';
+
+export const NETWORK_STORAGE_KEY = 'removal-ninja:network';
+
+const toThirdwebChain = (networkKey: NetworkKey, network: NetworkConfig): Chain => ({
+  name: network.name,
+  chain: network.nativeCurrency.symbol,
+  rpc: [network.rpcUrl],
+  nativeCurrency: network.nativeCurrency,
+  shortName: networkKey.toLowerCase(),
+  slug: networkKey.toLowerCase(),
+  chainId: network.chainId,
+  testnet: true,
+  explorers: [{ name: network.name, url: network.blockExplorer, standard: 'EIP3091' }],
+});
+
+// Base Sepolia keeps thirdweb's chain definition so reads go through its RPC
+export const THIRDWEB_CHAINS: Record<NetworkKey, Chain> = {
+  LOCALHOST: toThirdwebChain('LOCALHOST', SUPPORTED_NETWORKS.LOCALHOST),
+  BASE_SEPOLIA: BaseSepoliaTestnet,
+  SIMULATED: toThirdwebChain('SIMULATED', SUPPORTED_NETWORKS.SIMULATED),
+};
+
+export interface NetworkContextValue {
+  networkKey: NetworkKey;
+  network: NetworkConfig;
+  addresses: ContractAddresses;
+  deployment: DeploymentManifest;
+  chain: Chain;
+  setNetworkKey: (networkKey: NetworkKey) => void;
+}
+
+const buildValue = (
+  networkKey: NetworkKey,
+  setNetworkKey: (networkKey: NetworkKey) => void
+): NetworkContextValue => ({
+  networkKey,
+  network: getNetwork(networkKey),
+  addresses: getContractAddresses(networkKey),
+  deployment: getDeployment(networkKey),
+  chain: THIRDWEB_CHAINS[networkKey],
+  setNetworkKey,
+});
+
+// Outside a provider (e.g. isolated component tests) the default network is used
+const NetworkContext = createContext<NetworkContextValue>(buildValue(DEFAULT_NETWORK_KEY, () => undefined));
+
+const loadNetworkKey = (): NetworkKey => {
+  try {
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (isNetworkKey(stored)) return stored;
+  } catch (error) {
+    console.warn('Could not read saved network:', error);
+  }
+  return DEFAULT_NETWORK_KEY;
+};
+
+export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [networkKey, setNetworkKeyState] = useState<NetworkKey>(loadNetworkKey);
+
+  const setNetworkKey = useCallback((nextKey: NetworkKey) => {
+    try {
+      window.localStorage.setItem(NETWORK_STORAGE_KEY, nextKey);
+    } catch (error) {
+      console.warn('Could not save network choice:', error);
+    }
+    setNetworkKeyState(nextKey);
+  }, []);
+
+  const value = useMemo(() => buildValue(networkKey, setNetworkKey), [networkKey, setNetworkKey]);
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+};
+
+export const useNetwork = (): NetworkContextValue => useContext(NetworkContext);
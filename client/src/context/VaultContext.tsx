@@ -0,0 +1,188 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useSigner } from '@thirdweb-dev/react';
+import { useAccount } from '../hooks/useAccount';
+import { takeLocalSubjectSalts } from '../utils/commitments';
+import {
+  createDefaultVaultStore,
+  createVault,
+  KdfParams,
+  KeySource,
+  SubjectProfile,
+  VAULT_KEY_MESSAGE,
+  VaultContents,
+  VaultStore,
+} from '../vault';
+
+export type VaultStatus = 'loading' | 'missing' | 'locked' | 'unlocked';
+
+// Activity that postpones the auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+
+export interface VaultContextValue {
+  status: VaultStatus;
+  kdf?: KdfParams; // How the vault on this device is unlocked
+  contents?: VaultContents; // Only while unlocked
+  create: (passphrase?: string) => Promise<void>; // Signs with the wallet when no passphrase is given
+  unlock: (passphrase?: string) => Promise<void>;
+  lock: () => void;
+  saveProfile: (profile: SubjectProfile) => Promise<void>;
+  removeProfile: (profileId: string) => Promise<void>;
+  saveSalt: (commitment: string, salt: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => Promise<void>;
+  exportBackup: () => Promise<string>;
+  importBackup: (backup: string, passphrase?: string) => Promise<void>;
+  destroy: () => Promise<void>;
+}
+
+const unavailable = async () => {
+  throw new Error('The vault is not available here');
+};
+
+// Outside a provider (e.g. isolated component tests) the vault reads as locked
+const VaultContext = createContext<VaultContextValue>({
+  status: 'locked',
+  create: unavailable,
+  unlock: unavailable,
+  lock: () => undefined,
+  saveProfile: unavailable,
+  removeProfile: unavailable,
+  saveSalt: unavailable,
+  setAutoLockMinutes: unavailable,
+  exportBackup: unavailable,
+  importBackup: unavailable,
+  destroy: unavailable,
+});
+
+interface VaultProviderProps {
+  children: React.ReactNode;
+  store?: VaultStore; // IndexedDB by default
+  subtle?: SubtleCrypto;
+}
+
+export const VaultProvider: React.FC<VaultProviderProps> = ({ children, store, subtle }) => {
+  const vault = useMemo(() => createVault(store ?? createDefaultVaultStore(), subtle), [store, subtle]);
+  const signer = useSigner();
+  const address = useAccount();
+
+  const [status, setStatus] = useState<VaultStatus>('loading');
+  const [kdf, setKdf] = useState<KdfParams>();
+  const [contents, setContents] = useState<VaultContents>();
+
+  useEffect(() => {
+    let cancelled = false;
+    vault.getKdf().then(
+      (stored) => {
+        if (cancelled) return;
+        setKdf(stored);
+        setStatus(stored ? 'locked' : 'missing');
+      },
+      (error) => {
+        console.warn('Could not read the vault:', error);
+        if (!cancelled) setStatus('missing');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [vault]);
+
+  // A wallet vault is keyed by the same signature every time, so signing again unlocks it
+  const keySource = useCallback(
+    async (passphrase?: string): Promise<KeySource> => {
+      if (passphrase !== undefined) return { method: 'passphrase', passphrase };
+      if (!signer || !address) {
+        throw new Error('Connect your wallet to sign for the vault key');
+      }
+      return { method: 'wallet', signature: await signer.signMessage(VAULT_KEY_MESSAGE) };
+    },
+    [signer, address]
+  );
+
+  // Salts saved before the vault was unlocked move into it
+  const opened = useCallback(
+    async (unlockedContents: VaultContents) => {
+      const localSalts = takeLocalSubjectSalts();
+      const next = Object.keys(localSalts).length
+        ? await vault.update((current) => ({ ...current, salts: { ...localSalts, ...current.salts } }))
+        : unlockedContents;
+      setKdf(await vault.getKdf());
+      setContents(next);
+      setStatus('unlocked');
+    },
+    [vault]
+  );
+
+  const lock = useCallback(() => {
+    vault.lock();
+    setContents(undefined);
+    setStatus((current) => (current === 'unlocked' ? 'locked' : current));
+  }, [vault]);
+
+  const update = useCallback(
+    async (change: (current: VaultContents) => VaultContents) => {
+      setContents(await vault.update(change));
+    },
+    [vault]
+  );
+
+  const autoLockMinutes = contents?.settings.autoLockMinutes;
+  useEffect(() => {
+    if (status !== 'unlocked' || !autoLockMinutes) return;
+
+    let timer = window.setTimeout(lock, autoLockMinutes * 60 * 1000);
+    const postpone = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, postpone));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, postpone));
+    };
+  }, [status, autoLockMinutes, lock]);
+
+  const value = useMemo<VaultContextValue>(
+    () => ({
+      status,
+      kdf,
+      contents,
+      create: async (passphrase) => opened(await vault.create(await keySource(passphrase), address)),
+      unlock: async (passphrase) => {
+        if (kdf?.method === 'wallet' && passphrase === undefined && kdf.address !== address?.toLowerCase()) {
+          throw new Error(`Switch to the wallet that created this vault (${kdf.address})`);
+        }
+        await opened(await vault.unlock(await keySource(passphrase)));
+      },
+      lock,
+      saveProfile: (profile) =>
+        update((current) => ({
+          ...current,
+          profiles: current.profiles.some((existing) => existing.id === profile.id)
+            ? current.profiles.map((existing) => (existing.id === profile.id ? profile : existing))
+            : current.profiles.concat(profile),
+        })),
+      removeProfile: (profileId) =>
+        update((current) => ({ ...current, profiles: current.profiles.filter((profile) => profile.id !== profileId) })),
+      saveSalt: (commitment, salt) =>
+        update((current) => ({
+          ...current,
+          salts: { ...current.salts, [commitment.toLowerCase()]: { salt, createdAt: Date.now() } },
+        })),
+      setAutoLockMinutes: (minutes) =>
+        update((current) => ({ ...current, settings: { ...current.settings, autoLockMinutes: minutes } })),
+      exportBackup: () => vault.exportBackup(),
+      importBackup: async (backup, passphrase) => opened(await vault.importBackup(backup, await keySource(passphrase))),
+      destroy: async () => {
+        await vault.destroy();
+        setKdf(undefined);
+        setContents(undefined);
+        setStatus('missing');
+      },
+    }),
+    [status, kdf, contents, vault, keySource, opened, lock, update, address]
+  );
+
+  return <VaultContext.Provider value={value}>{children}</VaultContext.Provider>;
+};
+
+export const useVault = (): VaultContextValue => useContext(VaultContext);
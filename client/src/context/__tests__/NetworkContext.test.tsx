@@ -0,0 +1,50 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { DEPLOYMENTS, SUPPORTED_NETWORKS } from '../../config/contracts';
+import { NETWORK_STORAGE_KEY, NetworkProvider, useNetwork } from '../NetworkContext';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <NetworkProvider>{children}</NetworkProvider>;
+
+describe('NetworkContext', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('defaults to Base Sepolia', () => {
+    const { result } = renderHook(() => useNetwork(), { wrapper });
+
+    expect(result.current.networkKey).toBe('BASE_SEPOLIA');
+    expect(result.current.network).toBe(SUPPORTED_NETWORKS.BASE_SEPOLIA);
+    expect(result.current.chain.chainId).toBe(84532);
+    expect(result.current.addresses.TASK_FACTORY).toBe(DEPLOYMENTS.BASE_SEPOLIA.contracts.TASK_FACTORY.address);
+    expect(result.current.deployment.version).toBe('2025.09.23');
+  });
+
+  test('restores a saved choice', () => {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, 'LOCALHOST');
+
+    const { result } = renderHook(() => useNetwork(), { wrapper });
+
+    expect(result.current.networkKey).toBe('LOCALHOST');
+    expect(result.current.chain.chainId).toBe(31337);
+    expect(result.current.chain.rpc).toEqual(['http://127.0.0.1:8545']);
+  });
+
+  test('ignores unknown saved values', () => {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, 'MAINNET');
+
+    const { result } = renderHook(() => useNetwork(), { wrapper });
+
+    expect(result.current.networkKey).toBe('BASE_SEPOLIA');
+  });
+
+  test('switches network and persists the choice', () => {
+    const { result } = renderHook(() => useNetwork(), { wrapper });
+
+    act(() => result.current.setNetworkKey('LOCALHOST'));
+
+    expect(result.current.networkKey).toBe('LOCALHOST');
+    expect(result.current.addresses.DATA_BROKER_REGISTRY).toBe(DEPLOYMENTS.LOCALHOST.contracts.DATA_BROKER_REGISTRY.address);
+    expect(window.localStorage.getItem(NETWORK_STORAGE_KEY)).toBe('LOCALHOST');
+  });
+});
@@ -0,0 +1,89 @@
+import { BigNumber } from 'ethers';
+import { decodeBroker, decodeTaskIds, decodeTaskSummary, decodeWorker } from '../decoders';
+import { FACTORY_ABI, REGISTRY_ABI } from '../abis';
+import { TaskStatus } from '../../types/contracts';
+
+// Mimics an ethers Result: positional values with named keys
+const result = (fields: Record<string, unknown>) =>
+  Object.assign(Object.values(fields), fields) as any;
+
+describe('Contract decoders', () => {
+  test('decodes a registry broker tuple by field name', () => {
+    const broker = decodeBroker(result({
+      id: BigNumber.from(3),
+      name: 'Spokeo',
+      website: 'https://www.spokeo.com',
+      removalLink: 'https://www.spokeo.com/optout',
+      contact: 'privacy@spokeo.com',
+      weight: BigNumber.from(300),
+      isActive: true,
+      totalRemovals: BigNumber.from(12),
+      totalDisputes: BigNumber.from(1),
+    }));
+
+    expect(broker).toEqual({
+      id: 3,
+      name: 'Spokeo',
+      website: 'https://www.spokeo.com',
+      removalLink: 'https://www.spokeo.com/optout',
+      contact: 'privacy@spokeo.com',
+      weight: 300,
+      isActive: true,
+      totalRemovals: 12,
+      totalDisputes: 1,
+      tags: [],
+    });
+  });
+
+  test('keeps worker stake as an exact decimal string', () => {
+    const worker = decodeWorker(result({
+      isRegistered: true,
+      stake: BigNumber.from('123456789012345678901234'),
+      completedTasks: BigNumber.from(4),
+      successRate: BigNumber.from(100),
+      reputation: BigNumber.from(98),
+      description: 'Privacy pro',
+      isSlashed: false,
+    }));
+
+    expect(worker.stake).toBe('123456789012345678901234');
+    expect(worker.completedTasks).toBe(4);
+  });
+
+  test('decodes task summary status into TaskStatus', () => {
+    const summary = decodeTaskSummary(result({
+      id: BigNumber.from(7),
+      broker: BigNumber.from(2),
+      status: 1,
+      worker: '0x1234567890123456789012345678901234567890',
+      payoutAmount: BigNumber.from('50000000000000000000'),
+      taskDeadline: BigNumber.from(1760000000),
+      evidenceCount: BigNumber.from(0),
+      disputed: false,
+    }));
+
+    expect(summary.status).toBe(TaskStatus.Requested);
+    expect(summary.payoutAmount).toBe('50000000000000000000');
+  });
+
+  test('decodes task id arrays', () => {
+    expect(decodeTaskIds([BigNumber.from(1), BigNumber.from(5)])).toEqual([1, 5]);
+  });
+});
+
+describe('Contract ABIs', () => {
+  const functionNames = (abi: typeof REGISTRY_ABI) =>
+    abi.filter((entry) => entry.type === 'function').map((entry) => entry.name);
+
+  test('registry ABI exposes the functions the client reads', () => {
+    expect(functionNames(REGISTRY_ABI)).toEqual(
+      expect.arrayContaining(['addBroker', 'brokers', 'getStats', 'nextBrokerId'])
+    );
+  });
+
+  test('factory ABI includes task and worker management functions', () => {
+    expect(functionNames(FACTORY_ABI)).toEqual(
+      expect.arrayContaining(['createTask', 'getUserTasks', 'registerWorker', 'workers', 'selfAssignToTask'])
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { defaultAbiCoder, Interface } from 'ethers/lib/utils';
+import { TOKEN_ABI } from '../abis';
+import { decodeContractError, formatContractError, formatFailure, isUserRejection, toValidationError } from '../errors';
+import { ContractErrorCode } from '../../types/contracts';
+
+const errorString = (reason: string) => `0x08c379a0${defaultAbiCoder.encode(['string'], [reason]).slice(2)}`;
+
+describe('decodeContractError', () => {
+  test('maps a revert reason from ethers', () => {
+    const error = Object.assign(new Error('cannot estimate gas'), {
+      code: 'UNPREDICTABLE_GAS_LIMIT',
+      reason: 'execution reverted: Insufficient stake amount',
+    });
+
+    expect(decodeContractError(error)).toEqual({
+      code: ContractErrorCode.InsufficientStake,
+      message: 'The stake is below the contract minimum.',
+      remedy: 'Increase the stake amount.',
+      field: 'stakeAmount',
+    });
+  });
+
+  test('decodes Error(string) revert data nested in the RPC error', () => {
+    const error = { code: -32603, message: 'Internal JSON-RPC error.', data: { code: 3, data: errorString('Too many processors selected') } };
+
+    expect(decodeContractError(error).code).toBe(ContractErrorCode.TooManyProcessors);
+  });
+
+  test('decodes OpenZeppelin custom errors', () => {
+    const data = new Interface(TOKEN_ABI as any[]).encodeErrorResult('ERC20InsufficientAllowance', [
+      '0x6e7eF8A7B0219C0acE923dc9a0f76bBa65273Ef7',
+      0,
+      100,
+    ]);
+
+    expect(decodeContractError({ error: { data } }).code).toBe(ContractErrorCode.InsufficientAllowance);
+  });
+
+  test('finds the reason inside a thirdweb error report', () => {
+    const error = new Error('Contract transaction failed\n\n╔═══╗\n║ Reason: Invalid broker ID ║\n╚═══╝');
+
+    expect(decodeContractError(error).code).toBe(ContractErrorCode.InvalidBroker);
+  });
+
+  test('keeps the transaction hash of a mined revert', () => {
+    const error = { code: 'CALL_EXCEPTION', reason: 'transaction failed', receipt: { transactionHash: '0xabc', status: 0 } };
+
+    expect(decodeContractError(error)).toEqual({
+      code: ContractErrorCode.Reverted,
+      message: 'The contract rejected the transaction.',
+      transaction: '0xabc',
+    });
+    expect(decodeContractError(error, '0xdef').transaction).toBe('0xdef');
+  });
+
+  test('recognises wallet and network failures', () => {
+    expect(decodeContractError({ code: 'INSUFFICIENT_FUNDS', message: 'insufficient funds for intrinsic transaction cost' }).code).toBe(
+      ContractErrorCode.InsufficientGasFunds
+    );
+    expect(decodeContractError(new Error('Transaction was cancelled by 0x2')).code).toBe(ContractErrorCode.TransactionReplaced);
+    expect(decodeContractError({ code: 'NETWORK_ERROR', message: 'could not detect network' }).code).toBe(
+      ContractErrorCode.NetworkError
+    );
+  });
+
+  test('falls back to the first line of an unknown message', () => {
+    expect(decodeContractError(new Error('Something odd\nstack details'))).toEqual({
+      code: ContractErrorCode.Unknown,
+      message: 'Something odd',
+    });
+  });
+});
+
+describe('user rejection', () => {
+  test('detects EIP-1193, ethers and message-only rejections', () => {
+    expect(isUserRejection({ code: 4001, message: 'User rejected the request.' })).toBe(true);
+    expect(isUserRejection({ code: 'ACTION_REJECTED', reason: 'user rejected transaction' })).toBe(true);
+    expect(isUserRejection(new Error('MetaMask Tx Signature: User denied transaction signature.'))).toBe(true);
+    expect(isUserRejection({ error: { code: 4001 } })).toBe(true);
+  });
+
+  test('does not treat reverts as rejections', () => {
+    expect(isUserRejection({ code: 'CALL_EXCEPTION', reason: 'Payout too low' })).toBe(false);
+    expect(decodeContractError({ code: 4001 }).code).toBe(ContractErrorCode.UserRejected);
+  });
+});
+
+describe('formatting', () => {
+  const revert = decodeContractError({ reason: 'Duration too long' });
+
+  test('joins message and remedy', () => {
+    expect(formatContractError(revert)).toBe('The task duration is longer than 90 days. Choose a duration of at most 90 days.');
+    expect(formatFailure('Error creating task', revert)).toBe(
+      'Error creating task: The task duration is longer than 90 days. Choose a duration of at most 90 days.'
+    );
+  });
+
+  test('skips alerts for rejected signatures', () => {
+    expect(formatFailure('Error creating task', decodeContractError({ code: 4001 }))).toBeNull();
+  });
+
+  test('maps input reverts to a form field', () => {
+    expect(toValidationError(revert)).toEqual({ field: 'duration', message: 'The task duration is longer than 90 days.' });
+    expect(toValidationError(decodeContractError({ code: 'NETWORK_ERROR' }))).toBeNull();
+  });
+});
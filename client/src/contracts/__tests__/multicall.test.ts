@@ -0,0 +1,107 @@
+import { Interface } from 'ethers/lib/utils';
+import { REGISTRY_ABI } from '../abis';
+import { RegistryClient } from '../clients';
+import { chunk, fetchAllBrokers, mapWithConcurrency } from '../multicall';
+import { DataBroker } from '../../types/contracts';
+
+const registryInterface = new Interface(REGISTRY_ABI);
+
+const makeBroker = (id: number): DataBroker => ({
+  id,
+  name: `Broker ${id}`,
+  website: `https://broker${id}.example.com`,
+  removalLink: `https://broker${id}.example.com/optout`,
+  contact: `privacy@broker${id}.example.com`,
+  weight: 100,
+  isActive: true,
+  totalRemovals: 0,
+  totalDisputes: 0,
+  tags: [],
+});
+
+const makeRegistry = (): RegistryClient => ({
+  contract: { getAddress: () => '0x00000000000000000000000000000000000000aa' } as any,
+  nextBrokerId: jest.fn(),
+  getStats: jest.fn(),
+  addBroker: jest.fn(),
+  getBroker: jest.fn(async (id: number) => makeBroker(id)),
+  getBrokerHistory: jest.fn(),
+});
+
+const makeMulticall = () => ({
+  call: jest.fn(async (_method: string, [calls]: [{ callData: string }[]]) =>
+    calls.map(({ callData }) => {
+      const [id] = registryInterface.decodeFunctionData('brokers', callData);
+      const broker = makeBroker(id.toNumber());
+      return {
+        success: true,
+        returnData: registryInterface.encodeFunctionResult('brokers', [
+          broker.id, broker.name, broker.website, broker.removalLink, broker.contact,
+          broker.weight, broker.isActive, broker.totalRemovals, broker.totalDisputes,
+        ]),
+      };
+    })
+  ),
+});
+
+describe('Multicall helpers', () => {
+  test('chunk splits items into fixed-size batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  test('mapWithConcurrency never exceeds the limit and keeps order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (n) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return n * 10;
+    });
+
+    expect(maxInFlight).toBeLessThanOrEqual(2);
+    expect(results).toEqual([10, 20, 30, 40, 50, 60]);
+  });
+});
+
+describe('fetchAllBrokers', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('aggregates broker reads in batches through Multicall3', async () => {
+    const registry = makeRegistry();
+    const multicall = makeMulticall();
+
+    const brokers = await fetchAllBrokers(registry, multicall as any, 251);
+
+    expect(brokers).toHaveLength(250);
+    expect(brokers[249]).toEqual(makeBroker(250));
+    expect(multicall.call).toHaveBeenCalledTimes(3);
+    expect(registry.getBroker).not.toHaveBeenCalled();
+  });
+
+  test('falls back to direct reads when Multicall3 is unavailable', async () => {
+    const registry = makeRegistry();
+
+    const brokers = await fetchAllBrokers(registry, undefined, 4);
+
+    expect(brokers.map((broker) => broker.id)).toEqual([1, 2, 3]);
+    expect(registry.getBroker).toHaveBeenCalledTimes(3);
+  });
+
+  test('falls back to direct reads when the multicall call fails', async () => {
+    const registry = makeRegistry();
+    const multicall = { call: jest.fn().mockRejectedValue(new Error('call to non-contract')) };
+
+    const brokers = await fetchAllBrokers(registry, multicall as any, 3);
+
+    expect(brokers).toHaveLength(2);
+    expect(registry.getBroker).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,92 @@
+import { trackTransaction } from '../transactions';
+import { TrackedTransaction, TransactionStatus } from '../../types/contracts';
+
+const receipt = (hash: string, blockNumber = 100) => ({ transactionHash: hash, blockNumber, status: 1 });
+
+const makeTransaction = (hash: string, waitForReceipt: jest.Mock) => ({ hash, wait: waitForReceipt } as any);
+
+const replacedError = (reason: string, replacement: any) =>
+  Object.assign(new Error('transaction was replaced'), {
+    code: 'TRANSACTION_REPLACED',
+    reason,
+    cancelled: reason !== 'repriced',
+    replacement,
+    receipt: receipt(replacement.hash, 101),
+  });
+
+const statuses = (updates: TrackedTransaction[]) => updates.map((update) => update.status);
+
+describe('trackTransaction', () => {
+  test('reports submitted, mined and confirmed in order', async () => {
+    const waitForReceipt = jest.fn(async () => receipt('0x1'));
+    const updates: TrackedTransaction[] = [];
+
+    const result = await trackTransaction(makeTransaction('0x1', waitForReceipt), (update) => updates.push(update), 3);
+
+    expect(result.transactionHash).toBe('0x1');
+    expect(waitForReceipt).toHaveBeenNthCalledWith(1, 1);
+    expect(waitForReceipt).toHaveBeenNthCalledWith(2, 3);
+    expect(statuses(updates)).toEqual([
+      TransactionStatus.Submitted,
+      TransactionStatus.Mined,
+      TransactionStatus.Confirmed,
+    ]);
+    expect(updates[2]).toMatchObject({ confirmations: 3, requiredConfirmations: 3, blockNumber: 100 });
+  });
+
+  test('does not wait again when one confirmation is enough', async () => {
+    const waitForReceipt = jest.fn(async () => receipt('0x1'));
+
+    await trackTransaction(makeTransaction('0x1', waitForReceipt), undefined, 1);
+
+    expect(waitForReceipt).toHaveBeenCalledTimes(1);
+  });
+
+  test('marks reverted transactions as failed and rethrows', async () => {
+    const revert = Object.assign(new Error('transaction failed'), { code: 'CALL_EXCEPTION', reason: 'Payout too low' });
+    const waitForReceipt = jest.fn(async () => {
+      throw revert;
+    });
+    const updates: TrackedTransaction[] = [];
+
+    await expect(trackTransaction(makeTransaction('0x1', waitForReceipt), (update) => updates.push(update))).rejects.toBe(revert);
+    expect(updates[updates.length - 1]).toMatchObject({
+      status: TransactionStatus.Failed,
+      error: 'The payout is below the minimum the factory accepts.',
+    });
+  });
+
+  test('follows a repriced replacement to confirmation', async () => {
+    const waitForReplacement = jest.fn(async () => receipt('0x2', 101));
+    const replacement = makeTransaction('0x2', waitForReplacement);
+    const waitForReceipt = jest.fn(async () => {
+      throw replacedError('repriced', replacement);
+    });
+    const updates: TrackedTransaction[] = [];
+
+    const result = await trackTransaction(makeTransaction('0x1', waitForReceipt), (update) => updates.push(update), 2);
+
+    expect(result.transactionHash).toBe('0x2');
+    expect(waitForReplacement).toHaveBeenCalledWith(2);
+    expect(statuses(updates)).toEqual([
+      TransactionStatus.Submitted,
+      TransactionStatus.Replaced,
+      TransactionStatus.Mined,
+      TransactionStatus.Confirmed,
+    ]);
+    expect(updates[1].replacedBy).toBe('0x2');
+  });
+
+  test('rejects when the transaction was cancelled by a replacement', async () => {
+    const replacement = makeTransaction('0x2', jest.fn());
+    const waitForReceipt = jest.fn(async () => {
+      throw replacedError('cancelled', replacement);
+    });
+    const updates: TrackedTransaction[] = [];
+
+    await expect(
+      trackTransaction(makeTransaction('0x1', waitForReceipt), (update) => updates.push(update))
+    ).rejects.toThrow('Transaction was cancelled by 0x2');
+    expect(updates[updates.length - 1].status).toBe(TransactionStatus.Replaced);
+  });
+});
@@ -0,0 +1,63 @@
+// Contract ABIs generated from the Foundry build output.
+// Regenerate with `node scripts/sync-abis.js` after changing any contract.
+import registryAbi from './abis/DataBrokerRegistryUltraSimple.json';
+import factoryAbi from './abis/RemovalTaskFactoryUltraSimple.json';
+import factorySimpleAbi from './abis/RemovalTaskFactorySimple.json';
+import tokenAbi from './abis/RemovalNinja.json';
+import dexAbi from './abis/SimpleDEX.json';
+import taskAbi from './abis/RemovalTaskSimple.json';
+import verifierRegistryAbi from './abis/VerifierRegistry.json';
+import disputeResolutionAbi from './abis/DisputeResolution.json';
+import multicallAbi from './abis/IMulticall3.json';
+
+export interface AbiEntry {
+  type: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+// Worker management is not part of the ultra-simple factory yet, so those
+// functions come from the archived RemovalTaskFactorySimple interface.
+const WORKER_FUNCTIONS = [
+  'registerWorker',
+  'selfAssignToTask',
+  'getAvailableTasks',
+  'getWorkerTasks',
+  'workers',
+];
+
+export const REGISTRY_ABI: AbiEntry[] = registryAbi;
+
+export const FACTORY_ABI: AbiEntry[] = [
+  ...factoryAbi,
+  ...(factorySimpleAbi as AbiEntry[]).filter(
+    (entry) => entry.type === 'function' && WORKER_FUNCTIONS.includes(entry.name ?? '')
+  ),
+];
+
+export const TOKEN_ABI: AbiEntry[] = tokenAbi;
+
+export const DEX_ABI: AbiEntry[] = dexAbi;
+
+export const TASK_ABI: AbiEntry[] = taskAbi;
+
+// From the archived modular contracts; not yet deployed outside the simulated network
+export const VERIFIER_REGISTRY_ABI: AbiEntry[] = verifierRegistryAbi;
+
+export const DISPUTE_RESOLUTION_ABI: AbiEntry[] = disputeResolutionAbi;
+
+// aggregate3 is payable on-chain; marking it view makes thirdweb issue an
+// eth_call for batched reads instead of sending a transaction.
+export const MULTICALL3_ABI: AbiEntry[] = multicallAbi.map((entry) =>
+  entry.name === 'aggregate3' ? { ...entry, stateMutability: 'view' } : entry
+);
+
+// ABIs that deployment manifests can reference, keyed by Foundry artifact name
+export const CONTRACT_ABIS: Record<string, AbiEntry[]> = {
+  RemovalNinja: TOKEN_ABI,
+  DataBrokerRegistryUltraSimple: REGISTRY_ABI,
+  RemovalTaskFactoryUltraSimple: FACTORY_ABI,
+  SimpleDEX: DEX_ABI,
+  VerifierRegistry: VERIFIER_REGISTRY_ABI,
+  DisputeResolution: DISPUTE_RESOLUTION_ABI,
+};
@@ -0,0 +1,352 @@
+// Typed read/write wrappers around thirdweb SmartContract instances
+import type { SmartContract } from '@thirdweb-dev/sdk';
+import { constants } from 'ethers';
+import type { BigNumberish, CallOverrides, ContractTransaction } from 'ethers';
+import { AbiEntry, FACTORY_ABI } from './abis';
+import {
+  Arbitrator,
+  BrokerEvent,
+  BrokerSubmission,
+  DataBroker,
+  Dispute,
+  DisputeInfo,
+  DisputeResolutionConstants,
+  Evidence,
+  RegistryStats,
+  RemovalTask,
+  TaskCreatedEvent,
+  TaskParams,
+  TaskSummary,
+  VerificationSession,
+  Verifier,
+  VerifierRegistryConstants,
+  VoteCommitment,
+  Worker,
+} from '../types/contracts';
+import {
+  decodeArbitrator,
+  decodeBroker,
+  decodeBrokerEvent,
+  decodeDispute,
+  decodeDisputeInfo,
+  decodeEvidence,
+  decodeRegistryStats,
+  decodeRemovalTask,
+  decodeTaskCreatedEvent,
+  decodeTaskIds,
+  decodeTaskSummary,
+  decodeVerificationSession,
+  decodeVerifier,
+  decodeVoteCommitment,
+  decodeWorker,
+  toAmount,
+  toNumber,
+} from './decoders';
+
+// Writes resolve once the transaction is submitted; follow it with trackTransaction
+const write = (
+  contract: SmartContract,
+  method: string,
+  args: unknown[],
+  overrides?: CallOverrides
+): Promise<ContractTransaction> => contract.prepare(method, args, overrides).send();
+
+// ============ Data Broker Registry ============
+
+export interface RegistryClient {
+  contract: SmartContract;
+  nextBrokerId: () => Promise<number>;
+  getBroker: (brokerId: number) => Promise<DataBroker>;
+  getStats: () => Promise<RegistryStats>;
+  // Removals and disputes recorded against the broker since `fromBlock`, newest first
+  getBrokerHistory: (brokerId: number, fromBlock: number) => Promise<BrokerEvent[]>;
+  addBroker: (submission: BrokerSubmission) => Promise<ContractTransaction>;
+}
+
+export const createRegistryClient = (contract: SmartContract): RegistryClient => ({
+  contract,
+  nextBrokerId: async () => toNumber(await contract.call('nextBrokerId')),
+  getBroker: async (brokerId) => decodeBroker(await contract.call('brokers', [brokerId])),
+  getStats: async () => decodeRegistryStats(await contract.call('getStats')),
+  getBrokerHistory: async (brokerId, fromBlock) => {
+    const [removals, disputes] = await Promise.all(
+      ['RemovalCompleted', 'DisputeRecorded'].map((eventName) =>
+        contract.events.getEvents(eventName, { fromBlock, filters: { brokerId } })
+      )
+    );
+    return removals
+      .concat(disputes)
+      .sort(
+        (a, b) =>
+          b.transaction.blockNumber - a.transaction.blockNumber || b.transaction.logIndex - a.transaction.logIndex
+      )
+      .map(decodeBrokerEvent);
+  },
+  addBroker: (submission) =>
+    write(contract, 'addBroker', [
+      submission.name,
+      submission.website,
+      submission.removalLink,
+      submission.contact,
+      submission.weight,
+    ]),
+});
+
+// ============ Task Factory ============
+
+const hasFunction = (abi: AbiEntry[], name: string): boolean =>
+  abi.some((entry) => entry.type === 'function' && entry.name === name);
+
+export interface FactoryClient {
+  contract: SmartContract;
+  getUserTasks: (user: string) => Promise<number[]>;
+  getWorkerTasks: (worker: string) => Promise<number[]>;
+  getAvailableTasks: () => Promise<number[]>;
+  getTaskAddress: (taskId: number) => Promise<string>;
+  getWorker: (worker: string) => Promise<Worker>;
+  getTotalTasks: () => Promise<number>;
+  // Tasks created against the broker since `fromBlock`, oldest first; `TaskCreated` indexes brokerId
+  getBrokerTaskEvents: (brokerId: number, fromBlock: number) => Promise<TaskCreatedEvent[]>;
+  createTask: (
+    brokerId: number,
+    subjectCommit: string,
+    payout: BigNumberish,
+    duration: number
+  ) => Promise<ContractTransaction>;
+  // Only the full RemovalTaskFactory creates tasks in batches; check before calling batchCreateTasks
+  supportsBatchCreate: boolean;
+  // Percent charged on top of each payout, or 0 for factories without a platform fee
+  getPlatformFeeRate: () => Promise<number>;
+  batchCreateTasks: (tasks: TaskParams[]) => Promise<ContractTransaction>;
+  registerWorker: (stakeAmount: BigNumberish, description: string) => Promise<ContractTransaction>;
+  selfAssignToTask: (taskId: number) => Promise<ContractTransaction>;
+}
+
+/**
+ * `abi` is the one the factory was deployed with, so features the ultra-simple factory
+ * lacks (batches, the platform fee) are detected rather than assumed.
+ */
+export const createFactoryClient = (contract: SmartContract, abi: AbiEntry[] = FACTORY_ABI): FactoryClient => ({
+  contract,
+  getUserTasks: async (user) => decodeTaskIds(await contract.call('getUserTasks', [user])),
+  getWorkerTasks: async (worker) => decodeTaskIds(await contract.call('getWorkerTasks', [worker])),
+  getAvailableTasks: async () => decodeTaskIds(await contract.call('getAvailableTasks')),
+  getTaskAddress: async (taskId) => String(await contract.call('tasks', [taskId])),
+  getWorker: async (worker) => decodeWorker(await contract.call('workers', [worker])),
+  getTotalTasks: async () => toNumber(await contract.call('getStats')),
+  getBrokerTaskEvents: async (brokerId, fromBlock) =>
+    (await contract.events.getEvents('TaskCreated', { fromBlock, filters: { brokerId }, order: 'asc' })).map(
+      decodeTaskCreatedEvent
+    ),
+  createTask: (brokerId, subjectCommit, payout, duration) =>
+    write(contract, 'createTask', [brokerId, subjectCommit, toAmount(payout), duration]),
+  supportsBatchCreate: hasFunction(abi, 'batchCreateTasks'),
+  getPlatformFeeRate: async () =>
+    hasFunction(abi, 'PLATFORM_FEE_RATE') ? toNumber(await contract.call('PLATFORM_FEE_RATE')) : 0,
+  batchCreateTasks: (tasks) =>
+    write(contract, 'batchCreateTasks', [
+      tasks.map(({ brokerId, subjectCommit, payout, duration, description }) => ({
+        brokerId,
+        subjectCommit,
+        payout: toAmount(payout),
+        duration,
+        description: description ?? '',
+        preferredWorker: constants.AddressZero,
+      })),
+    ]),
+  registerWorker: (stakeAmount, description) =>
+    write(contract, 'registerWorker', [toAmount(stakeAmount), description]),
+  selfAssignToTask: (taskId) => write(contract, 'selfAssignToTask', [taskId]),
+});
+
+// ============ RemovalNinja Token ============
+
+export interface TokenClient {
+  contract: SmartContract;
+  balanceOf: (owner: string) => Promise<string>;
+  allowance: (owner: string, spender: string) => Promise<string>;
+  totalSupply: () => Promise<string>;
+  decimals: () => Promise<number>;
+  approve: (spender: string, amount: BigNumberish) => Promise<ContractTransaction>;
+  transfer: (to: string, amount: BigNumberish) => Promise<ContractTransaction>;
+}
+
+export const createTokenClient = (contract: SmartContract): TokenClient => ({
+  contract,
+  balanceOf: async (owner) => toAmount(await contract.call('balanceOf', [owner])),
+  allowance: async (owner, spender) => toAmount(await contract.call('allowance', [owner, spender])),
+  totalSupply: async () => toAmount(await contract.call('totalSupply')),
+  decimals: async () => Number(await contract.call('decimals')),
+  approve: (spender, amount) => write(contract, 'approve', [spender, toAmount(amount)]),
+  transfer: (to, amount) => write(contract, 'transfer', [to, toAmount(amount)]),
+});
+
+// ============ Simple DEX ============
+
+export interface DexClient {
+  contract: SmartContract;
+  getTokenPrice: () => Promise<string>;
+  getAmountOut: (amountIn: BigNumberish, buyingTokens: boolean) => Promise<string>;
+  tokenReserves: () => Promise<string>;
+  ethReserves: () => Promise<string>;
+  buyTokens: (ethAmount: BigNumberish) => Promise<ContractTransaction>;
+}
+
+export const createDexClient = (contract: SmartContract): DexClient => ({
+  contract,
+  getTokenPrice: async () => toAmount(await contract.call('getTokenPrice')),
+  getAmountOut: async (amountIn, buyingTokens) =>
+    toAmount(await contract.call('getAmountOut', [toAmount(amountIn), buyingTokens])),
+  tokenReserves: async () => toAmount(await contract.call('tokenReserves')),
+  ethReserves: async () => toAmount(await contract.call('ethReserves')),
+  buyTokens: (ethAmount) => write(contract, 'buyTokens', [], { value: toAmount(ethAmount) }),
+});
+
+// ============ Verifier Registry ============
+
+export interface VerifierRegistryClient {
+  contract: SmartContract;
+  getConstants: () => Promise<VerifierRegistryConstants>;
+  getVerifier: (verifier: string) => Promise<Verifier>;
+  getVerifierTasks: (verifier: string) => Promise<number[]>;
+  getVerificationSession: (taskId: number) => Promise<VerificationSession>;
+  registerVerifier: (stakeAmount: BigNumberish, description: string) => Promise<ContractTransaction>;
+  increaseStake: (additionalStake: BigNumberish) => Promise<ContractTransaction>;
+  castVerificationVote: (taskId: number, approve: boolean) => Promise<ContractTransaction>;
+  completeVerification: (taskId: number) => Promise<ContractTransaction>;
+}
+
+export const createVerifierRegistryClient = (contract: SmartContract): VerifierRegistryClient => ({
+  contract,
+  getConstants: async () => {
+    const [minStake, verificationReward, slashPercentage] = await Promise.all([
+      contract.call('MIN_VERIFIER_STAKE'),
+      contract.call('VERIFICATION_REWARD'),
+      contract.call('SLASH_PERCENTAGE'),
+    ]);
+    return {
+      minStake: toAmount(minStake),
+      verificationReward: toAmount(verificationReward),
+      slashPercentage: toNumber(slashPercentage),
+    };
+  },
+  getVerifier: async (verifier) => decodeVerifier(await contract.call('verifiers', [verifier])),
+  getVerifierTasks: async (verifier) => decodeTaskIds(await contract.call('getVerifierTasks', [verifier])),
+  getVerificationSession: async (taskId) =>
+    decodeVerificationSession(await contract.call('getVerificationSession', [taskId])),
+  registerVerifier: (stakeAmount, description) =>
+    write(contract, 'registerVerifier', [toAmount(stakeAmount), description]),
+  increaseStake: (additionalStake) => write(contract, 'increaseStake', [toAmount(additionalStake)]),
+  castVerificationVote: (taskId, approve) => write(contract, 'castVerificationVote', [taskId, approve]),
+  completeVerification: (taskId) => write(contract, 'completeVerification', [taskId]),
+});
+
+// ============ Dispute Resolution ============
+
+export interface DisputeResolutionClient {
+  contract: SmartContract;
+  getConstants: () => Promise<DisputeResolutionConstants>;
+  getDisputeCount: () => Promise<number>;
+  getDispute: (disputeId: number) => Promise<Dispute>;
+  getArbitrator: (arbitrator: string) => Promise<Arbitrator>;
+  getArbitratorDisputes: (arbitrator: string) => Promise<number[]>;
+  getVoteCommitment: (disputeId: number, arbitrator: string) => Promise<VoteCommitment>;
+  registerArbitrator: (stakeAmount: BigNumberish, description: string) => Promise<ContractTransaction>;
+  createDispute: (
+    taskId: number,
+    taskContract: string,
+    bondAmount: BigNumberish,
+    reason: string,
+    evidenceCid: string
+  ) => Promise<ContractTransaction>;
+  commitVote: (disputeId: number, commitment: string) => Promise<ContractTransaction>;
+  revealVote: (disputeId: number, vote: boolean, reason: string, salt: string) => Promise<ContractTransaction>;
+  resolveDispute: (disputeId: number) => Promise<ContractTransaction>;
+}
+
+export const createDisputeResolutionClient = (contract: SmartContract): DisputeResolutionClient => ({
+  contract,
+  getConstants: async () => {
+    const [minDisputeBond, minArbitratorStake, arbitratorReward] = await Promise.all([
+      contract.call('MIN_DISPUTE_BOND'),
+      contract.call('minArbitratorStake'),
+      contract.call('ARBITRATOR_REWARD'),
+    ]);
+    return {
+      minDisputeBond: toAmount(minDisputeBond),
+      minArbitratorStake: toAmount(minArbitratorStake),
+      arbitratorReward: toAmount(arbitratorReward),
+    };
+  },
+  getDisputeCount: async () => toNumber((await contract.call('getDisputeStats')).totalDisputes),
+  getDispute: async (disputeId) => {
+    const [record, dispute] = await Promise.all([
+      contract.call('disputes', [disputeId]),
+      contract.call('getDispute', [disputeId]),
+    ]);
+    return decodeDispute(record, dispute.assignedArbitrators);
+  },
+  getArbitrator: async (arbitrator) => decodeArbitrator(await contract.call('arbitrators', [arbitrator])),
+  getArbitratorDisputes: async (arbitrator) =>
+    decodeTaskIds(await contract.call('getArbitratorDisputes', [arbitrator])),
+  getVoteCommitment: async (disputeId, arbitrator) =>
+    decodeVoteCommitment(await contract.call('voteCommitments', [disputeId, arbitrator])),
+  registerArbitrator: (stakeAmount, description) =>
+    write(contract, 'registerArbitrator', [toAmount(stakeAmount), description]),
+  createDispute: (taskId, taskContract, bondAmount, reason, evidenceCid) =>
+    write(contract, 'createDispute', [taskId, taskContract, toAmount(bondAmount), reason, evidenceCid]),
+  commitVote: (disputeId, commitment) => write(contract, 'commitVote', [disputeId, commitment]),
+  revealVote: (disputeId, vote, reason, salt) => write(contract, 'revealVote', [disputeId, vote, reason, salt]),
+  resolveDispute: (disputeId) => write(contract, 'resolveDispute', [disputeId]),
+});
+
+// ============ Removal Task ============
+
+export interface TaskClient {
+  contract: SmartContract;
+  getSummary: () => Promise<TaskSummary>;
+  getTask: () => Promise<RemovalTask>;
+  getAllEvidence: () => Promise<Evidence[]>;
+  getDisputeInfo: () => Promise<DisputeInfo>;
+  getTimeRemaining: () => Promise<number>;
+  markRemovalRequested: (requestSummary: string) => Promise<ContractTransaction>;
+  markBrokerResponded: (responseSummary: string) => Promise<ContractTransaction>;
+  submitEvidence: (evidenceCid: string, summary: string) => Promise<ContractTransaction>;
+  markFailed: (reason: string) => Promise<ContractTransaction>;
+  refund: () => Promise<ContractTransaction>;
+}
+
+export const createTaskClient = (contract: SmartContract): TaskClient => ({
+  contract,
+  getSummary: async () => decodeTaskSummary(await contract.call('getTaskSummary')),
+  getTask: async () => {
+    const [summary, subjectCommit, creator, weight, createdAt, requestedAt, respondedAt, completedAt] =
+      await Promise.all([
+        contract.call('getTaskSummary'),
+        contract.call('subjectCommit'),
+        contract.call('creator'),
+        contract.call('weight'),
+        contract.call('createdAt'),
+        contract.call('requestedAt'),
+        contract.call('respondedAt'),
+        contract.call('completedAt'),
+      ]);
+    return decodeRemovalTask(summary, {
+      subjectCommit,
+      creator,
+      weight,
+      createdAt,
+      requestedAt,
+      respondedAt,
+      completedAt,
+    });
+  },
+  getAllEvidence: async () => (await contract.call('getAllEvidence')).map(decodeEvidence),
+  getDisputeInfo: async () => decodeDisputeInfo(await contract.call('getDisputeInfo')),
+  getTimeRemaining: async () => toNumber(await contract.call('getTimeRemaining')),
+  markRemovalRequested: (requestSummary) => write(contract, 'markRemovalRequested', [requestSummary]),
+  markBrokerResponded: (responseSummary) => write(contract, 'markBrokerResponded', [responseSummary]),
+  submitEvidence: (evidenceCid, summary) => write(contract, 'submitEvidence', [evidenceCid, summary]),
+  markFailed: (reason) => write(contract, 'markFailed', [reason]),
+  refund: () => write(contract, 'refund', []),
+});
@@ -0,0 +1,198 @@
+// Decoders from raw contract return values to the interfaces in types/contracts.ts
+import type { ContractEvent } from '@thirdweb-dev/sdk';
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import { Result } from 'ethers/lib/utils';
+import {
+  Arbitrator,
+  BrokerEvent,
+  DataBroker,
+  Dispute,
+  DisputeDecision,
+  DisputeInfo,
+  DisputeStatus,
+  Evidence,
+  RegistryStats,
+  RemovalTask,
+  TaskCreatedEvent,
+  TaskStatus,
+  TaskSummary,
+  VerificationSession,
+  Verifier,
+  VoteCommitment,
+  Worker,
+} from '../types/contracts';
+
+export const toNumber = (value: BigNumberish): number => BigNumber.from(value).toNumber();
+
+export const toAmount = (value: BigNumberish): string => BigNumber.from(value).toString();
+
+// Timestamps and addresses a contract has not set yet read as zero
+const toOptionalTimestamp = (value: BigNumberish): number | undefined => toNumber(value) || undefined;
+
+const toOptionalAddress = (value: string): string | undefined =>
+  value.toLowerCase() === constants.AddressZero ? undefined : value;
+
+export const decodeBroker = (result: Result): DataBroker => ({
+  id: toNumber(result.id),
+  name: result.name,
+  website: result.website,
+  removalLink: result.removalLink,
+  contact: result.contact,
+  weight: toNumber(result.weight),
+  isActive: result.isActive,
+  totalRemovals: toNumber(result.totalRemovals),
+  totalDisputes: toNumber(result.totalDisputes),
+  tags: [], // Filled in from the broker metadata document by the hooks
+});
+
+export const decodeBrokerEvent = ({ eventName, data, transaction }: ContractEvent): BrokerEvent => ({
+  kind: eventName === 'DisputeRecorded' ? 'dispute' : 'removal',
+  total: toNumber(eventName === 'DisputeRecorded' ? data.totalDisputes : data.totalRemovals),
+  blockNumber: transaction.blockNumber,
+  transactionHash: transaction.transactionHash,
+});
+
+export const decodeTaskCreatedEvent = ({ data }: ContractEvent): TaskCreatedEvent => ({
+  taskId: toNumber(data.taskId),
+  creator: data.creator,
+  brokerId: toNumber(data.brokerId),
+  taskContract: data.taskContract,
+  payout: toAmount(data.payout),
+});
+
+export const decodeRegistryStats = (result: Result): RegistryStats => ({
+  totalBrokers: toNumber(result.totalBrokers),
+  activeBrokers: toNumber(result.activeBrokers),
+});
+
+export const decodeWorker = (result: Result): Worker => ({
+  isRegistered: result.isRegistered,
+  stake: toAmount(result.stake),
+  completedTasks: toNumber(result.completedTasks),
+  successRate: toNumber(result.successRate),
+  reputation: toNumber(result.reputation),
+  description: result.description,
+  isSlashed: result.isSlashed,
+});
+
+export const decodeTaskSummary = (result: Result): TaskSummary => ({
+  id: toNumber(result.id),
+  broker: toNumber(result.broker),
+  status: Number(result.status) as TaskStatus,
+  worker: result.worker,
+  payoutAmount: toAmount(result.payoutAmount),
+  taskDeadline: toNumber(result.taskDeadline),
+  evidenceCount: toNumber(result.evidenceCount),
+  disputed: result.disputed,
+});
+
+// Task contracts expose the rest of RemovalTask as individual public getters
+export interface TaskFields {
+  subjectCommit: string;
+  creator: string;
+  weight: BigNumberish;
+  createdAt: BigNumberish;
+  requestedAt: BigNumberish;
+  respondedAt: BigNumberish;
+  completedAt: BigNumberish;
+}
+
+export const decodeRemovalTask = (summary: Result, fields: TaskFields): RemovalTask => ({
+  taskId: toNumber(summary.id),
+  brokerId: toNumber(summary.broker),
+  subjectCommit: fields.subjectCommit,
+  creator: fields.creator,
+  payout: toAmount(summary.payoutAmount),
+  weight: toNumber(fields.weight),
+  deadline: toNumber(summary.taskDeadline),
+  currentStatus: Number(summary.status) as TaskStatus,
+  assignedWorker: toOptionalAddress(summary.worker),
+  createdAt: toNumber(fields.createdAt),
+  requestedAt: toOptionalTimestamp(fields.requestedAt),
+  respondedAt: toOptionalTimestamp(fields.respondedAt),
+  completedAt: toOptionalTimestamp(fields.completedAt),
+  evidenceCount: toNumber(summary.evidenceCount),
+  isDisputed: summary.disputed,
+});
+
+export const decodeDisputeInfo = (result: Result): DisputeInfo => ({
+  disputed: result.disputed,
+  initiator: toOptionalAddress(result.initiator),
+  bond: toAmount(result.bond),
+  reason: result.reason,
+  verificationDeadline: toOptionalTimestamp(result.deadline_),
+});
+
+export const decodeEvidence = (result: Result): Evidence => ({
+  evidenceCid: result.evidenceCid,
+  summary: result.summary,
+  timestamp: toNumber(result.timestamp),
+  submitter: result.submitter,
+});
+
+export const decodeTaskIds = (result: BigNumberish[]): number[] => result.map(toNumber);
+
+export const decodeVerifier = (result: Result): Verifier => ({
+  isRegistered: result.isRegistered,
+  stake: toAmount(result.stake),
+  verificationsCompleted: toNumber(result.verificationsCompleted),
+  correctVerifications: toNumber(result.correctVerifications),
+  reputation: toNumber(result.reputation),
+  description: result.description,
+  isSlashed: result.isSlashed,
+  registrationTime: toOptionalTimestamp(result.registrationTime),
+  lastActivityTime: toOptionalTimestamp(result.lastActivityTime),
+});
+
+export const decodeVerificationSession = (result: Result): VerificationSession => ({
+  taskId: toNumber(result.id),
+  taskContract: result.taskContract,
+  requiredVerifiers: toNumber(result.requiredVerifiers),
+  votesFor: toNumber(result.votesFor),
+  votesAgainst: toNumber(result.votesAgainst),
+  totalVotes: toNumber(result.totalVotes),
+  isCompleted: result.isCompleted,
+  isApproved: result.isApproved,
+  deadline: toNumber(result.deadline),
+  assignedVerifiers: [...result.assignedVerifiers],
+});
+
+export const decodeArbitrator = (result: Result): Arbitrator => ({
+  isRegistered: result.isRegistered,
+  stake: toAmount(result.stake),
+  disputesResolved: toNumber(result.disputesResolved),
+  correctDecisions: toNumber(result.correctDecisions),
+  reputation: toNumber(result.reputation),
+  description: result.description,
+  isSlashed: result.isSlashed,
+  registrationTime: toOptionalTimestamp(result.registrationTime),
+});
+
+// The public `disputes` getter leaves out the arbitrators array, which only getDispute returns
+export const decodeDispute = (record: Result, assignedArbitrators: string[]): Dispute => ({
+  disputeId: toNumber(record.disputeId),
+  taskId: toNumber(record.taskId),
+  taskContract: record.taskContract,
+  initiator: record.initiator,
+  bondAmount: toAmount(record.bondAmount),
+  reason: record.reason,
+  evidenceCid: record.evidence,
+  status: Number(record.status) as DisputeStatus,
+  decision: Number(record.decision) as DisputeDecision,
+  createdAt: toNumber(record.createdAt),
+  votingDeadline: toNumber(record.votingDeadline),
+  revealDeadline: toNumber(record.revealDeadline),
+  assignedArbitrators: [...assignedArbitrators],
+  totalVotes: toNumber(record.totalVotes),
+  votesForOriginal: toNumber(record.votesForOriginal),
+  votesForOverride: toNumber(record.votesForOverride),
+  bondReturned: record.bondReturned,
+});
+
+export const decodeVoteCommitment = (result: Result): VoteCommitment => ({
+  commitment: result.commitment,
+  hasCommitted: result.hasCommitted,
+  hasRevealed: result.hasRevealed,
+  vote: result.vote,
+  reason: result.reason,
+});
@@ -0,0 +1,40 @@
+// Disputes joined with the tasks they challenge, and the phase rules of commit-reveal voting
+import { Dispute, DisputeData, DisputeStatus } from '../types/contracts';
+import { DisputeResolutionClient, RegistryClient } from './clients';
+import { FALLBACK_CONCURRENCY, mapWithConcurrency } from './multicall';
+import { createBrokerLookup, TaskLoader } from './tasks';
+
+/**
+ * Read every dispute in `disputeIds` with its task and broker, keeping their order.
+ * Disputes that fail to load are left out, as in fetchVerificationSessions.
+ */
+export const fetchDisputes = async (
+  disputeIds: number[],
+  disputeResolution: DisputeResolutionClient,
+  registry: RegistryClient,
+  loadTask: TaskLoader
+): Promise<DisputeData[]> => {
+  const getBroker = createBrokerLookup(registry);
+
+  const disputes = await mapWithConcurrency(disputeIds, FALLBACK_CONCURRENCY, async (disputeId) => {
+    const dispute = await disputeResolution.getDispute(disputeId);
+    const task = await (await loadTask(dispute.taskContract)).getTask();
+    return { dispute, task, broker: await getBroker(task.brokerId) };
+  });
+  return disputes.filter((dispute): dispute is DisputeData => dispute !== undefined);
+};
+
+// Arbitrators commit until the voting deadline; the contract moves a dispute to Revealing
+// early once all of them have committed
+export const isCommitOpen = (dispute: Dispute, now: number = Date.now() / 1000): boolean =>
+  dispute.status === DisputeStatus.Voting && now <= dispute.votingDeadline;
+
+export const isRevealOpen = (dispute: Dispute, now: number = Date.now() / 1000): boolean =>
+  (dispute.status === DisputeStatus.Revealing ||
+    (dispute.status === DisputeStatus.Voting && now > dispute.votingDeadline)) &&
+  now <= dispute.revealDeadline;
+
+// Revealing the last vote resolves a dispute by itself; this settles the rest
+export const canResolveDispute = (dispute: Dispute, now: number = Date.now() / 1000): boolean =>
+  dispute.status !== DisputeStatus.Resolved &&
+  (dispute.status === DisputeStatus.Revealing || now > dispute.revealDeadline);
@@ -0,0 +1,600 @@
+// Decodes wallet, RPC and contract failures into ContractError
+import { defaultAbiCoder, Interface } from 'ethers/lib/utils';
+import { ContractError, ContractErrorCode, ValidationError } from '../types/contracts';
+import {
+  DEX_ABI,
+  DISPUTE_RESOLUTION_ABI,
+  FACTORY_ABI,
+  REGISTRY_ABI,
+  TASK_ABI,
+  TOKEN_ABI,
+  VERIFIER_REGISTRY_ABI,
+} from './abis';
+
+interface ErrorDescription {
+  code: ContractErrorCode;
+  message: string;
+  remedy?: string;
+  field?: string; // Form field the failure belongs to, for reverts caused by user input
+}
+
+const known = (
+  code: ContractErrorCode,
+  message: string,
+  remedy?: string,
+  field?: string
+): ErrorDescription => ({ code, message, remedy, field });
+
+const INSUFFICIENT_BALANCE = known(
+  ContractErrorCode.InsufficientBalance,
+  'Your RN token balance is too low for this transaction.',
+  'Buy RN tokens on the Token page or lower the amount.'
+);
+const INSUFFICIENT_STAKE = known(
+  ContractErrorCode.InsufficientStake,
+  'The stake is below the contract minimum.',
+  'Increase the stake amount.',
+  'stakeAmount'
+);
+const NO_PROCESSORS = known(
+  ContractErrorCode.NoProcessorsSelected,
+  'No processor was selected.',
+  'Select at least one processor.',
+  'processors'
+);
+const INVALID_PROCESSOR = known(
+  ContractErrorCode.InvalidProcessor,
+  'A selected processor is not registered.',
+  'Choose processors from the current list.',
+  'processors'
+);
+const PROCESSOR_SLASHED = known(
+  ContractErrorCode.ProcessorSlashed,
+  'The processor has been slashed and cannot take part.'
+);
+const NOT_PROCESSOR = known(
+  ContractErrorCode.NotProcessor,
+  'This address is not a registered processor.',
+  'Register as a processor first.'
+);
+const ALREADY_REGISTERED = known(
+  ContractErrorCode.AlreadyRegistered,
+  'This address is already registered.'
+);
+const INVALID_TASK = known(
+  ContractErrorCode.InvalidTask,
+  'That task does not exist.',
+  'Refresh the task list and try again.'
+);
+const TASK_UNAVAILABLE = known(
+  ContractErrorCode.TaskUnavailable,
+  'The task is no longer available.',
+  'Another worker may have taken it; refresh and pick another task.'
+);
+const TASK_STEP_UNAVAILABLE = known(
+  ContractErrorCode.TaskUnavailable,
+  'The task is not in a state that allows this step.',
+  'Refresh the task to see its current status.'
+);
+const NO_LIQUIDITY = known(
+  ContractErrorCode.NoLiquidity,
+  'The DEX has no liquidity.',
+  'Try again once liquidity has been added.'
+);
+const INVALID_AMOUNT = known(
+  ContractErrorCode.InvalidAmount,
+  'The amount is too small to trade.',
+  'Enter a larger amount.',
+  'amount'
+);
+const VERIFICATION_CLOSED = known(
+  ContractErrorCode.VerificationClosed,
+  'This verification session is already closed.',
+  'Refresh your sessions to see the outcome.'
+);
+const DISPUTE_CLOSED = known(
+  ContractErrorCode.DisputeClosed,
+  'This dispute is not in a phase that allows this step.',
+  'Refresh the dispute to see its current phase.'
+);
+const UNAUTHORIZED = known(
+  ContractErrorCode.Unauthorized,
+  'Your address is not allowed to perform this action.',
+  'Switch to the account that owns this contract or role.'
+);
+const PAUSED = known(
+  ContractErrorCode.Paused,
+  'The contract is paused.',
+  'Try again once the protocol is unpaused.'
+);
+
+// require() messages from foundry/src, the SimpleDEX in AddLiquidity.s.sol, the worker
+// functions that FACTORY_ABI borrows from the archived RemovalTaskFactorySimple, and the
+// archived VerifierRegistry and DisputeResolution
+const REVERT_REASONS: Record<string, ErrorDescription> = {
+  // DataBrokerRegistryUltraSimple
+  'Invalid broker ID': known(
+    ContractErrorCode.InvalidBroker,
+    'That data broker does not exist.',
+    'Pick a broker from the list.',
+    'brokerId'
+  ),
+  'Already deactivated': known(
+    ContractErrorCode.BrokerAlreadyDeactivated,
+    'This data broker has already been deactivated.'
+  ),
+
+  // RemovalTaskFactoryUltraSimple
+  'Payout too low': known(
+    ContractErrorCode.PayoutTooLow,
+    'The payout is below the minimum the factory accepts.',
+    'Raise the payout.',
+    'payout'
+  ),
+  'Duration too short': known(
+    ContractErrorCode.DurationTooShort,
+    'The task duration is shorter than 7 days.',
+    'Choose a duration of at least 7 days.',
+    'duration'
+  ),
+  'Duration too long': known(
+    ContractErrorCode.DurationTooLong,
+    'The task duration is longer than 90 days.',
+    'Choose a duration of at most 90 days.',
+    'duration'
+  ),
+  'Broker not active': known(
+    ContractErrorCode.BrokerInactive,
+    'This data broker is no longer active.',
+    'Pick an active broker.',
+    'brokerId'
+  ),
+
+  // RemovalTaskFactorySimple worker functions
+  'Already registered': ALREADY_REGISTERED,
+  'Insufficient stake': INSUFFICIENT_STAKE,
+  'Description required': known(
+    ContractErrorCode.DescriptionRequired,
+    'A description is required.',
+    'Describe your experience before registering.',
+    'description'
+  ),
+  'Worker not registered': known(
+    ContractErrorCode.NotProcessor,
+    'This address is not a registered worker.',
+    'Register as a worker first.'
+  ),
+  'Worker is slashed': PROCESSOR_SLASHED,
+  'Invalid task ID': INVALID_TASK,
+  'Task does not exist': INVALID_TASK,
+  'Task not available': TASK_UNAVAILABLE,
+  'Task already assigned': TASK_UNAVAILABLE,
+
+  // RemovalTask
+  'Only assigned worker can call': known(
+    ContractErrorCode.NotAssigned,
+    'You are not the worker assigned to this task.'
+  ),
+  'Only worker or verifier can submit evidence': known(
+    ContractErrorCode.NotAssigned,
+    'Only the assigned worker or a verifier can submit evidence for this task.'
+  ),
+  'Not authorized to mark failed': known(
+    ContractErrorCode.Unauthorized,
+    'Only the creator or the assigned worker can mark this task as failed.'
+  ),
+  'Invalid status for this operation': TASK_STEP_UNAVAILABLE,
+  'Invalid status for evidence submission': TASK_STEP_UNAVAILABLE,
+  'Cannot mark as failed in current state': TASK_STEP_UNAVAILABLE,
+  'Task deadline has passed': known(
+    ContractErrorCode.TaskUnavailable,
+    'The task deadline has passed.',
+    'Mark the task as failed so the creator can be refunded.'
+  ),
+  'Evidence CID cannot be empty': known(
+    ContractErrorCode.Reverted,
+    'The evidence CID is missing.',
+    'Attach the evidence file again.',
+    'evidenceCid'
+  ),
+  'Task not eligible for refund': known(
+    ContractErrorCode.TaskUnavailable,
+    'This task cannot be refunded yet.',
+    'Refunds open once the task has failed or its deadline has passed.'
+  ),
+  'Already refunded': known(
+    ContractErrorCode.AlreadyCompleted,
+    'This task has already been refunded.'
+  ),
+
+  // VerifierRegistry
+  'Verifier not registered': known(
+    ContractErrorCode.NotVerifier,
+    'This address is not a registered verifier.',
+    'Register as a verifier first.'
+  ),
+  'Verifier is slashed': known(
+    ContractErrorCode.ProcessorSlashed,
+    'This verifier has been slashed and can no longer verify tasks.'
+  ),
+  'Additional stake must be greater than 0': known(
+    ContractErrorCode.InvalidAmount,
+    'The additional stake must be greater than 0.',
+    'Enter a larger amount.',
+    'amount'
+  ),
+  'Verification session does not exist': known(
+    ContractErrorCode.InvalidTask,
+    'There is no verification session for that task.'
+  ),
+  'Verification already completed': VERIFICATION_CLOSED,
+  'Verification deadline passed': known(
+    ContractErrorCode.VerificationClosed,
+    'The voting window for this session has closed.',
+    'Complete the verification to settle the session.'
+  ),
+  'Already voted': known(
+    ContractErrorCode.AlreadyVoted,
+    'You have already voted on this task.'
+  ),
+  'Not assigned to this task': known(
+    ContractErrorCode.NotAssigned,
+    'You are not one of the verifiers assigned to this task.'
+  ),
+  'Verification not ready for completion': known(
+    ContractErrorCode.VerificationClosed,
+    'The session is still collecting votes.',
+    'It can be completed once every verifier has voted or the deadline has passed.'
+  ),
+  'No evidence submitted': known(
+    ContractErrorCode.TaskUnavailable,
+    'The task has no evidence to approve.'
+  ),
+  'Invalid status for verification': TASK_STEP_UNAVAILABLE,
+
+  // DisputeResolution
+  'Arbitrator not registered': known(
+    ContractErrorCode.NotArbitrator,
+    'This address is not a registered arbitrator.',
+    'Register as an arbitrator first.'
+  ),
+  'Arbitrator is slashed': known(
+    ContractErrorCode.ProcessorSlashed,
+    'This arbitrator has been slashed and can no longer vote on disputes.'
+  ),
+  'Invalid dispute ID': known(
+    ContractErrorCode.InvalidTask,
+    'That dispute does not exist.',
+    'Refresh the dispute list and try again.'
+  ),
+  'Invalid dispute status': DISPUTE_CLOSED,
+  'Insufficient dispute bond': known(
+    ContractErrorCode.InsufficientStake,
+    'The dispute bond is below the contract minimum.',
+    'Increase the bond amount.',
+    'bondAmount'
+  ),
+  'Reason required': known(
+    ContractErrorCode.Reverted,
+    'A reason is required.',
+    'Explain why the verification was wrong.',
+    'reason'
+  ),
+  'Not enough active arbitrators': known(
+    ContractErrorCode.Reverted,
+    'There are not enough active arbitrators to hear a dispute.',
+    'Try again once at least 3 arbitrators have registered.'
+  ),
+  'Task ID mismatch': INVALID_TASK,
+  'Task not in verified status': known(
+    ContractErrorCode.TaskUnavailable,
+    'Only verified tasks can be disputed.'
+  ),
+  'Dispute window closed': known(
+    ContractErrorCode.DisputeClosed,
+    'The dispute window for this task has closed.'
+  ),
+  'Voting period ended': known(
+    ContractErrorCode.DisputeClosed,
+    'The commit phase for this dispute has ended.',
+    'Reveal your vote if you committed one.'
+  ),
+  'Not assigned to this dispute': known(
+    ContractErrorCode.NotAssigned,
+    'You are not one of the arbitrators assigned to this dispute.'
+  ),
+  'Already committed': known(
+    ContractErrorCode.AlreadyVoted,
+    'You have already committed a vote on this dispute.'
+  ),
+  'Not in reveal phase': known(
+    ContractErrorCode.DisputeClosed,
+    'Votes cannot be revealed yet.',
+    'Reveal once every arbitrator has committed or the commit phase has ended.'
+  ),
+  'Reveal period ended': known(
+    ContractErrorCode.DisputeClosed,
+    'The reveal phase for this dispute has ended.',
+    'Resolve the dispute to settle it.'
+  ),
+  'No commitment found': known(
+    ContractErrorCode.InvalidReveal,
+    'You did not commit a vote on this dispute.'
+  ),
+  'Already revealed': known(
+    ContractErrorCode.AlreadyVoted,
+    'You have already revealed your vote on this dispute.'
+  ),
+  'Invalid reveal': known(
+    ContractErrorCode.InvalidReveal,
+    'The revealed vote does not match your commitment.',
+    'Reveal from the browser you committed from, which keeps your vote and salt.'
+  ),
+  'Dispute not ready for resolution': known(
+    ContractErrorCode.DisputeClosed,
+    'The dispute is still collecting votes.',
+    'It can be resolved once every vote is revealed or the reveal phase has ended.'
+  ),
+
+  // RemovalNinja
+  'Not a registered processor': NOT_PROCESSOR,
+  'Not a processor': NOT_PROCESSOR,
+  'Processor is slashed': PROCESSOR_SLASHED,
+  'Already slashed': PROCESSOR_SLASHED,
+  'Selected processor is slashed': known(
+    ContractErrorCode.ProcessorSlashed,
+    'A selected processor has been slashed.',
+    'Choose a different processor.',
+    'processors'
+  ),
+  'User not staking for removal': known(
+    ContractErrorCode.NotStaking,
+    'You are not staking for removal.',
+    'Stake for removal first.'
+  ),
+  'Already staking for removal': known(
+    ContractErrorCode.AlreadyStaking,
+    'You are already staking for removal.'
+  ),
+  'Invalid removal ID': known(
+    ContractErrorCode.InvalidRemoval,
+    'That removal request does not exist.'
+  ),
+  'Name cannot be empty': known(
+    ContractErrorCode.BrokerNameRequired,
+    'The broker name is required.',
+    'Enter the broker name.',
+    'name'
+  ),
+  'Website cannot be empty': known(
+    ContractErrorCode.BrokerWebsiteRequired,
+    'The broker website is required.',
+    'Enter the broker website.',
+    'website'
+  ),
+  'Already registered as processor': ALREADY_REGISTERED,
+  'Insufficient stake amount': INSUFFICIENT_STAKE,
+  'Insufficient balance': INSUFFICIENT_BALANCE,
+  'Must select at least one processor': NO_PROCESSORS,
+  'No processors selected': NO_PROCESSORS,
+  'Too many processors selected': known(
+    ContractErrorCode.TooManyProcessors,
+    'Too many processors were selected.',
+    'Select at most 5 processors.',
+    'processors'
+  ),
+  'Invalid processor': INVALID_PROCESSOR,
+  'Selected processor not available': INVALID_PROCESSOR,
+  'Not assigned processor': known(
+    ContractErrorCode.NotAssigned,
+    'You are not the processor assigned to this request.'
+  ),
+  'Already completed': known(
+    ContractErrorCode.AlreadyCompleted,
+    'This request has already been completed.'
+  ),
+
+  // SimpleDEX
+  'Must send ETH': INVALID_AMOUNT,
+  'Must send tokens': INVALID_AMOUNT,
+  'Insufficient token output': INVALID_AMOUNT,
+  'Insufficient ETH output': INVALID_AMOUNT,
+  'No liquidity': NO_LIQUIDITY,
+  'Insufficient ETH in contract': NO_LIQUIDITY,
+};
+
+// OpenZeppelin custom errors declared in the ABIs
+const CUSTOM_ERRORS: Record<string, ErrorDescription> = {
+  ERC20InsufficientBalance: INSUFFICIENT_BALANCE,
+  ERC20InsufficientAllowance: known(
+    ContractErrorCode.InsufficientAllowance,
+    'The contract is not approved to spend enough of your RN tokens.',
+    'Approve the full amount and try again.'
+  ),
+  OwnableUnauthorizedAccount: UNAUTHORIZED,
+  AccessControlUnauthorizedAccount: UNAUTHORIZED,
+  EnforcedPause: PAUSED,
+  SafeERC20FailedOperation: known(
+    ContractErrorCode.InsufficientAllowance,
+    'The token transfer failed.',
+    'Check your RN balance and approval, then try again.'
+  ),
+};
+
+// Longest first so "Insufficient stake amount" wins over "Insufficient stake"
+const KNOWN_REASONS = Object.keys(REVERT_REASONS).sort((a, b) => b.length - a.length);
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const errorInterface = new Interface(
+  [
+    ...TOKEN_ABI,
+    ...REGISTRY_ABI,
+    ...FACTORY_ABI,
+    ...TASK_ABI,
+    ...DEX_ABI,
+    ...VERIFIER_REGISTRY_ABI,
+    ...DISPUTE_RESOLUTION_ABI,
+  ].filter(
+    (entry, index, entries) =>
+      entry.type === 'error' &&
+      entries.findIndex((other) => other.type === 'error' && other.name === entry.name) === index
+  ) as any[]
+);
+
+const USER_REJECTED_CODES: unknown[] = [4001, 'ACTION_REJECTED'];
+const USER_REJECTED_PATTERN = /user (rejected|denied|cancel)|rejected the request/i;
+const NETWORK_ERROR_CODES: unknown[] = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'];
+
+// ethers, thirdweb and injected wallets each wrap the RPC error differently
+const unwrap = (error: unknown): any[] => {
+  const found: any[] = [];
+  const queue: any[] = [error];
+  while (queue.length > 0 && found.length < 12) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object' || found.includes(current)) continue;
+    found.push(current);
+    queue.push(current.error, current.cause, current.data, current.info?.error, current.originalError);
+  }
+  return found;
+};
+
+const messagesOf = (errors: any[]): string[] =>
+  errors.reduce<string[]>(
+    (messages, error) =>
+      messages.concat(
+        [error.reason, error.shortMessage, error.message].filter((text): text is string => typeof text === 'string')
+      ),
+    []
+  );
+
+const decodeRevertData = (data: string): ErrorDescription | undefined => {
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = defaultAbiCoder.decode(['string'], `0x${data.slice(10)}`);
+      return REVERT_REASONS[reason] ?? known(ContractErrorCode.Reverted, `The contract rejected the transaction: ${reason}`);
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [panicCode] = defaultAbiCoder.decode(['uint256'], `0x${data.slice(10)}`);
+      return known(ContractErrorCode.Reverted, `The contract failed with panic code 0x${panicCode.toHexString().slice(2)}.`);
+    }
+    return CUSTOM_ERRORS[errorInterface.parseError(data).name];
+  } catch {
+    return undefined;
+  }
+};
+
+const findRevertReason = (messages: string[]): ErrorDescription | undefined => {
+  for (const message of messages) {
+    const exact = REVERT_REASONS[message.replace(/^execution reverted:\s*/, '').trim()];
+    if (exact) return exact;
+  }
+  for (const message of messages) {
+    const reason = KNOWN_REASONS.find((candidate) => message.includes(candidate));
+    if (reason) return REVERT_REASONS[reason];
+  }
+  return undefined;
+};
+
+// Wallets report a dismissed prompt with EIP-1193 code 4001; ethers wraps it as ACTION_REJECTED
+export const isUserRejection = (error: unknown): boolean => {
+  const errors = unwrap(error);
+  return (
+    errors.some((nested) => USER_REJECTED_CODES.includes(nested.code)) ||
+    messagesOf(errors).some((message) => USER_REJECTED_PATTERN.test(message))
+  );
+};
+
+const classify = (error: unknown): ErrorDescription => {
+  if (isUserRejection(error)) {
+    return known(ContractErrorCode.UserRejected, 'You rejected the request in your wallet.');
+  }
+
+  const errors = unwrap(error);
+  for (const nested of errors) {
+    const decoded = typeof nested.data === 'string' && nested.data.length >= 10 ? decodeRevertData(nested.data) : undefined;
+    if (decoded) return decoded;
+  }
+
+  const messages = messagesOf(errors);
+  const reverted = findRevertReason(messages);
+  if (reverted) return reverted;
+
+  const codes = errors.map((nested) => nested.code);
+  const text = messages.join('\n');
+  if (codes.includes('INSUFFICIENT_FUNDS') || /insufficient funds/i.test(text)) {
+    return known(
+      ContractErrorCode.InsufficientGasFunds,
+      'Your wallet does not have enough ETH to pay for gas.',
+      'Add ETH to your wallet and try again.'
+    );
+  }
+  if (/Transaction was (cancelled|replaced)/.test(text)) {
+    return known(
+      ContractErrorCode.TransactionReplaced,
+      'The transaction was replaced in your wallet before it was mined.',
+      'Check your wallet activity, then submit again if needed.'
+    );
+  }
+  if (/dropped before it was confirmed/.test(text)) {
+    return known(
+      ContractErrorCode.TransactionDropped,
+      'The transaction was dropped after a chain reorganisation.',
+      'Submit it again.'
+    );
+  }
+  if (codes.some((code) => NETWORK_ERROR_CODES.includes(code))) {
+    return known(
+      ContractErrorCode.NetworkError,
+      'Could not reach the network.',
+      'Check your connection and try again.'
+    );
+  }
+  if (codes.includes('CALL_EXCEPTION') || codes.includes('UNPREDICTABLE_GAS_LIMIT') || /revert/i.test(text)) {
+    return known(ContractErrorCode.Reverted, 'The contract rejected the transaction.');
+  }
+
+  // First line only: thirdweb appends a multi-line debugging report
+  const fallback = messages[0]?.split('\n')[0].trim();
+  return known(ContractErrorCode.Unknown, fallback || 'Unknown error occurred');
+};
+
+const transactionHashOf = (error: unknown): string | undefined => {
+  for (const nested of unwrap(error)) {
+    const hash = nested.transactionHash ?? nested.receipt?.transactionHash ?? nested.transaction?.hash;
+    if (typeof hash === 'string') return hash;
+  }
+  return undefined;
+};
+
+/**
+ * Map any failure from a contract read or write to a ContractError with a
+ * stable `code`, a message fit for the UI and, when the user can act on it,
+ * a `remedy`. Pass the hash when the transaction had already been sent.
+ */
+export const decodeContractError = (error: unknown, transactionHash?: string): ContractError => {
+  const { code, message, remedy, field } = classify(error);
+  const decoded: ContractError = { code, message };
+  if (remedy) decoded.remedy = remedy;
+  if (field) decoded.field = field;
+
+  const transaction = transactionHash || transactionHashOf(error);
+  if (transaction) decoded.transaction = transaction;
+  return decoded;
+};
+
+// Message plus remedy, for alerts and status lines
+export const formatContractError = (error: ContractError): string =>
+  error.remedy ? `${error.message} ${error.remedy}` : error.message;
+
+// Reverts caused by a form value, shaped for display next to that input
+export const toValidationError = (error: ContractError): ValidationError | null =>
+  error.field ? { field: error.field, message: error.message } : null;
+
+// Alert text for a failed write; null when the user dismissed the wallet prompt, which needs no alert
+export const formatFailure = (prefix: string, error: ContractError | undefined): string | null => {
+  if (error?.code === ContractErrorCode.UserRejected) return null;
+  return `${prefix}: ${error ? formatContractError(error) : 'Unknown error occurred'}`;
+};
@@ -0,0 +1,112 @@
+// React hooks binding the typed contract clients to the selected network's addresses
+import { useCallback, useMemo } from 'react';
+import { useContract, useSDK } from '@thirdweb-dev/react';
+import type { SmartContract } from '@thirdweb-dev/sdk';
+import { ContractName, getContractConfig } from '../config/contracts';
+import { useNetwork } from '../context/NetworkContext';
+import { getSimulatedContract } from '../simulation';
+import { AbiEntry, MULTICALL3_ABI, TASK_ABI } from './abis';
+import {
+  createDexClient,
+  createDisputeResolutionClient,
+  createFactoryClient,
+  createRegistryClient,
+  createTaskClient,
+  createTokenClient,
+  createVerifierRegistryClient,
+} from './clients';
+import { TaskLoader } from './tasks';
+
+// On the simulated network contracts come from the in-process chain, which answers
+// the same call/prepare interface the clients use, and thirdweb is never asked
+const useNetworkContract = (
+  address: string | undefined,
+  abi: AbiEntry[]
+): { contract: SmartContract | undefined; isLoading: boolean } => {
+  const { simulated } = useNetwork().network;
+  const { contract, isLoading } = useContract(simulated ? undefined : address, abi);
+  if (!simulated) return { contract, isLoading };
+
+  const simulatedContract = address ? getSimulatedContract(address) : undefined;
+  return { contract: simulatedContract as unknown as SmartContract | undefined, isLoading: false };
+};
+
+// Address and ABI come from the selected network's deployment manifest; contracts it
+// leaves out (e.g. the DEX on a local node) resolve to no contract
+const useDeployedContract = (contractName: ContractName) => {
+  const config = getContractConfig(useNetwork().networkKey, contractName);
+  return useNetworkContract(config?.address, config?.abi ?? []);
+};
+
+export const useRegistryContract = () => {
+  const { contract, isLoading } = useDeployedContract('DATA_BROKER_REGISTRY');
+  const registry = useMemo(() => (contract ? createRegistryClient(contract) : undefined), [contract]);
+  return { contract, registry, isLoading };
+};
+
+export const useFactoryContract = () => {
+  const { networkKey } = useNetwork();
+  const { contract, isLoading } = useDeployedContract('TASK_FACTORY');
+  const factory = useMemo(
+    () => (contract ? createFactoryClient(contract, getContractConfig(networkKey, 'TASK_FACTORY')?.abi) : undefined),
+    [contract, networkKey]
+  );
+  return { contract, factory, isLoading };
+};
+
+export const useTokenContract = () => {
+  const { contract, isLoading } = useDeployedContract('REMOVAL_NINJA_TOKEN');
+  const token = useMemo(() => (contract ? createTokenClient(contract) : undefined), [contract]);
+  return { contract, token, isLoading };
+};
+
+export const useDexContract = () => {
+  const { contract, isLoading } = useDeployedContract('SIMPLE_DEX');
+  const dex = useMemo(() => (contract ? createDexClient(contract) : undefined), [contract]);
+  return { contract, dex, isLoading };
+};
+
+export const useVerifierRegistryContract = () => {
+  const { contract, isLoading } = useDeployedContract('VERIFIER_REGISTRY');
+  const verifierRegistry = useMemo(() => (contract ? createVerifierRegistryClient(contract) : undefined), [contract]);
+  return { contract, verifierRegistry, isLoading };
+};
+
+export const useDisputeResolutionContract = () => {
+  const { contract, isLoading } = useDeployedContract('DISPUTE_RESOLUTION');
+  const disputeResolution = useMemo(
+    () => (contract ? createDisputeResolutionClient(contract) : undefined),
+    [contract]
+  );
+  return { contract, disputeResolution, isLoading };
+};
+
+export const useTaskContract = (taskAddress: string | undefined) => {
+  const { contract, isLoading } = useNetworkContract(taskAddress, TASK_ABI);
+  const task = useMemo(() => (contract ? createTaskClient(contract) : undefined), [contract]);
+  return { contract, task, isLoading };
+};
+
+// For lists of tasks, where one useTaskContract per task is not possible; undefined until the SDK is ready
+export const useTaskLoader = (): TaskLoader | undefined => {
+  const { simulated } = useNetwork().network;
+  const sdk = useSDK();
+
+  const loadTask = useCallback<TaskLoader>(
+    async (taskAddress) => {
+      const contract = simulated ? getSimulatedContract(taskAddress) : await sdk!.getContract(taskAddress, TASK_ABI);
+      if (!contract) throw new Error(`No task contract at ${taskAddress}`);
+      return createTaskClient(contract as unknown as SmartContract);
+    },
+    [simulated, sdk]
+  );
+
+  return simulated || sdk ? loadTask : undefined;
+};
+
+// Resolves to no contract on chains without Multicall3 so callers fall back to direct reads
+export const useMulticallContract = () => {
+  const multicallAddress = useNetwork().network.multicall3;
+  const { contract, isLoading } = useContract(multicallAddress, MULTICALL3_ABI);
+  return { multicall: contract, isLoading: Boolean(multicallAddress) && isLoading };
+};
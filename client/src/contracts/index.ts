@@ -0,0 +1,11 @@
+// Typed contract layer for the RemovalNinja protocol
+export * from './abis';
+export * from './clients';
+export * from './decoders';
+export * from './disputes';
+export * from './errors';
+export * from './hooks';
+export * from './multicall';
+export * from './tasks';
+export * from './transactions';
+export * from './verifiers';
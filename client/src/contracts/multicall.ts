@@ -0,0 +1,130 @@
+// Batched contract reads through Multicall3, with a bounded-concurrency fallback
+import type { SmartContract } from '@thirdweb-dev/sdk';
+import { Interface, Result } from 'ethers/lib/utils';
+import { DataBroker } from '../types/contracts';
+import { REGISTRY_ABI } from './abis';
+import { RegistryClient } from './clients';
+import { decodeBroker } from './decoders';
+
+export const MULTICALL_BATCH_SIZE = 100;
+export const FALLBACK_CONCURRENCY = 5;
+
+export interface MulticallRequest {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResponse {
+  success: boolean;
+  returnData: string;
+}
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Run `aggregate3` over the requests in batches. Individual calls may fail
+ * without failing the batch; check `success` on each response.
+ */
+export const aggregate = async (
+  multicall: SmartContract,
+  requests: MulticallRequest[],
+  batchSize: number = MULTICALL_BATCH_SIZE
+): Promise<MulticallResponse[]> => {
+  const responses: MulticallResponse[] = [];
+
+  for (const batch of chunk(requests, batchSize)) {
+    const results: Result[] = await multicall.call('aggregate3', [
+      batch.map((request) => ({ ...request, allowFailure: true })),
+    ]);
+    results.forEach((result) => {
+      responses.push({ success: result.success, returnData: result.returnData });
+    });
+  }
+
+  return responses;
+};
+
+/**
+ * Map over items with at most `limit` promises in flight. Failed items resolve
+ * to undefined so one bad read does not drop the whole list.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<(R | undefined)[]> => {
+  const results: (R | undefined)[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        console.error(`Error loading item ${String(items[index])}:`, error);
+        results[index] = undefined;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const registryInterface = new Interface(REGISTRY_ABI);
+
+const fetchBrokersViaMulticall = async (
+  registry: RegistryClient,
+  multicall: SmartContract,
+  brokerIds: number[]
+): Promise<DataBroker[]> => {
+  const target = registry.contract.getAddress();
+  const responses = await aggregate(
+    multicall,
+    brokerIds.map((brokerId) => ({
+      target,
+      callData: registryInterface.encodeFunctionData('brokers', [brokerId]),
+    }))
+  );
+
+  const brokers: DataBroker[] = [];
+  responses.forEach((response, index) => {
+    if (!response.success) {
+      console.error(`Error fetching broker ${brokerIds[index]}`);
+      return;
+    }
+    brokers.push(decodeBroker(registryInterface.decodeFunctionResult('brokers', response.returnData)));
+  });
+  return brokers;
+};
+
+/**
+ * Load every broker with an id below `nextBrokerId`. Uses Multicall3 when the
+ * active chain has it and falls back to parallel direct calls otherwise.
+ */
+export const fetchAllBrokers = async (
+  registry: RegistryClient,
+  multicall: SmartContract | undefined,
+  nextBrokerId: number
+): Promise<DataBroker[]> => {
+  const brokerIds = Array.from({ length: Math.max(nextBrokerId - 1, 0) }, (_, i) => i + 1);
+  if (brokerIds.length === 0) return [];
+
+  if (multicall) {
+    try {
+      return await fetchBrokersViaMulticall(registry, multicall, brokerIds);
+    } catch (error) {
+      console.warn('Multicall read failed, falling back to direct calls:', error);
+    }
+  }
+
+  const brokers = await mapWithConcurrency(brokerIds, FALLBACK_CONCURRENCY, registry.getBroker);
+  return brokers.filter((broker): broker is DataBroker => broker !== undefined);
+};
@@ -0,0 +1,120 @@
+// Loading many task contracts at once, each with its broker and evidence
+import type { ContractTransaction } from 'ethers';
+import { DataBroker, RemovalTask, SubmitEvidenceForm, TaskStatus, UserTaskData } from '../types/contracts';
+import { FactoryClient, RegistryClient, TaskClient } from './clients';
+import { FALLBACK_CONCURRENCY, mapWithConcurrency } from './multicall';
+
+// Task contracts are deployed per task, so they are resolved by address at read time
+export type TaskLoader = (taskAddress: string) => Promise<TaskClient>;
+
+/**
+ * Broker reads for one batch: each broker is read from `registry` once, however many
+ * tasks, sessions or disputes ask for it.
+ */
+export const createBrokerLookup = (registry: RegistryClient) => {
+  const brokers = new Map<number, Promise<DataBroker>>();
+  return (brokerId: number): Promise<DataBroker> => {
+    if (!brokers.has(brokerId)) brokers.set(brokerId, registry.getBroker(brokerId));
+    return brokers.get(brokerId)!;
+  };
+};
+
+/**
+ * Resolve and read every task in `taskIds`, keeping their order. Tasks that
+ * fail to load are left out; each broker is read once however many tasks use it.
+ */
+export const fetchTaskData = async (
+  taskIds: number[],
+  factory: FactoryClient,
+  registry: RegistryClient,
+  loadTask: TaskLoader
+): Promise<UserTaskData[]> => {
+  const getBroker = createBrokerLookup(registry);
+
+  const tasks = await mapWithConcurrency(taskIds, FALLBACK_CONCURRENCY, async (taskId) => {
+    const client = await loadTask(await factory.getTaskAddress(taskId));
+    const [task, evidence] = await Promise.all([client.getTask(), client.getAllEvidence()]);
+    return { task, broker: await getBroker(task.brokerId), evidence };
+  });
+  return tasks.filter((task): task is UserTaskData => task !== undefined);
+};
+
+// ============ Task statistics ============
+
+// Tasks still waiting on a worker, the broker or a dispute
+export const ACTIVE_TASK_STATUSES = [TaskStatus.Created, TaskStatus.Requested, TaskStatus.Responded, TaskStatus.Disputed];
+
+/**
+ * Median seconds from creation to verification across the verified tasks in `tasks`,
+ * or undefined when none has been verified.
+ */
+export const medianCompletionTime = (tasks: RemovalTask[]): number | undefined => {
+  const durations = tasks
+    .filter((task) => task.currentStatus === TaskStatus.Verified && task.completedAt)
+    .map((task) => task.completedAt! - task.createdAt)
+    .sort((a, b) => a - b);
+  if (durations.length === 0) return undefined;
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2 ? durations[middle] : Math.round((durations[middle - 1] + durations[middle]) / 2);
+};
+
+// ============ Worker steps ============
+
+export type WorkerAction = 'markRemovalRequested' | 'markBrokerResponded' | 'submitEvidence' | 'markFailed';
+
+interface WorkerActionInfo {
+  label: string;
+  // Mirrors the task contract's status and deadline checks for the call
+  isAllowed: (status: TaskStatus, pastDeadline: boolean) => boolean;
+}
+
+export const WORKER_ACTIONS: Record<WorkerAction, WorkerActionInfo> = {
+  markRemovalRequested: {
+    label: 'Mark Removal Requested',
+    isAllowed: (status, pastDeadline) => !pastDeadline && status === TaskStatus.Created,
+  },
+  markBrokerResponded: {
+    label: 'Mark Broker Responded',
+    isAllowed: (status, pastDeadline) => !pastDeadline && status === TaskStatus.Requested,
+  },
+  submitEvidence: {
+    label: 'Submit Evidence',
+    isAllowed: (status, pastDeadline) =>
+      !pastDeadline && (status === TaskStatus.Requested || status === TaskStatus.Responded),
+  },
+  // After the deadline the contract accepts any status; finished tasks are left alone
+  markFailed: {
+    label: 'Mark Failed',
+    isAllowed: (status, pastDeadline) =>
+      status === TaskStatus.Created ||
+      status === TaskStatus.Requested ||
+      (pastDeadline && status === TaskStatus.Responded),
+  },
+};
+
+/**
+ * Steps the assigned worker can take on `task` at `now` (seconds), in workflow order.
+ * Pass useChainTime(), not the wall clock: simulated chains keep their own time.
+ */
+export const getWorkerActions = (task: RemovalTask, now: number): WorkerAction[] =>
+  (Object.keys(WORKER_ACTIONS) as WorkerAction[]).filter((action) =>
+    WORKER_ACTIONS[action].isAllowed(task.currentStatus, now > task.deadline)
+  );
+
+// `summary` carries the request note, broker response, evidence summary or failure reason
+export const sendWorkerAction = (
+  task: TaskClient,
+  action: WorkerAction,
+  { evidenceCid, summary }: SubmitEvidenceForm
+): Promise<ContractTransaction> => {
+  switch (action) {
+    case 'markRemovalRequested':
+      return task.markRemovalRequested(summary);
+    case 'markBrokerResponded':
+      return task.markBrokerResponded(summary);
+    case 'submitEvidence':
+      return task.submitEvidence(evidenceCid, summary);
+    case 'markFailed':
+      return task.markFailed(summary);
+  }
+};
@@ -0,0 +1,74 @@
+// Follows a sent transaction through mining and confirmations using its receipts
+import type { ContractTransaction, providers } from 'ethers';
+import { TrackedTransaction, TransactionStatus } from '../types/contracts';
+import { decodeContractError } from './errors';
+
+type TransactionReceipt = providers.TransactionReceipt;
+
+// Blocks to wait after mining before a write counts as settled
+export const DEFAULT_CONFIRMATIONS = 2;
+
+/**
+ * Wait for a submitted transaction to be mined and reach `confirmations`
+ * blocks, reporting every stage through `onUpdate`. A repriced replacement
+ * (same call, higher gas) is followed to completion; any other replacement,
+ * a revert or a dropped transaction rejects.
+ */
+export const trackTransaction = async (
+  response: ContractTransaction,
+  onUpdate: (transaction: TrackedTransaction) => void = () => undefined,
+  confirmations: number = DEFAULT_CONFIRMATIONS
+): Promise<TransactionReceipt> => {
+  let tracked: TrackedTransaction = {
+    hash: response.hash,
+    status: TransactionStatus.Submitted,
+    confirmations: 0,
+    requiredConfirmations: confirmations,
+  };
+  const update = (changes: Partial<TrackedTransaction>) => {
+    tracked = { ...tracked, ...changes };
+    onUpdate(tracked);
+  };
+  onUpdate(tracked);
+
+  let pending: ContractTransaction = response;
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await pending.wait(1);
+  } catch (error: any) {
+    if (error?.code !== 'TRANSACTION_REPLACED') {
+      update({ status: TransactionStatus.Failed, error: decodeContractError(error).message });
+      throw error;
+    }
+
+    update({ status: TransactionStatus.Replaced, replacedBy: error.replacement?.hash });
+    if (error.cancelled || error.receipt?.status === 0) {
+      throw new Error(`Transaction was ${error.reason} by ${error.replacement?.hash}`);
+    }
+    pending = error.replacement;
+    receipt = error.receipt;
+  }
+
+  update({
+    status: TransactionStatus.Mined,
+    confirmations: 1,
+    blockNumber: receipt.blockNumber,
+  });
+
+  if (confirmations > 1) {
+    try {
+      receipt = await pending.wait(confirmations);
+    } catch (error: any) {
+      // The block it was mined in was reorged out and the transaction did not come back
+      update({ status: TransactionStatus.Failed, error: decodeContractError(error).message });
+      throw new Error('Transaction was dropped before it was confirmed');
+    }
+  }
+
+  update({
+    status: TransactionStatus.Confirmed,
+    confirmations,
+    blockNumber: receipt.blockNumber,
+  });
+  return receipt;
+};
@@ -0,0 +1,48 @@
+// Verification sessions joined with the tasks they review, and the verifier's standing
+import { BigNumber } from 'ethers';
+import { VerificationSession, VerificationSessionData, Verifier } from '../types/contracts';
+import { RegistryClient, VerifierRegistryClient } from './clients';
+import { FALLBACK_CONCURRENCY, mapWithConcurrency } from './multicall';
+import { createBrokerLookup, TaskLoader } from './tasks';
+
+/**
+ * Read every session in `taskIds` with its task, broker and evidence, keeping their order.
+ * Sessions that fail to load are left out, as in fetchTaskData.
+ */
+export const fetchVerificationSessions = async (
+  taskIds: number[],
+  verifierRegistry: VerifierRegistryClient,
+  registry: RegistryClient,
+  loadTask: TaskLoader
+): Promise<VerificationSessionData[]> => {
+  const getBroker = createBrokerLookup(registry);
+
+  const sessions = await mapWithConcurrency(taskIds, FALLBACK_CONCURRENCY, async (taskId) => {
+    const session = await verifierRegistry.getVerificationSession(taskId);
+    const client = await loadTask(session.taskContract);
+    const [task, evidence] = await Promise.all([client.getTask(), client.getAllEvidence()]);
+    return { session, task, broker: await getBroker(task.brokerId), evidence };
+  });
+  return sessions.filter((session): session is VerificationSessionData => session !== undefined);
+};
+
+// The registry accepts votes until the deadline, and settles a session once everyone
+// has voted or the deadline has passed
+export const isVotingOpen = (session: VerificationSession, now: number = Date.now() / 1000): boolean =>
+  !session.isCompleted && now <= session.deadline;
+
+export const canCompleteVerification = (session: VerificationSession, now: number = Date.now() / 1000): boolean =>
+  !session.isCompleted && (now > session.deadline || session.totalVotes === session.requiredVerifiers);
+
+// verificationsCompleted only grows when a reward is paid, so it counts rewards exactly
+export const getRewardsEarned = (verifier: Verifier, verificationReward: string): string =>
+  BigNumber.from(verificationReward).mul(verifier.verificationsCompleted).toString();
+
+/**
+ * What the one slash a verifier can receive took from their stake. The registry only keeps
+ * the stake left afterwards, which is frozen once slashed, so this is exact to within 1 wei.
+ */
+export const getSlashedAmount = (verifier: Verifier, slashPercentage: number): string =>
+  verifier.isSlashed
+    ? BigNumber.from(verifier.stake).mul(slashPercentage).div(100 - slashPercentage).toString()
+    : '0';
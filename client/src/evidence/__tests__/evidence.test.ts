@@ -0,0 +1,92 @@
+import {
+  checkEvidence,
+  computeCid,
+  createIpfsEvidenceStorage,
+  createMemoryEvidenceStorage,
+  fromBase32,
+  MAX_EVIDENCE_BYTES,
+  parseRawCid,
+  readEvidenceFile,
+  toBase32,
+} from '..';
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+// `ipfs block put --cid-codec raw` of an empty file and of "hello world"
+const EMPTY_CID = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const HELLO_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+describe('evidence', () => {
+  describe('CIDs', () => {
+    test('match the raw-block CIDs IPFS computes', async () => {
+      expect(await computeCid(new Uint8Array())).toBe(EMPTY_CID);
+      expect(await computeCid(bytesOf('hello world'))).toBe(HELLO_CID);
+    });
+
+    test('round-trip through base32', () => {
+      const bytes = new Uint8Array([0, 1, 2, 253, 254, 255, 7]);
+      expect(fromBase32(toBase32(bytes))).toEqual(bytes);
+      expect(fromBase32('not base32!')).toBeUndefined();
+    });
+
+    test('only parse raw sha2-256 CIDv1s', () => {
+      expect(parseRawCid(HELLO_CID)).toHaveLength(32);
+      expect(parseRawCid('QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u')).toBeUndefined();
+      expect(parseRawCid('bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi')).toBeUndefined();
+    });
+
+    test('tell whether fetched content is what was recorded', async () => {
+      expect(await checkEvidence(bytesOf('hello world'), HELLO_CID)).toBe('match');
+      expect(await checkEvidence(bytesOf('hello world!'), HELLO_CID)).toBe('mismatch');
+      expect(await checkEvidence(bytesOf('hello world'), 'QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u')).toBe(
+        'unsupported'
+      );
+    });
+  });
+
+  describe('files', () => {
+    test('hashes a picked file', async () => {
+      const file = new File(['hello world'], 'optout.eml', { type: 'message/rfc822' });
+
+      expect(await readEvidenceFile(file)).toMatchObject({ name: 'optout.eml', size: 11, cid: HELLO_CID });
+    });
+
+    test('rejects unsupported and oversized files', async () => {
+      await expect(readEvidenceFile(new File(['x'], 'notes.txt', { type: 'text/plain' }))).rejects.toThrow(
+        'Attach a screenshot, PDF or .eml file'
+      );
+      const large = new File([new Uint8Array(MAX_EVIDENCE_BYTES + 1)], 'scan.png', { type: 'image/png' });
+      await expect(readEvidenceFile(large)).rejects.toThrow(/limited to 1 MB/);
+    });
+  });
+
+  describe('storage', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('keeps blocks in memory', async () => {
+      const storage = createMemoryEvidenceStorage();
+
+      await storage.put(HELLO_CID, bytesOf('hello world'));
+
+      expect(await storage.get(HELLO_CID)).toEqual(bytesOf('hello world'));
+      expect(await storage.get(EMPTY_CID)).toBeUndefined();
+    });
+
+    test('refuses a block the IPFS node stored under another CID', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ Key: EMPTY_CID }) });
+      const storage = createIpfsEvidenceStorage({ apiUrl: 'http://127.0.0.1:5001/' });
+
+      await expect(storage.put(HELLO_CID, bytesOf('hello world'))).rejects.toThrow(
+        `The IPFS node stored the evidence as ${EMPTY_CID}, not ${HELLO_CID}`
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://127.0.0.1:5001/api/v0/block/put?cid-codec=raw&mhtype=sha2-256&pin=true',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+});
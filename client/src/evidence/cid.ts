@@ -0,0 +1,88 @@
+// Content IDs for evidence. Every file is stored as one raw IPFS block, so its CIDv1 is
+// "b" + base32(<version 1><codec raw><multihash: sha2-256, 32 bytes, digest>) and can be
+// recomputed from the bytes alone. All four codes are below 0x80, so each varint is one byte.
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const DIGEST_BYTES = 32;
+const CID_PREFIX = [CID_VERSION, RAW_CODEC, SHA2_256, DIGEST_BYTES];
+
+// Multibase prefix for lowercase RFC 4648 base32 without padding
+const BASE32_PREFIX = 'b';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// How recorded evidence compares with the bytes fetched for it
+export type EvidenceCheck = 'match' | 'mismatch' | 'unsupported';
+
+// ============ Base32 ============
+
+export const toBase32 = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+};
+
+// Undefined when `encoded` holds characters outside the alphabet
+export const fromBase32 = (encoded: string): Uint8Array | undefined => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of encoded) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) return undefined;
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// ============ CIDs ============
+
+export const computeCid = async (
+  bytes: Uint8Array,
+  subtle: SubtleCrypto = window.crypto.subtle
+): Promise<string> => {
+  const digest = new Uint8Array(await subtle.digest('SHA-256', bytes));
+  const cid = new Uint8Array(CID_PREFIX.length + DIGEST_BYTES);
+  cid.set(CID_PREFIX);
+  cid.set(digest, CID_PREFIX.length);
+  return BASE32_PREFIX + toBase32(cid);
+};
+
+/**
+ * The sha2-256 digest in a raw-block CIDv1, or undefined for anything else (CIDv0,
+ * dag-pb files chunked by `ipfs add`, other hashes), which cannot be checked here.
+ */
+export const parseRawCid = (cid: string): Uint8Array | undefined => {
+  if (!cid.startsWith(BASE32_PREFIX)) return undefined;
+  const bytes = fromBase32(cid.slice(BASE32_PREFIX.length));
+  if (!bytes || bytes.length !== CID_PREFIX.length + DIGEST_BYTES) return undefined;
+  if (CID_PREFIX.some((code, index) => bytes[index] !== code)) return undefined;
+  return bytes.slice(CID_PREFIX.length);
+};
+
+export const isRawCid = (cid: string): boolean => parseRawCid(cid) !== undefined;
+
+// Re-hashes fetched content to see whether it is what the task recorded
+export const checkEvidence = async (
+  bytes: Uint8Array,
+  cid: string,
+  subtle: SubtleCrypto = window.crypto.subtle
+): Promise<EvidenceCheck> => {
+  if (!isRawCid(cid)) return 'unsupported';
+  return (await computeCid(bytes, subtle)) === cid ? 'match' : 'mismatch';
+};
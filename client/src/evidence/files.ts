@@ -0,0 +1,45 @@
+// Reading evidence files picked by a worker, and hashing them before anything is uploaded
+import { computeCid } from './cid';
+
+// One raw block must fit the IPFS block size limit
+export const MAX_EVIDENCE_BYTES = 1024 * 1024;
+
+// Screenshots, PDFs and saved emails; the `accept` list for the file picker
+export const EVIDENCE_FILE_TYPES = 'image/*,.pdf,application/pdf,.eml,message/rfc822';
+
+export interface EvidenceFile {
+  name: string;
+  type: string;
+  size: number; // bytes
+  bytes: Uint8Array;
+  cid: string;
+}
+
+const isAcceptedType = ({ name, type }: File) =>
+  type.startsWith('image/') ||
+  type === 'application/pdf' ||
+  type === 'message/rfc822' ||
+  /\.(pdf|eml)$/i.test(name);
+
+// FileReader rather than Blob.arrayBuffer, which older browsers and jsdom lack
+const readBytes = (file: File): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+
+export const readEvidenceFile = async (
+  file: File,
+  subtle: SubtleCrypto = window.crypto.subtle
+): Promise<EvidenceFile> => {
+  if (!isAcceptedType(file)) {
+    throw new Error('Attach a screenshot, PDF or .eml file');
+  }
+  if (file.size > MAX_EVIDENCE_BYTES) {
+    throw new Error('Evidence files are limited to 1 MB; crop or compress it');
+  }
+  const bytes = await readBytes(file);
+  return { name: file.name, type: file.type, size: file.size, bytes, cid: await computeCid(bytes, subtle) };
+};
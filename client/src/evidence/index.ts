@@ -0,0 +1,4 @@
+// Evidence files: CIDs computed in the browser, and pluggable storage for the bytes
+export * from './cid';
+export * from './files';
+export * from './storage';
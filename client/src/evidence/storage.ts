@@ -0,0 +1,67 @@
+// Where evidence bytes live. The CID is always computed in the browser first, and
+// providers must store each file as the single raw block it names.
+export interface EvidenceStorage {
+  name: string; // Shown to viewers, e.g. "IPFS"
+  put: (cid: string, bytes: Uint8Array) => Promise<void>;
+  get: (cid: string) => Promise<Uint8Array | undefined>; // Undefined when the provider does not have it
+}
+
+export interface IpfsStorageOptions {
+  apiUrl: string; // Kubo RPC API, e.g. http://127.0.0.1:5001
+  gatewayUrl?: string; // Gateway serving raw blocks; the API is used when left out
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Stores blocks on an IPFS node through its RPC API and pins them there
+export const createIpfsEvidenceStorage = ({ apiUrl, gatewayUrl }: IpfsStorageOptions): EvidenceStorage => {
+  const api = trimSlash(apiUrl);
+
+  return {
+    name: 'IPFS',
+    put: async (cid, bytes) => {
+      const body = new FormData();
+      body.append('file', new Blob([bytes]));
+      const response = await fetch(`${api}/api/v0/block/put?cid-codec=raw&mhtype=sha2-256&pin=true`, {
+        method: 'POST',
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`The IPFS node rejected the evidence (HTTP ${response.status})`);
+      }
+      const { Key } = await response.json();
+      if (Key !== cid) {
+        throw new Error(`The IPFS node stored the evidence as ${Key}, not ${cid}`);
+      }
+    },
+    get: async (cid) => {
+      const response = gatewayUrl
+        ? await fetch(`${trimSlash(gatewayUrl)}/ipfs/${cid}?format=raw`)
+        : await fetch(`${api}/api/v0/block/get?arg=${cid}`, { method: 'POST' });
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw new Error(`Could not fetch ${cid} from IPFS (HTTP ${response.status})`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+};
+
+// Lives only as long as the page; used for development and in tests
+export const createMemoryEvidenceStorage = (): EvidenceStorage => {
+  const blocks = new Map<string, Uint8Array>();
+  return {
+    name: 'this browser',
+    put: async (cid, bytes) => {
+      blocks.set(cid, bytes);
+    },
+    get: async (cid) => blocks.get(cid),
+  };
+};
+
+// Set REACT_APP_IPFS_API_URL (and optionally REACT_APP_IPFS_GATEWAY_URL) to pin evidence to IPFS;
+// undefined when the build configures no node
+export const createConfiguredEvidenceStorage = (): EvidenceStorage | undefined => {
+  const apiUrl = process.env.REACT_APP_IPFS_API_URL;
+  return apiUrl ? createIpfsEvidenceStorage({ apiUrl, gatewayUrl: process.env.REACT_APP_IPFS_GATEWAY_URL }) : undefined;
+};
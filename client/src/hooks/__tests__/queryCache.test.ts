@@ -0,0 +1,136 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { clearQueryCache, invalidateQueries, useQuery } from '../queryCache';
+import { useTransaction } from '../useTransaction';
+import { ContractErrorCode } from '../../types/contracts';
+
+describe('useQuery', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  test('shares one fetch between components using the same key', async () => {
+    const fetcher = jest.fn(async () => ['a', 'b']);
+
+    const { result: first } = renderHook(() => useQuery('brokers:0x1', fetcher));
+    const { result: second } = renderHook(() => useQuery('brokers:0x1', fetcher));
+
+    await waitFor(() => expect(first.current.data).toEqual(['a', 'b']));
+    expect(second.current.data).toEqual(['a', 'b']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('serves cached data to a later mount without refetching', async () => {
+    const fetcher = jest.fn(async () => 42);
+
+    const { result: first, unmount } = renderHook(() => useQuery('worker:0x1', fetcher));
+    await waitFor(() => expect(first.current.data).toBe(42));
+    unmount();
+
+    const { result: second } = renderHook(() => useQuery('worker:0x1', fetcher));
+    expect(second.current.data).toBe(42);
+    expect(second.current.loading).toBe(false);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('stays idle while the key is null', () => {
+    const fetcher = jest.fn(async () => 1);
+
+    const { result } = renderHook(() => useQuery(null, fetcher));
+
+    expect(result.current).toMatchObject({ data: null, loading: false, error: null });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  test('reports fetch errors', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetcher = jest.fn(async () => {
+      throw new Error('execution reverted');
+    });
+
+    const { result } = renderHook(() => useQuery('broker:0x1:1', fetcher));
+
+    await waitFor(() => expect(result.current.error).toBe('execution reverted'));
+    expect(result.current.loading).toBe(false);
+  });
+
+  test('refetch loads fresh data', async () => {
+    let balance = '100';
+    const { result } = renderHook(() => useQuery('tokenBalance:0x1', async () => balance));
+    await waitFor(() => expect(result.current.data).toBe('100'));
+
+    balance = '50';
+    await act(() => result.current.refetch());
+
+    expect(result.current.data).toBe('50');
+  });
+
+  test('invalidateQueries refetches mounted queries matching the prefix', async () => {
+    let tasks = [1];
+    const tasksFetcher = jest.fn(async () => tasks);
+    const balanceFetcher = jest.fn(async () => '100');
+
+    const { result: tasksResult } = renderHook(() => useQuery('userTasks:0x1', tasksFetcher));
+    renderHook(() => useQuery('tokenBalance:0x1', balanceFetcher));
+    await waitFor(() => expect(tasksResult.current.data).toEqual([1]));
+
+    tasks = [1, 2];
+    await act(() => invalidateQueries('userTasks'));
+
+    expect(tasksResult.current.data).toEqual([1, 2]);
+    expect(tasksFetcher).toHaveBeenCalledTimes(2);
+    expect(balanceFetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useTransaction', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  test('returns the transaction hash and invalidates queries on success', async () => {
+    let brokers = ['a'];
+    const { result: brokersResult } = renderHook(() => useQuery('brokers:0x1', async () => brokers));
+    await waitFor(() => expect(brokersResult.current.data).toEqual(['a']));
+
+    const send = jest.fn(async () => ({
+      hash: '0xabc',
+      wait: async () => {
+        brokers = ['a', 'b'];
+        return { transactionHash: '0xabc', blockNumber: 1 };
+      },
+    }) as any);
+    const { result } = renderHook(() => useTransaction(send, ['brokers'], 1));
+
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.execute(['b']);
+    });
+
+    expect(send).toHaveBeenCalledWith('b');
+    expect(outcome).toEqual({ hash: '0xabc', success: true });
+    expect(result.current.transaction?.status).toBe('confirmed');
+    expect(brokersResult.current.data).toEqual(['a', 'b']);
+  });
+
+  test('decodes the revert reason on failure', async () => {
+    const send = jest.fn(async () => {
+      throw Object.assign(new Error('call failed'), { reason: 'Broker not active' });
+    });
+    const { result } = renderHook(() => useTransaction(send));
+
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.execute([]);
+    });
+
+    const error = {
+      code: ContractErrorCode.BrokerInactive,
+      message: 'This data broker is no longer active.',
+      remedy: 'Pick an active broker.',
+      field: 'brokerId',
+    };
+    expect(outcome).toEqual({ hash: '', success: false, error });
+    expect(result.current.error).toEqual(error);
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,6 @@
+export * from './queryCache';
+export * from './useContractData';
+export * from './useTransaction';
+export * from './useNetworkGuard';
+export * from './useAccount';
+export * from './useChainTime';
@@ -0,0 +1,126 @@
+// Shared query cache for contract reads, so data survives route changes
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { ContractCall, UseContractReturn } from '../types/contracts';
+
+type Listener = () => void;
+
+interface CacheEntry {
+  state: ContractCall<unknown>;
+  fetchedAt: number;
+  fetcher?: () => Promise<unknown>;
+  inFlight?: Promise<void>;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const IDLE_STATE: ContractCall<never> = { data: null, loading: false, error: null };
+
+const cache = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<Listener>>();
+
+const getEntry = (key: string): CacheEntry => {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { state: IDLE_STATE, fetchedAt: 0 };
+    cache.set(key, entry);
+  }
+  return entry;
+};
+
+const setState = (key: string, state: Partial<ContractCall<unknown>>) => {
+  const entry = getEntry(key);
+  entry.state = { ...entry.state, ...state };
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const subscribe = (key: string, listener: Listener) => {
+  const keyListeners = listeners.get(key) ?? new Set<Listener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+  return () => {
+    keyListeners.delete(listener);
+  };
+};
+
+export const queryKey = (...parts: (string | number)[]): string => parts.join(':');
+
+/**
+ * Run the registered fetcher for a key. Concurrent callers share one request.
+ */
+export const fetchQuery = (key: string): Promise<void> => {
+  const entry = getEntry(key);
+  if (entry.inFlight) return entry.inFlight;
+  if (!entry.fetcher) return Promise.resolve();
+
+  const fetcher = entry.fetcher;
+  setState(key, { loading: true, error: null });
+
+  entry.inFlight = fetcher()
+    .then((data) => {
+      entry.fetchedAt = Date.now();
+      setState(key, { data, loading: false, error: null });
+    })
+    .catch((error: any) => {
+      console.error(`Error loading ${key}:`, error);
+      setState(key, { loading: false, error: error?.reason || error?.message || 'Unknown error occurred' });
+    })
+    .finally(() => {
+      entry.inFlight = undefined;
+    });
+
+  return entry.inFlight;
+};
+
+/**
+ * Mark every query under `prefix` (whole key segments, so 'broker' does not
+ * match 'brokers:...') as stale and refetch the ones currently rendered.
+ */
+export const invalidateQueries = async (prefix: string): Promise<void> => {
+  const refetches: Promise<void>[] = [];
+  cache.forEach((entry, key) => {
+    if (key !== prefix && !key.startsWith(`${prefix}:`)) return;
+    entry.fetchedAt = 0;
+    if (listeners.get(key)?.size) {
+      refetches.push(fetchQuery(key));
+    }
+  });
+  await Promise.all(refetches);
+};
+
+export const clearQueryCache = () => {
+  cache.clear();
+  listeners.clear();
+};
+
+/**
+ * Subscribe a component to a cached query. Passing a null key disables the
+ * query, e.g. while the contract or wallet is not available yet.
+ */
+export const useQuery = <T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  staleTime: number = DEFAULT_STALE_TIME
+): UseContractReturn<T> => {
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribeToKey = useCallback(
+    (listener: Listener) => (key ? subscribe(key, listener) : () => undefined),
+    [key]
+  );
+  const getSnapshot = useCallback(() => (key ? getEntry(key).state : IDLE_STATE), [key]);
+  const state = useSyncExternalStore(subscribeToKey, getSnapshot) as ContractCall<T>;
+
+  useEffect(() => {
+    if (!key) return;
+    const entry = getEntry(key);
+    entry.fetcher = () => fetcherRef.current();
+    if (Date.now() - entry.fetchedAt > staleTime) {
+      fetchQuery(key);
+    }
+  }, [key, staleTime]);
+
+  const refetch = useCallback(() => (key ? fetchQuery(key) : Promise.resolve()), [key]);
+
+  return { ...state, refetch };
+};
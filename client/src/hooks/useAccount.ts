@@ -0,0 +1,10 @@
+// Address the app acts as: the connected wallet, or the built-in dev account on the simulated network
+import { useAddress } from '@thirdweb-dev/react';
+import { useNetwork } from '../context/NetworkContext';
+import { getSimulation } from '../simulation';
+
+export const useAccount = (): string | undefined => {
+  const walletAddress = useAddress();
+  const { simulated } = useNetwork().network;
+  return simulated ? getSimulation().chain.account() : walletAddress;
+};
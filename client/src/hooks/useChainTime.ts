@@ -0,0 +1,9 @@
+// Current time on the selected network in seconds: the wall clock, or the latest block on
+// the simulated network, whose clock only moves as blocks are mined
+import { useNetwork } from '../context/NetworkContext';
+import { getSimulation } from '../simulation';
+
+export const useChainTime = (): number => {
+  const { simulated } = useNetwork().network;
+  return simulated ? getSimulation().chain.block().timestamp : Date.now() / 1000;
+};
@@ -0,0 +1,463 @@
+// Cached contract reads shared by every page that needs the same data
+import { useCallback } from 'react';
+import {
+  fetchAllBrokers,
+  fetchDisputes,
+  fetchTaskData,
+  fetchVerificationSessions,
+  useDisputeResolutionContract,
+  useFactoryContract,
+  useMulticallContract,
+  useRegistryContract,
+  useTaskContract,
+  useTaskLoader,
+  useTokenContract,
+  useVerifierRegistryContract,
+} from '../contracts';
+import { withBrokerTags } from '../config/brokerMetadata';
+import { ContractName, isDevelopment } from '../config/contracts';
+import { useNetwork } from '../context/NetworkContext';
+import {
+  Arbitrator,
+  BrokerEvent,
+  DataBroker,
+  DisputeData,
+  DisputeResolutionConstants,
+  TaskDetailsData,
+  UseContractReturn,
+  UserTaskData,
+  VerificationSessionData,
+  Verifier,
+  VerifierRegistryConstants,
+  VoteCommitment,
+  Worker,
+} from '../types/contracts';
+import { queryKey, useQuery } from './queryCache';
+
+// Key prefixes, for invalidating every query of a kind after a write
+export const QUERY_KEYS = {
+  brokers: 'brokers',
+  broker: 'broker',
+  userTasks: 'userTasks',
+  availableTasks: 'availableTasks',
+  workerTasks: 'workerTasks',
+  platformFeeRate: 'platformFeeRate',
+  taskAddress: 'taskAddress',
+  task: 'task',
+  worker: 'worker',
+  tokenBalance: 'tokenBalance',
+  tokenAllowance: 'tokenAllowance',
+  verifierConstants: 'verifierConstants',
+  verifier: 'verifier',
+  verifierTasks: 'verifierTasks',
+  verificationSessions: 'verificationSessions',
+  disputeConstants: 'disputeConstants',
+  disputeCount: 'disputeCount',
+  disputes: 'disputes',
+  arbitrator: 'arbitrator',
+  arbitratorDisputes: 'arbitratorDisputes',
+  voteCommitment: 'voteCommitment',
+} as const;
+
+/**
+ * Every broker in the registry, including deactivated ones.
+ */
+export const useBrokers = (): UseContractReturn<DataBroker[]> => {
+  const { registry } = useRegistryContract();
+  const { multicall, isLoading: multicallLoading } = useMulticallContract();
+
+  const key = registry && !multicallLoading
+    ? queryKey(QUERY_KEYS.brokers, registry.contract.getAddress())
+    : null;
+
+  const fetcher = useCallback(async () => {
+    if (!registry) return [];
+    return withBrokerTags(await fetchAllBrokers(registry, multicall, await registry.nextBrokerId()));
+  }, [registry, multicall]);
+
+  return useQuery(key, fetcher);
+};
+
+export const useBroker = (brokerId: number | undefined): UseContractReturn<DataBroker> => {
+  const { registry } = useRegistryContract();
+
+  const key = registry && brokerId !== undefined
+    ? queryKey(QUERY_KEYS.broker, registry.contract.getAddress(), brokerId)
+    : null;
+
+  const fetcher = useCallback(
+    async () => withBrokerTags([await registry!.getBroker(brokerId!)])[0],
+    [registry, brokerId]
+  );
+
+  return useQuery(key, fetcher);
+};
+
+// Block event queries on `contractName` start from. Public RPCs reject log queries from genesis; local nodes answer them
+const useDeploymentBlock = (contractName: ContractName): number | undefined => {
+  const { networkKey, deployment } = useNetwork();
+  return deployment.contracts[contractName]?.deploymentBlock ?? (isDevelopment(networkKey) ? 0 : undefined);
+};
+
+const missingDeploymentBlock = (contract: string) =>
+  new Error(`the deployment manifest does not record the block the ${contract} was deployed in`);
+
+/**
+ * Removals and disputes the registry recorded for `brokerId`, newest first.
+ * Keyed under `broker`, so writes invalidating the broker refresh its history too.
+ */
+export const useBrokerHistory = (brokerId: number | undefined): UseContractReturn<BrokerEvent[]> => {
+  const { registry } = useRegistryContract();
+  const fromBlock = useDeploymentBlock('DATA_BROKER_REGISTRY');
+
+  const key = registry && brokerId !== undefined
+    ? queryKey(QUERY_KEYS.broker, registry.contract.getAddress(), brokerId, 'history')
+    : null;
+
+  const fetcher = useCallback(async () => {
+    if (fromBlock === undefined) throw missingDeploymentBlock('registry');
+    return registry!.getBrokerHistory(brokerId!, fromBlock);
+  }, [registry, brokerId, fromBlock]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of the tasks created by `user`.
+ */
+export const useUserTasks = (user: string | undefined): UseContractReturn<number[]> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory && user
+    ? queryKey(QUERY_KEYS.userTasks, factory.contract.getAddress(), user)
+    : null;
+
+  const fetcher = useCallback(() => factory!.getUserTasks(user!), [factory, user]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of the tasks created against `brokerId`, read from the factory's `TaskCreated` logs.
+ * Keyed under `userTasks`, so creating a task refreshes it.
+ */
+export const useBrokerTasks = (brokerId: number | undefined): UseContractReturn<number[]> => {
+  const { factory } = useFactoryContract();
+  const fromBlock = useDeploymentBlock('TASK_FACTORY');
+
+  const key = factory && brokerId !== undefined
+    ? queryKey(QUERY_KEYS.userTasks, factory.contract.getAddress(), 'broker', brokerId)
+    : null;
+
+  const fetcher = useCallback(async () => {
+    if (fromBlock === undefined) throw missingDeploymentBlock('task factory');
+    return (await factory!.getBrokerTaskEvents(brokerId!, fromBlock)).map(({ taskId }) => taskId);
+  }, [factory, brokerId, fromBlock]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of open tasks no worker has taken yet.
+ */
+export const useAvailableTasks = (): UseContractReturn<number[]> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory ? queryKey(QUERY_KEYS.availableTasks, factory.contract.getAddress()) : null;
+
+  const fetcher = useCallback(() => factory!.getAvailableTasks(), [factory]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of the tasks assigned to `worker`.
+ */
+export const useWorkerTasks = (worker: string | undefined): UseContractReturn<number[]> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory && worker
+    ? queryKey(QUERY_KEYS.workerTasks, factory.contract.getAddress(), worker)
+    : null;
+
+  const fetcher = useCallback(() => factory!.getWorkerTasks(worker!), [factory, worker]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Percent the factory charges on top of each payout; 0 when it has no platform fee.
+ */
+export const usePlatformFeeRate = (): UseContractReturn<number> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory ? queryKey(QUERY_KEYS.platformFeeRate, factory.contract.getAddress()) : null;
+
+  const fetcher = useCallback(() => factory!.getPlatformFeeRate(), [factory]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Address of the contract for task `taskId`; the zero address when the factory has no such task.
+ */
+export const useTaskAddress = (taskId: number | undefined): UseContractReturn<string> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory && taskId !== undefined
+    ? queryKey(QUERY_KEYS.taskAddress, factory.contract.getAddress(), taskId)
+    : null;
+
+  const fetcher = useCallback(() => factory!.getTaskAddress(taskId!), [factory, taskId]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Task, evidence and dispute state of the task contract at `taskAddress`.
+ */
+export const useTaskDetails = (taskAddress: string | undefined): UseContractReturn<TaskDetailsData> => {
+  const { task } = useTaskContract(taskAddress);
+
+  const key = task && taskAddress ? queryKey(QUERY_KEYS.task, taskAddress) : null;
+
+  const fetcher = useCallback(async () => {
+    const [details, evidence, dispute, timeRemaining] = await Promise.all([
+      task!.getTask(),
+      task!.getAllEvidence(),
+      task!.getDisputeInfo(),
+      task!.getTimeRemaining(),
+    ]);
+    return { address: taskAddress!, task: details, evidence, dispute, timeRemaining };
+  }, [task, taskAddress]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Tasks `taskIds` with their brokers and evidence, e.g. the ids from useUserTasks.
+ * Keyed under `task`, so writes invalidating a single task refresh lists too.
+ */
+export const useTaskList = (taskIds: number[] | null | undefined): UseContractReturn<UserTaskData[]> => {
+  const { factory } = useFactoryContract();
+  const { registry } = useRegistryContract();
+  const loadTask = useTaskLoader();
+
+  const key = factory && registry && loadTask && taskIds
+    ? queryKey(QUERY_KEYS.task, factory.contract.getAddress(), 'list', taskIds.join(','))
+    : null;
+
+  const fetcher = useCallback(
+    () => fetchTaskData(taskIds!, factory!, registry!, loadTask!),
+    [taskIds, factory, registry, loadTask]
+  );
+
+  return useQuery(key, fetcher);
+};
+
+export const useWorker = (worker: string | undefined): UseContractReturn<Worker> => {
+  const { factory } = useFactoryContract();
+
+  const key = factory && worker
+    ? queryKey(QUERY_KEYS.worker, factory.contract.getAddress(), worker)
+    : null;
+
+  const fetcher = useCallback(() => factory!.getWorker(worker!), [factory, worker]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * RN balance of `owner` in wei.
+ */
+export const useTokenBalance = (owner: string | undefined): UseContractReturn<string> => {
+  const { token } = useTokenContract();
+
+  const key = token && owner
+    ? queryKey(QUERY_KEYS.tokenBalance, token.contract.getAddress(), owner)
+    : null;
+
+  const fetcher = useCallback(() => token!.balanceOf(owner!), [token, owner]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * RN amount `owner` has approved `spender` to transfer, in wei.
+ */
+export const useTokenAllowance = (
+  owner: string | undefined,
+  spender: string
+): UseContractReturn<string> => {
+  const { token } = useTokenContract();
+
+  const key = token && owner
+    ? queryKey(QUERY_KEYS.tokenAllowance, token.contract.getAddress(), owner, spender)
+    : null;
+
+  const fetcher = useCallback(() => token!.allowance(owner!, spender), [token, owner, spender]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Minimum stake, per-vote reward and slash percentage; never changes after deployment.
+ */
+export const useVerifierConstants = (): UseContractReturn<VerifierRegistryConstants> => {
+  const { verifierRegistry } = useVerifierRegistryContract();
+
+  const key = verifierRegistry
+    ? queryKey(QUERY_KEYS.verifierConstants, verifierRegistry.contract.getAddress())
+    : null;
+
+  const fetcher = useCallback(() => verifierRegistry!.getConstants(), [verifierRegistry]);
+
+  return useQuery(key, fetcher);
+};
+
+export const useVerifier = (verifier: string | undefined): UseContractReturn<Verifier> => {
+  const { verifierRegistry } = useVerifierRegistryContract();
+
+  const key = verifierRegistry && verifier
+    ? queryKey(QUERY_KEYS.verifier, verifierRegistry.contract.getAddress(), verifier)
+    : null;
+
+  const fetcher = useCallback(() => verifierRegistry!.getVerifier(verifier!), [verifierRegistry, verifier]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of the tasks whose verification sessions `verifier` was assigned to.
+ */
+export const useVerifierTasks = (verifier: string | undefined): UseContractReturn<number[]> => {
+  const { verifierRegistry } = useVerifierRegistryContract();
+
+  const key = verifierRegistry && verifier
+    ? queryKey(QUERY_KEYS.verifierTasks, verifierRegistry.contract.getAddress(), verifier)
+    : null;
+
+  const fetcher = useCallback(() => verifierRegistry!.getVerifierTasks(verifier!), [verifierRegistry, verifier]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Verification sessions for `taskIds`, each with the task under review and its evidence.
+ */
+export const useVerificationSessions = (
+  taskIds: number[] | null | undefined
+): UseContractReturn<VerificationSessionData[]> => {
+  const { verifierRegistry } = useVerifierRegistryContract();
+  const { registry } = useRegistryContract();
+  const loadTask = useTaskLoader();
+
+  const key = verifierRegistry && registry && loadTask && taskIds
+    ? queryKey(QUERY_KEYS.verificationSessions, verifierRegistry.contract.getAddress(), taskIds.join(','))
+    : null;
+
+  const fetcher = useCallback(
+    () => fetchVerificationSessions(taskIds!, verifierRegistry!, registry!, loadTask!),
+    [taskIds, verifierRegistry, registry, loadTask]
+  );
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Minimum bond and stake, and the reward per majority vote.
+ */
+export const useDisputeConstants = (): UseContractReturn<DisputeResolutionConstants> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+
+  const key = disputeResolution
+    ? queryKey(QUERY_KEYS.disputeConstants, disputeResolution.contract.getAddress())
+    : null;
+
+  const fetcher = useCallback(() => disputeResolution!.getConstants(), [disputeResolution]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Number of disputes ever opened; their ids run from 1 to this count.
+ */
+export const useDisputeCount = (): UseContractReturn<number> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+
+  const key = disputeResolution
+    ? queryKey(QUERY_KEYS.disputeCount, disputeResolution.contract.getAddress())
+    : null;
+
+  const fetcher = useCallback(() => disputeResolution!.getDisputeCount(), [disputeResolution]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Disputes for `disputeIds`, each with the task it challenges and the task's broker.
+ */
+export const useDisputes = (disputeIds: number[] | null | undefined): UseContractReturn<DisputeData[]> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+  const { registry } = useRegistryContract();
+  const loadTask = useTaskLoader();
+
+  const key = disputeResolution && registry && loadTask && disputeIds
+    ? queryKey(QUERY_KEYS.disputes, disputeResolution.contract.getAddress(), disputeIds.join(','))
+    : null;
+
+  const fetcher = useCallback(
+    () => fetchDisputes(disputeIds!, disputeResolution!, registry!, loadTask!),
+    [disputeIds, disputeResolution, registry, loadTask]
+  );
+
+  return useQuery(key, fetcher);
+};
+
+export const useArbitrator = (arbitrator: string | undefined): UseContractReturn<Arbitrator> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+
+  const key = disputeResolution && arbitrator
+    ? queryKey(QUERY_KEYS.arbitrator, disputeResolution.contract.getAddress(), arbitrator)
+    : null;
+
+  const fetcher = useCallback(() => disputeResolution!.getArbitrator(arbitrator!), [disputeResolution, arbitrator]);
+
+  return useQuery(key, fetcher);
+};
+
+/**
+ * Ids of the disputes `arbitrator` was drawn to decide.
+ */
+export const useArbitratorDisputes = (arbitrator: string | undefined): UseContractReturn<number[]> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+
+  const key = disputeResolution && arbitrator
+    ? queryKey(QUERY_KEYS.arbitratorDisputes, disputeResolution.contract.getAddress(), arbitrator)
+    : null;
+
+  const fetcher = useCallback(
+    () => disputeResolution!.getArbitratorDisputes(arbitrator!),
+    [disputeResolution, arbitrator]
+  );
+
+  return useQuery(key, fetcher);
+};
+
+export const useVoteCommitment = (
+  disputeId: number,
+  arbitrator: string | undefined
+): UseContractReturn<VoteCommitment> => {
+  const { disputeResolution } = useDisputeResolutionContract();
+
+  const key = disputeResolution && arbitrator
+    ? queryKey(QUERY_KEYS.voteCommitment, disputeResolution.contract.getAddress(), disputeId, arbitrator)
+    : null;
+
+  const fetcher = useCallback(
+    () => disputeResolution!.getVoteCommitment(disputeId, arbitrator!),
+    [disputeResolution, disputeId, arbitrator]
+  );
+
+  return useQuery(key, fetcher);
+};
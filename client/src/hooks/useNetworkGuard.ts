@@ -0,0 +1,52 @@
+// Detects a wallet connected to a different chain than the selected network
+import { useCallback, useState } from 'react';
+import { useChainId, useSwitchChain } from '@thirdweb-dev/react';
+import { isValidNetwork, switchNetworkInWallet } from '../config/contracts';
+import { isUserRejection } from '../contracts/errors';
+import { useNetwork } from '../context/NetworkContext';
+import { NetworkConfig } from '../types/contracts';
+import { useAccount } from './useAccount';
+
+export interface NetworkGuard {
+  isWrongNetwork: boolean;
+  walletChainId: number | undefined;
+  expectedNetwork: NetworkConfig;
+  switchNetwork: () => Promise<void>;
+  switching: boolean;
+  error: string | null;
+}
+
+export const useNetworkGuard = (): NetworkGuard => {
+  const address = useAccount();
+  const walletChainId = useChainId();
+  const switchChain = useSwitchChain();
+  const { networkKey, network } = useNetwork();
+
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reads work on any chain, so only a connected wallet can be on the wrong one; the
+  // simulated network signs with its own account and ignores the wallet entirely
+  const isWrongNetwork =
+    !network.simulated && Boolean(address) && walletChainId !== undefined && !isValidNetwork(walletChainId, networkKey);
+
+  const switchNetwork = useCallback(async () => {
+    setSwitching(true);
+    setError(null);
+    try {
+      if (typeof window.ethereum !== 'undefined') {
+        await switchNetworkInWallet(networkKey);
+      } else {
+        // WalletConnect and other non-injected wallets switch through thirdweb
+        await switchChain(network.chainId);
+      }
+    } catch (err: any) {
+      console.error('Error switching network:', err);
+      setError(isUserRejection(err) ? 'Network switch was rejected in the wallet' : err?.message || 'Could not switch network');
+    } finally {
+      setSwitching(false);
+    }
+  }, [networkKey, network.chainId, switchChain]);
+
+  return { isWrongNetwork, walletChainId, expectedNetwork: network, switchNetwork, switching, error };
+};
@@ -0,0 +1,66 @@
+// Write wrapper that tracks the transaction lifecycle and invalidates cached reads once confirmed
+import { useCallback, useRef, useState } from 'react';
+import type { ContractTransaction } from 'ethers';
+import { decodeContractError } from '../contracts/errors';
+import { DEFAULT_CONFIRMATIONS, trackTransaction } from '../contracts/transactions';
+import {
+  ContractError,
+  ContractErrorCode,
+  TrackedTransaction,
+  TransactionResult,
+  UseTransactionReturn,
+} from '../types/contracts';
+import { invalidateQueries } from './queryCache';
+
+type SendTransaction = (...args: any[]) => Promise<ContractTransaction>;
+
+/**
+ * Wrap a client write. `execute` resolves only after the transaction has
+ * `confirmations` blocks, so callers can chain dependent writes (approve,
+ * then createTask). Every query under one of the `invalidates` prefixes
+ * is then refetched.
+ */
+export const useTransaction = (
+  send: SendTransaction | undefined,
+  invalidates: string[] = [],
+  confirmations: number = DEFAULT_CONFIRMATIONS
+): UseTransactionReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ContractError | null>(null);
+  const [transaction, setTransaction] = useState<TrackedTransaction | null>(null);
+
+  const invalidatesRef = useRef(invalidates);
+  invalidatesRef.current = invalidates;
+
+  const execute = useCallback(async (args: any[]): Promise<TransactionResult> => {
+    if (!send) {
+      const notLoaded: ContractError = {
+        code: ContractErrorCode.Unknown,
+        message: 'Contract not loaded.',
+        remedy: 'Please try again.',
+      };
+      setError(notLoaded);
+      return { hash: '', success: false, error: notLoaded };
+    }
+
+    setLoading(true);
+    setError(null);
+    setTransaction(null);
+    let hash = '';
+    try {
+      const response = await send(...args);
+      hash = response.hash;
+      const receipt = await trackTransaction(response, setTransaction, confirmations);
+      await Promise.all(invalidatesRef.current.map(invalidateQueries));
+      return { hash: receipt.transactionHash, success: true };
+    } catch (err) {
+      const decoded = decodeContractError(err, hash);
+      setError(decoded);
+      return { hash, success: false, error: decoded };
+    } finally {
+      setLoading(false);
+    }
+  }, [send, confirmations]);
+
+  return { execute, loading, error, transaction };
+};
@@ -0,0 +1,227 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ACTIVE_TASK_STATUSES, medianCompletionTime } from '../contracts';
+import BrokerTags from '../components/BrokerTags';
+import TaskCard from '../components/TaskCard';
+import { getExplorerTxUrl } from '../config/contracts';
+import { useNetwork } from '../context/NetworkContext';
+import { useBroker, useBrokerHistory, useBrokerTasks, useTaskList } from '../hooks';
+import { BrokerEvent, DataBroker, WEIGHT_COLORS, WEIGHT_LABELS } from '../types/contracts';
+import { disputeRate } from '../utils/brokerFilters';
+import { formatDuration, isHttpUrl, validateEmail } from '../utils/formatters';
+
+const EVENT_LABELS: Record<BrokerEvent['kind'], string> = {
+  removal: 'Removal completed',
+  dispute: 'Dispute recorded',
+};
+
+const NotFound: React.FC<{ message: string }> = ({ message }) => (
+  <div className="card text-center">
+    <h1 className="text-2xl font-bold mb-4">Broker Not Found</h1>
+    <p className="text-gray-600 mb-4">{message}</p>
+    <Link to="/brokers" className="btn-secondary">
+      Back to Data Brokers
+    </Link>
+  </div>
+);
+
+// Registry values are submitted by anyone, so only http(s) URLs become links
+const ExternalLink: React.FC<{ url: string }> = ({ url }) =>
+  isHttpUrl(url) ? (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="text-ninja-600 hover:text-ninja-700 break-all">
+      {url}
+    </a>
+  ) : (
+    <span className="text-gray-600 break-all">{url}</span>
+  );
+
+const RemovalInstructions: React.FC<{ broker: DataBroker }> = ({ broker }) => (
+  <div className="card">
+    <h2 className="text-xl font-semibold mb-4">Removal Instructions</h2>
+    <ol className="list-decimal list-inside space-y-3 text-gray-700">
+      <li>
+        Open the opt-out page: <ExternalLink url={broker.removalLink} />
+        {!isHttpUrl(broker.removalLink) && (
+          <p className="text-sm text-gray-500 ml-5">
+            This is not an http(s) link, so it is shown as text. Check it before visiting.
+          </p>
+        )}
+      </li>
+      <li>Search for the listing and submit the removal request the page asks for.</li>
+      <li>
+        If the listing stays up, contact the broker:{' '}
+        {validateEmail(broker.contact) ? (
+          <a href={`mailto:${broker.contact}`} className="text-ninja-600 hover:text-ninja-700">
+            {broker.contact}
+          </a>
+        ) : (
+          <span className="text-gray-600">{broker.contact}</span>
+        )}
+      </li>
+    </ol>
+  </div>
+);
+
+const BrokerDetail: React.FC = () => {
+  const { brokerId: brokerIdParam = '' } = useParams();
+  const brokerId = /^\d+$/.test(brokerIdParam) ? Number(brokerIdParam) : undefined;
+  const navigate = useNavigate();
+  const { networkKey } = useNetwork();
+
+  const { data: broker, error } = useBroker(brokerId);
+  const { data: history, loading: historyLoading, error: historyError } = useBrokerHistory(brokerId);
+
+  const { data: brokerTaskIds, error: brokerTasksError } = useBrokerTasks(brokerId);
+  const { data: brokerTasks } = useTaskList(brokerTaskIds);
+  const openTasks = (brokerTasks ?? []).filter(({ task }) => ACTIVE_TASK_STATUSES.includes(task.currentStatus));
+  const medianTime = medianCompletionTime((brokerTasks ?? []).map(({ task }) => task));
+
+  if (brokerId === undefined) {
+    return <NotFound message={`"${brokerIdParam}" is not a broker number.`} />;
+  }
+
+  // The registry's public mapping reads unknown ids as an empty record
+  if (broker && broker.id === 0) {
+    return <NotFound message={`There is no broker #${brokerId} in the registry on this network.`} />;
+  }
+
+  if (error) {
+    return (
+      <div className="card text-center">
+        <h1 className="text-2xl font-bold mb-4">Broker #{brokerId}</h1>
+        <p className="text-red-600" role="alert">Could not load this broker: {error}</p>
+      </div>
+    );
+  }
+
+  if (!broker) {
+    return (
+      <div className="card flex items-center justify-center gap-3 py-12">
+        <div className="loading"></div>
+        <span className="text-gray-600">Loading broker #{brokerId}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <Link to="/brokers" className="text-sm text-ninja-600 hover:underline">
+            ← All data brokers
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{broker.name}</h1>
+          <div className="mt-2">
+            <ExternalLink url={broker.website} />
+          </div>
+          <div className="flex gap-2 mt-3">
+            <span className={`status-badge ${broker.isActive ? 'status-verified' : 'status-pending'}`}>
+              {broker.isActive ? 'Active' : 'Inactive'}
+            </span>
+            <span className={`status-badge ${WEIGHT_COLORS[broker.weight] || 'bg-gray-100 text-gray-800'}`}>
+              {WEIGHT_LABELS[broker.weight] || `${broker.weight / 100}x`}
+            </span>
+          </div>
+          <div className="mt-3">
+            <BrokerTags tags={broker.tags} />
+          </div>
+        </div>
+        {broker.isActive && (
+          <Link to={`/dashboard?broker=${broker.id}`} className="btn">
+            Create Removal Task
+          </Link>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="card text-center">
+          <div className="text-2xl font-bold text-green-600">{broker.totalRemovals}</div>
+          <div className="text-gray-600">Removals</div>
+        </div>
+        <div className="card text-center">
+          <div className="text-2xl font-bold text-red-600">{broker.totalDisputes}</div>
+          <div className="text-gray-600">Disputes</div>
+        </div>
+        <div className="card text-center">
+          <div className="text-2xl font-bold text-ninja-600">{Math.round(disputeRate(broker))}%</div>
+          <div className="text-gray-600">Dispute Rate</div>
+        </div>
+        <div className="card text-center">
+          <div className="text-2xl font-bold text-ninja-600">
+            {medianTime === undefined ? '-' : formatDuration(medianTime)}
+          </div>
+          <div className="text-gray-600">Median Time to Completion</div>
+        </div>
+      </div>
+
+      <RemovalInstructions broker={broker} />
+
+      {/* Open Tasks */}
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">Open Tasks</h2>
+        {brokerTasksError ? (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800" role="alert">
+            <p className="font-medium">Tasks unavailable</p>
+            <p>The tasks created for this broker could not be read: {brokerTasksError}</p>
+          </div>
+        ) : !brokerTasks ? (
+          <div className="flex justify-center py-4">
+            <div className="loading"></div>
+          </div>
+        ) : openTasks.length > 0 ? (
+          <div className="space-y-4">
+            {openTasks.map(({ task }) => (
+              <TaskCard
+                key={task.taskId}
+                task={task}
+                broker={broker}
+                onViewDetails={(taskId) => navigate(`/tasks/${taskId}`)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">No open tasks target this broker.</p>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">History</h2>
+        {historyError ? (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800" role="alert">
+            <p className="font-medium">History unavailable</p>
+            <p>The removal and dispute events could not be read: {historyError}</p>
+          </div>
+        ) : !history && historyLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="loading"></div>
+          </div>
+        ) : history && history.length > 0 ? (
+          <ul className="divide-y" aria-label="Broker history">
+            {history.map((event) => (
+              <li key={`${event.transactionHash}:${event.kind}`} className="py-2 flex justify-between text-sm">
+                <span>
+                  {EVENT_LABELS[event.kind]} <span className="text-gray-500">(#{event.total})</span>
+                </span>
+                <a
+                  href={getExplorerTxUrl(networkKey, event.transactionHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-ninja-600 hover:text-ninja-700"
+                >
+                  Block {event.blockNumber}
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500">No removals or disputes recorded yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrokerDetail;
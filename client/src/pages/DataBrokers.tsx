@@ -1,80 +1,90 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useAddress, useContract, useContractRead, useContractWrite } from '@thirdweb-dev/react';
-import { getRegistryAddress } from '../config/contracts';
-import { DataBroker, AddBrokerForm, WEIGHT_LABELS, WEIGHT_COLORS } from '../types/contracts';
-
-// Simple ABI for DataBrokerRegistryUltraSimple contract
-const REGISTRY_ABI = [
-  "function addBroker(string calldata name, string calldata website, string calldata removalLink, string calldata contact, uint256 weight) external returns (uint256)",
-  "function brokers(uint256) external view returns (uint256 id, string name, string website, string removalLink, string contact, uint256 weight, bool isActive, uint256 totalRemovals, uint256 totalDisputes)",
-  "function getStats() external view returns (uint256 totalBrokers, uint256 activeBrokers)",
-  "function nextBrokerId() external view returns (uint256)"
-];
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useContractRead } from '@thirdweb-dev/react';
+import { decodeRegistryStats, formatFailure, toValidationError, useRegistryContract } from '../contracts';
+import BrokerTags, { BrokerTagPicker } from '../components/BrokerTags';
+import ConfirmDialog from '../components/ConfirmDialog';
+import FieldError from '../components/FieldError';
+import NetworkGuard from '../components/NetworkGuard';
+import TransactionStatus from '../components/TransactionStatus';
+import { saveBrokerTags } from '../config/brokerMetadata';
+import { invalidateQueries, QUERY_KEYS, useAccount, useBrokers, useNetworkGuard, useTransaction } from '../hooks';
+import { AddBrokerForm, ValidationError, WEIGHT_LABELS, WEIGHT_COLORS } from '../types/contracts';
+import {
+  BROKER_PAGE_SIZE,
+  BROKER_SORT_LABELS,
+  BrokerQuery,
+  BrokerSort,
+  BrokerStatusFilter,
+  DEFAULT_BROKER_QUERY,
+  disputeRate,
+  filterBrokers,
+  HIGH_IMPACT_WEIGHT,
+  IMPACT_LABELS,
+  ImpactLevel,
+  pageCount,
+  paginate,
+  parseBrokerQuery,
+  sortBrokers,
+  toBrokerSearchParams,
+} from '../utils/brokerFilters';
+import { BrokerDuplicate, findDuplicateBrokers, registrableDomain } from '../utils/brokerDuplicates';
+import { isHttpUrl } from '../utils/formatters';
+import { BROKER_SCHEMA, errorProps, getFieldError, validate } from '../utils/validation';
+
+// Dispute rate ceilings offered in the filter, in percent
+const DISPUTE_RATE_OPTIONS = [5, 10, 25];
 
 const DataBrokers: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
   
   // Contract hooks
-  const { contract } = useContract(getRegistryAddress(), REGISTRY_ABI);
-  const { data: nextBrokerId } = useContractRead(contract, "nextBrokerId");
-  const { data: stats } = useContractRead(contract, "getStats");
-  const { mutateAsync: addBroker } = useContractWrite(contract, "addBroker");
+  const { contract, registry } = useRegistryContract();
+  const { data: rawStats } = useContractRead(contract, "getStats");
+  const stats = rawStats ? decodeRegistryStats(rawStats) : undefined;
+  const { data: allBrokers, loading } = useBrokers();
+  const brokers = (allBrokers ?? []).filter(broker => broker.isActive);
+
+  // Search, filters, sort and page come from the query string so the view can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = parseBrokerQuery(searchParams);
+  const matching = sortBrokers(filterBrokers(allBrokers ?? [], query), query.sort);
+  const pages = pageCount(matching.length);
+  const page = Math.min(query.page, pages);
+  const visibleBrokers = paginate(matching, page);
+  const filtered = toBrokerSearchParams({ ...query, page: 1 }).toString() !== '';
+
+  // Any change other than paging starts again from the first page
+  const updateQuery = (changes: Partial<BrokerQuery>) => {
+    setSearchParams(toBrokerSearchParams({ ...query, page: 1, ...changes }), { replace: true });
+  };
+  const disputeRateOptions = query.maxDisputeRate === undefined || DISPUTE_RATE_OPTIONS.includes(query.maxDisputeRate)
+    ? DISPUTE_RATE_OPTIONS
+    : [...DISPUTE_RATE_OPTIONS, query.maxDisputeRate].sort((a, b) => a - b);
+  const {
+    execute: addBroker,
+    loading: submitting,
+    transaction: submission,
+  } = useTransaction(registry?.addBroker, [QUERY_KEYS.brokers]);
+  
+  const { isWrongNetwork } = useNetworkGuard();
   
   // Component state
-  const [brokers, setBrokers] = useState<DataBroker[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [submitting, setSubmitting] = useState(false);
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState<AddBrokerForm>({
     name: '',
     website: '',
     removalLink: '',
     contact: '',
-    weight: '300' // Default to high impact
+    weight: '300', // Default to high impact
+    tags: [],
   });
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<BrokerDuplicate[]>([]);
 
-  // Fetch brokers from contract
-  const fetchBrokers = useCallback(async () => {
-    if (!contract || !nextBrokerId) return;
-    
-    setLoading(true);
-    try {
-      const brokersData: DataBroker[] = [];
-      
-      // Fetch each broker by ID (starting from 1)
-      for (let i = 1; i < Number(nextBrokerId); i++) {
-        try {
-          const brokerData = await contract.call("brokers", [i]);
-          if (brokerData && brokerData[6]) { // isActive is at index 6
-            brokersData.push({
-              id: Number(brokerData[0]),
-              name: brokerData[1],
-              website: brokerData[2],
-              removalLink: brokerData[3],
-              contact: brokerData[4],
-              weight: Number(brokerData[5]),
-              isActive: brokerData[6],
-              totalRemovals: Number(brokerData[7]),
-              totalDisputes: Number(brokerData[8])
-            });
-          }
-        } catch (error) {
-          console.error(`Error fetching broker ${i}:`, error);
-        }
-      }
-      
-      setBrokers(brokersData);
-    } catch (error) {
-      console.error('Error fetching brokers:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [contract, nextBrokerId]);
-
-  // Load brokers on component mount and when contract data changes
-  useEffect(() => {
-    fetchBrokers();
-  }, [contract, nextBrokerId, fetchBrokers]);
+  // Checked against every broker, inactive ones included, so a deactivated entry is not re-added
+  const duplicates = findDuplicateBrokers(formData, allBrokers ?? []);
+  const sameSite = duplicates.find(({ match }) => match === 'domain');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -82,6 +92,7 @@ const DataBrokers: React.FC = () => {
       ...prev,
       [name]: value
     }));
+    setErrors(prev => prev.filter(error => error.field !== name));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -91,52 +102,89 @@ const DataBrokers: React.FC = () => {
       return;
     }
 
-    if (!contract) {
+    if (!registry) {
       alert('Contract not loaded. Please try again.');
       return;
     }
 
-    setSubmitting(true);
+    if (isWrongNetwork) return;
+
+    const formErrors = validate(BROKER_SCHEMA, formData, {});
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    // A broker already registered for the same domain is never sent again
+    if (sameSite) {
+      setErrors([{
+        field: 'website',
+        message: `${registrableDomain(formData.website)} is already registered as ${sameSite.broker.name}`,
+      }]);
+      return;
+    }
+
+    // A similar name may be a different broker, so that only asks for confirmation
+    if (duplicates.length > 0) {
+      setPossibleDuplicates(duplicates);
+      return;
+    }
+
+    await submitBroker();
+  };
+
+  const submitBroker = async () => {
+    setPossibleDuplicates([]);
+
+    // Call the addBroker function on the contract; the broker list refreshes once it is confirmed
+    const result = await addBroker([{
+      name: formData.name,
+      website: formData.website,
+      removalLink: formData.removalLink,
+      contact: formData.contact,
+      weight: parseInt(formData.weight)
+    }]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error submitting broker', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    console.log('Broker submitted successfully:', result.hash);
+
+    // The registry has no tags, so they are kept with this browser's broker metadata, once the
+    // broker is registered. The list was refreshed before they were saved, so it is refreshed again.
     try {
-      // Call the addBroker function on the contract
-      const result = await addBroker({
-        args: [
-          formData.name,
-          formData.website,
-          formData.removalLink,
-          formData.contact,
-          parseInt(formData.weight)
-        ]
-      });
-
-      console.log('Broker submitted successfully:', result);
+      saveBrokerTags(formData.website, formData.tags);
+      invalidateQueries(QUERY_KEYS.brokers);
       alert(`Data broker "${formData.name}" submitted successfully! 🎉`);
-      
-      // Reset form and refresh data
-      setFormData({ 
-        name: '', 
-        website: '', 
-        removalLink: '', 
-        contact: '', 
-        weight: '300' 
-      });
-      setShowForm(false);
-      
-      // Refresh brokers list
-      setTimeout(fetchBrokers, 2000); // Give some time for the transaction to be mined
-      
-    } catch (error: any) {
-      console.error('Error submitting broker:', error);
-      const errorMessage = error?.reason || error?.message || 'Unknown error occurred';
-      alert(`Error submitting broker: ${errorMessage}`);
-    } finally {
-      setSubmitting(false);
+    } catch (error) {
+      console.error('Error saving broker categories:', error);
+      alert(`Data broker "${formData.name}" submitted successfully, but its categories could not be saved in this browser.`);
     }
+    
+    // Reset form
+    setFormData({ 
+      name: '', 
+      website: '', 
+      removalLink: '', 
+      contact: '', 
+      weight: '300',
+      tags: [],
+    });
+    setErrors([]);
+    setShowForm(false);
   };
 
 
   return (
     <div className="space-y-8">
+      <NetworkGuard />
+
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
@@ -163,18 +211,20 @@ const DataBrokers: React.FC = () => {
             Earn <strong className="text-ninja-600">100 RN tokens</strong> for each verified data broker submission
           </p>
           
-          <form onSubmit={handleSubmit} className="space-y-4">
+          <form onSubmit={handleSubmit} className="space-y-4" noValidate>
             <div className="form-group">
               <label className="form-label">Broker Name *</label>
               <input
                 type="text"
                 name="name"
+                {...errorProps(errors, 'name')}
                 value={formData.name}
                 onChange={handleInputChange}
                 className="form-input"
                 placeholder="e.g., Acxiom, LexisNexis, Spokeo"
                 required
               />
+              <FieldError errors={errors} field="name" />
             </div>
 
             <div className="form-group">
@@ -182,12 +232,19 @@ const DataBrokers: React.FC = () => {
               <input
                 type="url"
                 name="website"
+                {...errorProps(errors, 'website')}
                 value={formData.website}
                 onChange={handleInputChange}
                 className="form-input"
                 placeholder="https://example.com"
                 required
               />
+              <FieldError errors={errors} field="website" />
+              {sameSite && getFieldError(errors, 'website') && (
+                <Link to={`/brokers/${sameSite.broker.id}`} className="text-sm text-ninja-600 hover:underline">
+                  View the existing entry
+                </Link>
+              )}
             </div>
 
             <div className="form-group">
@@ -195,12 +252,14 @@ const DataBrokers: React.FC = () => {
               <input
                 type="url"
                 name="removalLink"
+                {...errorProps(errors, 'removalLink')}
                 value={formData.removalLink}
                 onChange={handleInputChange}
                 className="form-input"
                 placeholder="https://example.com/optout"
                 required
               />
+              <FieldError errors={errors} field="removalLink" />
             </div>
 
             <div className="form-group">
@@ -208,18 +267,21 @@ const DataBrokers: React.FC = () => {
               <input
                 type="text"
                 name="contact"
+                {...errorProps(errors, 'contact')}
                 value={formData.contact}
                 onChange={handleInputChange}
                 className="form-input"
                 placeholder="privacy@example.com or phone number"
                 required
               />
+              <FieldError errors={errors} field="contact" />
             </div>
 
             <div className="form-group">
               <label className="form-label">Impact Level *</label>
               <select
                 name="weight"
+                {...errorProps(errors, 'weight')}
                 value={formData.weight}
                 onChange={handleInputChange}
                 className="form-input"
@@ -229,12 +291,19 @@ const DataBrokers: React.FC = () => {
                 <option value="200">Medium Impact (2x reward)</option>
                 <option value="300">High Impact (3x reward)</option>
               </select>
+              <FieldError errors={errors} field="weight" />
             </div>
 
+            <BrokerTagPicker
+              legend="Categories"
+              selected={formData.tags}
+              onChange={(tags) => setFormData((prev) => ({ ...prev, tags }))}
+            />
+
             <div className="flex gap-4">
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || isWrongNetwork}
                 className="btn flex items-center gap-2"
               >
                 {submitting && <div className="loading"></div>}
@@ -248,6 +317,8 @@ const DataBrokers: React.FC = () => {
                 Cancel
               </button>
             </div>
+
+            <TransactionStatus label="Submission" transaction={submission} />
           </form>
         </div>
       )}
@@ -256,19 +327,19 @@ const DataBrokers: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="card text-center">
           <div className="text-2xl font-bold text-ninja-600">
-            {stats ? Number(stats[0]) : brokers.length}
+            {stats ? stats.totalBrokers : brokers.length}
           </div>
           <div className="text-gray-600">Total Brokers</div>
         </div>
         <div className="card text-center">
           <div className="text-2xl font-bold text-green-600">
-            {stats ? Number(stats[1]) : brokers.filter(b => b.isActive).length}
+            {stats ? stats.activeBrokers : brokers.filter(b => b.isActive).length}
           </div>
           <div className="text-gray-600">Active</div>
         </div>
         <div className="card text-center">
           <div className="text-2xl font-bold text-red-600">
-            {brokers.filter(b => b.weight >= 300).length}
+            {brokers.filter(b => b.weight >= HIGH_IMPACT_WEIGHT).length}
           </div>
           <div className="text-gray-600">High Impact</div>
         </div>
@@ -281,12 +352,95 @@ const DataBrokers: React.FC = () => {
       {/* Brokers List */}
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">All Data Brokers</h2>
+
+        <div className="card grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="form-group md:col-span-5">
+            <label htmlFor="brokerSearch" className="form-label">Search</label>
+            <input
+              id="brokerSearch"
+              type="search"
+              value={query.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              className="form-input"
+              placeholder="Name, website or contact"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="brokerStatus" className="form-label">Status</label>
+            <select
+              id="brokerStatus"
+              value={query.status}
+              onChange={(e) => updateQuery({ status: e.target.value as BrokerStatusFilter })}
+              className="form-input"
+            >
+              <option value="active">Active</option>
+              <option value="inactive">Inactive</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="brokerImpact" className="form-label">Impact</label>
+            <select
+              id="brokerImpact"
+              value={query.impact}
+              onChange={(e) => updateQuery({ impact: e.target.value as ImpactLevel | 'all' })}
+              className="form-input"
+            >
+              <option value="all">Any impact</option>
+              {(Object.keys(IMPACT_LABELS) as ImpactLevel[]).map((impact) => (
+                <option key={impact} value={impact}>{IMPACT_LABELS[impact]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="brokerDisputeRate" className="form-label">Dispute Rate</label>
+            <select
+              id="brokerDisputeRate"
+              value={query.maxDisputeRate ?? ''}
+              onChange={(e) =>
+                updateQuery({ maxDisputeRate: e.target.value === '' ? undefined : Number(e.target.value) })
+              }
+              className="form-input"
+            >
+              <option value="">Any</option>
+              {disputeRateOptions.map((rate) => (
+                <option key={rate} value={rate}>At most {rate}%</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="brokerSort" className="form-label">Sort By</label>
+            <select
+              id="brokerSort"
+              value={query.sort}
+              onChange={(e) => updateQuery({ sort: e.target.value as BrokerSort })}
+              className="form-input"
+            >
+              {(Object.keys(BROKER_SORT_LABELS) as BrokerSort[]).map((sort) => (
+                <option key={sort} value={sort}>{BROKER_SORT_LABELS[sort]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="button"
+              onClick={() => updateQuery(DEFAULT_BROKER_QUERY)}
+              disabled={!filtered}
+              className="btn-secondary w-full"
+            >
+              Clear Filters
+            </button>
+          </div>
+          <div className="md:col-span-5">
+            <BrokerTagPicker legend="Tags" selected={query.tags} onChange={(tags) => updateQuery({ tags })} />
+          </div>
+        </div>
         
         {loading ? (
           <div className="flex justify-center py-8">
             <div className="loading"></div>
           </div>
-        ) : brokers.length === 0 ? (
+        ) : (allBrokers ?? []).length === 0 ? (
           <div className="card text-center">
             <h3 className="text-lg font-semibold mb-2">No Data Brokers Found</h3>
             <p className="text-gray-600 mb-4">
@@ -301,20 +455,32 @@ const DataBrokers: React.FC = () => {
               </button>
             )}
           </div>
+        ) : matching.length === 0 ? (
+          <div className="card text-center">
+            <p className="text-gray-600">No brokers match these filters.</p>
+          </div>
         ) : (
           <div className="space-y-4">
-            {brokers.map((broker) => (
+            <p className="text-gray-600">
+              Showing {(page - 1) * BROKER_PAGE_SIZE + 1}-{(page - 1) * BROKER_PAGE_SIZE + visibleBrokers.length} of{' '}
+              {matching.length} broker{matching.length !== 1 ? 's' : ''}
+            </p>
+            {visibleBrokers.map((broker) => (
               <div
                 key={broker.id}
                 className={`card border-l-4 ${
                   broker.isActive ? 'border-l-green-500' : 'border-l-gray-400'
-                } ${broker.weight >= 300 ? 'bg-red-50' : ''}`}
+                } ${broker.weight >= HIGH_IMPACT_WEIGHT ? 'bg-red-50' : ''}`}
               >
                 <div className="flex justify-between items-start mb-4">
                   <div>
-                    <h3 className="text-lg font-semibold">{broker.name}</h3>
+                    <h3 className="text-lg font-semibold">
+                      <Link to={`/brokers/${broker.id}`} className="hover:text-ninja-600">
+                        {broker.name}
+                      </Link>
+                    </h3>
                     <a
-                      href={broker.website}
+                      href={isHttpUrl(broker.website) ? broker.website : undefined}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-ninja-600 hover:text-ninja-700"
@@ -335,10 +501,11 @@ const DataBrokers: React.FC = () => {
                 </div>
 
                 <div className="mb-4 space-y-2">
+                  <BrokerTags tags={broker.tags} />
                   <div>
                     <span className="font-medium">Removal Link: </span>
                     <a
-                      href={broker.removalLink}
+                      href={isHttpUrl(broker.removalLink) ? broker.removalLink : undefined}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-ninja-600 hover:text-ninja-700"
@@ -356,11 +523,34 @@ const DataBrokers: React.FC = () => {
                   <div className="flex justify-between">
                     <span>Removals: {broker.totalRemovals}</span>
                     <span>Disputes: {broker.totalDisputes}</span>
+                    <span>Dispute rate: {Math.round(disputeRate(broker))}%</span>
                     <span>Weight: {broker.weight / 100}x multiplier</span>
                   </div>
                 </div>
               </div>
             ))}
+
+            {pages > 1 && (
+              <nav aria-label="Broker pages" className="flex justify-center items-center gap-4">
+                <button
+                  type="button"
+                  onClick={() => updateQuery({ page: page - 1 })}
+                  disabled={page === 1}
+                  className="btn-secondary"
+                >
+                  Previous
+                </button>
+                <span className="text-gray-600">Page {page} of {pages}</span>
+                <button
+                  type="button"
+                  onClick={() => updateQuery({ page: page + 1 })}
+                  disabled={page === pages}
+                  className="btn-secondary"
+                >
+                  Next
+                </button>
+              </nav>
+            )}
           </div>
         )}
       </div>
@@ -373,6 +563,30 @@ const DataBrokers: React.FC = () => {
           </p>
         </div>
       )}
+
+      {possibleDuplicates.length > 0 && (
+        <ConfirmDialog
+          title="Possible Duplicate"
+          confirmLabel="Submit Anyway"
+          onConfirm={submitBroker}
+          onCancel={() => setPossibleDuplicates([])}
+        >
+          <p className="text-gray-600">
+            The registry already has a broker with a similar name. Check it is not the same one before paying
+            for the submission:
+          </p>
+          <ul className="list-disc list-inside">
+            {possibleDuplicates.map(({ broker }) => (
+              <li key={broker.id}>
+                <Link to={`/brokers/${broker.id}`} className="text-ninja-600 hover:underline">
+                  {broker.name}
+                </Link>{' '}
+                <span className="text-gray-500">({broker.website})</span>
+              </li>
+            ))}
+          </ul>
+        </ConfirmDialog>
+      )}
     </div>
   );
 };
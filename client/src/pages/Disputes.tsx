@@ -0,0 +1,876 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  canResolveDispute,
+  formatFailure,
+  isCommitOpen,
+  isRevealOpen,
+  toValidationError,
+  useDisputeResolutionContract,
+  useTokenContract,
+} from '../contracts';
+import ConfirmDialog from '../components/ConfirmDialog';
+import EvidenceUploader from '../components/EvidenceUploader';
+import FieldError from '../components/FieldError';
+import NetworkGuard from '../components/NetworkGuard';
+import TransactionStatus from '../components/TransactionStatus';
+import VerifyEvidence from '../components/VerifyEvidence';
+import { ZERO_ADDRESS } from '../config/deployments';
+import { EVIDENCE_STORAGE_MISSING, useEvidenceStorage } from '../context/EvidenceContext';
+import { useNetwork } from '../context/NetworkContext';
+import { EvidenceFile } from '../evidence';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useArbitrator,
+  useArbitratorDisputes,
+  useChainTime,
+  useDisputeConstants,
+  useDisputeCount,
+  useDisputes,
+  useNetworkGuard,
+  useTaskAddress,
+  useTaskDetails,
+  useTokenAllowance,
+  useTokenBalance,
+  useTransaction,
+  useVoteCommitment,
+} from '../hooks';
+import {
+  CommitVoteForm,
+  CreateDisputeForm,
+  DISPUTE_DECISION_LABELS,
+  DISPUTE_STATUS_LABELS,
+  DisputeData,
+  DisputeDecision,
+  DisputeStatus,
+  RegisterArbitratorForm,
+  TaskStatus,
+  ValidationError,
+} from '../types/contracts';
+import { formatAddress, formatAmount, formatTimestamp, parseUnits, toBigInt } from '../utils/formatters';
+import { ARBITRATOR_SCHEMA, DISPUTE_SCHEMA, errorProps, validate, VOTE_SCHEMA } from '../utils/validation';
+import { createDisputeVote, getDisputeVote } from '../utils/voteCommitments';
+
+const EMPTY_REGISTRATION: RegisterArbitratorForm = { stakeAmount: '1000', description: '' };
+const EMPTY_DISPUTE: CreateDisputeForm = { bondAmount: '50', reason: '', evidenceCid: '' };
+
+// Everything a resolution touches: the dispute, the arbitrators' standing and rewards, the
+// verifiers it slashes, the broker's dispute count and the task
+const DISPUTE_QUERIES = [
+  QUERY_KEYS.disputes,
+  QUERY_KEYS.disputeCount,
+  QUERY_KEYS.arbitrator,
+  QUERY_KEYS.arbitratorDisputes,
+  QUERY_KEYS.voteCommitment,
+  QUERY_KEYS.verifier,
+  QUERY_KEYS.verificationSessions,
+  QUERY_KEYS.brokers,
+  QUERY_KEYS.broker,
+  QUERY_KEYS.task,
+  QUERY_KEYS.tokenBalance,
+];
+
+const sameAddress = (a: string | undefined, b: string | undefined) =>
+  Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+
+const disputeStatus = ({ dispute }: DisputeData, now: number) => {
+  if (dispute.status === DisputeStatus.Resolved) {
+    return dispute.decision === DisputeDecision.OverrideOriginal
+      ? { label: DISPUTE_DECISION_LABELS[dispute.decision], color: 'bg-red-100 text-red-800' }
+      : { label: DISPUTE_DECISION_LABELS[dispute.decision], color: 'status-active' };
+  }
+  if (isCommitOpen(dispute, now)) return { label: DISPUTE_STATUS_LABELS[DisputeStatus.Voting], color: 'status-pending' };
+  if (isRevealOpen(dispute, now)) {
+    return { label: DISPUTE_STATUS_LABELS[DisputeStatus.Revealing], color: 'status-pending' };
+  }
+  return { label: 'Awaiting resolution', color: 'bg-gray-100 text-gray-800' };
+};
+
+// What a resolution did to the bond and to the verifiers who reviewed the task
+const outcomeOf = ({ dispute }: DisputeData): { bond: string; verifiers: string } => {
+  const bond = dispute.bondReturned
+    ? `The ${formatAmount(dispute.bondAmount)} RN bond was returned to the initiator.`
+    : `The ${formatAmount(dispute.bondAmount)} RN bond was slashed.`;
+  switch (dispute.decision) {
+    case DisputeDecision.UpholdOriginal:
+      return { bond, verifiers: 'Verifiers who rejected the task were slashed.' };
+    case DisputeDecision.OverrideOriginal:
+      return { bond, verifiers: 'Verifiers who approved the task were slashed.' };
+    default:
+      return { bond, verifiers: 'No verifier was slashed.' };
+  }
+};
+
+interface DisputeCardProps {
+  data: DisputeData;
+  children?: React.ReactNode; // Arbitrator actions
+}
+
+// One dispute with the task it challenges, the revealed votes and, once resolved, the outcome
+const DisputeCard: React.FC<DisputeCardProps> = ({ data, children }) => {
+  const { dispute, task, broker } = data;
+  const now = useChainTime();
+  const status = disputeStatus(data, now);
+  const outcome = dispute.status === DisputeStatus.Resolved ? outcomeOf(data) : undefined;
+  const committing = isCommitOpen(dispute, now);
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="font-semibold">Dispute #{dispute.disputeId}</h3>
+          <p className="text-sm text-gray-600">
+            <Link to={`/tasks/${task.taskId}`} className="hover:text-ninja-600">
+              Task #{task.taskId}
+            </Link>{' '}
+            · {broker.name} · opened by {formatAddress(dispute.initiator)}
+          </p>
+        </div>
+        <span className={`status-badge ${status.color}`}>{status.label}</span>
+      </div>
+
+      <p className="mb-3">{dispute.reason}</p>
+      {dispute.evidenceCid && (
+        <div className="bg-gray-50 rounded p-3 mb-3">
+          <p className="font-mono text-sm text-gray-600 break-all">{dispute.evidenceCid}</p>
+          <VerifyEvidence cid={dispute.evidenceCid} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <span className="block text-gray-500">Bond</span>
+          <span className="font-semibold">{formatAmount(dispute.bondAmount)} RN</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Uphold / Override</span>
+          <span>
+            {dispute.votesForOriginal} / {dispute.votesForOverride}
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Votes revealed</span>
+          <span>
+            {dispute.totalVotes} of {dispute.assignedArbitrators.length}
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-500">{committing ? 'Commits close' : 'Reveals close'}</span>
+          <span>{formatTimestamp(committing ? dispute.votingDeadline : dispute.revealDeadline)}</span>
+        </div>
+      </div>
+
+      {outcome && (
+        <div className="bg-gray-50 rounded p-3 mt-3 text-sm text-gray-700">
+          <p>{outcome.bond}</p>
+          <p>{outcome.verifiers}</p>
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+interface ArbitratorActionsProps {
+  data: DisputeData;
+  address: string;
+  disputeAddress: string;
+  busy: boolean;
+  onCommit: (disputeId: number, vote: boolean) => void;
+  onReveal: (disputeId: number) => void;
+  onResolve: (disputeId: number) => void;
+}
+
+// Commit, reveal and resolve for a dispute the connected arbitrator was drawn for
+const ArbitratorActions: React.FC<ArbitratorActionsProps> = ({
+  data,
+  address,
+  disputeAddress,
+  busy,
+  onCommit,
+  onReveal,
+  onResolve,
+}) => {
+  const { dispute } = data;
+  const now = useChainTime();
+  const { data: commitment } = useVoteCommitment(dispute.disputeId, address);
+  const storedVote = useMemo(
+    () => (commitment?.hasCommitted ? getDisputeVote(disputeAddress, dispute.disputeId, address) : undefined),
+    [commitment, disputeAddress, dispute.disputeId, address]
+  );
+
+  if (!commitment) return null;
+
+  return (
+    <div className="flex justify-end items-center flex-wrap gap-2 mt-4">
+      {commitment.hasRevealed ? (
+        <span className="text-sm text-gray-600">
+          You voted to {commitment.vote ? 'uphold' : 'override'} the verification.
+        </span>
+      ) : commitment.hasCommitted ? (
+        <span className="text-sm text-gray-600">
+          {storedVote
+            ? `You committed a vote to ${storedVote.vote ? 'uphold' : 'override'} the verification.`
+            : 'Your vote is committed from another browser.'}
+        </span>
+      ) : null}
+
+      {isCommitOpen(dispute, now) && !commitment.hasCommitted && (
+        <>
+          <button
+            onClick={() => onCommit(dispute.disputeId, false)}
+            disabled={busy}
+            className="btn-secondary px-3 py-1 text-sm"
+          >
+            Override
+          </button>
+          <button onClick={() => onCommit(dispute.disputeId, true)} disabled={busy} className="btn px-3 py-1 text-sm">
+            Uphold
+          </button>
+        </>
+      )}
+      {isRevealOpen(dispute, now) && commitment.hasCommitted && !commitment.hasRevealed && (
+        <button onClick={() => onReveal(dispute.disputeId)} disabled={busy} className="btn px-3 py-1 text-sm">
+          Reveal Vote
+        </button>
+      )}
+      {canResolveDispute(dispute, now) && (
+        <button onClick={() => onResolve(dispute.disputeId)} disabled={busy} className="btn px-3 py-1 text-sm">
+          Resolve Dispute
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface OpenDisputeProps {
+  taskId: number;
+  address: string;
+  disputeAddress: string;
+  onClose: () => void;
+}
+
+// Dispute form for the task in `?task=`; only its creator and worker may challenge the verification
+const OpenDispute: React.FC<OpenDisputeProps> = ({ taskId, address, disputeAddress, onClose }) => {
+  const { disputeResolution } = useDisputeResolutionContract();
+  const { token } = useTokenContract();
+  const now = useChainTime();
+  const evidenceStorage = useEvidenceStorage();
+
+  const { data: taskAddress } = useTaskAddress(taskId);
+  const exists = Boolean(taskAddress) && taskAddress!.toLowerCase() !== ZERO_ADDRESS;
+  const { data: details } = useTaskDetails(exists ? taskAddress! : undefined);
+  const { data: constants } = useDisputeConstants();
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, disputeAddress);
+
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const creation = useTransaction(disputeResolution?.createDispute, DISPUTE_QUERIES);
+  const { isWrongNetwork } = useNetworkGuard();
+
+  const [form, setForm] = useState<CreateDisputeForm>(EMPTY_DISPUTE);
+  const [evidenceFile, setEvidenceFile] = useState<EvidenceFile>();
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [storingEvidence, setStoringEvidence] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => prev.filter(error => error.field !== name));
+  };
+
+  const handleEvidenceSelect = (file: EvidenceFile) => {
+    setEvidenceFile(file);
+    setForm(prev => ({ ...prev, evidenceCid: file.cid }));
+    setErrors(prev => prev.filter(error => error.field !== 'evidenceCid'));
+  };
+
+  const handleEvidenceError = (message: string) => {
+    setEvidenceFile(undefined);
+    setForm(prev => ({ ...prev, evidenceCid: '' }));
+    setErrors(prev => prev.filter(error => error.field !== 'evidenceCid').concat({ field: 'evidenceCid', message }));
+  };
+
+  if (taskAddress && !exists) {
+    return <div className="card text-gray-600">There is no task #{taskId} on this network.</div>;
+  }
+  if (!details) {
+    return (
+      <div className="card flex items-center justify-center gap-3 py-8">
+        <div className="loading"></div>
+        <span className="text-gray-600">Loading task #{taskId}...</span>
+      </div>
+    );
+  }
+
+  const { task, dispute } = details;
+  const isParticipant = sameAddress(task.creator, address) || sameAddress(task.assignedWorker, address);
+  const inWindow =
+    task.currentStatus === TaskStatus.Verified &&
+    dispute.verificationDeadline !== undefined &&
+    now <= dispute.verificationDeadline;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWrongNetwork) return;
+
+    const balanceContext = { balance: tokenBalance != null ? toBigInt(tokenBalance) : undefined };
+    const formErrors = validate(DISPUTE_SCHEMA, form, balanceContext);
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    // The bytes are stored before the CID goes on-chain, so arbitrators can always fetch them
+    if (evidenceStorage && evidenceFile) {
+      setStoringEvidence(true);
+      try {
+        await evidenceStorage.put(evidenceFile.cid, evidenceFile.bytes);
+      } catch (error) {
+        alert(`Error storing evidence: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      } finally {
+        setStoringEvidence(false);
+      }
+    }
+
+    const bondAmount = parseUnits(form.bondAmount);
+    if (toBigInt(tokenAllowance ?? 0) < bondAmount) {
+      const approved = await approval.execute([disputeAddress, bondAmount.toString()]);
+      if (!approved.success) {
+        const message = formatFailure('Error approving tokens', approved.error);
+        if (message) alert(message);
+        return;
+      }
+    }
+
+    const result = await creation.execute([task.taskId, details.address, bondAmount.toString(), form.reason, form.evidenceCid]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error opening dispute', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert(`Dispute opened for task ${task.taskId}.`);
+    setForm(EMPTY_DISPUTE);
+    setEvidenceFile(undefined);
+    onClose();
+  };
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-start mb-4">
+        <h2 className="text-xl font-semibold">Dispute Task #{task.taskId}</h2>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </div>
+
+      {!isParticipant ? (
+        <p className="text-gray-600">Only the creator or the worker of task #{task.taskId} can dispute its verification.</p>
+      ) : !inWindow ? (
+        <p className="text-gray-600">
+          Task #{task.taskId} can only be disputed while it is verified and its dispute window is open.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+          <p className="text-gray-600">
+            Arbitrators vote on whether the verification was right. The bond is returned only if they override it.
+            The dispute window closes {formatTimestamp(dispute.verificationDeadline!)}.
+          </p>
+
+          <div className="form-group">
+            <label htmlFor="dispute-bond" className="form-label">
+              Bond (minimum {constants ? formatAmount(constants.minDisputeBond) : '50'} RN)
+            </label>
+            <input
+              id="dispute-bond"
+              type="number"
+              name="bondAmount"
+              {...errorProps(errors, 'bondAmount')}
+              value={form.bondAmount}
+              onChange={handleChange}
+              className="form-input"
+              min="50"
+              step="10"
+              required
+            />
+            <FieldError errors={errors} field="bondAmount" />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="dispute-reason" className="form-label">
+              Reason
+            </label>
+            <textarea
+              id="dispute-reason"
+              name="reason"
+              {...errorProps(errors, 'reason')}
+              value={form.reason}
+              onChange={handleChange}
+              className="form-textarea"
+              placeholder="What does the verification get wrong?"
+              required
+            />
+            <FieldError errors={errors} field="reason" />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="dispute-evidence" className="form-label">
+              Evidence file (optional)
+            </label>
+            {evidenceStorage ? (
+              <EvidenceUploader
+                id="dispute-evidence"
+                file={evidenceFile}
+                onSelect={handleEvidenceSelect}
+                onError={handleEvidenceError}
+                disabled={creation.loading}
+                inputProps={errorProps(errors, 'evidenceCid')}
+              />
+            ) : (
+              <p className="text-sm text-yellow-700">
+                {EVIDENCE_STORAGE_MISSING}
+              </p>
+            )}
+            <FieldError errors={errors} field="evidenceCid" />
+          </div>
+
+          <button
+            type="submit"
+            disabled={approval.loading || creation.loading || storingEvidence || isWrongNetwork}
+            className="btn w-full flex items-center justify-center gap-2"
+          >
+            {(approval.loading || creation.loading || storingEvidence) && <div className="loading"></div>}
+            Open Dispute
+          </button>
+
+          {storingEvidence && (
+            <p className="text-sm text-blue-700" role="status">
+              Storing evidence in {evidenceStorage?.name}...
+            </p>
+          )}
+          <TransactionStatus label="Bond approval" transaction={approval.transaction} />
+          <TransactionStatus label="Dispute" transaction={creation.transaction} />
+        </form>
+      )}
+    </div>
+  );
+};
+
+const DisputeCenter: React.FC<{ address: string; disputeAddress: string }> = ({ address, disputeAddress }) => {
+  const { disputeResolution } = useDisputeResolutionContract();
+  const { token } = useTokenContract();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const taskParam = searchParams.get('task') ?? '';
+  const disputedTaskId = /^\d+$/.test(taskParam) ? Number(taskParam) : undefined;
+
+  const { data: constants } = useDisputeConstants();
+  const { data: arbitrator } = useArbitrator(address);
+  const { data: assignedIds } = useArbitratorDisputes(address);
+  const { data: assigned, loading: assignedLoading } = useDisputes(assignedIds);
+  const { data: disputeCount } = useDisputeCount();
+  // Newest first
+  const allIds = useMemo(
+    () => (disputeCount == null ? undefined : Array.from({ length: disputeCount }, (_, i) => disputeCount - i)),
+    [disputeCount]
+  );
+  const { data: disputes, loading: disputesLoading } = useDisputes(allIds);
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, disputeAddress);
+
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const registration = useTransaction(disputeResolution?.registerArbitrator, [
+    QUERY_KEYS.arbitrator,
+    QUERY_KEYS.tokenBalance,
+    QUERY_KEYS.tokenAllowance,
+  ]);
+  const commit = useTransaction(disputeResolution?.commitVote, DISPUTE_QUERIES);
+  const reveal = useTransaction(disputeResolution?.revealVote, DISPUTE_QUERIES);
+  const resolution = useTransaction(disputeResolution?.resolveDispute, DISPUTE_QUERIES);
+  const { isWrongNetwork } = useNetworkGuard();
+
+  const [registrationForm, setRegistrationForm] = useState<RegisterArbitratorForm>(EMPTY_REGISTRATION);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [pendingVote, setPendingVote] = useState<{ disputeId: number; vote: boolean } | null>(null);
+  const [voteForm, setVoteForm] = useState<CommitVoteForm>({ reason: '' });
+  const [voteErrors, setVoteErrors] = useState<ValidationError[]>([]);
+
+  const isRegistered = arbitrator?.isRegistered;
+  const disputeBusy = commit.loading || reveal.loading || resolution.loading || isWrongNetwork;
+
+  const handleRegistrationChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setRegistrationForm(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => prev.filter(error => error.field !== name));
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWrongNetwork) return;
+
+    const balanceContext = { balance: tokenBalance != null ? toBigInt(tokenBalance) : undefined };
+    const formErrors = validate(ARBITRATOR_SCHEMA, registrationForm, balanceContext);
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    const stakeAmount = parseUnits(registrationForm.stakeAmount);
+    if (toBigInt(tokenAllowance ?? 0) < stakeAmount) {
+      const approved = await approval.execute([disputeAddress, stakeAmount.toString()]);
+      if (!approved.success) {
+        const message = formatFailure('Error approving tokens', approved.error);
+        if (message) alert(message);
+        return;
+      }
+    }
+
+    const result = await registration.execute([stakeAmount.toString(), registrationForm.description]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error registering as arbitrator', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert('Successfully registered as arbitrator! 🎉');
+    setRegistrationForm(EMPTY_REGISTRATION);
+  };
+
+  const handleStartVote = (disputeId: number, vote: boolean) => {
+    setVoteForm({ reason: '' });
+    setVoteErrors([]);
+    setPendingVote({ disputeId, vote });
+  };
+
+  const handleConfirmVote = async () => {
+    if (!pendingVote || isWrongNetwork) return;
+    const { disputeId, vote } = pendingVote;
+
+    const formErrors = validate(VOTE_SCHEMA, voteForm, {});
+    setVoteErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    // The opening is saved before the commitment is sent, so the vote can always be revealed
+    const { commitment } = createDisputeVote(disputeAddress, disputeId, address, vote, voteForm.reason);
+    const result = await commit.execute([disputeId, commitment]);
+
+    if (!result.success) {
+      const message = formatFailure(`Error committing vote on dispute ${disputeId}`, result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    setPendingVote(null);
+  };
+
+  const handleReveal = async (disputeId: number) => {
+    if (isWrongNetwork) return;
+
+    const stored = getDisputeVote(disputeAddress, disputeId, address);
+    if (!stored) {
+      alert(`The vote you committed on dispute ${disputeId} is not stored in this browser, so it cannot be revealed here.`);
+      return;
+    }
+
+    const result = await reveal.execute([disputeId, stored.vote, stored.reason, stored.salt]);
+
+    if (!result.success) {
+      const message = formatFailure(`Error revealing vote on dispute ${disputeId}`, result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert(`Your vote on dispute ${disputeId} is revealed.`);
+  };
+
+  const handleResolve = async (disputeId: number) => {
+    if (isWrongNetwork) return;
+
+    const result = await resolution.execute([disputeId]);
+
+    if (!result.success) {
+      const message = formatFailure(`Error resolving dispute ${disputeId}`, result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert(`Dispute ${disputeId} resolved.`);
+  };
+
+  return (
+    <>
+      {disputedTaskId !== undefined && (
+        <OpenDispute
+          taskId={disputedTaskId}
+          address={address}
+          disputeAddress={disputeAddress}
+          onClose={() => setSearchParams({})}
+        />
+      )}
+
+      {/* Arbitrator Status */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Arbitrator Info</h2>
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Status:</span>
+              <span
+                className={`status-badge ${
+                  arbitrator?.isSlashed ? 'bg-red-100 text-red-800' : isRegistered ? 'status-active' : 'status-pending'
+                }`}
+              >
+                {arbitrator?.isSlashed ? 'Slashed' : isRegistered ? 'Registered' : 'Not Registered'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">RN Balance:</span>
+              <span className="font-semibold">{formatAmount(tokenBalance ?? 0)} RN</span>
+            </div>
+            {isRegistered && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Stake Amount:</span>
+                <span className="font-semibold">{formatAmount(arbitrator?.stake ?? 0)} RN</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {isRegistered && arbitrator && (
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-4">Performance</h2>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Majority Decisions:</span>
+                <span className="font-semibold">{arbitrator.correctDecisions}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Reputation:</span>
+                <span className="font-semibold">{arbitrator.reputation}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Assigned Disputes:</span>
+                <span className="font-semibold text-blue-600">{assignedIds ? assignedIds.length : 0}</span>
+              </div>
+              {constants && (
+                <p className="text-sm text-gray-500">
+                  {formatAmount(constants.arbitratorReward)} RN for each revealed vote that matches the decision.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Registration Form */}
+      {!isRegistered && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Register as Arbitrator</h2>
+          <p className="text-gray-600 mb-6">
+            Stake RN tokens to decide disputes over verified removals. Votes are committed in secret and revealed
+            once every arbitrator has voted.
+          </p>
+
+          <form onSubmit={handleRegister} className="space-y-6" noValidate>
+            <div className="form-group">
+              <label htmlFor="arbitrator-stake" className="form-label">
+                Stake Amount (minimum {constants ? formatAmount(constants.minArbitratorStake) : '1000'} RN)
+              </label>
+              <input
+                id="arbitrator-stake"
+                type="number"
+                name="stakeAmount"
+                {...errorProps(errors, 'stakeAmount')}
+                value={registrationForm.stakeAmount}
+                onChange={handleRegistrationChange}
+                className="form-input"
+                min="1000"
+                step="100"
+                required
+              />
+              <FieldError errors={errors} field="stakeAmount" />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="arbitrator-description" className="form-label">
+                Arbitrator Description
+              </label>
+              <textarea
+                id="arbitrator-description"
+                name="description"
+                {...errorProps(errors, 'description')}
+                value={registrationForm.description}
+                onChange={handleRegistrationChange}
+                className="form-textarea"
+                placeholder="Describe your experience with privacy law or data removals..."
+                required
+              />
+              <FieldError errors={errors} field="description" />
+            </div>
+
+            <button
+              type="submit"
+              disabled={approval.loading || registration.loading || isWrongNetwork}
+              className="btn w-full flex items-center justify-center gap-2"
+            >
+              {(approval.loading || registration.loading) && <div className="loading"></div>}
+              Register as Arbitrator
+            </button>
+
+            <TransactionStatus label="Stake approval" transaction={approval.transaction} />
+            <TransactionStatus label="Registration" transaction={registration.transaction} />
+          </form>
+        </div>
+      )}
+
+      {/* Assigned Disputes */}
+      {isRegistered && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Your Assigned Disputes</h2>
+
+          {assignedIds && assignedIds.length > 0 ? (
+            <div className="space-y-4">
+              {!assigned && assignedLoading ? (
+                <div className="flex items-center justify-center gap-3 py-8">
+                  <div className="loading"></div>
+                  <span className="text-gray-600">Loading your disputes...</span>
+                </div>
+              ) : (
+                (assigned ?? []).map((data) => (
+                  <DisputeCard key={data.dispute.disputeId} data={data}>
+                    <ArbitratorActions
+                      data={data}
+                      address={address}
+                      disputeAddress={disputeAddress}
+                      busy={disputeBusy}
+                      onCommit={handleStartVote}
+                      onReveal={handleReveal}
+                      onResolve={handleResolve}
+                    />
+                  </DisputeCard>
+                ))
+              )}
+
+              <TransactionStatus label="Vote commitment" transaction={commit.transaction} />
+              <TransactionStatus label="Vote reveal" transaction={reveal.transaction} />
+              <TransactionStatus label="Resolution" transaction={resolution.transaction} />
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <p>No assigned disputes</p>
+              <p className="text-sm mt-1">Disputes appear here when you are drawn to decide one</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* All Disputes */}
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">All Disputes</h2>
+
+        {allIds && allIds.length > 0 ? (
+          <div className="space-y-4">
+            {!disputes && disputesLoading ? (
+              <div className="flex items-center justify-center gap-3 py-8">
+                <div className="loading"></div>
+                <span className="text-gray-600">Loading disputes...</span>
+              </div>
+            ) : (
+              (disputes ?? []).map((data) => <DisputeCard key={data.dispute.disputeId} data={data} />)
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <p>No disputes yet</p>
+            <p className="text-sm mt-1">The creator or worker of a verified task can dispute it from the task page</p>
+          </div>
+        )}
+      </div>
+
+      {pendingVote && (
+        <ConfirmDialog
+          title={`${pendingVote.vote ? 'Uphold' : 'Override'}: Dispute #${pendingVote.disputeId}`}
+          confirmLabel="Commit Vote"
+          onConfirm={handleConfirmVote}
+          onCancel={() => setPendingVote(null)}
+          busy={commit.loading}
+          destructive={!pendingVote.vote}
+        >
+          <p className="text-gray-600 mb-4">
+            {pendingVote.vote
+              ? 'Upholding says the verification was right and the task stays verified.'
+              : 'Overriding says the verification was wrong.'}{' '}
+            Only a hash of your vote is sent now. The vote and its salt stay in this browser until you reveal them.
+          </p>
+          <div className="form-group">
+            <label htmlFor="vote-reason" className="form-label">
+              Reason
+            </label>
+            <textarea
+              id="vote-reason"
+              name="reason"
+              {...errorProps(voteErrors, 'reason')}
+              value={voteForm.reason}
+              onChange={(e) => {
+                setVoteForm({ reason: e.target.value });
+                setVoteErrors([]);
+              }}
+              className="form-textarea"
+            />
+            <FieldError errors={voteErrors} field="reason" />
+          </div>
+        </ConfirmDialog>
+      )}
+    </>
+  );
+};
+
+const Disputes: React.FC = () => {
+  const address = useAccount();
+  const { network, addresses } = useNetwork();
+
+  if (!address) {
+    return (
+      <div className="card text-center">
+        <h1 className="text-2xl font-bold mb-4">Dispute Center</h1>
+        <p className="text-gray-600">
+          Connect your wallet to dispute a verification or to arbitrate disputes.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <NetworkGuard />
+
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Dispute Center</h1>
+        <p className="text-gray-600 mt-2">
+          Challenge a verification you believe is wrong, or stake as an arbitrator and vote on disputes
+        </p>
+      </div>
+
+      {addresses.DISPUTE_RESOLUTION ? (
+        <DisputeCenter address={address} disputeAddress={addresses.DISPUTE_RESOLUTION} />
+      ) : (
+        <div className="card text-center text-gray-600">
+          Dispute resolution is not deployed on {network.name}.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Disputes;
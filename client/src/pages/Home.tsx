@@ -1,9 +1,9 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { useAddress } from '@thirdweb-dev/react';
+import { useAccount } from '../hooks';
 
 const Home: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
 
   return (
     <div className="space-y-12">
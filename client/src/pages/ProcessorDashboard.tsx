@@ -1,54 +1,111 @@
-import React, { useState } from 'react';
-import { useAddress, useContract, useContractRead, useContractWrite } from '@thirdweb-dev/react';
-import { getFactoryAddress, getTokenAddress } from '../config/contracts';
-import { RegisterWorkerForm } from '../types/contracts';
-
-// Contract ABIs
-const FACTORY_ABI = [
-  "function registerWorker(uint256 stakeAmount, string calldata description) external",
-  "function selfAssignToTask(uint256 taskId) external",
-  "function getAvailableTasks() external view returns (uint256[] memory)",
-  "function getWorkerTasks(address worker) external view returns (uint256[] memory)",
-  "function workers(address) external view returns (bool isRegistered, uint256 stake, uint256 completedTasks, uint256 successRate, uint256 reputation, string memory description, bool isSlashed)",
-  "function tasks(uint256) external view returns (address)"
-];
-
-
-const TOKEN_ABI = [
-  "function balanceOf(address) external view returns (uint256)",
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function approve(address spender, uint256 amount) external returns (bool)"
-];
+import React, { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  formatFailure,
+  sendWorkerAction,
+  toValidationError,
+  useFactoryContract,
+  useTaskLoader,
+  useTokenContract,
+  WORKER_ACTIONS,
+  WorkerAction,
+} from '../contracts';
+import ConfirmDialog from '../components/ConfirmDialog';
+import EvidenceUploader from '../components/EvidenceUploader';
+import FieldError from '../components/FieldError';
+import NetworkGuard from '../components/NetworkGuard';
+import TaskCard from '../components/TaskCard';
+import TransactionStatus from '../components/TransactionStatus';
+import { EVIDENCE_STORAGE_MISSING, useEvidenceStorage } from '../context/EvidenceContext';
+import { useNetwork } from '../context/NetworkContext';
+import { EvidenceFile } from '../evidence';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useNetworkGuard,
+  useAvailableTasks,
+  useTaskList,
+  useTokenAllowance,
+  useTokenBalance,
+  useTransaction,
+  useWorker,
+  useWorkerTasks,
+} from '../hooks';
+import { RegisterWorkerForm, SubmitEvidenceForm, ValidationError } from '../types/contracts';
+import { formatAmount, parseUnits, toBigInt } from '../utils/formatters';
+import { errorProps, TASK_STEP_SCHEMAS, validate, WORKER_SCHEMA } from '../utils/validation';
+
+// What each worker step's confirmation dialog explains and asks for
+const STEP_DIALOGS: Record<WorkerAction, { description: string; summaryLabel: string }> = {
+  markRemovalRequested: {
+    description: 'Confirm that you have sent the opt-out request to the broker.',
+    summaryLabel: 'Request details',
+  },
+  markBrokerResponded: {
+    description: "Record the broker's reply to the opt-out request.",
+    summaryLabel: 'Broker response *',
+  },
+  submitEvidence: {
+    description: 'Your browser hashes the file before storing it; verifiers review it before the payout is released.',
+    summaryLabel: 'Evidence summary *',
+  },
+  markFailed: {
+    description: 'A failed task cannot be resumed, and its creator can take the payout back.',
+    summaryLabel: 'Reason *',
+  },
+};
+
+const EMPTY_STEP_FORM: SubmitEvidenceForm = { evidenceCid: '', summary: '' };
 
 const ProcessorDashboard: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
+  const { addresses } = useNetwork();
   
   // Contract hooks
-  const { contract: factoryContract } = useContract(getFactoryAddress(), FACTORY_ABI);
-  const { contract: tokenContract } = useContract(getTokenAddress(), TOKEN_ABI);
+  const { factory } = useFactoryContract();
+  const { token } = useTokenContract();
   
-  const { data: workerInfo } = useContractRead(factoryContract, "workers", [address]);
-  const { data: availableTaskIds } = useContractRead(factoryContract, "getAvailableTasks");
-  const { data: assignedTaskIds } = useContractRead(factoryContract, "getWorkerTasks", [address]);
-  const { data: tokenBalance } = useContractRead(tokenContract, "balanceOf", [address]);
-  const { data: tokenAllowance } = useContractRead(tokenContract, "allowance", [address, getFactoryAddress()]);
-  
-  const { mutateAsync: registerWorker } = useContractWrite(factoryContract, "registerWorker");
-  const { mutateAsync: assignToTask } = useContractWrite(factoryContract, "selfAssignToTask");
-  const { mutateAsync: approveTokens } = useContractWrite(tokenContract, "approve");
+  const { data: workerInfo } = useWorker(address);
+  const { data: availableTaskIds } = useAvailableTasks();
+  const { data: assignedTaskIds } = useWorkerTasks(address);
+  const { data: assignedTasks, loading: assignedTasksLoading } = useTaskList(assignedTaskIds);
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, addresses.TASK_FACTORY);
+
+  // Writes: the stake approval must be confirmed before registering
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const registration = useTransaction(factory?.registerWorker, [
+    QUERY_KEYS.worker,
+    QUERY_KEYS.tokenBalance,
+    QUERY_KEYS.tokenAllowance,
+  ]);
+  const assignment = useTransaction(factory?.selfAssignToTask, [
+    QUERY_KEYS.availableTasks,
+    QUERY_KEYS.workerTasks,
+  ]);
+  const loadTask = useTaskLoader();
+  const sendStep = useCallback(
+    async (taskId: number, action: WorkerAction, form: SubmitEvidenceForm) =>
+      sendWorkerAction(await loadTask!(await factory!.getTaskAddress(taskId)), action, form),
+    [factory, loadTask]
+  );
+  const taskStep = useTransaction(factory && loadTask ? sendStep : undefined, [QUERY_KEYS.task]);
+  const registering = approval.loading || registration.loading;
+  const { isWrongNetwork } = useNetworkGuard();
   
   // Component state
-  const [registering, setRegistering] = useState(false);
   const [formData, setFormData] = useState<RegisterWorkerForm>({
     stakeAmount: '100',
     description: ''
   });
-
-
-  const formatTokenAmount = (amount: string | number): string => {
-    const value = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return (value / Math.pow(10, 18)).toFixed(2);
-  };
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [pendingStep, setPendingStep] = useState<{ taskId: number; action: WorkerAction } | null>(null);
+  const [lastStep, setLastStep] = useState<WorkerAction | null>(null);
+  const [stepForm, setStepForm] = useState<SubmitEvidenceForm>(EMPTY_STEP_FORM);
+  const [stepErrors, setStepErrors] = useState<ValidationError[]>([]);
+  const [evidenceFile, setEvidenceFile] = useState<EvidenceFile>();
+  const [storingEvidence, setStoringEvidence] = useState(false);
+  const evidenceStorage = useEvidenceStorage();
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -56,82 +113,146 @@ const ProcessorDashboard: React.FC = () => {
       ...prev,
       [name]: value
     }));
+    setErrors(prev => prev.filter(error => error.field !== name));
   };
 
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!address || !factoryContract || !tokenContract) {
+    if (!address || !factory || !token) {
       alert('Please connect your wallet and ensure contracts are loaded');
       return;
     }
 
-    const stakeAmount = parseFloat(formData.stakeAmount) * Math.pow(10, 18); // Convert to wei
-    
-    if (stakeAmount < 100 * Math.pow(10, 18)) {
-      alert('Minimum stake amount is 100 RN tokens');
-      return;
-    }
+    if (isWrongNetwork) return;
+
+    const formErrors = validate(WORKER_SCHEMA, formData, {
+      balance: tokenBalance != null ? toBigInt(tokenBalance) : undefined,
+    });
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
 
-    setRegistering(true);
-    try {
-      // Check if we need to approve tokens
-      const currentAllowance = tokenAllowance ? Number(tokenAllowance) : 0;
-      if (currentAllowance < stakeAmount) {
-        console.log('Approving tokens...');
-        await approveTokens({
-          args: [getFactoryAddress(), stakeAmount.toString()]
-        });
-        // Wait for approval transaction
-        await new Promise(resolve => setTimeout(resolve, 2000));
+    const stakeAmount = parseUnits(formData.stakeAmount); // Convert to wei
+
+    // Check if we need to approve tokens
+    const currentAllowance = toBigInt(tokenAllowance ?? 0);
+    if (currentAllowance < stakeAmount) {
+      console.log('Approving tokens...');
+      const approved = await approval.execute([addresses.TASK_FACTORY, stakeAmount.toString()]);
+      if (!approved.success) {
+        const message = formatFailure('Error approving tokens', approved.error);
+        if (message) alert(message);
+        return;
       }
+    }
 
-      // Register as worker
-      const result = await registerWorker({
-        args: [stakeAmount.toString(), formData.description]
-      });
-
-      console.log('Worker registered successfully:', result);
-      alert(`Successfully registered as worker! 🎉`);
-      
-      // Reset form
-      setFormData({
-        stakeAmount: '100',
-        description: ''
-      });
-      
-    } catch (error: any) {
-      console.error('Error registering as worker:', error);
-      const errorMessage = error?.reason || error?.message || 'Unknown error occurred';
-      alert(`Error registering as worker: ${errorMessage}`);
-    } finally {
-      setRegistering(false);
+    // Register as worker
+    const result = await registration.execute([stakeAmount.toString(), formData.description]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error registering as worker', result.error);
+      if (message) alert(message);
+      return;
     }
+
+    console.log('Worker registered successfully:', result.hash);
+    alert(`Successfully registered as worker! 🎉`);
+    
+    // Reset form
+    setFormData({
+      stakeAmount: '100',
+      description: ''
+    });
   };
 
   const handleAssignToTask = async (taskId: number) => {
-    if (!factoryContract) {
-      alert('Contract not loaded. Please try again.');
+    if (isWrongNetwork) return;
+
+    const result = await assignment.execute([taskId]);
+
+    if (!result.success) {
+      const message = formatFailure('Error assigning to task', result.error);
+      if (message) alert(message);
       return;
     }
 
-    try {
-      const result = await assignToTask({
-        args: [taskId]
-      });
-
-      console.log('Assigned to task successfully:', result);
-      alert(`Successfully assigned to task ${taskId}! 🎉`);
-      
-    } catch (error: any) {
-      console.error('Error assigning to task:', error);
-      const errorMessage = error?.reason || error?.message || 'Unknown error occurred';
-      alert(`Error assigning to task: ${errorMessage}`);
+    console.log('Assigned to task successfully:', result.hash);
+    alert(`Successfully assigned to task ${taskId}! 🎉`);
+  };
+
+  const handleTakeAction = (taskId: number, action: string) => {
+    setPendingStep({ taskId, action: action as WorkerAction });
+    setStepForm(EMPTY_STEP_FORM);
+    setStepErrors([]);
+    setEvidenceFile(undefined);
+  };
+
+  const handleEvidenceSelect = (file: EvidenceFile) => {
+    setEvidenceFile(file);
+    setStepForm(prev => ({ ...prev, evidenceCid: file.cid }));
+    setStepErrors(prev => prev.filter(error => error.field !== 'evidenceCid'));
+  };
+
+  const handleEvidenceError = (message: string) => {
+    setEvidenceFile(undefined);
+    setStepForm(prev => ({ ...prev, evidenceCid: '' }));
+    setStepErrors(prev => prev.filter(error => error.field !== 'evidenceCid').concat({ field: 'evidenceCid', message }));
+  };
+
+  const handleStepChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setStepForm(prev => ({ ...prev, [name]: value }));
+    setStepErrors(prev => prev.filter(error => error.field !== name));
+  };
+
+  const handleConfirmStep = async () => {
+    if (!pendingStep || isWrongNetwork) return;
+    const { taskId, action } = pendingStep;
+    // A CID whose bytes nobody keeps could never be checked by verifiers
+    if (action === 'submitEvidence' && !evidenceStorage) return;
+
+    const formErrors = validate(TASK_STEP_SCHEMAS[action], stepForm, {});
+    setStepErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    // The bytes are stored before the CID goes on-chain, so viewers can always fetch them
+    if (action === 'submitEvidence' && evidenceStorage && evidenceFile) {
+      setStoringEvidence(true);
+      try {
+        await evidenceStorage.put(evidenceFile.cid, evidenceFile.bytes);
+      } catch (error) {
+        alert(`Error storing evidence: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      } finally {
+        setStoringEvidence(false);
+      }
+    }
+
+    setLastStep(action);
+    const result = await taskStep.execute([taskId, action, stepForm]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setStepErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure(`Error updating task ${taskId}`, result.error);
+      if (message) alert(message);
+      return;
     }
+
+    console.log(`${WORKER_ACTIONS[action].label} confirmed:`, result.hash);
+    setPendingStep(null);
   };
 
   // Check if user is registered worker
-  const isRegisteredWorker = workerInfo && workerInfo[0]; // isRegistered is first element
+  const isRegisteredWorker = workerInfo?.isRegistered;
 
   if (!address) {
     return (
@@ -146,6 +267,8 @@ const ProcessorDashboard: React.FC = () => {
 
   return (
     <div className="space-y-8">
+      <NetworkGuard />
+
       {/* Header */}
       <div>
         <h1 className="text-3xl font-bold text-gray-900">Worker Dashboard</h1>
@@ -168,14 +291,14 @@ const ProcessorDashboard: React.FC = () => {
             <div className="flex justify-between">
               <span className="text-gray-600">RN Balance:</span>
               <span className="font-semibold">
-                {tokenBalance ? formatTokenAmount(tokenBalance.toString()) : '0.00'} RN
+                {formatAmount(tokenBalance ?? 0)} RN
               </span>
             </div>
             {isRegisteredWorker && (
               <div className="flex justify-between">
                 <span className="text-gray-600">Stake Amount:</span>
                 <span className="font-semibold">
-                  {workerInfo ? formatTokenAmount(workerInfo[1].toString()) : '0.00'} RN
+                  {formatAmount(workerInfo?.stake ?? 0)} RN
                 </span>
               </div>
             )}
@@ -189,15 +312,15 @@ const ProcessorDashboard: React.FC = () => {
               <div className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Completed Tasks:</span>
-                  <span className="font-semibold">{workerInfo ? Number(workerInfo[2]) : 0}</span>
+                  <span className="font-semibold">{workerInfo ? workerInfo.completedTasks : 0}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Success Rate:</span>
-                  <span className="font-semibold">{workerInfo ? Number(workerInfo[3]) : 0}%</span>
+                  <span className="font-semibold">{workerInfo ? workerInfo.successRate : 0}%</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Reputation:</span>
-                  <span className="font-semibold">{workerInfo ? Number(workerInfo[4]) : 0}</span>
+                  <span className="font-semibold">{workerInfo ? workerInfo.reputation : 0}</span>
                 </div>
               </div>
             </div>
@@ -228,12 +351,13 @@ const ProcessorDashboard: React.FC = () => {
             Higher stakes may lead to better task assignments.
           </p>
 
-          <form onSubmit={handleRegister} className="space-y-6">
+          <form onSubmit={handleRegister} className="space-y-6" noValidate>
             <div className="form-group">
               <label className="form-label">Stake Amount (minimum 100 RN)</label>
               <input
                 type="number"
                 name="stakeAmount"
+                {...errorProps(errors, 'stakeAmount')}
                 value={formData.stakeAmount}
                 onChange={handleInputChange}
                 className="form-input"
@@ -241,6 +365,7 @@ const ProcessorDashboard: React.FC = () => {
                 step="10"
                 required
               />
+              <FieldError errors={errors} field="stakeAmount" />
               <p className="text-sm text-gray-500 mt-1">
                 Stake RN tokens to show commitment. Higher stakes may receive priority.
               </p>
@@ -250,12 +375,14 @@ const ProcessorDashboard: React.FC = () => {
               <label className="form-label">Worker Description</label>
               <textarea
                 name="description"
+                {...errorProps(errors, 'description')}
                 value={formData.description}
                 onChange={handleInputChange}
                 className="form-textarea"
                 placeholder="Describe your experience with data removal, privacy tools, and why you'd be a good worker..."
                 required
               />
+              <FieldError errors={errors} field="description" />
               <p className="text-sm text-gray-500 mt-1">
                 Describe your qualifications and experience
               </p>
@@ -263,12 +390,15 @@ const ProcessorDashboard: React.FC = () => {
 
             <button
               type="submit"
-              disabled={registering}
+              disabled={registering || isWrongNetwork}
               className="btn w-full flex items-center justify-center gap-2"
             >
               {registering && <div className="loading"></div>}
               Register as Worker
             </button>
+
+            <TransactionStatus label="Stake approval" transaction={approval.transaction} />
+            <TransactionStatus label="Registration" transaction={registration.transaction} />
           </form>
         </div>
       )}
@@ -288,7 +418,11 @@ const ProcessorDashboard: React.FC = () => {
                 <div key={taskId.toString()} className="border rounded-lg p-4">
                   <div className="flex justify-between items-start mb-3">
                     <div>
-                      <h3 className="font-semibold">Task #{taskId.toString()}</h3>
+                      <h3 className="font-semibold">
+                        <Link to={`/tasks/${taskId}`} className="hover:text-ninja-600">
+                          Task #{taskId.toString()}
+                        </Link>
+                      </h3>
                       <p className="text-sm text-gray-600">
                         Click to assign yourself to this task
                       </p>
@@ -305,6 +439,7 @@ const ProcessorDashboard: React.FC = () => {
                     
                     <button
                       onClick={() => handleAssignToTask(Number(taskId))}
+                      disabled={assignment.loading || isWrongNetwork}
                       className="btn px-3 py-1 text-sm"
                     >
                       Assign to Me
@@ -327,6 +462,12 @@ const ProcessorDashboard: React.FC = () => {
               </p>
             </div>
           )}
+
+          {assignment.transaction && (
+            <div className="mt-4">
+              <TransactionStatus label="Task assignment" transaction={assignment.transaction} />
+            </div>
+          )}
         </div>
       )}
 
@@ -341,10 +482,27 @@ const ProcessorDashboard: React.FC = () => {
                 You have {assignedTaskIds.length} assigned task{assignedTaskIds.length !== 1 ? 's' : ''}.
               </p>
               
-              <div className="text-center py-8 text-gray-500">
-                <p>Task details will be loaded here.</p>
-                <p className="text-sm mt-2">Full task management in progress...</p>
-              </div>
+              {!assignedTasks && assignedTasksLoading ? (
+                <div className="flex items-center justify-center gap-3 py-8">
+                  <div className="loading"></div>
+                  <span className="text-gray-600">Loading your tasks...</span>
+                </div>
+              ) : (
+                (assignedTasks ?? []).map(({ task, broker }) => (
+                  <TaskCard
+                    key={task.taskId}
+                    task={task}
+                    broker={broker}
+                    userRole="worker"
+                    onTakeAction={handleTakeAction}
+                    actionsDisabled={taskStep.loading || isWrongNetwork}
+                  />
+                ))
+              )}
+
+              {lastStep && !pendingStep && (
+                <TransactionStatus label={WORKER_ACTIONS[lastStep].label} transaction={taskStep.transaction} />
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-gray-500">
@@ -357,6 +515,61 @@ const ProcessorDashboard: React.FC = () => {
         </div>
       )}
 
+      {pendingStep && (
+        <ConfirmDialog
+          title={`${WORKER_ACTIONS[pendingStep.action].label}: Task #${pendingStep.taskId}`}
+          confirmLabel={WORKER_ACTIONS[pendingStep.action].label}
+          onConfirm={handleConfirmStep}
+          onCancel={() => setPendingStep(null)}
+          busy={storingEvidence || taskStep.loading}
+          confirmDisabled={pendingStep.action === 'submitEvidence' && !evidenceStorage}
+          destructive={pendingStep.action === 'markFailed'}
+        >
+          <p className="text-gray-600">{STEP_DIALOGS[pendingStep.action].description}</p>
+
+          {pendingStep.action === 'submitEvidence' && !evidenceStorage && (
+            <p className="text-sm text-red-700" role="alert">
+              {EVIDENCE_STORAGE_MISSING}
+            </p>
+          )}
+
+          {pendingStep.action === 'submitEvidence' && evidenceStorage && (
+            <div className="form-group">
+              <label htmlFor="evidenceCid" className="form-label">Evidence file *</label>
+              <EvidenceUploader
+                id="evidenceCid"
+                file={evidenceFile}
+                onSelect={handleEvidenceSelect}
+                onError={handleEvidenceError}
+                disabled={storingEvidence || taskStep.loading}
+                inputProps={errorProps(stepErrors, 'evidenceCid')}
+              />
+              <FieldError errors={stepErrors} field="evidenceCid" />
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="summary" className="form-label">{STEP_DIALOGS[pendingStep.action].summaryLabel}</label>
+            <textarea
+              id="summary"
+              name="summary"
+              {...errorProps(stepErrors, 'summary')}
+              value={stepForm.summary}
+              onChange={handleStepChange}
+              className="form-textarea"
+            />
+            <FieldError errors={stepErrors} field="summary" />
+          </div>
+
+          {storingEvidence && (
+            <p className="text-sm text-blue-700" role="status">
+              Storing evidence in {evidenceStorage?.name}...
+            </p>
+          )}
+          <TransactionStatus label={WORKER_ACTIONS[pendingStep.action].label} transaction={taskStep.transaction} />
+        </ConfirmDialog>
+      )}
+
       {/* Help Section */}
       <div className="card">
         <h2 className="text-xl font-semibold mb-4">How Worker System Works</h2>
@@ -0,0 +1,397 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { formatFailure, useFactoryContract, useTaskContract } from '../contracts';
+import NetworkGuard from '../components/NetworkGuard';
+import TransactionStatus from '../components/TransactionStatus';
+import VerifyEvidence from '../components/VerifyEvidence';
+import { ZERO_ADDRESS } from '../config/deployments';
+import { useNetwork } from '../context/NetworkContext';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useBroker,
+  useChainTime,
+  useNetworkGuard,
+  useTaskAddress,
+  useTaskDetails,
+  useTransaction,
+  useWorker,
+} from '../hooks';
+import {
+  RemovalTask,
+  TASK_STATUS_COLORS,
+  TASK_STATUS_LABELS,
+  TaskCardProps,
+  TaskStatus,
+} from '../types/contracts';
+import { formatAddress, formatAmount, formatDuration, formatTimestamp } from '../utils/formatters';
+
+type TaskRole = NonNullable<TaskCardProps['userRole']>;
+
+// The path of a successful task, with the time the contract records reaching each step
+const PROGRESS_STEPS: { status: TaskStatus; reachedAt: (task: RemovalTask) => number | undefined }[] = [
+  { status: TaskStatus.Created, reachedAt: (task) => task.createdAt },
+  { status: TaskStatus.Requested, reachedAt: (task) => task.requestedAt },
+  { status: TaskStatus.Responded, reachedAt: (task) => task.respondedAt },
+  { status: TaskStatus.Verified, reachedAt: (task) => task.completedAt },
+];
+
+// Statuses that leave the path above; the contract keeps no timestamp for them
+const OFF_PATH_STATUSES = [TaskStatus.Disputed, TaskStatus.Failed, TaskStatus.Refunded];
+
+interface TimelineStep {
+  status: TaskStatus;
+  reached: boolean;
+  timestamp?: number;
+}
+
+const buildTimeline = (task: RemovalTask): TimelineStep[] => {
+  const steps = PROGRESS_STEPS.map(({ status, reachedAt }): TimelineStep => {
+    const timestamp = reachedAt(task);
+    return { status, timestamp, reached: timestamp !== undefined };
+  });
+  if (!OFF_PATH_STATUSES.includes(task.currentStatus)) return steps;
+  return steps.filter((step) => step.reached).concat({ status: task.currentStatus, reached: true });
+};
+
+const sameAddress = (a: string | undefined, b: string | undefined) =>
+  Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+
+const getRole = (task: RemovalTask, account: string | undefined): TaskRole => {
+  if (sameAddress(task.creator, account)) return 'creator';
+  if (sameAddress(task.assignedWorker, account)) return 'worker';
+  return 'viewer';
+};
+
+// Same check as RemovalTask.refund
+const isRefundable = (task: RemovalTask, pastDeadline: boolean) =>
+  task.currentStatus === TaskStatus.Failed ||
+  (pastDeadline && task.currentStatus !== TaskStatus.Verified && task.currentStatus !== TaskStatus.Refunded);
+
+// Why a viewer cannot take a task that is not open for assignment
+const closedTaskMessage = (task: RemovalTask): string => {
+  switch (task.currentStatus) {
+    case TaskStatus.Verified:
+      return 'This removal has been verified.';
+    case TaskStatus.Disputed:
+      return 'This task is under dispute.';
+    case TaskStatus.Failed:
+      return task.assignedWorker
+        ? 'This task failed before its worker completed it.'
+        : 'This task failed before any worker took it on.';
+    case TaskStatus.Refunded:
+      return 'This task was refunded to its creator.';
+    default:
+      return task.assignedWorker
+        ? 'This task has already been taken by a worker.'
+        : 'This task is no longer open for a worker.';
+  }
+};
+
+const NotFound: React.FC<{ message: string }> = ({ message }) => (
+  <div className="card text-center">
+    <h1 className="text-2xl font-bold mb-4">Task Not Found</h1>
+    <p className="text-gray-600 mb-4">{message}</p>
+    <Link to="/dashboard" className="btn-secondary">
+      Back to Dashboard
+    </Link>
+  </div>
+);
+
+const TaskDetail: React.FC = () => {
+  const { taskId: taskIdParam = '' } = useParams();
+  const taskId = /^\d+$/.test(taskIdParam) ? Number(taskIdParam) : undefined;
+  const address = useAccount();
+
+  const { factory } = useFactoryContract();
+  const { data: taskAddress, error: addressError } = useTaskAddress(taskId);
+  const exists = Boolean(taskAddress) && taskAddress!.toLowerCase() !== ZERO_ADDRESS;
+  const { task: taskClient } = useTaskContract(exists ? taskAddress! : undefined);
+  const { data: details, error: detailsError } = useTaskDetails(exists ? taskAddress! : undefined);
+  const { data: broker } = useBroker(details?.task.brokerId);
+  const { data: workerInfo } = useWorker(address);
+  const { addresses } = useNetwork();
+  const now = useChainTime();
+
+  const refund = useTransaction(taskClient?.refund, [QUERY_KEYS.task, QUERY_KEYS.tokenBalance]);
+  const assignment = useTransaction(factory?.selfAssignToTask, [
+    QUERY_KEYS.task,
+    QUERY_KEYS.availableTasks,
+    QUERY_KEYS.workerTasks,
+  ]);
+  const { isWrongNetwork } = useNetworkGuard();
+
+  if (taskId === undefined) {
+    return <NotFound message={`"${taskIdParam}" is not a task number.`} />;
+  }
+
+  if (taskAddress && !exists) {
+    return <NotFound message={`There is no task #${taskId} on this network.`} />;
+  }
+
+  const error = addressError ?? detailsError;
+  if (error) {
+    return (
+      <div className="card text-center">
+        <h1 className="text-2xl font-bold mb-4">Task #{taskId}</h1>
+        <p className="text-red-600" role="alert">Could not load this task: {error}</p>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="card flex items-center justify-center gap-3 py-12">
+        <div className="loading"></div>
+        <span className="text-gray-600">Loading task #{taskId}...</span>
+      </div>
+    );
+  }
+
+  const { task, evidence, dispute, timeRemaining } = details;
+  const role = getRole(task, address);
+  const pastDeadline = timeRemaining === 0;
+  const canAssign = task.currentStatus === TaskStatus.Created && !task.assignedWorker;
+  // Same check as RemovalTask.isInDisputeWindow, which DisputeResolution.createDispute requires
+  const canDispute =
+    Boolean(addresses.DISPUTE_RESOLUTION) &&
+    role !== 'viewer' &&
+    task.currentStatus === TaskStatus.Verified &&
+    dispute.verificationDeadline !== undefined &&
+    now <= dispute.verificationDeadline;
+
+  const handleRefund = async () => {
+    if (isWrongNetwork) return;
+
+    const result = await refund.execute([]);
+
+    if (!result.success) {
+      const message = formatFailure('Error refunding task', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    console.log('Task refunded successfully:', result.hash);
+    alert(`Refunded ${formatAmount(task.payout)} RN to your wallet.`);
+  };
+
+  const handleAssign = async () => {
+    if (isWrongNetwork) return;
+
+    const result = await assignment.execute([task.taskId]);
+
+    if (!result.success) {
+      const message = formatFailure('Error assigning to task', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    console.log('Assigned to task successfully:', result.hash);
+    alert(`Successfully assigned to task ${task.taskId}! 🎉`);
+  };
+
+  return (
+    <div className="space-y-8">
+      <NetworkGuard />
+
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Task #{task.taskId}</h1>
+          <p className="text-gray-600 mt-2">
+            Removal from {broker ? broker.name : `broker #${task.brokerId}`}
+          </p>
+        </div>
+        <span className={`status-badge ${TASK_STATUS_COLORS[task.currentStatus]}`}>
+          {TASK_STATUS_LABELS[task.currentStatus]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Overview */}
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Overview</h2>
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Payout:</span>
+              <span className="font-semibold">{formatAmount(task.payout)} RN</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Creator:</span>
+              <span className="font-mono text-sm">{formatAddress(task.creator)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Worker:</span>
+              <span className="font-mono text-sm">
+                {task.assignedWorker ? formatAddress(task.assignedWorker) : 'Unassigned'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Deadline:</span>
+              <span>{formatTimestamp(task.deadline)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Time Remaining:</span>
+              <span className={`font-semibold ${pastDeadline ? 'text-red-600' : ''}`}>
+                {pastDeadline ? 'Past deadline' : formatDuration(timeRemaining)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subject Commitment:</span>
+              <span className="font-mono text-sm" title={task.subjectCommit}>
+                {formatAddress(task.subjectCommit)}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Status Timeline */}
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Status Timeline</h2>
+          <ol className="space-y-3" aria-label="Status timeline">
+            {buildTimeline(task).map((step) => (
+              <li
+                key={step.status}
+                className="flex justify-between items-center"
+                aria-current={step.status === task.currentStatus ? 'step' : undefined}
+              >
+                <span
+                  className={`status-badge ${
+                    step.reached ? TASK_STATUS_COLORS[step.status] : 'bg-white text-gray-400 border'
+                  }`}
+                >
+                  {TASK_STATUS_LABELS[step.status]}
+                </span>
+                <span className="text-sm text-gray-500">
+                  {step.timestamp ? formatTimestamp(step.timestamp) : step.reached ? '' : 'Pending'}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      {/* Evidence */}
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">Evidence</h2>
+        {evidence.length > 0 ? (
+          <ul className="space-y-4">
+            {evidence.map((item, index) => (
+              <li key={`${item.evidenceCid}-${index}`} className="border rounded-lg p-4">
+                <p className="font-medium">{item.summary}</p>
+                <p className="font-mono text-sm text-gray-600 break-all mt-1">{item.evidenceCid}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  Submitted by {formatAddress(item.submitter)} on {formatTimestamp(item.timestamp)}
+                </p>
+                <VerifyEvidence cid={item.evidenceCid} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500">No evidence submitted yet.</p>
+        )}
+      </div>
+
+      {/* Dispute */}
+      {(dispute.disputed || dispute.verificationDeadline) && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Dispute</h2>
+          {dispute.disputed ? (
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Raised By:</span>
+                <span className="font-mono text-sm">{formatAddress(dispute.initiator ?? '')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Bond:</span>
+                <span className="font-semibold">{formatAmount(dispute.bond)} RN</span>
+              </div>
+              <div>
+                <span className="text-gray-600">Reason:</span>
+                <p className="mt-1">{dispute.reason}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-gray-600">
+                No dispute raised. The dispute window closes {formatTimestamp(dispute.verificationDeadline!)}.
+              </p>
+              {canDispute && (
+                <Link to={`/disputes?task=${task.taskId}`} className="btn inline-block">
+                  Open Dispute
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">Actions</h2>
+
+        {role === 'creator' && (
+          <div className="space-y-4">
+            <p className="text-gray-600">You created this task.</p>
+            {isRefundable(task, pastDeadline) ? (
+              <button
+                onClick={handleRefund}
+                disabled={refund.loading || isWrongNetwork}
+                className="btn flex items-center gap-2"
+              >
+                {refund.loading && <div className="loading"></div>}
+                Refund {formatAmount(task.payout)} RN
+              </button>
+            ) : task.currentStatus === TaskStatus.Refunded ? (
+              <p className="text-gray-600">The payout has been refunded to you.</p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                You can take the payout back if the task fails or its deadline passes before the removal is verified.
+              </p>
+            )}
+            <TransactionStatus label="Refund" transaction={refund.transaction} />
+          </div>
+        )}
+
+        {role === 'worker' && (
+          <div className="space-y-4">
+            <p className="text-gray-600">You are the worker assigned to this task.</p>
+            <Link to="/processor-dashboard" className="btn inline-block">
+              Open Worker Dashboard
+            </Link>
+          </div>
+        )}
+
+        {role === 'viewer' &&
+          (!canAssign ? (
+            <p className="text-gray-600">{closedTaskMessage(task)}</p>
+          ) : !address ? (
+            <p className="text-gray-600">Connect your wallet to take on this task.</p>
+          ) : workerInfo?.isRegistered ? (
+            <div className="space-y-4">
+              <p className="text-gray-600">This task is open for a worker.</p>
+              <button
+                onClick={handleAssign}
+                disabled={assignment.loading || isWrongNetwork}
+                className="btn flex items-center gap-2"
+              >
+                {assignment.loading && <div className="loading"></div>}
+                Assign to Me
+              </button>
+              <TransactionStatus label="Task assignment" transaction={assignment.transaction} />
+            </div>
+          ) : (
+            <p className="text-gray-600">
+              This task is open for a worker.{' '}
+              <Link to="/processor-dashboard" className="text-ninja-600 hover:text-ninja-700">
+                Register as a worker
+              </Link>{' '}
+              to take it on.
+            </p>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDetail;
@@ -1,86 +1,66 @@
 import React, { useState } from 'react';
-import { 
-  useAddress, 
-  useContract, 
-  useContractRead, 
-  useContractWrite 
-} from '@thirdweb-dev/react';
-import { getTokenAddress, getDexAddress } from '../config/contracts';
-
-// Simple ABI for the token contract
-const TOKEN_ABI = [
-  "function name() view returns (string)",
-  "function symbol() view returns (string)", 
-  "function decimals() view returns (uint8)",
-  "function totalSupply() view returns (uint256)",
-  "function balanceOf(address) view returns (uint256)",
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function approve(address spender, uint256 amount) returns (bool)",
-  "function allowance(address owner, address spender) view returns (uint256)"
-];
-
-// SimpleDEX ABI for buying tokens
-const DEX_ABI = [
-  "function buyTokens() payable",
-  "function getTokenPrice() view returns (uint256)",
-  "function getAmountOut(uint256 amountIn, bool buyingTokens) view returns (uint256)",
-  "function tokenReserves() view returns (uint256)",
-  "function ethReserves() view returns (uint256)"
-];
+import { useContractRead } from '@thirdweb-dev/react';
+import { getExplorerAddressUrl } from '../config/contracts';
+import { formatFailure, useDexContract, useTokenContract } from '../contracts';
+import NetworkGuard from '../components/NetworkGuard';
+import TransactionStatus from '../components/TransactionStatus';
+import { useNetwork } from '../context/NetworkContext';
+import { QUERY_KEYS, useAccount, useNetworkGuard, useTokenBalance, useTransaction } from '../hooks';
+import { formatAmount, parseUnits, toBigInt } from '../utils/formatters';
 
 const TokenPage: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
+  const { networkKey, network, addresses } = useNetwork();
   const [buyAmount, setBuyAmount] = useState<string>('');
-  const [loading, setLoading] = useState<boolean>(false);
 
   // Token contract
-  const { contract: tokenContract } = useContract(getTokenAddress(), TOKEN_ABI);
+  const { contract: tokenContract } = useTokenContract();
   
   // DEX contract
-  const { contract: dexContract } = useContract(getDexAddress(), DEX_ABI);
+  const { contract: dexContract, dex } = useDexContract();
 
   // Read token information
   const { data: tokenName } = useContractRead(tokenContract, "name");
   const { data: tokenSymbol } = useContractRead(tokenContract, "symbol");
   const { data: tokenDecimals } = useContractRead(tokenContract, "decimals");
   const { data: totalSupply } = useContractRead(tokenContract, "totalSupply");
-  const { data: userBalance } = useContractRead(tokenContract, "balanceOf", [address]);
+  const { data: userBalance } = useTokenBalance(address);
 
   // Read DEX information
   const { data: tokenPrice } = useContractRead(dexContract, "getTokenPrice");
   const { data: tokenReserves } = useContractRead(dexContract, "tokenReserves");
   const { data: ethReserves } = useContractRead(dexContract, "ethReserves");
-  
-  // Buy tokens from DEX
-  const { mutateAsync: buyTokens, isLoading: isBuying } = useContractWrite(dexContract, "buyTokens");
+
+  const purchase = useTransaction(dex?.buyTokens, [QUERY_KEYS.tokenBalance]);
+  const loading = purchase.loading;
+  const { isWrongNetwork } = useNetworkGuard();
 
   // Format token amounts
   const formatTokenAmount = (amount: any) => {
-    if (!amount || !tokenDecimals) return '0';
-    const divisor = Math.pow(10, tokenDecimals);
-    return (Number(amount) / divisor).toLocaleString(undefined, {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 6
+    if (!amount || tokenDecimals === undefined) return '0';
+    return formatAmount(amount, {
+      decimals: Number(tokenDecimals),
+      minFractionDigits: 2,
+      maxFractionDigits: 6
     });
   };
 
   // Calculate expected token output
   const calculateTokenOutput = (ethInput: string): string => {
-    if (!ethInput || !tokenReserves || !ethReserves || !tokenDecimals) return '0';
+    if (!ethInput || !tokenReserves || !ethReserves || tokenDecimals === undefined) return '0';
     
     try {
-      const ethAmount = parseFloat(ethInput);
-      const ethWei = BigInt(Math.floor(ethAmount * 1e18));
-      const tokenRes = BigInt(tokenReserves.toString());
-      const ethRes = BigInt(ethReserves.toString());
+      const ethWei = parseUnits(ethInput, 18, 'down');
+      const tokenRes = toBigInt(tokenReserves);
+      const ethRes = toBigInt(ethReserves);
       
       // Constant product formula: (ethInput * tokenReserves) / (ethReserves + ethInput)
       const tokenOutput = (ethWei * tokenRes) / (ethRes + ethWei);
-      const tokenAmount = Number(tokenOutput) / Math.pow(10, tokenDecimals);
       
-      return tokenAmount.toLocaleString(undefined, {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 2
+      return formatAmount(tokenOutput, {
+        decimals: Number(tokenDecimals),
+        minFractionDigits: 0,
+        maxFractionDigits: 2
       });
     } catch (error) {
       return '0';
@@ -88,36 +68,38 @@ const TokenPage: React.FC = () => {
   };
 
   const handleBuyToken = async () => {
-    if (!buyAmount || !address || !dexContract) return;
+    if (!buyAmount || !address || !dex || isWrongNetwork) return;
     
-    setLoading(true);
+    let ethAmount: bigint;
     try {
-      const ethAmount = parseFloat(buyAmount);
-      if (ethAmount <= 0) {
-        alert('Please enter a valid ETH amount');
-        return;
-      }
+      ethAmount = parseUnits(buyAmount, 18, 'down');
+    } catch {
+      ethAmount = BigInt(0);
+    }
+    if (ethAmount <= BigInt(0)) {
+      alert('Please enter a valid ETH amount');
+      return;
+    }
 
-      // Call the buyTokens function with ETH value
-      await buyTokens({
-        overrides: {
-          value: Math.floor(ethAmount * 1e18).toString()
-        }
-      });
-      
-      alert('Tokens purchased successfully!');
-      setBuyAmount('');
-    } catch (error) {
-      console.error('Error buying tokens:', error);
-      alert('Error buying tokens. Please try again.');
-    } finally {
-      setLoading(false);
+    // Call the buyTokens function with ETH value
+    const result = await purchase.execute([ethAmount.toString()]);
+
+    if (!result.success) {
+      console.error('Error buying tokens:', result.error);
+      const message = formatFailure('Error buying tokens', result.error);
+      if (message) alert(message);
+      return;
     }
+
+    alert('Tokens purchased successfully!');
+    setBuyAmount('');
   };
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <NetworkGuard className="mb-8" />
+
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -178,15 +160,15 @@ const TokenPage: React.FC = () => {
                 <label className="block text-sm font-medium text-gray-500 mb-2">Contract Address</label>
                 <div className="flex items-center space-x-2">
                   <code className="bg-gray-100 px-3 py-2 rounded-md text-sm font-mono text-gray-800 flex-1">
-                    {getTokenAddress()}
+                    {addresses.REMOVAL_NINJA_TOKEN}
                   </code>
                   <a
-                    href={`https://sepolia.basescan.org/address/${getTokenAddress()}`}
+                    href={getExplorerAddressUrl(networkKey, addresses.REMOVAL_NINJA_TOKEN)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                   >
-                    View on BaseScan
+                    View on Explorer
                   </a>
                 </div>
               </div>
@@ -277,7 +259,7 @@ const TokenPage: React.FC = () => {
                       <div className="flex justify-between text-xs mt-2 pt-2 border-t border-gray-200">
                         <span className="text-gray-500">Current price:</span>
                         <span className="text-gray-700">
-                          {(Number(tokenPrice) / 1e18).toFixed(8)} ETH per {tokenSymbol}
+                          {formatAmount(tokenPrice, { maxFractionDigits: 8 })} ETH per {tokenSymbol}
                         </span>
                       </div>
                     )}
@@ -285,24 +267,29 @@ const TokenPage: React.FC = () => {
                   
                   <button
                     onClick={handleBuyToken}
-                    disabled={!buyAmount || loading || isBuying || !tokenReserves}
+                    disabled={!buyAmount || loading || !tokenReserves || isWrongNetwork}
                     className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {loading || isBuying ? 'Processing...' : 'Buy RN Tokens'}
+                    {loading ? 'Processing...' : 'Buy RN Tokens'}
                   </button>
+
+                  <TransactionStatus label="Purchase" transaction={purchase.transaction} />
                   
                   {tokenReserves && ethReserves ? (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                       <p className="text-sm text-green-800">
                         <strong>✅ Live Trading:</strong> Liquidity pool is active with{' '}
                         {formatTokenAmount(tokenReserves)} RN and{' '}
-                        {(Number(ethReserves) / 1e18).toFixed(2)} ETH
+                        {formatAmount(ethReserves)} ETH
                       </p>
                     </div>
                   ) : (
                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                       <p className="text-sm text-yellow-800">
-                        <strong>Note:</strong> Loading liquidity pool information...
+                        <strong>Note:</strong>{' '}
+                        {addresses.SIMPLE_DEX
+                          ? 'Loading liquidity pool information...'
+                          : `The token DEX is not deployed on ${network.name}.`}
                       </p>
                     </div>
                   )}
@@ -315,7 +302,7 @@ const TokenPage: React.FC = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Network:</span>
-                    <span className="font-medium">Base Sepolia</span>
+                    <span className="font-medium">{network.name}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Standard:</span>
@@ -324,19 +311,19 @@ const TokenPage: React.FC = () => {
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Liquidity:</span>
                     <span className={`font-medium ${tokenReserves ? 'text-green-600' : 'text-orange-600'}`}>
-                      {tokenReserves ? 'Active' : 'Loading...'}
+                      {tokenReserves ? 'Active' : addresses.SIMPLE_DEX ? 'Loading...' : 'Not deployed'}
                     </span>
                   </div>
-                  {tokenReserves && (
+                  {tokenReserves && addresses.SIMPLE_DEX && (
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">DEX Address:</span>
                       <a
-                        href={`https://sepolia.basescan.org/address/${getDexAddress()}`}
+                        href={getExplorerAddressUrl(networkKey, addresses.SIMPLE_DEX)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="font-medium text-blue-600 hover:text-blue-800 text-xs"
                       >
-                        {getDexAddress().slice(0, 6)}...{getDexAddress().slice(-4)}
+                        {addresses.SIMPLE_DEX.slice(0, 6)}...{addresses.SIMPLE_DEX.slice(-4)}
                       </a>
                     </div>
                   )}
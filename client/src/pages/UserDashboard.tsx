@@ -1,164 +1,189 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useAddress, useContract, useContractRead, useContractWrite } from '@thirdweb-dev/react';
-import { getFactoryAddress, getRegistryAddress, getTokenAddress } from '../config/contracts';
-import { DataBroker, CreateTaskForm } from '../types/contracts';
-
-// Contract ABIs for the modular system
-const FACTORY_ABI = [
-  "function createTask(uint256 brokerId, bytes32 subjectCommit, uint256 payout, uint256 duration) external returns (uint256 taskId, address taskContract)",
-  "function getUserTasks(address user) external view returns (uint256[] memory)",
-  "function getStats() external view returns (uint256 totalTasks)",
-  "function tasks(uint256) external view returns (address)"
-];
-
-const REGISTRY_ABI = [
-  "function brokers(uint256) external view returns (uint256 id, string name, string website, string removalLink, string contact, uint256 weight, bool isActive, uint256 totalRemovals, uint256 totalDisputes)",
-  "function nextBrokerId() external view returns (uint256)"
-];
-
-const TOKEN_ABI = [
-  "function balanceOf(address) external view returns (uint256)",
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function transfer(address to, uint256 amount) external returns (bool)"
-];
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  ACTIVE_TASK_STATUSES,
+  formatFailure,
+  toValidationError,
+  useFactoryContract,
+  useTokenContract,
+} from '../contracts';
+import BulkTaskWizard from '../components/BulkTaskWizard';
+import FieldError from '../components/FieldError';
+import NetworkGuard from '../components/NetworkGuard';
+import SubjectFields, { subjectFromProfile } from '../components/SubjectFields';
+import TaskCard from '../components/TaskCard';
+import TransactionStatus from '../components/TransactionStatus';
+import { useNetwork } from '../context/NetworkContext';
+import { useVault } from '../context/VaultContext';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useNetworkGuard,
+  useBrokers,
+  useTaskList,
+  useTokenAllowance,
+  useTokenBalance,
+  useTransaction,
+  useUserTasks,
+} from '../hooks';
+import {
+  CreateTaskForm,
+  TASK_STATUS_LABELS,
+  TaskStatus,
+  UserTaskData,
+  ValidationError,
+} from '../types/contracts';
+import { createSubjectCommitment, saveSubjectSalt } from '../utils/commitments';
+import { formatAmount, parseUnits, toBigInt } from '../utils/formatters';
+import { errorProps, TASK_SCHEMA, validate } from '../utils/validation';
+import type { SubjectProfile } from '../vault';
+
+const countByStatus = (tasks: UserTaskData[], statuses: TaskStatus[]) =>
+  tasks.filter(({ task }) => statuses.includes(task.currentStatus)).length;
+
+const ALL_STATUSES = Object.keys(TASK_STATUS_LABELS).map(Number) as TaskStatus[];
 
 const UserDashboard: React.FC = () => {
-  const address = useAddress();
+  const address = useAccount();
+  const { addresses } = useNetwork();
   
   // Contract hooks
-  const { contract: factoryContract } = useContract(getFactoryAddress(), FACTORY_ABI);
-  const { contract: registryContract } = useContract(getRegistryAddress(), REGISTRY_ABI);
-  const { contract: tokenContract } = useContract(getTokenAddress(), TOKEN_ABI);
-  
-  const { data: userTaskIds } = useContractRead(factoryContract, "getUserTasks", [address]);
-  const { data: nextBrokerId } = useContractRead(registryContract, "nextBrokerId");
-  const { data: tokenBalance } = useContractRead(tokenContract, "balanceOf", [address]);
-  const { data: tokenAllowance } = useContractRead(tokenContract, "allowance", [address, getFactoryAddress()]);
+  const { factory } = useFactoryContract();
+  const { token } = useTokenContract();
   
-  const { mutateAsync: createTask } = useContractWrite(factoryContract, "createTask");
-  const { mutateAsync: approveTokens } = useContractWrite(tokenContract, "approve");
+  const { data: allBrokers } = useBrokers();
+  const brokers = (allBrokers ?? []).filter(broker => broker.isActive);
+  const { data: userTaskIds } = useUserTasks(address);
+  const { data: userTasks, loading: userTasksLoading } = useTaskList(userTaskIds);
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, addresses.TASK_FACTORY);
+
+  // Writes: approval must be confirmed before the factory can pull the payout
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const taskCreation = useTransaction(factory?.createTask, [
+    QUERY_KEYS.userTasks,
+    QUERY_KEYS.tokenBalance,
+    QUERY_KEYS.tokenAllowance,
+  ]);
+  const creating = approval.loading || taskCreation.loading;
+  const { isWrongNetwork } = useNetworkGuard();
+  const vault = useVault();
   
+  // A broker page links here with ?broker=<id> to open the form with that broker picked
+  const [searchParams] = useSearchParams();
+  const brokerParam = searchParams.get('broker') ?? '';
+  const prefillBrokerId = /^\d+$/.test(brokerParam) ? brokerParam : '';
+
   // Component state
-  const [brokers, setBrokers] = useState<DataBroker[]>([]);
-  const [creating, setCreating] = useState(false);
-  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(prefillBrokerId !== '');
+  const [showBulkWizard, setShowBulkWizard] = useState(false);
   const [createFormData, setCreateFormData] = useState<CreateTaskForm>({
-    brokerId: '',
+    brokerId: prefillBrokerId,
     payout: '50',
     duration: '30',
-    description: ''
+    description: '',
+    subjectName: '',
+    subjectEmail: '',
+    subjectPhone: '',
+    subjectLocation: ''
   });
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
+  const navigate = useNavigate();
 
-  // Fetch brokers from registry
-  const fetchBrokers = useCallback(async () => {
-    if (!registryContract || !nextBrokerId) return;
-    
-    try {
-      const brokersData: DataBroker[] = [];
-      
-      for (let i = 1; i < Number(nextBrokerId); i++) {
-        try {
-          const brokerData = await registryContract.call("brokers", [i]);
-          if (brokerData && brokerData[6]) { // isActive
-            brokersData.push({
-              id: Number(brokerData[0]),
-              name: brokerData[1],
-              website: brokerData[2],
-              removalLink: brokerData[3],
-              contact: brokerData[4],
-              weight: Number(brokerData[5]),
-              isActive: brokerData[6],
-              totalRemovals: Number(brokerData[7]),
-              totalDisputes: Number(brokerData[8])
-            });
-          }
-        } catch (error) {
-          console.error(`Error fetching broker ${i}:`, error);
-        }
-      }
-      
-      setBrokers(brokersData);
-    } catch (error) {
-      console.error('Error fetching brokers:', error);
-    }
-  }, [registryContract, nextBrokerId]);
-
-  // Load data on component mount
-  useEffect(() => {
-    fetchBrokers();
-  }, [registryContract, nextBrokerId, fetchBrokers]);
+  const tasks = userTasks ?? [];
+  const filteredTasks = statusFilter === 'all'
+    ? tasks
+    : tasks.filter(({ task }) => task.currentStatus === statusFilter);
+  // Ids whose contract could not be read, e.g. factories that record address(0) for every task
+  const unloadedTaskIds = userTasks
+    ? (userTaskIds ?? []).filter((taskId) => !userTasks.some(({ task }) => task.taskId === taskId))
+    : [];
 
   const formatAddress = (address: string): string => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
-  const formatTokenAmount = (amount: string | number): string => {
-    const value = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return (value / Math.pow(10, 18)).toFixed(2);
-  };
-
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!address || !factoryContract || !tokenContract) {
+    if (!address || !factory || !token) {
       alert('Please connect your wallet and ensure contracts are loaded');
       return;
     }
 
-    const payout = parseFloat(createFormData.payout) * Math.pow(10, 18); // Convert to wei
+    if (isWrongNetwork) return;
+
+    const formErrors = validate(TASK_SCHEMA, createFormData, {
+      balance: tokenBalance != null ? toBigInt(tokenBalance) : undefined,
+    });
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    const payout = parseUnits(createFormData.payout); // Convert to wei
     const duration = parseInt(createFormData.duration) * 24 * 60 * 60; // Convert days to seconds
-    
-    if (payout < 10 * Math.pow(10, 18)) {
-      alert('Minimum payout is 10 RN tokens');
-      return;
-    }
 
-    setCreating(true);
-    try {
-      // Check if we need to approve tokens
-      const currentAllowance = tokenAllowance ? Number(tokenAllowance) : 0;
-      if (currentAllowance < payout) {
-        console.log('Approving tokens...');
-        await approveTokens({
-          args: [getFactoryAddress(), payout.toString()]
-        });
-        // Wait a bit for approval transaction to be mined
-        await new Promise(resolve => setTimeout(resolve, 2000));
+    // Check if we need to approve tokens
+    const currentAllowance = toBigInt(tokenAllowance ?? 0);
+    if (currentAllowance < payout) {
+      console.log('Approving tokens...');
+      const approved = await approval.execute([addresses.TASK_FACTORY, payout.toString()]);
+      if (!approved.success) {
+        const message = formatFailure('Error approving tokens', approved.error);
+        if (message) alert(message);
+        return;
       }
+    }
 
-      // Generate a simple subject commit (in production, this would be a proper hash)
-      const subjectCommit = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`;
-
-      // Create the task
-      const result = await createTask({
-        args: [
-          parseInt(createFormData.brokerId),
-          subjectCommit,
-          payout.toString(),
-          duration
-        ]
-      });
-
-      console.log('Task created successfully:', result);
-      alert(`Removal task created successfully! 🎉`);
-      
-      // Reset form
-      setCreateFormData({
-        brokerId: '',
-        payout: '50',
-        duration: '30',
-        description: ''
-      });
-      setShowCreateForm(false);
-      
-    } catch (error: any) {
-      console.error('Error creating task:', error);
-      const errorMessage = error?.reason || error?.message || 'Unknown error occurred';
-      alert(`Error creating task: ${errorMessage}`);
-    } finally {
-      setCreating(false);
+    // Commit to the subject; the salt is saved before sending so a task mined after the
+    // tab closes can still be opened
+    const { commitment: subjectCommit, opening } = createSubjectCommitment({
+      fullName: createFormData.subjectName,
+      email: createFormData.subjectEmail,
+      phone: createFormData.subjectPhone,
+      location: createFormData.subjectLocation,
+    });
+    if (vault.status === 'unlocked') {
+      await vault.saveSalt(subjectCommit, opening.salt);
+    } else {
+      saveSubjectSalt(subjectCommit, opening.salt);
     }
+
+    // Create the task
+    const result = await taskCreation.execute([
+      parseInt(createFormData.brokerId),
+      subjectCommit,
+      payout.toString(),
+      duration
+    ]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error creating task', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    console.log('Task created successfully:', result.hash);
+    alert(`Removal task created successfully! 🎉`);
+    
+    // Reset form
+    setCreateFormData({
+      brokerId: '',
+      payout: '50',
+      duration: '30',
+      description: '',
+      subjectName: '',
+      subjectEmail: '',
+      subjectPhone: '',
+      subjectLocation: ''
+    });
+    setErrors([]);
+    setShowCreateForm(false);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -167,6 +192,12 @@ const UserDashboard: React.FC = () => {
       ...prev,
       [name]: value
     }));
+    setErrors(prev => prev.filter(error => error.field !== name));
+  };
+
+  const handleProfileSelect = (profile: SubjectProfile) => {
+    setCreateFormData(prev => ({ ...prev, ...subjectFromProfile(profile) }));
+    setErrors(prev => prev.filter(error => !error.field.startsWith('subject')));
   };
 
   if (!address) {
@@ -182,6 +213,8 @@ const UserDashboard: React.FC = () => {
 
   return (
     <div className="space-y-8">
+      <NetworkGuard />
+
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
@@ -190,12 +223,26 @@ const UserDashboard: React.FC = () => {
             Create and manage your data removal tasks
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateForm(!showCreateForm)}
-          className="btn"
-        >
-          {showCreateForm ? 'Cancel' : 'Create Removal Task'}
-        </button>
+        <div className="flex gap-4">
+          <button
+            onClick={() => {
+              setShowBulkWizard(!showBulkWizard);
+              setShowCreateForm(false);
+            }}
+            className="btn-secondary"
+          >
+            {showBulkWizard ? 'Close Wizard' : 'Remove Me Everywhere'}
+          </button>
+          <button
+            onClick={() => {
+              setShowCreateForm(!showCreateForm);
+              setShowBulkWizard(false);
+            }}
+            className="btn"
+          >
+            {showCreateForm ? 'Cancel' : 'Create Removal Task'}
+          </button>
+        </div>
       </div>
 
       {/* User Status */}
@@ -210,7 +257,7 @@ const UserDashboard: React.FC = () => {
             <div className="flex justify-between">
               <span className="text-gray-600">RN Balance:</span>
               <span className="font-semibold">
-                {tokenBalance ? formatTokenAmount(tokenBalance.toString()) : '0.00'} RN
+                {formatAmount(tokenBalance ?? 0)} RN
               </span>
             </div>
           </div>
@@ -226,13 +273,19 @@ const UserDashboard: React.FC = () => {
             <div className="flex justify-between">
               <span className="text-gray-600">Active Tasks:</span>
               <span className="font-semibold text-blue-600">
-                {userTaskIds?.length || 0}
+                {countByStatus(tasks, ACTIVE_TASK_STATUSES)}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Completed:</span>
               <span className="font-semibold text-green-600">
-                0
+                {countByStatus(tasks, [TaskStatus.Verified])}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Failed or Refunded:</span>
+              <span className="font-semibold text-red-600">
+                {countByStatus(tasks, [TaskStatus.Failed, TaskStatus.Refunded])}
               </span>
             </div>
           </div>
@@ -255,6 +308,9 @@ const UserDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Bulk Task Wizard */}
+      {showBulkWizard && <BulkTaskWizard userTasks={tasks} onClose={() => setShowBulkWizard(false)} />}
+
       {/* Create Task Form */}
       {showCreateForm && (
         <div className="card">
@@ -264,11 +320,19 @@ const UserDashboard: React.FC = () => {
             Higher payouts attract better workers.
           </p>
 
-          <form onSubmit={handleCreateTask} className="space-y-6">
+          <form onSubmit={handleCreateTask} className="space-y-6" noValidate>
+            <SubjectFields
+              values={createFormData}
+              errors={errors}
+              onChange={handleInputChange}
+              onProfileSelect={handleProfileSelect}
+            />
+
             <div className="form-group">
               <label className="form-label">Data Broker *</label>
               <select
                 name="brokerId"
+                {...errorProps(errors, 'brokerId')}
                 value={createFormData.brokerId}
                 onChange={handleInputChange}
                 className="form-input"
@@ -282,6 +346,7 @@ const UserDashboard: React.FC = () => {
                   </option>
                 ))}
               </select>
+              <FieldError errors={errors} field="brokerId" />
             </div>
 
             <div className="form-group">
@@ -289,6 +354,7 @@ const UserDashboard: React.FC = () => {
               <input
                 type="number"
                 name="payout"
+                {...errorProps(errors, 'payout')}
                 value={createFormData.payout}
                 onChange={handleInputChange}
                 className="form-input"
@@ -296,6 +362,7 @@ const UserDashboard: React.FC = () => {
                 step="1"
                 required
               />
+              <FieldError errors={errors} field="payout" />
               <p className="text-sm text-gray-500 mt-1">
                 Minimum 10 RN. Higher amounts attract more experienced workers.
               </p>
@@ -306,6 +373,7 @@ const UserDashboard: React.FC = () => {
               <input
                 type="number"
                 name="duration"
+                {...errorProps(errors, 'duration')}
                 value={createFormData.duration}
                 onChange={handleInputChange}
                 className="form-input"
@@ -314,6 +382,7 @@ const UserDashboard: React.FC = () => {
                 step="1"
                 required
               />
+              <FieldError errors={errors} field="duration" />
               <p className="text-sm text-gray-500 mt-1">
                 How long workers have to complete the removal (7-90 days)
               </p>
@@ -323,18 +392,20 @@ const UserDashboard: React.FC = () => {
               <label className="form-label">Description (Optional)</label>
               <textarea
                 name="description"
+                {...errorProps(errors, 'description')}
                 value={createFormData.description}
                 onChange={handleInputChange}
                 className="form-textarea"
                 placeholder="Any specific instructions or requirements for the removal..."
                 rows={3}
               />
+              <FieldError errors={errors} field="description" />
             </div>
 
             <div className="flex gap-4">
               <button
                 type="submit"
-                disabled={creating}
+                disabled={creating || isWrongNetwork}
                 className="btn flex items-center gap-2"
               >
                 {creating && <div className="loading"></div>}
@@ -348,23 +419,68 @@ const UserDashboard: React.FC = () => {
                 Cancel
               </button>
             </div>
+
+            <TransactionStatus label="Token approval" transaction={approval.transaction} />
+            <TransactionStatus label="Task creation" transaction={taskCreation.transaction} />
           </form>
         </div>
       )}
 
       {/* Your Tasks */}
       <div className="card">
-        <h2 className="text-xl font-semibold mb-4">Your Removal Tasks</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Your Removal Tasks</h2>
+          {tasks.length > 0 && (
+            <select
+              aria-label="Filter by status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              className="form-input w-auto"
+            >
+              <option value="all">All statuses ({tasks.length})</option>
+              {ALL_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {TASK_STATUS_LABELS[status]} ({countByStatus(tasks, [status])})
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
         
         {userTaskIds && userTaskIds.length > 0 ? (
           <div className="space-y-4">
             <p className="text-gray-600">
               You have {userTaskIds.length} task{userTaskIds.length !== 1 ? 's' : ''} created.
             </p>
-            <div className="text-center py-8 text-gray-500">
-              <p>Task details will be loaded here.</p>
-              <p className="text-sm mt-2">Contract integration in progress...</p>
-            </div>
+            {!userTasks && userTasksLoading ? (
+              <div className="flex items-center justify-center gap-3 py-8">
+                <div className="loading"></div>
+                <span className="text-gray-600">Loading your tasks...</span>
+              </div>
+            ) : filteredTasks.length > 0 || unloadedTaskIds.length > 0 ? (
+              <>
+                {filteredTasks.map(({ task, broker }) => (
+                  <TaskCard
+                    key={task.taskId}
+                    task={task}
+                    broker={broker}
+                    userRole="creator"
+                    onViewDetails={(taskId) => navigate(`/tasks/${taskId}`)}
+                  />
+                ))}
+                {/* Their status is unknown, so they stay listed under every filter */}
+                {unloadedTaskIds.map((taskId) => (
+                  <div key={taskId} className="border rounded-lg p-4 flex justify-between items-center">
+                    <h3 className="font-semibold">Task #{taskId}</h3>
+                    <span className="text-sm text-gray-500">Details unavailable</span>
+                  </div>
+                ))}
+              </>
+            ) : (
+              <p className="text-center py-8 text-gray-500">
+                No tasks with this status.
+              </p>
+            )}
           </div>
         ) : (
           <div className="text-center py-8">
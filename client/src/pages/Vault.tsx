@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import FieldError from '../components/FieldError';
+import { useVault } from '../context/VaultContext';
+import { useAccount } from '../hooks';
+import { ValidationError } from '../types/contracts';
+import { errorProps, PROFILE_SCHEMA, validate } from '../utils/validation';
+import { KdfParams, SubjectProfile } from '../vault';
+
+type ProfileForm = Omit<SubjectProfile, 'id'>;
+
+interface StatusMessage {
+  tone: 'success' | 'error';
+  message: string;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const EMPTY_PROFILE: ProfileForm = {
+  label: '',
+  fullName: '',
+  email: '',
+  phone: '',
+  location: '',
+  identifiers: '',
+};
+
+const newProfileId = (): string =>
+  Array.from(window.crypto.getRandomValues(new Uint8Array(8)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// The key-derivation method recorded in a backup file, or undefined if it is not one
+const backupMethod = (backup: string): KdfParams['method'] | undefined => {
+  try {
+    return JSON.parse(backup)?.kdf?.method;
+  } catch {
+    return undefined;
+  }
+};
+
+const downloadBackup = (backup: string) => {
+  const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `removal-ninja-vault-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Vault: React.FC = () => {
+  const address = useAccount();
+  const vault = useVault();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [backup, setBackup] = useState<string>();
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [profileForm, setProfileForm] = useState<ProfileForm>(EMPTY_PROFILE);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      if (success) setStatus({ tone: 'success', message: success });
+    } catch (error) {
+      setStatus({ tone: 'error', message: errorMessage(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (method: KdfParams['method']) => (e: React.FormEvent) => {
+    e.preventDefault();
+    if (method === 'passphrase') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setStatus({ tone: 'error', message: `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters` });
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setStatus({ tone: 'error', message: 'The passphrases do not match' });
+        return;
+      }
+    }
+    run(() => vault.create(method === 'passphrase' ? passphrase : undefined), 'Vault created and unlocked.');
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => vault.unlock(vault.kdf?.method === 'passphrase' ? passphrase : undefined));
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setStatus(null);
+    setBackup(file ? await file.text() : undefined);
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backup) return;
+    if (vault.status !== 'missing' && !window.confirm('Replace the vault on this device with the backup?')) return;
+    run(async () => {
+      await vault.importBackup(backup, backupMethod(backup) === 'passphrase' ? passphrase : undefined);
+      setBackup(undefined);
+    }, 'Backup restored and unlocked.');
+  };
+
+  const handleExport = () =>
+    run(async () => downloadBackup(await vault.exportBackup()), 'Encrypted backup downloaded.');
+
+  const handleDestroy = () => {
+    if (!window.confirm('Delete the vault from this device? Profiles and salts without a backup are lost.')) return;
+    run(() => vault.destroy(), 'Vault deleted from this device.');
+  };
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setProfileForm((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => prev.filter((error) => error.field !== name));
+  };
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formErrors = validate(PROFILE_SCHEMA, profileForm, {});
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    run(async () => {
+      await vault.saveProfile({ ...profileForm, id: editingId ?? newProfileId() });
+      setEditingId(null);
+      setProfileForm(EMPTY_PROFILE);
+    }, 'Profile saved.');
+  };
+
+  const startEditing = ({ id, ...profile }: SubjectProfile) => {
+    setEditingId(id);
+    setProfileForm(profile);
+    setErrors([]);
+  };
+
+  const statusBanner = status && (
+    <div
+      role={status.tone === 'error' ? 'alert' : 'status'}
+      className={`rounded-lg border px-4 py-3 text-sm ${
+        status.tone === 'error' ? 'border-red-200 bg-red-50 text-red-700' : 'border-green-200 bg-green-50 text-green-700'
+      }`}
+    >
+      {status.message}
+    </div>
+  );
+
+  const passphraseInput = (label: string, value: string, onChange: (value: string) => void) => (
+    <div className="form-group">
+      <label className="form-label">
+        {label}
+        <input
+          type="password"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="form-input"
+          autoComplete="off"
+        />
+      </label>
+    </div>
+  );
+
+  const restoreForm = (
+    <form onSubmit={handleImport} className="space-y-4">
+      <h2 className="text-xl font-semibold">Restore from Backup</h2>
+      <div className="form-group">
+        <label className="form-label">
+          Backup file
+          <input type="file" accept="application/json,.json" onChange={handleBackupFile} className="form-input" />
+        </label>
+      </div>
+      {backup && backupMethod(backup) === 'passphrase' && passphraseInput('Backup passphrase', passphrase, setPassphrase)}
+      {backup && !backupMethod(backup) && <p className="text-sm text-red-600">This file is not a vault backup.</p>}
+      <button type="submit" disabled={busy || !backup || !backupMethod(backup)} className="btn-secondary">
+        Restore Backup
+      </button>
+    </form>
+  );
+
+  if (vault.status === 'loading') {
+    return (
+      <div className="card text-center">
+        <div className="loading mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="card">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold">Vault</h1>
+          {vault.status === 'unlocked' && (
+            <button type="button" onClick={vault.lock} className="btn-secondary">
+              Lock Vault
+            </button>
+          )}
+        </div>
+        <p className="text-gray-600">
+          Your legal names, emails and addresses, and the salts behind your task commitments, are encrypted in this
+          browser with a key only you can derive. Nothing in the vault is sent anywhere unencrypted.
+        </p>
+      </div>
+
+      {statusBanner}
+
+      {vault.status === 'missing' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <form onSubmit={handleCreate('passphrase')} className="card space-y-4">
+            <h2 className="text-xl font-semibold">Create with a Passphrase</h2>
+            {passphraseInput('Passphrase', passphrase, setPassphrase)}
+            {passphraseInput('Confirm passphrase', confirmation, setConfirmation)}
+            <p className="text-sm text-gray-500">
+              At least {MIN_PASSPHRASE_LENGTH} characters. It cannot be recovered; keep a backup.
+            </p>
+            <button type="submit" disabled={busy} className="btn">
+              Create Vault
+            </button>
+          </form>
+
+          <form onSubmit={handleCreate('wallet')} className="card space-y-4">
+            <h2 className="text-xl font-semibold">Create with your Wallet</h2>
+            <p className="text-gray-600">
+              Sign a message with the connected wallet; signing it again later unlocks the vault. No transaction is
+              sent.
+            </p>
+            <button type="submit" disabled={busy || !address} className="btn">
+              Sign to Create Vault
+            </button>
+            {!address && <p className="text-sm text-gray-500">Connect your wallet to use this option.</p>}
+          </form>
+
+          <div className="card md:col-span-2">{restoreForm}</div>
+        </div>
+      )}
+
+      {vault.status === 'locked' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <form onSubmit={handleUnlock} className="card space-y-4">
+            <h2 className="text-xl font-semibold">Unlock</h2>
+            {vault.kdf?.method === 'passphrase' ? (
+              passphraseInput('Passphrase', passphrase, setPassphrase)
+            ) : (
+              <p className="text-gray-600">Sign the vault message with the wallet that created it.</p>
+            )}
+            <div className="flex gap-4">
+              <button type="submit" disabled={busy} className="btn">
+                {vault.kdf?.method === 'passphrase' ? 'Unlock Vault' : 'Sign to Unlock'}
+              </button>
+              <button type="button" onClick={handleDestroy} disabled={busy} className="btn-secondary">
+                Delete Vault
+              </button>
+            </div>
+          </form>
+
+          <div className="card">{restoreForm}</div>
+        </div>
+      )}
+
+      {vault.status === 'unlocked' && vault.contents && (
+        <>
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-4">Subject Profiles</h2>
+            {vault.contents.profiles.length > 0 ? (
+              <ul className="space-y-3 mb-6">
+                {vault.contents.profiles.map((profile) => (
+                  <li key={profile.id} className="flex justify-between items-center border rounded-lg p-4">
+                    <div>
+                      <div className="font-semibold">{profile.label}</div>
+                      <div className="text-sm text-gray-600">
+                        {[profile.fullName, profile.email, profile.phone, profile.location].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => startEditing(profile)} className="btn-secondary">
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => run(() => vault.removeProfile(profile.id), 'Profile removed.')}
+                        className="btn-secondary"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 mb-6">No profiles yet. Add the details brokers list about you.</p>
+            )}
+
+            <form onSubmit={handleSaveProfile} className="space-y-4" noValidate>
+              <h3 className="text-lg font-semibold">{editingId ? 'Edit Profile' : 'Add Profile'}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(
+                  [
+                    ['label', 'Profile name *', 'text'],
+                    ['fullName', 'Full legal name *', 'text'],
+                    ['email', 'Email', 'email'],
+                    ['phone', 'Phone', 'tel'],
+                    ['location', 'City, State', 'text'],
+                  ] as const
+                ).map(([field, label, type]) => (
+                  <div key={field} className="form-group">
+                    <label className="form-label">
+                      {label}
+                      <input
+                        type={type}
+                        name={field}
+                        {...errorProps(errors, field)}
+                        value={profileForm[field]}
+                        onChange={handleProfileChange}
+                        className="form-input"
+                      />
+                    </label>
+                    <FieldError errors={errors} field={field} />
+                  </div>
+                ))}
+              </div>
+              <div className="form-group">
+                <label className="form-label">
+                  URLs, accounts or identifiers to remove
+                  <textarea
+                    name="identifiers"
+                    {...errorProps(errors, 'identifiers')}
+                    value={profileForm.identifiers}
+                    onChange={handleProfileChange}
+                    className="form-textarea"
+                    rows={3}
+                  />
+                </label>
+                <FieldError errors={errors} field="identifiers" />
+              </div>
+              <div className="flex gap-4">
+                <button type="submit" disabled={busy} className="btn">
+                  Save Profile
+                </button>
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(null);
+                      setProfileForm(EMPTY_PROFILE);
+                    }}
+                    className="btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="card space-y-4">
+              <h2 className="text-xl font-semibold">Security</h2>
+              <div className="form-group">
+                <label className="form-label">
+                  Lock after inactivity
+                  <select
+                    value={vault.contents.settings.autoLockMinutes}
+                    onChange={(e) => run(() => vault.setAutoLockMinutes(Number(e.target.value)))}
+                    className="form-input"
+                  >
+                    {AUTO_LOCK_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes} minutes
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <p className="text-sm text-gray-600">
+                {Object.keys(vault.contents.salts).length} commitment salt
+                {Object.keys(vault.contents.salts).length !== 1 ? 's' : ''} stored.
+              </p>
+              <div className="flex gap-4">
+                <button type="button" onClick={handleExport} disabled={busy} className="btn">
+                  Export Encrypted Backup
+                </button>
+                <button type="button" onClick={handleDestroy} disabled={busy} className="btn-secondary">
+                  Delete Vault
+                </button>
+              </div>
+            </div>
+
+            <div className="card">{restoreForm}</div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Vault;
@@ -0,0 +1,577 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  canCompleteVerification,
+  formatFailure,
+  getRewardsEarned,
+  getSlashedAmount,
+  isVotingOpen,
+  toValidationError,
+  useTokenContract,
+  useVerifierRegistryContract,
+} from '../contracts';
+import ConfirmDialog from '../components/ConfirmDialog';
+import FieldError from '../components/FieldError';
+import NetworkGuard from '../components/NetworkGuard';
+import TransactionStatus from '../components/TransactionStatus';
+import VerifyEvidence from '../components/VerifyEvidence';
+import { useNetwork } from '../context/NetworkContext';
+import {
+  QUERY_KEYS,
+  useAccount,
+  useChainTime,
+  useNetworkGuard,
+  useTokenAllowance,
+  useTokenBalance,
+  useTransaction,
+  useVerificationSessions,
+  useVerifier,
+  useVerifierConstants,
+  useVerifierTasks,
+} from '../hooks';
+import {
+  IncreaseStakeForm,
+  RegisterVerifierForm,
+  TASK_STATUS_LABELS,
+  ValidationError,
+  VerificationSessionData,
+} from '../types/contracts';
+import { formatAmount, formatTimestamp, parseUnits, toBigInt } from '../utils/formatters';
+import { errorProps, INCREASE_STAKE_SCHEMA, validate, VERIFIER_SCHEMA } from '../utils/validation';
+
+const EMPTY_REGISTRATION: RegisterVerifierForm = { stakeAmount: '500', description: '' };
+
+// Everything a session's outcome touches: the verifier's standing, the task, the broker's
+// removal count and the wallet
+const VERIFICATION_QUERIES = [
+  QUERY_KEYS.verifier,
+  QUERY_KEYS.verifierTasks,
+  QUERY_KEYS.verificationSessions,
+  QUERY_KEYS.task,
+  QUERY_KEYS.brokers,
+  QUERY_KEYS.broker,
+  QUERY_KEYS.tokenBalance,
+];
+
+const sessionStatus = ({ session }: VerificationSessionData, now: number) => {
+  if (session.isCompleted) {
+    return session.isApproved
+      ? { label: 'Approved', color: 'status-active' }
+      : { label: 'Rejected', color: 'bg-red-100 text-red-800' };
+  }
+  return isVotingOpen(session, now)
+    ? { label: 'Voting', color: 'status-pending' }
+    : { label: 'Awaiting completion', color: 'bg-gray-100 text-gray-800' };
+};
+
+interface SessionCardProps {
+  data: VerificationSessionData;
+  voted: boolean;
+  busy: boolean;
+  onVote: (taskId: number, approve: boolean) => void;
+  onComplete: (taskId: number) => void;
+}
+
+// One verification session with the evidence under review and the votes cast so far
+const SessionCard: React.FC<SessionCardProps> = ({ data, voted, busy, onVote, onComplete }) => {
+  const { session, task, broker, evidence } = data;
+  const now = useChainTime();
+  const status = sessionStatus(data, now);
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="font-semibold">
+            <Link to={`/tasks/${task.taskId}`} className="hover:text-ninja-600">
+              Task #{task.taskId}
+            </Link>
+          </h3>
+          <p className="text-sm text-gray-600">
+            {broker.name} · {TASK_STATUS_LABELS[task.currentStatus]}
+          </p>
+        </div>
+        <span className={`status-badge ${status.color}`}>{status.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <span className="block text-gray-500">Approve</span>
+          <span className="font-semibold text-green-700">{session.votesFor}</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Reject</span>
+          <span className="font-semibold text-red-700">{session.votesAgainst}</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Votes cast</span>
+          <span>
+            {session.totalVotes} of {session.requiredVerifiers}
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Voting closes</span>
+          <span>{formatTimestamp(session.deadline)}</span>
+        </div>
+      </div>
+
+      <h4 className="font-medium mt-4 mb-2">Evidence</h4>
+      {evidence.length > 0 ? (
+        <ul className="space-y-3">
+          {evidence.map((item, index) => (
+            <li key={`${item.evidenceCid}-${index}`} className="bg-gray-50 rounded p-3">
+              <p className="font-medium">{item.summary}</p>
+              <p className="font-mono text-sm text-gray-600 break-all mt-1">{item.evidenceCid}</p>
+              <VerifyEvidence cid={item.evidenceCid} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">The worker has not submitted evidence for this task.</p>
+      )}
+
+      {!session.isCompleted && (
+        <div className="flex justify-end flex-wrap gap-2 mt-4">
+          {isVotingOpen(session, now) &&
+            (voted ? (
+              <span className="text-sm text-gray-600 self-center">Your vote is recorded.</span>
+            ) : (
+              <>
+                <button
+                  onClick={() => onVote(task.taskId, false)}
+                  disabled={busy}
+                  className="btn-secondary px-3 py-1 text-sm"
+                >
+                  Reject
+                </button>
+                <button onClick={() => onVote(task.taskId, true)} disabled={busy} className="btn px-3 py-1 text-sm">
+                  Approve
+                </button>
+              </>
+            ))}
+          {canCompleteVerification(session, now) && (
+            <button onClick={() => onComplete(task.taskId)} disabled={busy} className="btn px-3 py-1 text-sm">
+              Complete Verification
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VerifierDashboard: React.FC<{ address: string; registryAddress: string }> = ({ address, registryAddress }) => {
+  const { verifierRegistry } = useVerifierRegistryContract();
+  const { token } = useTokenContract();
+
+  const { data: constants } = useVerifierConstants();
+  const { data: verifier } = useVerifier(address);
+  const { data: taskIds } = useVerifierTasks(address);
+  const { data: sessions, loading: sessionsLoading } = useVerificationSessions(taskIds);
+  const { data: tokenBalance } = useTokenBalance(address);
+  const { data: tokenAllowance } = useTokenAllowance(address, registryAddress);
+
+  // Writes: stake approvals must be confirmed before the registry pulls the tokens
+  const approval = useTransaction(token?.approve, [QUERY_KEYS.tokenAllowance]);
+  const registration = useTransaction(verifierRegistry?.registerVerifier, [
+    QUERY_KEYS.verifier,
+    QUERY_KEYS.tokenBalance,
+    QUERY_KEYS.tokenAllowance,
+  ]);
+  const stakeIncrease = useTransaction(verifierRegistry?.increaseStake, [
+    QUERY_KEYS.verifier,
+    QUERY_KEYS.tokenBalance,
+    QUERY_KEYS.tokenAllowance,
+  ]);
+  const vote = useTransaction(verifierRegistry?.castVerificationVote, VERIFICATION_QUERIES);
+  const completion = useTransaction(verifierRegistry?.completeVerification, VERIFICATION_QUERIES);
+  const { isWrongNetwork } = useNetworkGuard();
+
+  const [registrationForm, setRegistrationForm] = useState<RegisterVerifierForm>(EMPTY_REGISTRATION);
+  const [stakeForm, setStakeForm] = useState<IncreaseStakeForm>({ amount: '' });
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [pendingVote, setPendingVote] = useState<{ taskId: number; approve: boolean } | null>(null);
+  // The registry keeps who voted private, so only votes cast from this page are known
+  const [votedTaskIds, setVotedTaskIds] = useState<number[]>([]);
+
+  const balanceContext = { balance: tokenBalance != null ? toBigInt(tokenBalance) : undefined };
+  const isRegistered = verifier?.isRegistered;
+  const sessionBusy = vote.loading || completion.loading || isWrongNetwork;
+
+  const handleRegistrationChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setRegistrationForm(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => prev.filter(error => error.field !== name));
+  };
+
+  const handleStakeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setStakeForm({ amount: e.target.value });
+    setErrors([]);
+  };
+
+  // Approves the registry for `amount` unless the allowance already covers it
+  const ensureAllowance = async (amount: bigint) => {
+    if (toBigInt(tokenAllowance ?? 0) >= amount) return true;
+    const approved = await approval.execute([registryAddress, amount.toString()]);
+    if (!approved.success) {
+      const message = formatFailure('Error approving tokens', approved.error);
+      if (message) alert(message);
+    }
+    return approved.success;
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWrongNetwork) return;
+
+    const formErrors = validate(VERIFIER_SCHEMA, registrationForm, balanceContext);
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    const stakeAmount = parseUnits(registrationForm.stakeAmount);
+    if (!(await ensureAllowance(stakeAmount))) return;
+
+    const result = await registration.execute([stakeAmount.toString(), registrationForm.description]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error registering as verifier', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert('Successfully registered as verifier! 🎉');
+    setRegistrationForm(EMPTY_REGISTRATION);
+  };
+
+  const handleIncreaseStake = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWrongNetwork) return;
+
+    const formErrors = validate(INCREASE_STAKE_SCHEMA, stakeForm, balanceContext);
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    const amount = parseUnits(stakeForm.amount);
+    if (!(await ensureAllowance(amount))) return;
+
+    const result = await stakeIncrease.execute([amount.toString()]);
+
+    if (!result.success) {
+      const fieldError = result.error && toValidationError(result.error);
+      if (fieldError) {
+        setErrors([fieldError]);
+        return;
+      }
+      const message = formatFailure('Error increasing stake', result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert(`Added ${formatAmount(amount.toString())} RN to your stake.`);
+    setStakeForm({ amount: '' });
+  };
+
+  const handleConfirmVote = async () => {
+    if (!pendingVote || isWrongNetwork) return;
+    const { taskId, approve } = pendingVote;
+
+    const result = await vote.execute([taskId, approve]);
+
+    if (!result.success) {
+      const message = formatFailure(`Error voting on task ${taskId}`, result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    setVotedTaskIds(prev => prev.concat(taskId));
+    setPendingVote(null);
+  };
+
+  const handleComplete = async (taskId: number) => {
+    if (isWrongNetwork) return;
+
+    const result = await completion.execute([taskId]);
+
+    if (!result.success) {
+      const message = formatFailure(`Error completing verification of task ${taskId}`, result.error);
+      if (message) alert(message);
+      return;
+    }
+
+    alert(`Verification of task ${taskId} completed.`);
+  };
+
+  return (
+    <>
+      {/* Verifier Status */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Verifier Info</h2>
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Status:</span>
+              <span
+                className={`status-badge ${
+                  verifier?.isSlashed ? 'bg-red-100 text-red-800' : isRegistered ? 'status-active' : 'status-pending'
+                }`}
+              >
+                {verifier?.isSlashed ? 'Slashed' : isRegistered ? 'Registered' : 'Not Registered'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">RN Balance:</span>
+              <span className="font-semibold">{formatAmount(tokenBalance ?? 0)} RN</span>
+            </div>
+            {isRegistered && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Stake Amount:</span>
+                <span className="font-semibold">{formatAmount(verifier?.stake ?? 0)} RN</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {isRegistered && verifier && (
+          <>
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Performance</h2>
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rewarded Verifications:</span>
+                  <span className="font-semibold">{verifier.verificationsCompleted}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Reputation:</span>
+                  <span className="font-semibold">{verifier.reputation}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Assigned Sessions:</span>
+                  <span className="font-semibold text-blue-600">{taskIds ? taskIds.length : 0}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Rewards</h2>
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rewards Earned:</span>
+                  <span className="font-semibold text-green-700">
+                    {constants ? formatAmount(getRewardsEarned(verifier, constants.verificationReward)) : '...'} RN
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Slashed:</span>
+                  <span className={`font-semibold ${verifier.isSlashed ? 'text-red-700' : ''}`}>
+                    {constants ? formatAmount(getSlashedAmount(verifier, constants.slashPercentage)) : '...'} RN
+                  </span>
+                </div>
+                {constants && (
+                  <p className="text-sm text-gray-500">
+                    {formatAmount(constants.verificationReward)} RN per vote once a session's rewards are paid;
+                    voting against the final outcome of a dispute slashes {constants.slashPercentage}% of your stake.
+                  </p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Registration Form */}
+      {!isRegistered && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Register as Verifier</h2>
+          <p className="text-gray-600 mb-6">
+            Stake RN tokens to review the evidence workers submit. Each session you are assigned pays a reward
+            once it settles.
+          </p>
+
+          <form onSubmit={handleRegister} className="space-y-6" noValidate>
+            <div className="form-group">
+              <label htmlFor="verifier-stake" className="form-label">
+                Stake Amount (minimum {constants ? formatAmount(constants.minStake) : '500'} RN)
+              </label>
+              <input
+                id="verifier-stake"
+                type="number"
+                name="stakeAmount"
+                {...errorProps(errors, 'stakeAmount')}
+                value={registrationForm.stakeAmount}
+                onChange={handleRegistrationChange}
+                className="form-input"
+                min="500"
+                step="10"
+                required
+              />
+              <FieldError errors={errors} field="stakeAmount" />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="verifier-description" className="form-label">
+                Verifier Description
+              </label>
+              <textarea
+                id="verifier-description"
+                name="description"
+                {...errorProps(errors, 'description')}
+                value={registrationForm.description}
+                onChange={handleRegistrationChange}
+                className="form-textarea"
+                placeholder="Describe how you check removal evidence..."
+                required
+              />
+              <FieldError errors={errors} field="description" />
+            </div>
+
+            <button
+              type="submit"
+              disabled={approval.loading || registration.loading || isWrongNetwork}
+              className="btn w-full flex items-center justify-center gap-2"
+            >
+              {(approval.loading || registration.loading) && <div className="loading"></div>}
+              Register as Verifier
+            </button>
+
+            <TransactionStatus label="Stake approval" transaction={approval.transaction} />
+            <TransactionStatus label="Registration" transaction={registration.transaction} />
+          </form>
+        </div>
+      )}
+
+      {/* Increase Stake */}
+      {isRegistered && !verifier?.isSlashed && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Increase Stake</h2>
+          <form onSubmit={handleIncreaseStake} className="flex flex-wrap items-start gap-3" noValidate>
+            <div className="form-group flex-1">
+              <label htmlFor="additional-stake" className="form-label">
+                Additional stake (RN)
+              </label>
+              <input
+                id="additional-stake"
+                type="number"
+                name="amount"
+                {...errorProps(errors, 'amount')}
+                value={stakeForm.amount}
+                onChange={handleStakeChange}
+                className="form-input"
+                min="0"
+                step="10"
+              />
+              <FieldError errors={errors} field="amount" />
+            </div>
+            <button
+              type="submit"
+              disabled={approval.loading || stakeIncrease.loading || isWrongNetwork}
+              className="btn mt-7"
+            >
+              Add Stake
+            </button>
+          </form>
+          <TransactionStatus label="Stake approval" transaction={approval.transaction} />
+          <TransactionStatus label="Stake increase" transaction={stakeIncrease.transaction} />
+        </div>
+      )}
+
+      {/* Verification Sessions */}
+      {isRegistered && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Your Verification Sessions</h2>
+
+          {taskIds && taskIds.length > 0 ? (
+            <div className="space-y-4">
+              {!sessions && sessionsLoading ? (
+                <div className="flex items-center justify-center gap-3 py-8">
+                  <div className="loading"></div>
+                  <span className="text-gray-600">Loading your sessions...</span>
+                </div>
+              ) : (
+                (sessions ?? []).map((data) => (
+                  <SessionCard
+                    key={data.session.taskId}
+                    data={data}
+                    voted={votedTaskIds.includes(data.session.taskId)}
+                    busy={sessionBusy}
+                    onVote={(taskId, approve) => setPendingVote({ taskId, approve })}
+                    onComplete={handleComplete}
+                  />
+                ))
+              )}
+
+              <TransactionStatus label="Vote" transaction={vote.transaction} />
+              <TransactionStatus label="Verification completion" transaction={completion.transaction} />
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <p>No verification sessions</p>
+              <p className="text-sm mt-1">Sessions appear here when a verifier manager assigns you to a task</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {pendingVote && (
+        <ConfirmDialog
+          title={`${pendingVote.approve ? 'Approve' : 'Reject'}: Task #${pendingVote.taskId}`}
+          confirmLabel={pendingVote.approve ? 'Approve' : 'Reject'}
+          onConfirm={handleConfirmVote}
+          onCancel={() => setPendingVote(null)}
+          busy={vote.loading}
+          destructive={!pendingVote.approve}
+        >
+          <p className="text-gray-600">
+            {pendingVote.approve
+              ? 'Approving confirms the evidence shows the removal; once the majority agrees the task is verified.'
+              : 'Rejecting says the evidence does not show the removal.'}{' '}
+            Votes cannot be changed, and a vote against the outcome of a later dispute is slashed.
+          </p>
+        </ConfirmDialog>
+      )}
+    </>
+  );
+};
+
+const Verifier: React.FC = () => {
+  const address = useAccount();
+  const { network, addresses } = useNetwork();
+
+  if (!address) {
+    return (
+      <div className="card text-center">
+        <h1 className="text-2xl font-bold mb-4">Verifier Dashboard</h1>
+        <p className="text-gray-600">
+          Connect your wallet to stake as a verifier and review removal evidence.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <NetworkGuard />
+
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Verifier Dashboard</h1>
+        <p className="text-gray-600 mt-2">
+          Review the evidence behind completed removals and vote on whether each task is verified
+        </p>
+      </div>
+
+      {addresses.VERIFIER_REGISTRY ? (
+        <VerifierDashboard address={address} registryAddress={addresses.VERIFIER_REGISTRY} />
+      ) : (
+        <div className="card text-center text-gray-600">
+          The verifier registry is not deployed on {network.name}.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Verifier;
@@ -0,0 +1,148 @@
+import { fireEvent, screen, within } from '@testing-library/react';
+import { parseEther } from 'ethers/lib/utils';
+import { DEPLOYMENTS } from '../../config/contracts';
+import { ZERO_ADDRESS } from '../../config/deployments';
+import { NETWORK_STORAGE_KEY } from '../../context/NetworkContext';
+import { getSimulation, resetSimulation, SIMULATED_ACCOUNTS } from '../../simulation';
+import { renderRoute } from '../../test-utils/render';
+import { broker } from '../../test-utils/brokers';
+import { getCalls, resetThirdwebFixture, scriptEvents, scriptReads, scriptTask } from '../../test-utils/thirdweb';
+import { formatDuration } from '../../utils/formatters';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const [deployer] = SIMULATED_ACCOUNTS;
+const VERIFIERS = [
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90f79Bf6eB2C4F870365e96eFB6a8a4Db54c5f0a',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+];
+
+const SCRIPT_URL = 'javascript:alert(1)'; // eslint-disable-line no-script-url
+
+const send = (account: string, contract: string, method: string, args: unknown[]) => {
+  const { chain } = getSimulation();
+  chain.setAccount(account);
+  chain.send(contract, method, args);
+  chain.setAccount(deployer);
+};
+
+// The deployer works seeded task #1 (Spokeo) up to evidence, and two of three verifiers approve it
+const verifyTask = async (): Promise<string> => {
+  const { addresses, chain } = getSimulation();
+  send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.TASK_FACTORY, parseEther('100')]);
+  send(deployer, addresses.TASK_FACTORY, 'registerWorker', [parseEther('100'), 'Privacy paralegal']);
+  send(deployer, addresses.TASK_FACTORY, 'selfAssignToTask', [1]);
+  const taskAddress = await chain.getContract(addresses.TASK_FACTORY)!.call('tasks', [1]);
+  send(deployer, taskAddress, 'markRemovalRequested', ['Opt-out form sent']);
+  send(deployer, taskAddress, 'submitEvidence', ['bafkreievidence', 'Listing no longer shows']);
+
+  VERIFIERS.forEach((account) => {
+    send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'transfer', [account, parseEther('500')]);
+    send(account, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.VERIFIER_REGISTRY, parseEther('500')]);
+    send(account, addresses.VERIFIER_REGISTRY, 'registerVerifier', [parseEther('500'), 'Independent reviewer']);
+  });
+  send(deployer, addresses.VERIFIER_REGISTRY, 'startVerificationSession', [1, taskAddress]);
+  VERIFIERS.slice(0, 2).forEach((account) =>
+    send(account, addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true])
+  );
+  return taskAddress;
+};
+
+describe('Broker Detail Page', () => {
+  beforeEach(() => {
+    resetThirdwebFixture();
+    resetSimulation();
+    window.localStorage.removeItem(NETWORK_STORAGE_KEY);
+  });
+
+  test('shows the registry record and the removal history', async () => {
+    const task = getSimulation().chain.getContract(await verifyTask())!;
+    const timeToComplete = Number(await task.call('completedAt')) - Number(await task.call('createdAt'));
+    renderRoute('/brokers/1', { network: 'SIMULATED' });
+
+    expect(await screen.findByRole('heading', { name: 'Spokeo' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'https://www.spokeo.com/optout' })).toHaveAttribute(
+      'href',
+      'https://www.spokeo.com/optout'
+    );
+    expect(screen.getByRole('link', { name: 'privacy@spokeo.com' })).toHaveAttribute('href', 'mailto:privacy@spokeo.com');
+
+    const history = await screen.findByRole('list', { name: 'Broker history' });
+    expect(within(history).getByText('Removal completed')).toBeInTheDocument();
+    expect(within(history).getByText('(#1)')).toBeInTheDocument();
+    expect(within(history).getByRole('link', { name: /^Block \d+$/ })).toBeInTheDocument();
+    expect(await screen.findByText('No open tasks target this broker.')).toBeInTheDocument();
+    expect(screen.getByText(formatDuration(timeToComplete))).toBeInTheDocument();
+  });
+
+  test('lists the open tasks targeting the broker', async () => {
+    renderRoute('/brokers/2', { network: 'SIMULATED' });
+
+    expect(await screen.findByText('Task #2')).toBeInTheDocument();
+    expect(screen.queryByText('Task #1')).not.toBeInTheDocument();
+    expect(await screen.findByText('No removals or disputes recorded yet.')).toBeInTheDocument();
+  });
+
+  test('shows links that are not http(s) as text', async () => {
+    const { addresses } = getSimulation();
+    send(deployer, addresses.DATA_BROKER_REGISTRY, 'addBroker', [
+      'Shady Search',
+      'https://shady.example',
+      SCRIPT_URL,
+      'write to our office',
+      100,
+    ]);
+    renderRoute('/brokers/4', { network: 'SIMULATED' });
+
+    expect(await screen.findByText(SCRIPT_URL)).not.toHaveAttribute('href');
+    expect(screen.queryByRole('link', { name: SCRIPT_URL })).not.toBeInTheDocument();
+    expect(screen.getByText('write to our office')).not.toHaveAttribute('href');
+  });
+
+  test('opens the task form with the broker picked', async () => {
+    renderRoute('/brokers/2', { network: 'SIMULATED' });
+
+    fireEvent.click(await screen.findByRole('link', { name: 'Create Removal Task' }));
+
+    expect(await screen.findByDisplayValue(/^Radaris/)).toBeInTheDocument();
+  });
+
+  test("reads only the broker's tasks, from the factory's TaskCreated logs", async () => {
+    const creator = '0x1111111111111111111111111111111111111111';
+    const deploymentBlock = DEPLOYMENTS.BASE_SEPOLIA.contracts.TASK_FACTORY.deploymentBlock!;
+    const created = (taskId: number, brokerId: number) => ({
+      data: { taskId, creator, brokerId, taskContract: ZERO_ADDRESS, payout: 0 },
+      blockNumber: deploymentBlock + taskId,
+    });
+    scriptReads('DATA_BROKER_REGISTRY', { brokers: broker(2, 'Radaris') });
+    scriptEvents('TASK_FACTORY', 'TaskCreated', [created(3, 2), created(4, 1), created(5, 2)]);
+    [3, 4, 5].forEach((taskId) => scriptTask({ taskId, creator, brokerId: taskId === 4 ? 1 : 2 }));
+    renderRoute('/brokers/2');
+
+    expect(await screen.findByText('Task #3')).toBeInTheDocument();
+    expect(screen.getByText('Task #5')).toBeInTheDocument();
+    expect(screen.queryByText('Task #4')).not.toBeInTheDocument();
+    expect(getCalls('TASK_FACTORY', 'TaskCreated')[0].args).toEqual([
+      { fromBlock: deploymentBlock, filters: { brokerId: 2 }, order: 'asc' },
+    ]);
+    expect(getCalls('TASK_FACTORY', 'tasks').map(({ args }) => args)).toEqual([[3], [5]]);
+  });
+
+  test('reports the history unavailable when the node rejects the log query', async () => {
+    scriptReads('DATA_BROKER_REGISTRY', { brokers: broker(1, 'Spokeo') });
+    scriptEvents('DATA_BROKER_REGISTRY', 'RemovalCompleted', new Error('query returned more than 10000 results'));
+    renderRoute('/brokers/1');
+
+    expect(await screen.findByRole('heading', { name: 'Spokeo' })).toBeInTheDocument();
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'History unavailableThe removal and dispute events could not be read: query returned more than 10000 results'
+    );
+  });
+
+  test('explains when the broker is not in the registry', async () => {
+    renderRoute('/brokers/42', { network: 'SIMULATED' });
+
+    expect(await screen.findByText('There is no broker #42 in the registry on this network.')).toBeInTheDocument();
+  });
+});
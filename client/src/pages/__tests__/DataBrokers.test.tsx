@@ -1,15 +1,21 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { ThirdwebProvider } from '@thirdweb-dev/react';
+import { BROKER_METADATA_STORAGE_KEY, brokerTagsFor } from '../../config/brokerMetadata';
+import {
+  connectWallet,
+  getWrites,
+  rejectInWallet,
+  resetThirdwebFixture,
+  scriptReads,
+  scriptWrites,
+  succeed,
+} from '../../test-utils/thirdweb';
+import { broker } from '../../test-utils/brokers';
 import DataBrokers from '../DataBrokers';
 
-// Mock Thirdweb hooks
-jest.mock('@thirdweb-dev/react', () => ({
-  __esModule: true,
-  ThirdwebProvider: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
-  useAddress: jest.fn(),
-}));
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
 
 const renderWithProviders = (component: React.ReactElement) => {
   return render(
@@ -21,35 +27,47 @@ const renderWithProviders = (component: React.ReactElement) => {
   );
 };
 
+// A stat card reading "<value><label>"
+const statCard = (label: string, value: number) =>
+  screen.getByText((_, element) => element?.textContent === `${value}${label}`);
+
+// Acxiom and LexisNexis are active and high impact; Spokeo was deactivated
+const REGISTRY_BROKERS = [
+  broker(1, 'Acxiom', { weight: 300 }),
+  broker(2, 'LexisNexis', { weight: 300 }),
+  broker(3, 'Spokeo', { weight: 200, isActive: false }),
+];
+
+const scriptRegistry = () =>
+  scriptReads('DATA_BROKER_REGISTRY', {
+    nextBrokerId: REGISTRY_BROKERS.length + 1,
+    brokers: ([id]: number[]) => REGISTRY_BROKERS[id - 1],
+    getStats: { totalBrokers: 3, activeBrokers: 2 },
+  });
+
 describe('DataBrokers Page', () => {
   beforeEach(() => {
-    jest.clearAllMocks();
+    resetThirdwebFixture();
   });
 
   test('renders page title and description', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<DataBrokers />);
     
     expect(screen.getByText('Data Brokers')).toBeInTheDocument();
     expect(screen.getByText(/Community-sourced database of data brokers/)).toBeInTheDocument();
   });
 
-  test('displays mock data brokers', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
+  test('displays the active brokers from the registry', async () => {
+    scriptRegistry();
     renderWithProviders(<DataBrokers />);
-    
-    expect(screen.getByText('Acxiom')).toBeInTheDocument();
+
+    expect(await screen.findByText('Acxiom')).toBeInTheDocument();
     expect(screen.getByText('LexisNexis')).toBeInTheDocument();
-    expect(screen.getByText('Spokeo')).toBeInTheDocument();
+    expect(screen.queryByText('Spokeo')).not.toBeInTheDocument();
   });
 
   test('shows submit button when wallet is connected', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue('0x1234567890123456789012345678901234567890');
+    connectWallet({ address: '0x1234567890123456789012345678901234567890' });
 
     renderWithProviders(<DataBrokers />);
     
@@ -57,17 +75,13 @@ describe('DataBrokers Page', () => {
   });
 
   test('shows connect wallet message when disconnected', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<DataBrokers />);
     
     expect(screen.getByText(/Connect your wallet to submit new data brokers/)).toBeInTheDocument();
   });
 
   test('can open and close submission form', async () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue('0x1234567890123456789012345678901234567890');
+    connectWallet({ address: '0x1234567890123456789012345678901234567890' });
 
     renderWithProviders(<DataBrokers />);
     
@@ -87,27 +101,208 @@ describe('DataBrokers Page', () => {
     });
   });
 
-  test('displays platform statistics', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
+  test('displays platform statistics', async () => {
+    scriptRegistry();
+    renderWithProviders(<DataBrokers />);
+    await screen.findByText('Acxiom');
+
+    expect(statCard('Total Brokers', 3)).toBeInTheDocument();
+    expect(statCard('Active', 2)).toBeInTheDocument();
+    expect(statCard('High Impact', 2)).toBeInTheDocument();
+    expect(statCard('RN Reward Base', 100)).toBeInTheDocument();
+  });
 
+  test('shows whether each broker is active', async () => {
+    scriptRegistry();
+    window.history.pushState({}, '', '/brokers?status=all');
     renderWithProviders(<DataBrokers />);
-    
-    expect(screen.getByText('Total Brokers')).toBeInTheDocument();
-    expect(screen.getAllByText('Verified').length).toBeGreaterThan(0);
-    expect(screen.getByText('RN Reward per Submission')).toBeInTheDocument();
+    await screen.findByText('Spokeo');
+
+    expect(screen.getAllByText('Active', { selector: 'span' })).toHaveLength(2);
+    expect(screen.getByText('Inactive', { selector: 'span' })).toBeInTheDocument();
+    window.history.pushState({}, '', '/');
   });
 
-  test('shows broker verification status', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
+  describe('search, filters and sort', () => {
+    // Twelve active brokers, Broker01..Broker12, plus a few with distinct traits
+    const BROKERS = [
+      broker(1, 'Spokeo', { weight: 300, totalRemovals: 40, totalDisputes: 8 }),
+      broker(2, 'Radaris', { weight: 200, totalRemovals: 5, totalDisputes: 0, contact: 'legal@peoplefinder.net' }),
+      broker(3, 'Acxiom', { isActive: false, weight: 300, totalRemovals: 10 }),
+      ...Array.from({ length: 12 }, (_, index) =>
+        broker(index + 4, `Broker${String(index + 1).padStart(2, '0')}`, { totalRemovals: 10 })
+      ),
+    ];
 
-    renderWithProviders(<DataBrokers />);
-    
-    const verifiedBadges = screen
-      .getAllByText('Verified')
-      .filter((element: HTMLElement) => element.tagName.toLowerCase() === 'span');
-    expect(verifiedBadges).toHaveLength(2); // Acxiom and LexisNexis
-    expect(screen.getByText('Pending')).toBeInTheDocument(); // Spokeo
+    const openBrokers = (search = '') => {
+      window.history.pushState({}, '', `/brokers${search}`);
+      renderWithProviders(<DataBrokers />);
+    };
+
+    beforeEach(() => {
+      scriptReads('DATA_BROKER_REGISTRY', {
+        nextBrokerId: BROKERS.length + 1,
+        brokers: ([id]: number[]) => BROKERS[id - 1],
+      });
+    });
+
+    afterEach(() => {
+      window.history.pushState({}, '', '/');
+    });
+
+    test('pages through the active brokers', async () => {
+      openBrokers();
+
+      expect(await screen.findByText('Showing 1-10 of 14 brokers')).toBeInTheDocument();
+      expect(screen.queryByText('Acxiom')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(screen.getByText('Showing 11-14 of 14 brokers')).toBeInTheDocument();
+      expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+      expect(screen.getByText('Broker12')).toBeInTheDocument();
+      expect(window.location.search).toBe('?page=2');
+    });
+
+    test('searches names, websites and contacts and keeps the search in the URL', async () => {
+      openBrokers();
+      await screen.findByText('Spokeo');
+
+      fireEvent.change(screen.getByLabelText('Search'), { target: { value: 'peoplefinder' } });
+
+      expect(screen.getByText('Radaris')).toBeInTheDocument();
+      expect(screen.queryByText('Spokeo')).not.toBeInTheDocument();
+      expect(window.location.search).toBe('?q=peoplefinder');
+    });
+
+    test('restores filters and sort from a shared link', async () => {
+      openBrokers('?status=all&impact=high&sort=name');
+
+      expect(await screen.findByText('Showing 1-2 of 2 brokers')).toBeInTheDocument();
+      const names = screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent);
+      expect(names.slice(0, 2)).toEqual(['Acxiom', 'Spokeo']);
+      expect(screen.getByLabelText('Impact')).toHaveValue('high');
+      expect(screen.getByLabelText('Sort By')).toHaveValue('name');
+    });
+
+    test('filters by dispute rate and clears every filter at once', async () => {
+      openBrokers('?disputes=10&sort=removals');
+
+      expect(await screen.findByText('Showing 1-10 of 13 brokers')).toBeInTheDocument();
+      expect(screen.queryByText('Spokeo')).not.toBeInTheDocument();
+      expect(screen.getAllByRole('heading', { level: 3 })[0]).toHaveTextContent('Broker01');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clear Filters' }));
+
+      expect(screen.getByText('Spokeo')).toBeInTheDocument();
+      expect(window.location.search).toBe('');
+    });
+
+    test('filters by tag and links each chip to its filter', async () => {
+      openBrokers('?status=all');
+      await screen.findByText('Spokeo');
+
+      fireEvent.click(screen.getByLabelText('Marketing'));
+
+      expect(screen.getByText('Showing 1-1 of 1 broker')).toBeInTheDocument();
+      expect(screen.getByText('Acxiom')).toBeInTheDocument();
+      expect(window.location.search).toBe('?status=all&tags=marketing');
+      expect(screen.getByRole('link', { name: 'Data Aggregator' })).toHaveAttribute('href', '/brokers?tags=data-aggregator');
+    });
+  });
+
+  describe('submission', () => {
+    const BROKERS = [
+      broker(1, 'Spokeo', { website: 'https://www.spokeo.com', weight: 300 }),
+      broker(2, 'Whitepages', { website: 'https://www.whitepages.com', weight: 300, isActive: false }),
+    ];
+
+    // Opens the form and fills it in for a broker on `website`
+    const fillBrokerForm = async (name: string, website: string) => {
+      connectWallet({ address: '0x1234567890123456789012345678901234567890' });
+      renderWithProviders(<DataBrokers />);
+      fireEvent.click(await screen.findByText('Submit New Broker'));
+      await screen.findByText('Spokeo');
+
+      fireEvent.change(screen.getByPlaceholderText('e.g., Acxiom, LexisNexis, Spokeo'), { target: { value: name } });
+      fireEvent.change(screen.getByPlaceholderText('https://example.com'), { target: { value: website } });
+      fireEvent.change(screen.getByPlaceholderText('https://example.com/optout'), { target: { value: `${website}/optout` } });
+      fireEvent.change(screen.getByPlaceholderText('privacy@example.com or phone number'), {
+        target: { value: 'privacy@example.com' },
+      });
+    };
+
+    beforeEach(() => {
+      window.localStorage.removeItem(BROKER_METADATA_STORAGE_KEY);
+      jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+      scriptReads('DATA_BROKER_REGISTRY', {
+        nextBrokerId: BROKERS.length + 1,
+        brokers: ([id]: number[]) => BROKERS[id - 1],
+      });
+      scriptWrites('DATA_BROKER_REGISTRY', { addBroker: succeed() });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('keeps the categories picked for a submitted broker', async () => {
+      await fillBrokerForm('PeopleLooker', 'https://www.peoplelooker.com');
+      const categories = within(screen.getByRole('group', { name: 'Categories' }));
+      fireEvent.click(categories.getByLabelText('Background Checks'));
+      fireEvent.click(categories.getByLabelText('People Search'));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Broker' }));
+
+      await waitFor(() => expect(window.alert).toHaveBeenCalledWith('Data broker "PeopleLooker" submitted successfully! 🎉'));
+      expect(brokerTagsFor('https://peoplelooker.com/')).toEqual(['people-search', 'background-checks']);
+    });
+
+    test('keeps no categories for a broker the wallet did not submit', async () => {
+      scriptWrites('DATA_BROKER_REGISTRY', { addBroker: rejectInWallet() });
+      await fillBrokerForm('PeopleLooker', 'https://www.peoplelooker.com');
+      fireEvent.click(within(screen.getByRole('group', { name: 'Categories' })).getByLabelText('People Search'));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Broker' }));
+
+      await waitFor(() => expect(getWrites('DATA_BROKER_REGISTRY', 'addBroker')).toHaveLength(1));
+      expect(brokerTagsFor('https://peoplelooker.com/')).toEqual([]);
+      expect(window.localStorage.getItem(BROKER_METADATA_STORAGE_KEY)).toBeNull();
+    });
+
+    test('reports categories that could not be saved for a submitted broker', async () => {
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      await fillBrokerForm('PeopleLooker', 'https://www.peoplelooker.com');
+      fireEvent.click(within(screen.getByRole('group', { name: 'Categories' })).getByLabelText('People Search'));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Broker' }));
+
+      await waitFor(() =>
+        expect(window.alert).toHaveBeenCalledWith(
+          'Data broker "PeopleLooker" submitted successfully, but its categories could not be saved in this browser.'
+        )
+      );
+    });
+
+    test('blocks a broker whose domain is already registered', async () => {
+      await fillBrokerForm('Spokeo People Search', 'https://optout.spokeo.com');
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Broker' }));
+
+      expect(screen.getByText('spokeo.com is already registered as Spokeo')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'View the existing entry' })).toHaveAttribute('href', '/brokers/1');
+      expect(getWrites('DATA_BROKER_REGISTRY', 'addBroker')).toEqual([]);
+    });
+
+    test('asks before submitting a name close to an existing broker', async () => {
+      await fillBrokerForm('White Pages Inc.', 'https://whitepages-premium.com');
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Broker' }));
+
+      const dialog = within(screen.getByRole('dialog', { name: 'Possible Duplicate' }));
+      expect(dialog.getByRole('link', { name: 'Whitepages' })).toHaveAttribute('href', '/brokers/2');
+      expect(getWrites('DATA_BROKER_REGISTRY', 'addBroker')).toEqual([]);
+
+      fireEvent.click(dialog.getByRole('button', { name: 'Submit Anyway' }));
+
+      await waitFor(() => expect(window.alert).toHaveBeenCalledWith('Data broker "White Pages Inc." submitted successfully! 🎉'));
+      expect(getWrites('DATA_BROKER_REGISTRY', 'addBroker')).toHaveLength(1);
+    });
   });
 });
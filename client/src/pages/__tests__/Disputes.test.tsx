@@ -0,0 +1,168 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { parseEther } from 'ethers/lib/utils';
+import { NETWORK_STORAGE_KEY } from '../../context/NetworkContext';
+import { getSimulation, resetSimulation, SIMULATED_ACCOUNTS } from '../../simulation';
+import { renderRoute } from '../../test-utils/render';
+import { resetThirdwebFixture } from '../../test-utils/thirdweb';
+import { computeVoteCommitment, DISPUTE_VOTE_STORAGE_KEY } from '../../utils/voteCommitments';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const [deployer] = SIMULATED_ACCOUNTS;
+const OTHERS = [
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90f79Bf6eB2C4F870365e96eFB6a8a4Db54c5f0a',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+];
+
+const send = (account: string, contract: string, method: string, args: unknown[]) => {
+  const { chain } = getSimulation();
+  chain.setAccount(account);
+  chain.send(contract, method, args);
+  chain.setAccount(deployer);
+};
+
+const fund = (account: string, amount: string) => {
+  const { addresses } = getSimulation();
+  if (account !== deployer) send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'transfer', [account, parseEther(amount)]);
+};
+
+const registerArbitrator = (account: string) => {
+  const { addresses } = getSimulation();
+  fund(account, '1000');
+  send(account, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.DISPUTE_RESOLUTION, parseEther('1000')]);
+  send(account, addresses.DISPUTE_RESOLUTION, 'registerArbitrator', [parseEther('1000'), 'Privacy lawyer']);
+};
+
+// The deployer works seeded task #1 up to evidence, and two verifiers approve it
+const verifyTask = async (): Promise<string> => {
+  const { addresses, chain } = getSimulation();
+  send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.TASK_FACTORY, parseEther('100')]);
+  send(deployer, addresses.TASK_FACTORY, 'registerWorker', [parseEther('100'), 'Privacy paralegal']);
+  send(deployer, addresses.TASK_FACTORY, 'selfAssignToTask', [1]);
+  const taskAddress = await chain.getContract(addresses.TASK_FACTORY)!.call('tasks', [1]);
+  send(deployer, taskAddress, 'markRemovalRequested', ['Opt-out form sent']);
+  send(deployer, taskAddress, 'submitEvidence', ['bafkreievidence', 'Listing no longer shows']);
+
+  OTHERS.forEach((account) => {
+    fund(account, '500');
+    send(account, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.VERIFIER_REGISTRY, parseEther('500')]);
+    send(account, addresses.VERIFIER_REGISTRY, 'registerVerifier', [parseEther('500'), 'Independent reviewer']);
+  });
+  send(deployer, addresses.VERIFIER_REGISTRY, 'startVerificationSession', [1, taskAddress]);
+  send(OTHERS[0], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+  send(OTHERS[1], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+  return taskAddress;
+};
+
+// Dispute #1 on the verified task, heard by the deployer and two others
+const openDispute = async () => {
+  const taskAddress = await verifyTask();
+  const { addresses } = getSimulation();
+  [deployer, OTHERS[0], OTHERS[1]].forEach(registerArbitrator);
+  send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.DISPUTE_RESOLUTION, parseEther('50')]);
+  send(deployer, addresses.DISPUTE_RESOLUTION, 'createDispute', [1, taskAddress, parseEther('50'), 'Still listed', '']);
+};
+
+const commitmentFor = (override: boolean, reason: string, salt: string) =>
+  computeVoteCommitment({ vote: !override, reason, salt });
+
+describe('Disputes Page', () => {
+  let alertSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetThirdwebFixture();
+    resetSimulation();
+    window.localStorage.removeItem(NETWORK_STORAGE_KEY);
+    window.localStorage.removeItem(DISPUTE_VOTE_STORAGE_KEY);
+    alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('explains when dispute resolution is not deployed on the network', async () => {
+    renderRoute('/disputes', { wallet: { address: deployer } });
+
+    expect(await screen.findByText('Dispute resolution is not deployed on Base Sepolia.')).toBeInTheDocument();
+  });
+
+  test('links the worker of a verified task to the dispute form and opens a dispute', async () => {
+    await verifyTask();
+    OTHERS.forEach(registerArbitrator);
+    renderRoute('/tasks/1', { network: 'SIMULATED' });
+
+    fireEvent.click(await screen.findByRole('link', { name: 'Open Dispute' }));
+    expect(await screen.findByRole('heading', { name: 'Dispute Task #1' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^Bond/), { target: { value: '10' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Open Dispute' }));
+    expect(screen.getByText('Minimum is 50 RN')).toBeInTheDocument();
+    expect(screen.getByText('Explain why the verification was wrong')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^Bond/), { target: { value: '50' } });
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'Still listed' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Open Dispute' }));
+
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Dispute opened for task 1.'));
+    await waitFor(() => expect(screen.queryByRole('heading', { name: 'Dispute Task #1' })).not.toBeInTheDocument());
+    expect(await screen.findByText('Dispute #1')).toBeInTheDocument();
+    expect(screen.getByText('Still listed')).toBeInTheDocument();
+  });
+
+  test('turns away accounts that neither created nor worked the task', async () => {
+    await verifyTask();
+    const { chain } = getSimulation();
+    chain.setAccount(OTHERS[2]);
+    renderRoute('/disputes?task=1', { network: 'SIMULATED' });
+
+    expect(
+      await screen.findByText('Only the creator or the worker of task #1 can dispute its verification.')
+    ).toBeInTheDocument();
+  });
+
+  test('commits a vote, then reveals it from the stored salt', async () => {
+    await openDispute();
+    const { addresses } = getSimulation();
+    send(OTHERS[0], addresses.DISPUTE_RESOLUTION, 'commitVote', [1, commitmentFor(true, 'Still up', '1')]);
+    send(OTHERS[1], addresses.DISPUTE_RESOLUTION, 'commitVote', [1, commitmentFor(false, 'Gone', '2')]);
+    renderRoute('/disputes', { network: 'SIMULATED' });
+
+    expect(await screen.findByText('Your Assigned Disputes')).toBeInTheDocument();
+    fireEvent.click(await screen.findByRole('button', { name: 'Override' }));
+    const dialog = within(screen.getByRole('dialog'));
+    fireEvent.click(dialog.getByRole('button', { name: 'Commit Vote' }));
+    expect(dialog.getByText('Explain your vote')).toBeInTheDocument();
+    fireEvent.change(dialog.getByLabelText('Reason'), { target: { value: 'The listing is still up' } });
+    fireEvent.click(dialog.getByRole('button', { name: 'Commit Vote' }));
+
+    expect(await screen.findByText('You committed a vote to override the verification.')).toBeInTheDocument();
+    const revealButton = await screen.findByRole('button', { name: 'Reveal Vote' });
+    await waitFor(() => expect(revealButton).toBeEnabled());
+    fireEvent.click(revealButton);
+
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Your vote on dispute 1 is revealed.'));
+    expect(await screen.findByText('You voted to override the verification.')).toBeInTheDocument();
+    expect(screen.getAllByText('1 of 3')).toHaveLength(2);
+  });
+
+  test('shows the decision and what it did to the bond and the verifiers', async () => {
+    await openDispute();
+    const { addresses } = getSimulation();
+    const votes: [string, boolean, string, string][] = [
+      [deployer, true, 'Still up', '1'],
+      [OTHERS[0], true, 'Still up', '2'],
+      [OTHERS[1], false, 'Gone', '3'],
+    ];
+    votes.forEach(([account, override, reason, salt]) =>
+      send(account, addresses.DISPUTE_RESOLUTION, 'commitVote', [1, commitmentFor(override, reason, salt)])
+    );
+    votes.forEach(([account, override, reason, salt]) =>
+      send(account, addresses.DISPUTE_RESOLUTION, 'revealVote', [1, !override, reason, salt])
+    );
+    renderRoute('/disputes', { network: 'SIMULATED' });
+
+    expect(await screen.findAllByText('Verification overridden')).toHaveLength(2);
+    expect(screen.getAllByText('The 50.00 RN bond was returned to the initiator.')).toHaveLength(2);
+    expect(screen.getAllByText('Verifiers who approved the task were slashed.')).toHaveLength(2);
+    expect(await screen.findByText('You voted to override the verification.')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Resolve Dispute' })).not.toBeInTheDocument();
+  });
+});
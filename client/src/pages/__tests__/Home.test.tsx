@@ -2,14 +2,10 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { ThirdwebProvider } from '@thirdweb-dev/react';
+import { connectWallet, resetThirdwebFixture } from '../../test-utils/thirdweb';
 import Home from '../Home';
 
-// Mock Thirdweb hooks
-jest.mock('@thirdweb-dev/react', () => ({
-  __esModule: true,
-  ThirdwebProvider: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
-  useAddress: jest.fn(),
-}));
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
 
 const renderWithProviders = (component: React.ReactElement) => {
   return render(
@@ -23,13 +19,10 @@ const renderWithProviders = (component: React.ReactElement) => {
 
 describe('Home Page', () => {
   beforeEach(() => {
-    jest.clearAllMocks();
+    resetThirdwebFixture();
   });
 
   test('renders hero section with title and description', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<Home />);
     
     expect(screen.getByText('🥷 removal.ninja')).toBeInTheDocument();
@@ -37,9 +30,6 @@ describe('Home Page', () => {
   });
 
   test('displays protocol information sections', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<Home />);
     
     expect(screen.getByText('How It Works')).toBeInTheDocument();
@@ -49,9 +39,6 @@ describe('Home Page', () => {
   });
 
   test('shows protocol architecture information', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<Home />);
     
     expect(screen.getByText('Protocol Architecture')).toBeInTheDocument();
@@ -60,15 +47,12 @@ describe('Home Page', () => {
   });
 
   test('displays different CTA based on wallet connection', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    
     // Test disconnected state
-    useAddress.mockReturnValue(null);
     const { rerender } = renderWithProviders(<Home />);
     expect(screen.getByText(/Connect your wallet above to get started/)).toBeInTheDocument();
 
     // Test connected state
-    useAddress.mockReturnValue('0x1234567890123456789012345678901234567890');
+    connectWallet({ address: '0x1234567890123456789012345678901234567890' });
     rerender(
       <BrowserRouter>
         <ThirdwebProvider activeChain="localhost" clientId="test">
@@ -81,9 +65,6 @@ describe('Home Page', () => {
   });
 
   test('contains token reward information', () => {
-    const { useAddress } = require('@thirdweb-dev/react');
-    useAddress.mockReturnValue(null);
-
     renderWithProviders(<Home />);
     
     expect(screen.getByText(/100 RN tokens/)).toBeInTheDocument();
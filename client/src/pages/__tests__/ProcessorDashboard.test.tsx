@@ -0,0 +1,251 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { DEPLOYMENTS } from '../../config/contracts';
+import { parseEther } from 'ethers/lib/utils';
+import { renderRoute } from '../../test-utils/render';
+import { getSimulation, resetSimulation } from '../../simulation';
+import { computeCid, createMemoryEvidenceStorage } from '../../evidence';
+import { TaskStatus } from '../../types/contracts';
+import {
+  getWrites,
+  resetThirdwebFixture,
+  revertWith,
+  scriptReads,
+  scriptTask,
+  scriptWrites,
+  succeed,
+} from '../../test-utils/thirdweb';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const WORKER = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const TASK_FACTORY = DEPLOYMENTS.BASE_SEPOLIA.contracts.TASK_FACTORY.address;
+const RN = '000000000000000000';
+const CREATOR = '0x1111111111111111111111111111111111111111';
+const NEXT_WEEK = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
+
+const registeredWorker = {
+  isRegistered: true,
+  stake: `100${RN}`,
+  completedTasks: 3,
+  successRate: 100,
+  reputation: 120,
+  description: 'Privacy paralegal',
+  isSlashed: false,
+};
+
+// Resolves once the wallet's balance has loaded, so validation and the allowance check see it
+const renderDashboard = async (balance = 500, evidenceStorage = createMemoryEvidenceStorage()) => {
+  renderRoute('/processor-dashboard', { wallet: { address: WORKER, balance: `${balance}${RN}` }, evidenceStorage });
+  await screen.findByText(`${balance}.00`, { exact: false });
+};
+
+// Task #4 for Spokeo, assigned to WORKER and due next week
+const scriptAssignedTask = (status: TaskStatus) => {
+  scriptReads('DATA_BROKER_REGISTRY', {
+    brokers: {
+      id: 1,
+      name: 'Spokeo',
+      website: 'https://www.spokeo.com',
+      removalLink: 'https://www.spokeo.com/optout',
+      contact: 'privacy@spokeo.com',
+      weight: 200,
+      isActive: true,
+      totalRemovals: 0,
+      totalDisputes: 0,
+    },
+  });
+  scriptReads('TASK_FACTORY', { workers: registeredWorker, getWorkerTasks: [4] });
+  return scriptTask({ taskId: 4, creator: CREATOR, worker: WORKER, status, deadline: NEXT_WEEK });
+};
+
+const register = (description: string) => {
+  fireEvent.change(screen.getByPlaceholderText(/Describe your experience/), { target: { value: description } });
+  fireEvent.click(screen.getByRole('button', { name: 'Register as Worker' }));
+};
+
+describe('ProcessorDashboard Page', () => {
+  let alertSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetThirdwebFixture();
+    alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('asks for a wallet when disconnected', () => {
+    renderRoute('/processor-dashboard');
+
+    expect(screen.getByText(/Connect your wallet to register as a worker/)).toBeInTheDocument();
+  });
+
+  test('approves the stake, then registers', async () => {
+    scriptWrites('TASK_FACTORY', {
+      registerWorker: succeed(() => scriptReads('TASK_FACTORY', { workers: registeredWorker })),
+    });
+    await renderDashboard();
+
+    register('Privacy paralegal');
+
+    expect(await screen.findByText('Registered')).toBeInTheDocument();
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([[TASK_FACTORY, `100${RN}`]]);
+    expect(getWrites('TASK_FACTORY', 'registerWorker')).toEqual([[`100${RN}`, 'Privacy paralegal']]);
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Successfully registered as worker! 🎉'));
+  });
+
+  test('rejects a stake above the RN balance before sending anything', async () => {
+    await renderDashboard(50);
+
+    register('Privacy paralegal');
+
+    expect(await screen.findByText('Exceeds your balance of 50 RN')).toBeInTheDocument();
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([]);
+  });
+
+  test('shows a stake revert next to the stake field', async () => {
+    scriptReads('REMOVAL_NINJA_TOKEN', { allowance: `100${RN}` });
+    scriptWrites('TASK_FACTORY', { registerWorker: revertWith('Insufficient stake') });
+    await renderDashboard();
+
+    register('Privacy paralegal');
+
+    expect(await screen.findByText('The stake is below the contract minimum.')).toBeInTheDocument();
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([]);
+  });
+
+  test('assigns a registered worker to an available task', async () => {
+    scriptReads('TASK_FACTORY', { workers: registeredWorker, getAvailableTasks: [4, 7] });
+    scriptWrites('TASK_FACTORY', {
+      selfAssignToTask: succeed(() => scriptReads('TASK_FACTORY', { getAvailableTasks: [7], getWorkerTasks: [4] })),
+    });
+    await renderDashboard();
+
+    fireEvent.click((await screen.findAllByRole('button', { name: 'Assign to Me' }))[0]);
+
+    expect(await screen.findByText('You have 1 assigned task.')).toBeInTheDocument();
+    expect(getWrites('TASK_FACTORY', 'selfAssignToTask')).toEqual([[4]]);
+    expect(screen.getByText('1 task available for assignment.')).toBeInTheDocument();
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Successfully assigned to task 4! 🎉'));
+  });
+
+  test('reports a task another worker took first', async () => {
+    scriptReads('TASK_FACTORY', { workers: registeredWorker, getAvailableTasks: [4] });
+    scriptWrites('TASK_FACTORY', { selfAssignToTask: revertWith('Task already assigned') });
+    await renderDashboard();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Assign to Me' }));
+
+    await waitFor(() =>
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Error assigning to task: The task is no longer available. Another worker may have taken it; refresh and pick another task.'
+      )
+    );
+  });
+
+  test('lists assigned tasks with the steps their status allows', async () => {
+    scriptAssignedTask(TaskStatus.Created);
+    await renderDashboard();
+
+    expect(await screen.findByText('Spokeo')).toBeInTheDocument();
+    expect(screen.getByText('50.00 RN')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Mark Removal Requested' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Mark Failed' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Submit Evidence' })).not.toBeInTheDocument();
+  });
+
+  test('offers steps by the simulated chain time rather than the wall clock', async () => {
+    resetSimulation();
+    const { addresses, chain } = getSimulation();
+    chain.send(addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.TASK_FACTORY, parseEther('100')]);
+    chain.send(addresses.TASK_FACTORY, 'registerWorker', [parseEther('100'), 'Privacy paralegal']);
+    chain.send(addresses.TASK_FACTORY, 'selfAssignToTask', [1]);
+    renderRoute('/processor-dashboard', { network: 'SIMULATED' });
+
+    // Seed task #1 is due 30 days after the simulated genesis, long before today
+    expect(await screen.findByRole('button', { name: 'Mark Removal Requested' })).toBeInTheDocument();
+  });
+
+  test('confirms a step before sending it', async () => {
+    const task = scriptAssignedTask(TaskStatus.Created);
+    scriptWrites(task, {
+      markRemovalRequested: succeed(() => scriptAssignedTask(TaskStatus.Requested)),
+    });
+    await renderDashboard();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Mark Removal Requested' }));
+    const dialog = screen.getByRole('dialog', { name: 'Mark Removal Requested: Task #4' });
+    fireEvent.change(within(dialog).getByLabelText('Request details'), {
+      target: { value: 'Opt-out form sent' },
+    });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Mark Removal Requested' }));
+
+    expect(await screen.findByRole('button', { name: 'Submit Evidence' })).toBeInTheDocument();
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(getWrites(task, 'markRemovalRequested')).toEqual([['Opt-out form sent']]);
+  });
+
+  test('stores the evidence file, then submits its CID', async () => {
+    const task = scriptAssignedTask(TaskStatus.Responded);
+    scriptWrites(task, { submitEvidence: succeed() });
+    const storage = createMemoryEvidenceStorage();
+    const screenshot = new TextEncoder().encode('listing removed');
+    const cid = await computeCid(screenshot);
+    await renderDashboard(500, storage);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Submit Evidence' }));
+    const dialog = screen.getByRole('dialog');
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Submit Evidence' }));
+
+    expect(within(dialog).getByText('Attach an evidence file')).toBeInTheDocument();
+    expect(within(dialog).getByText('Summarize what the evidence shows')).toBeInTheDocument();
+
+    fireEvent.change(within(dialog).getByLabelText('Evidence file *'), {
+      target: { files: [new File([screenshot], 'spokeo.png', { type: 'image/png' })] },
+    });
+    expect(await within(dialog).findByText(cid)).toBeInTheDocument();
+    fireEvent.change(within(dialog).getByLabelText('Evidence summary *'), {
+      target: { value: 'Listing no longer found' },
+    });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Submit Evidence' }));
+
+    await waitFor(() => expect(getWrites(task, 'submitEvidence')).toEqual([[cid, 'Listing no longer found']]));
+    expect(await computeCid((await storage.get(cid))!)).toBe(cid);
+  });
+
+  test('blocks evidence on a public network without an IPFS node', async () => {
+    const task = scriptAssignedTask(TaskStatus.Responded);
+    renderRoute('/processor-dashboard', { wallet: { address: WORKER, balance: `500${RN}` } });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Submit Evidence' }));
+    const dialog = screen.getByRole('dialog');
+
+    expect(within(dialog).getByRole('alert')).toHaveTextContent('No IPFS node is configured for this network');
+    expect(within(dialog).queryByLabelText('Evidence file *')).not.toBeInTheDocument();
+    expect(within(dialog).getByRole('button', { name: 'Submit Evidence' })).toBeDisabled();
+    expect(getWrites(task, 'submitEvidence')).toEqual([]);
+  });
+
+  test('rejects evidence files it cannot store', async () => {
+    scriptAssignedTask(TaskStatus.Responded);
+    await renderDashboard();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Submit Evidence' }));
+    fireEvent.change(screen.getByLabelText('Evidence file *'), {
+      target: { files: [new File(['notes'], 'notes.txt', { type: 'text/plain' })] },
+    });
+
+    expect(await screen.findByText('Attach a screenshot, PDF or .eml file')).toBeInTheDocument();
+  });
+
+  test('keeps the dialog open with the reason a step reverted', async () => {
+    const task = scriptAssignedTask(TaskStatus.Requested);
+    scriptWrites(task, { markFailed: revertWith('Not authorized to mark failed') });
+    await renderDashboard();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Mark Failed' }));
+    const dialog = screen.getByRole('dialog');
+    fireEvent.change(within(dialog).getByLabelText('Reason *'), { target: { value: 'Broker unreachable' } });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Mark Failed' }));
+
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith(expect.stringMatching(/^Error updating task 4: /)));
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,183 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { computeCid, createMemoryEvidenceStorage } from '../../evidence';
+import { renderRoute } from '../../test-utils/render';
+import { TaskStatus } from '../../types/contracts';
+import {
+  FakeTask,
+  getWrites,
+  resetThirdwebFixture,
+  scriptReads,
+  scriptTask,
+  scriptWrites,
+  succeed,
+} from '../../test-utils/thirdweb';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const CREATOR = '0x1111111111111111111111111111111111111111';
+const WORKER = '0x2222222222222222222222222222222222222222';
+const RN = '000000000000000000';
+const CREATED_AT = 1735689600;
+const DAY = 24 * 60 * 60;
+
+const registeredWorker = {
+  isRegistered: true,
+  stake: `100${RN}`,
+  completedTasks: 0,
+  successRate: 100,
+  reputation: 100,
+  description: 'Privacy paralegal',
+  isSlashed: false,
+};
+
+// Task #7, created by CREATOR for Spokeo with a 50 RN payout
+const scriptTaskSeven = (task: Partial<FakeTask> = {}) => {
+  scriptReads('DATA_BROKER_REGISTRY', {
+    brokers: {
+      id: 1,
+      name: 'Spokeo',
+      website: 'https://www.spokeo.com',
+      removalLink: 'https://www.spokeo.com/optout',
+      contact: 'privacy@spokeo.com',
+      weight: 200,
+      isActive: true,
+      totalRemovals: 0,
+      totalDisputes: 0,
+    },
+  });
+  return scriptTask({ taskId: 7, creator: CREATOR, createdAt: CREATED_AT, timeRemaining: 3 * DAY, ...task });
+};
+
+const timelineItems = () =>
+  within(screen.getByRole('list', { name: 'Status timeline' })).getAllByRole('listitem');
+
+// Label of each timeline step, followed by its timestamp or "Pending"
+const timelineSteps = () => timelineItems().map((step) => step.textContent);
+
+const currentStep = () => timelineItems().find((step) => step.getAttribute('aria-current') === 'step');
+
+describe('TaskDetail Page', () => {
+  let alertSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetThirdwebFixture();
+    alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('reports tasks the factory does not know', async () => {
+    scriptTaskSeven();
+    renderRoute('/tasks/8');
+
+    expect(await screen.findByText('There is no task #8 on this network.')).toBeInTheDocument();
+  });
+
+  test('shows the summary, timeline and evidence of a task', async () => {
+    scriptTaskSeven({
+      status: TaskStatus.Requested,
+      worker: WORKER,
+      requestedAt: CREATED_AT + DAY,
+      evidence: [{ evidenceCid: 'bafyproof', summary: 'Opt-out form sent', timestamp: CREATED_AT + DAY, submitter: WORKER }],
+    });
+    renderRoute('/tasks/7');
+
+    expect(await screen.findByRole('heading', { name: 'Task #7' })).toBeInTheDocument();
+    expect(await screen.findByText('Removal from Spokeo')).toBeInTheDocument();
+    expect(screen.getByText('50.00 RN')).toBeInTheDocument();
+    expect(screen.getByText('3d')).toBeInTheDocument();
+    expect(screen.getByText('Opt-out form sent')).toBeInTheDocument();
+
+    expect(timelineSteps()).toEqual([
+      expect.stringMatching(/^Created\d/),
+      expect.stringMatching(/^Removal Requested\d/),
+      'Broker RespondedPending',
+      'Verified CompletePending',
+    ]);
+    expect(currentStep()).toHaveTextContent(/^Removal Requested/);
+    expect(screen.getByText('This task has already been taken by a worker.')).toBeInTheDocument();
+  });
+
+  test('re-hashes stored evidence against its recorded CID', async () => {
+    const storage = createMemoryEvidenceStorage();
+    const screenshot = new TextEncoder().encode('listing removed');
+    const cid = await computeCid(screenshot);
+    const tampered = await computeCid(new TextEncoder().encode('listing still up'));
+    await storage.put(cid, screenshot);
+    await storage.put(tampered, new TextEncoder().encode('listing removed?'));
+    scriptTaskSeven({
+      status: TaskStatus.Responded,
+      worker: WORKER,
+      evidence: [
+        { evidenceCid: cid, summary: 'Listing removed', timestamp: CREATED_AT + DAY, submitter: WORKER },
+        { evidenceCid: tampered, summary: 'Edited screenshot', timestamp: CREATED_AT + DAY, submitter: WORKER },
+      ],
+    });
+    renderRoute('/tasks/7', { evidenceStorage: storage });
+
+    const [first, second] = await screen.findAllByRole('button', { name: 'Verify Content' });
+    fireEvent.click(first);
+    fireEvent.click(second);
+
+    expect(await screen.findByText('The content matches the recorded CID.')).toBeInTheDocument();
+    expect(await screen.findByText('The content does not match the recorded CID.')).toBeInTheDocument();
+  });
+
+  test('says why evidence cannot be checked without an IPFS node', async () => {
+    scriptTaskSeven({
+      status: TaskStatus.Responded,
+      worker: WORKER,
+      evidence: [{ evidenceCid: 'bafyproof', summary: 'Listing removed', timestamp: CREATED_AT + DAY, submitter: WORKER }],
+    });
+    renderRoute('/tasks/7');
+
+    expect(await screen.findByText(/^No IPFS node is configured for this network/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Verify Content' })).not.toBeInTheDocument();
+  });
+
+  test('lets the creator refund a task past its deadline', async () => {
+    const task = scriptTaskSeven({ timeRemaining: 0 });
+    scriptWrites(task, {
+      refund: succeed(() => scriptTaskSeven({ status: TaskStatus.Refunded, timeRemaining: 0 })),
+    });
+    renderRoute('/tasks/7', { wallet: { address: CREATOR } });
+
+    expect(await screen.findByText('Past deadline')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Refund 50.00 RN' }));
+
+    expect(await screen.findByText('The payout has been refunded to you.')).toBeInTheDocument();
+    expect(getWrites(task, 'refund')).toEqual([[]]);
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Refunded 50.00 RN to your wallet.'));
+    expect(timelineSteps()).toEqual([expect.stringMatching(/^Created\d/), 'Refunded']);
+  });
+
+  test('keeps the refund closed before the deadline', async () => {
+    scriptTaskSeven();
+    renderRoute('/tasks/7', { wallet: { address: CREATOR } });
+
+    expect(await screen.findByText('You created this task.')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Refund/ })).not.toBeInTheDocument();
+  });
+
+  test('lets a registered worker take an open task', async () => {
+    scriptTaskSeven();
+    scriptReads('TASK_FACTORY', { workers: registeredWorker });
+    renderRoute('/tasks/7', { wallet: { address: WORKER } });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Assign to Me' }));
+
+    await waitFor(() => expect(getWrites('TASK_FACTORY', 'selfAssignToTask')).toEqual([[7]]));
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Successfully assigned to task 7! 🎉'));
+  });
+
+  test.each([
+    ['refunded', TaskStatus.Refunded, undefined, 'This task was refunded to its creator.'],
+    ['failed unassigned', TaskStatus.Failed, undefined, 'This task failed before any worker took it on.'],
+    ['failed assigned', TaskStatus.Failed, WORKER, 'This task failed before its worker completed it.'],
+    ['verified', TaskStatus.Verified, WORKER, 'This removal has been verified.'],
+  ])('tells viewers why a %s task is closed', async (_, status, worker, message) => {
+    scriptTaskSeven({ status, worker, timeRemaining: 0 });
+    renderRoute('/tasks/7');
+
+    expect(await screen.findByText(message)).toBeInTheDocument();
+    expect(screen.queryByText('This task has already been taken by a worker.')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,290 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { DEPLOYMENTS } from '../../config/contracts';
+import { broker } from '../../test-utils/brokers';
+import { renderRoute } from '../../test-utils/render';
+import { BULK_TASK_STORAGE_KEY } from '../../utils/bulkTasks';
+import { getSubjectSalt, verifySubjectOpening } from '../../utils/commitments';
+import {
+  getWrites,
+  rejectInWallet,
+  resetThirdwebFixture,
+  revertWith,
+  scriptReads,
+  scriptTask,
+  scriptWrites,
+  succeed,
+} from '../../test-utils/thirdweb';
+import { TaskStatus } from '../../types/contracts';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const USER = '0x1234567890123456789012345678901234567890';
+const TASK_FACTORY = DEPLOYMENTS.BASE_SEPOLIA.contracts.TASK_FACTORY.address;
+const RN = '000000000000000000';
+
+const BROKERS = [broker(1, 'Spokeo', { weight: 300 }), broker(2, 'Radaris')];
+
+const openCreateForm = async () => {
+  renderRoute('/dashboard', { wallet: { address: USER, balance: `1000${RN}` } });
+  fireEvent.click(screen.getByRole('button', { name: 'Create Removal Task' }));
+  await screen.findByRole('option', { name: /Spokeo/ });
+};
+
+// A "Label:value" row of the stats cards
+const statRow = (label: string, value: number) =>
+  screen.getByText((_, element) => element?.textContent === `${label}:${value}`);
+
+const scriptUserTasks = (...statuses: TaskStatus[]) => {
+  statuses.forEach((status, index) => scriptTask({ taskId: index + 1, creator: USER, brokerId: (index % 2) + 1, status }));
+  scriptReads('TASK_FACTORY', { getUserTasks: statuses.map((_, index) => index + 1) });
+};
+
+// Walks the bulk wizard to its review step for every active broker
+const planBulkTasks = async (payoutRule: 'flat' | 'weighted', payout: string) => {
+  renderRoute('/dashboard', { wallet: { address: USER, balance: `1000${RN}` } });
+  fireEvent.click(screen.getByRole('button', { name: 'Remove Me Everywhere' }));
+  fireEvent.change(screen.getByLabelText('Full Name *'), { target: { value: 'Jane Doe' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+  await screen.findByRole('option', { name: 'All active brokers (2)' });
+  fireEvent.change(screen.getByLabelText('Brokers'), { target: { value: 'active' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+  fireEvent.change(screen.getByLabelText('Payout Rule'), { target: { value: payoutRule } });
+  fireEvent.change(screen.getByLabelText(/Payout \(RN tokens\)|Payout per Task/), { target: { value: payout } });
+  fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+};
+
+const submitTask = (brokerId = '1') => {
+  fireEvent.change(screen.getByLabelText('Full Name *'), { target: { value: 'Jane Doe' } });
+  fireEvent.change(screen.getByDisplayValue('Select a broker...'), { target: { value: brokerId } });
+  fireEvent.click(screen.getByRole('button', { name: 'Create Task' }));
+};
+
+describe('UserDashboard Page', () => {
+  let alertSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetThirdwebFixture();
+    scriptReads('DATA_BROKER_REGISTRY', {
+      nextBrokerId: BROKERS.length + 1,
+      brokers: ([id]: number[]) => BROKERS[id - 1],
+    });
+    alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('asks for a wallet when disconnected', () => {
+    renderRoute('/dashboard');
+
+    expect(screen.getByText(/Connect your wallet to create removal tasks/)).toBeInTheDocument();
+  });
+
+  test('approves the payout, then creates the task', async () => {
+    await openCreateForm();
+
+    submitTask();
+
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Removal task created successfully! 🎉'));
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([[TASK_FACTORY, `50${RN}`]]);
+    expect(getWrites('TASK_FACTORY', 'createTask')).toEqual([
+      [1, expect.stringMatching(/^0x[0-9a-f]{64}$/), `50${RN}`, 30 * 24 * 60 * 60],
+    ]);
+  });
+
+  test('commits to the subject with a salt kept in this browser', async () => {
+    await openCreateForm();
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'Jane@Example.com' } });
+
+    submitTask();
+
+    await waitFor(() => expect(getWrites('TASK_FACTORY', 'createTask')).toHaveLength(1));
+    const subjectCommit = getWrites('TASK_FACTORY', 'createTask')[0][1] as string;
+    const salt = getSubjectSalt(subjectCommit);
+    expect(salt).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(
+      verifySubjectOpening(subjectCommit, { subject: { fullName: 'jane doe', email: 'jane@example.com' }, salt: salt! })
+    ).toBe(true);
+    expect(window.localStorage.getItem('removal-ninja:subject-salts')).not.toMatch(/jane/i);
+  });
+
+  test('skips the approval when the allowance already covers the payout', async () => {
+    scriptReads('REMOVAL_NINJA_TOKEN', { allowance: `100${RN}` });
+    await openCreateForm();
+
+    submitTask('2');
+
+    await waitFor(() => expect(getWrites('TASK_FACTORY', 'createTask')).toHaveLength(1));
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([]);
+    expect(getWrites('TASK_FACTORY', 'createTask')[0][0]).toBe(2);
+  });
+
+  test('lists the new task once creation is confirmed', async () => {
+    scriptWrites('TASK_FACTORY', {
+      createTask: succeed(() => scriptUserTasks(TaskStatus.Created)),
+    });
+    await openCreateForm();
+
+    submitTask();
+
+    expect(await screen.findByText('You have 1 task created.')).toBeInTheDocument();
+    expect(await screen.findByRole('link', { name: 'Task #1' })).toHaveAttribute('href', '/tasks/1');
+  });
+
+  test('counts tasks by their on-chain status', async () => {
+    scriptUserTasks(TaskStatus.Created, TaskStatus.Requested, TaskStatus.Verified, TaskStatus.Refunded);
+    renderRoute('/dashboard', { wallet: { address: USER } });
+
+    expect(await screen.findByRole('link', { name: 'Task #4' })).toBeInTheDocument();
+    expect(statRow('Total Tasks', 4)).toBeInTheDocument();
+    expect(statRow('Active Tasks', 2)).toBeInTheDocument();
+    expect(statRow('Completed', 1)).toBeInTheDocument();
+    expect(statRow('Failed or Refunded', 1)).toBeInTheDocument();
+  });
+
+  test('filters the task list by status', async () => {
+    scriptUserTasks(TaskStatus.Created, TaskStatus.Verified, TaskStatus.Verified);
+    renderRoute('/dashboard', { wallet: { address: USER } });
+    await screen.findByRole('link', { name: 'Task #3' });
+
+    fireEvent.change(screen.getByLabelText('Filter by status'), { target: { value: String(TaskStatus.Verified) } });
+
+    expect(screen.queryByRole('link', { name: 'Task #1' })).not.toBeInTheDocument();
+    expect(screen.getAllByText('Verified Complete')).toHaveLength(2);
+    expect(screen.getByRole('option', { name: 'Verified Complete (2)' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Filter by status'), { target: { value: String(TaskStatus.Failed) } });
+    expect(screen.getByText('No tasks with this status.')).toBeInTheDocument();
+  });
+
+  test('lists tasks whose contract cannot be read by id', async () => {
+    scriptUserTasks(TaskStatus.Created);
+    // The factory records no contract for task #2, as the UltraSimple factory does for every task
+    scriptReads('TASK_FACTORY', { getUserTasks: [1, 2] });
+    renderRoute('/dashboard', { wallet: { address: USER } });
+
+    expect(await screen.findByText('You have 2 tasks created.')).toBeInTheDocument();
+    expect(await screen.findByRole('link', { name: 'Task #1' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Task #2' })).toBeInTheDocument();
+    expect(screen.getByText('Details unavailable')).toBeInTheDocument();
+    expect(screen.queryByText('No tasks with this status.')).not.toBeInTheDocument();
+  });
+
+  test('shows a payout revert next to the payout field', async () => {
+    scriptReads('REMOVAL_NINJA_TOKEN', { allowance: `100${RN}` });
+    scriptWrites('TASK_FACTORY', { createTask: revertWith('Payout too low') });
+    await openCreateForm();
+
+    submitTask();
+
+    expect(await screen.findByText('The payout is below the minimum the factory accepts.')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('50')).toHaveAttribute('aria-invalid', 'true');
+    expect(alertSpy).not.toHaveBeenCalled();
+  });
+
+  test('stops quietly when the approval is rejected in the wallet', async () => {
+    scriptWrites('REMOVAL_NINJA_TOKEN', { approve: rejectInWallet() });
+    await openCreateForm();
+
+    submitTask();
+
+    await waitFor(() => expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toHaveLength(1));
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Create Task' })).toBeEnabled());
+    expect(getWrites('TASK_FACTORY', 'createTask')).toEqual([]);
+    expect(alertSpy).not.toHaveBeenCalled();
+  });
+
+  test('validates the form before sending anything', async () => {
+    await openCreateForm();
+
+    fireEvent.change(screen.getByDisplayValue('50'), { target: { value: '5' } });
+    submitTask();
+
+    expect(await screen.findByText('Minimum is 10 RN')).toBeInTheDocument();
+    expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([]);
+  });
+
+  test('blocks task creation from a wallet on another chain', async () => {
+    renderRoute('/dashboard', { wallet: { address: USER, chainId: 1 } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create Removal Task' }));
+
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Create Task' })).toBeDisabled();
+  });
+
+  describe('bulk wizard', () => {
+    beforeEach(() => {
+      window.localStorage.removeItem(BULK_TASK_STORAGE_KEY);
+    });
+
+    test('approves the total once, then creates a task per broker', async () => {
+      await planBulkTasks('weighted', '20');
+
+      expect(screen.getByText('60.00 RN')).toBeInTheDocument();
+      expect(screen.getByText('80.00 RN')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Approve & Create 2 Tasks' }));
+
+      await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Created 2 removal tasks! 🎉'));
+      expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toEqual([[TASK_FACTORY, `80${RN}`]]);
+      const writes = getWrites('TASK_FACTORY', 'createTask');
+      expect(writes).toEqual([
+        [1, expect.stringMatching(/^0x[0-9a-f]{64}$/), `60${RN}`, 30 * 24 * 60 * 60],
+        [2, expect.stringMatching(/^0x[0-9a-f]{64}$/), `20${RN}`, 30 * 24 * 60 * 60],
+      ]);
+      expect(writes[0][1]).not.toBe(writes[1][1]);
+      expect(getSubjectSalt(writes[1][1] as string)).toBeDefined();
+      expect(window.localStorage.getItem(BULK_TASK_STORAGE_KEY)).toBe('{}');
+    });
+
+    test('picks brokers by category', async () => {
+      renderRoute('/dashboard', { wallet: { address: USER, balance: `1000${RN}` } });
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Me Everywhere' }));
+      fireEvent.change(screen.getByLabelText('Full Name *'), { target: { value: 'Jane Doe' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await screen.findByRole('option', { name: 'All active brokers (2)' });
+
+      fireEvent.change(screen.getByLabelText('Brokers'), { target: { value: 'tagged' } });
+      fireEvent.click(screen.getByLabelText('Phone Directory'));
+      expect(screen.getByText('0 brokers selected.')).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('People Search'));
+      expect(screen.getByText('2 brokers selected.')).toBeInTheDocument();
+    });
+
+    test('checks every scaled payout against the minimum', async () => {
+      await planBulkTasks('weighted', '5');
+
+      expect(screen.getByText('Radaris: Minimum is 10 RN')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Approve & Create/ })).not.toBeInTheDocument();
+    });
+
+    test('blocks a total above the balance', async () => {
+      await planBulkTasks('flat', '600');
+
+      expect(screen.getByText('The total is more than your balance.')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Approve & Create 2 Tasks' })).toBeDisabled();
+    });
+
+    test('resumes a run that stopped part way without recreating tasks', async () => {
+      scriptWrites('REMOVAL_NINJA_TOKEN', {
+        approve: succeed(() => scriptReads('REMOVAL_NINJA_TOKEN', { allowance: `100${RN}` })),
+      });
+      scriptWrites('TASK_FACTORY', {
+        createTask: succeed(() => scriptWrites('TASK_FACTORY', { createTask: revertWith('Broker not active') })),
+      });
+      await planBulkTasks('flat', '50');
+      fireEvent.click(screen.getByRole('button', { name: 'Approve & Create 2 Tasks' }));
+
+      await waitFor(() => expect(alertSpy).toHaveBeenCalledWith(expect.stringMatching(/^Error creating the task for Radaris/)));
+      expect(screen.getByText('1 of 2 tasks created.')).toBeInTheDocument();
+      expect(window.localStorage.getItem(BULK_TASK_STORAGE_KEY)).not.toMatch(/jane/i);
+
+      scriptWrites('TASK_FACTORY', { createTask: succeed() });
+      const resumeButton = screen.getByRole('button', { name: 'Resume' });
+      await waitFor(() => expect(resumeButton).toBeEnabled());
+      fireEvent.click(resumeButton);
+
+      await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Created 2 removal tasks! 🎉'));
+      const writes = getWrites('TASK_FACTORY', 'createTask');
+      expect(writes.map(([brokerId]) => brokerId)).toEqual([1, 2, 2]);
+      expect(writes[2][1]).toBe(writes[1][1]);
+      expect(getWrites('REMOVAL_NINJA_TOKEN', 'approve')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { act, fireEvent, screen } from '@testing-library/react';
+import { renderRoute } from '../../test-utils/render';
+import { resetThirdwebFixture } from '../../test-utils/thirdweb';
+import { saveSubjectSalt, SUBJECT_SALT_STORAGE_KEY } from '../../utils/commitments';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const PASSPHRASE = 'correct horse battery staple';
+
+const typeInto = (label: string, value: string) =>
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+const createVault = async () => {
+  renderRoute('/vault');
+  await screen.findByRole('button', { name: 'Create Vault' });
+  typeInto('Passphrase', PASSPHRASE);
+  typeInto('Confirm passphrase', PASSPHRASE);
+  fireEvent.click(screen.getByRole('button', { name: 'Create Vault' }));
+  await screen.findByText('Vault created and unlocked.');
+};
+
+describe('Vault Page', () => {
+  beforeEach(() => {
+    resetThirdwebFixture();
+    window.localStorage.removeItem(SUBJECT_SALT_STORAGE_KEY);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('offers passphrase and wallet setup when there is no vault', async () => {
+    renderRoute('/vault');
+
+    expect(await screen.findByRole('button', { name: 'Create Vault' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign to Create Vault' })).toBeDisabled();
+  });
+
+  test('rejects a short or mismatched passphrase', async () => {
+    renderRoute('/vault');
+    await screen.findByRole('button', { name: 'Create Vault' });
+
+    typeInto('Passphrase', 'short');
+    fireEvent.click(screen.getByRole('button', { name: 'Create Vault' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('Use a passphrase of at least 12 characters');
+
+    typeInto('Passphrase', PASSPHRASE);
+    typeInto('Confirm passphrase', `${PASSPHRASE}!`);
+    fireEvent.click(screen.getByRole('button', { name: 'Create Vault' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('The passphrases do not match');
+  });
+
+  test('keeps profiles across lock and unlock', async () => {
+    await createVault();
+
+    typeInto('Profile name *', 'Me');
+    typeInto('Full legal name *', 'Jane Doe');
+    typeInto('Email', 'jane@example.com');
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+    expect(await screen.findByText('Jane Doe · jane@example.com')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Lock Vault' }));
+    expect(screen.queryByText('Jane Doe · jane@example.com')).not.toBeInTheDocument();
+
+    typeInto('Passphrase', 'not the passphrase');
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock Vault' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent(/wrong passphrase or signature/);
+
+    typeInto('Passphrase', PASSPHRASE);
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock Vault' }));
+    expect(await screen.findByText('Jane Doe · jane@example.com')).toBeInTheDocument();
+  });
+
+  test('validates profiles before saving them', async () => {
+    await createVault();
+
+    typeInto('Profile name *', 'Me');
+    typeInto('Email', 'jane@');
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+
+    expect(screen.getByText('Enter the full legal name')).toBeInTheDocument();
+    expect(screen.getByText('Enter a valid email address')).toBeInTheDocument();
+  });
+
+  test('moves commitment salts saved in the browser into the vault', async () => {
+    saveSubjectSalt(`0x${'cd'.repeat(32)}`, `0x${'11'.repeat(32)}`);
+
+    await createVault();
+
+    expect(await screen.findByText(/1 commitment salt\s+stored/)).toBeInTheDocument();
+    expect(window.localStorage.getItem(SUBJECT_SALT_STORAGE_KEY)).toBeNull();
+  });
+
+  test('locks itself after 15 minutes without activity', async () => {
+    await createVault();
+    // Let the auto-lock effect start, then re-arm it on the fake clock
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    jest.useFakeTimers();
+    fireEvent.keyDown(document.body);
+
+    act(() => {
+      jest.advanceTimersByTime(14 * 60 * 1000);
+    });
+    fireEvent.keyDown(document.body);
+    act(() => {
+      jest.advanceTimersByTime(14 * 60 * 1000);
+    });
+    expect(screen.getByRole('button', { name: 'Lock Vault' })).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+    expect(screen.getByRole('button', { name: 'Unlock Vault' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import { parseEther } from 'ethers/lib/utils';
+import { NETWORK_STORAGE_KEY } from '../../context/NetworkContext';
+import { getSimulation, resetSimulation, SIMULATED_ACCOUNTS } from '../../simulation';
+import { renderRoute } from '../../test-utils/render';
+import { resetThirdwebFixture } from '../../test-utils/thirdweb';
+
+jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+
+const [deployer] = SIMULATED_ACCOUNTS;
+const OTHER_VERIFIERS = ['0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', '0x90f79Bf6eB2C4F870365e96eFB6a8a4Db54c5f0a'];
+
+const send = (account: string, contract: string, method: string, args: unknown[]) => {
+  const { chain } = getSimulation();
+  chain.setAccount(account);
+  chain.send(contract, method, args);
+  chain.setAccount(deployer);
+};
+
+const registerVerifier = (account: string) => {
+  const { addresses } = getSimulation();
+  if (account !== deployer) send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'transfer', [account, parseEther('500')]);
+  send(account, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.VERIFIER_REGISTRY, parseEther('500')]);
+  send(account, addresses.VERIFIER_REGISTRY, 'registerVerifier', [parseEther('500'), 'Independent reviewer']);
+};
+
+// The deployer works seeded task #1 up to evidence, then opens a session the three verifiers are assigned to
+const startSession = async () => {
+  const { addresses, chain } = getSimulation();
+  send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.TASK_FACTORY, parseEther('100')]);
+  send(deployer, addresses.TASK_FACTORY, 'registerWorker', [parseEther('100'), 'Privacy paralegal']);
+  send(deployer, addresses.TASK_FACTORY, 'selfAssignToTask', [1]);
+  const taskAddress = await chain.getContract(addresses.TASK_FACTORY)!.call('tasks', [1]);
+  send(deployer, taskAddress, 'markRemovalRequested', ['Opt-out form sent']);
+  send(deployer, taskAddress, 'submitEvidence', ['bafkreievidence', 'Listing no longer shows']);
+
+  [deployer, ...OTHER_VERIFIERS].forEach(registerVerifier);
+  send(deployer, addresses.VERIFIER_REGISTRY, 'startVerificationSession', [1, taskAddress]);
+};
+
+describe('Verifier Page', () => {
+  let alertSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetThirdwebFixture();
+    resetSimulation();
+    window.localStorage.removeItem(NETWORK_STORAGE_KEY);
+    alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('explains when the registry is not deployed on the network', async () => {
+    renderRoute('/verifier', { wallet: { address: deployer } });
+
+    expect(await screen.findByText('The verifier registry is not deployed on Base Sepolia.')).toBeInTheDocument();
+  });
+
+  test('registers a verifier once the stake meets the minimum', async () => {
+    renderRoute('/verifier', { network: 'SIMULATED' });
+
+    fireEvent.change(await screen.findByLabelText(/Stake Amount/), { target: { value: '100' } });
+    fireEvent.change(screen.getByLabelText('Verifier Description'), { target: { value: 'Independent reviewer' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Register as Verifier' }));
+    expect(screen.getByText('Minimum is 500 RN')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/Stake Amount/), { target: { value: '500' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Register as Verifier' }));
+
+    await waitFor(() => expect(alertSpy).toHaveBeenCalledWith('Successfully registered as verifier! 🎉'));
+    expect(await screen.findByText('Registered')).toBeInTheDocument();
+    expect(screen.getByText('500.00 RN')).toBeInTheDocument();
+  });
+
+  test('shows an assigned session with its evidence and records a vote', async () => {
+    await startSession();
+    const { addresses } = getSimulation();
+    send(OTHER_VERIFIERS[0], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+    renderRoute('/verifier', { network: 'SIMULATED' });
+
+    expect(await screen.findByText('Listing no longer shows')).toBeInTheDocument();
+    expect(screen.getByText('1 of 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Approve' }));
+
+    expect(await screen.findByText('Approved')).toBeInTheDocument();
+    expect(screen.getByText('2 of 3')).toBeInTheDocument();
+    expect(screen.getByText(/Spokeo · Verified/)).toBeInTheDocument();
+  });
+
+  test('tracks rewards paid and the stake a dispute slashed', async () => {
+    await startSession();
+    const { addresses } = getSimulation();
+    send(deployer, addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+    send(OTHER_VERIFIERS[0], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+    send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.VERIFIER_REGISTRY, parseEther('100')]);
+    send(deployer, addresses.VERIFIER_REGISTRY, 'fundRewardPool', [parseEther('100')]);
+    send(deployer, addresses.VERIFIER_REGISTRY, 'distributeVerificationRewards', [1]);
+    send(deployer, addresses.VERIFIER_REGISTRY, 'handleDisputeResolution', [1, false]);
+    renderRoute('/verifier', { network: 'SIMULATED' });
+
+    expect(await screen.findByText('Slashed')).toBeInTheDocument();
+    expect(screen.getByText('5.00 RN')).toBeInTheDocument();
+    expect(screen.getByText('100.00 RN')).toBeInTheDocument();
+    expect(screen.getByText('400.00 RN')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Add Stake' })).not.toBeInTheDocument();
+  });
+});
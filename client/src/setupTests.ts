@@ -14,7 +14,8 @@ Object.defineProperty(global, 'crypto', {
       }
       return arr;
     },
-    subtle: {},
+    // Node's WebCrypto, for the vault's AES-GCM and key derivation
+    subtle: require('crypto').webcrypto.subtle,
   },
 });
 
@@ -0,0 +1,333 @@
+import type { SmartContract } from '@thirdweb-dev/sdk';
+import { parseEther } from 'ethers/lib/utils';
+import { DEPLOYMENTS } from '../../config/contracts';
+import {
+  createDexClient,
+  createDisputeResolutionClient,
+  createFactoryClient,
+  createRegistryClient,
+  createTaskClient,
+  createTokenClient,
+  createVerifierRegistryClient,
+} from '../../contracts/clients';
+import { decodeContractError } from '../../contracts/errors';
+import { trackTransaction } from '../../contracts/transactions';
+import { ContractErrorCode, DisputeDecision, DisputeStatus, TaskStatus } from '../../types/contracts';
+import { computeVoteCommitment } from '../../utils/voteCommitments';
+import { BLOCK_TIME, createSimulatedDeployment, GENESIS_TIMESTAMP, SIMULATED_ACCOUNTS, SimulatedDeployment } from '..';
+
+const DAY = 24 * 60 * 60;
+const [deployer, requester] = SIMULATED_ACCOUNTS;
+const VERIFIERS = [
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90f79Bf6eB2C4F870365e96eFB6a8a4Db54c5f0a',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+];
+
+const clientsFor = ({ chain, addresses }: SimulatedDeployment) => {
+  const contract = (address: string) => chain.getContract(address) as unknown as SmartContract;
+  return {
+    registry: createRegistryClient(contract(addresses.DATA_BROKER_REGISTRY)),
+    factory: createFactoryClient(contract(addresses.TASK_FACTORY)),
+    token: createTokenClient(contract(addresses.REMOVAL_NINJA_TOKEN)),
+    dex: createDexClient(contract(addresses.SIMPLE_DEX)),
+    verifierRegistry: createVerifierRegistryClient(contract(addresses.VERIFIER_REGISTRY)),
+    disputeResolution: createDisputeResolutionClient(contract(addresses.DISPUTE_RESOLUTION)),
+    task: async (taskId: number) =>
+      createTaskClient(contract(await createFactoryClient(contract(addresses.TASK_FACTORY)).getTaskAddress(taskId))),
+  };
+};
+
+const rejection = async (pending: Promise<unknown>) => {
+  try {
+    await pending;
+  } catch (error) {
+    return decodeContractError(error);
+  }
+  throw new Error('Expected the call to revert');
+};
+
+describe('simulated chain', () => {
+  let deployment: SimulatedDeployment;
+  let clients: ReturnType<typeof clientsFor>;
+
+  beforeEach(() => {
+    deployment = createSimulatedDeployment();
+    clients = clientsFor(deployment);
+  });
+
+  test('deploys to the addresses in the simulated manifest', () => {
+    const { contracts } = DEPLOYMENTS.SIMULATED;
+
+    expect(deployment.addresses).toEqual({
+      REMOVAL_NINJA_TOKEN: contracts.REMOVAL_NINJA_TOKEN.address,
+      DATA_BROKER_REGISTRY: contracts.DATA_BROKER_REGISTRY.address,
+      TASK_FACTORY: contracts.TASK_FACTORY.address,
+      SIMPLE_DEX: contracts.SIMPLE_DEX?.address,
+      VERIFIER_REGISTRY: contracts.VERIFIER_REGISTRY?.address,
+      DISPUTE_RESOLUTION: contracts.DISPUTE_RESOLUTION?.address,
+    });
+  });
+
+  test('seeds brokers, balances and open tasks', async () => {
+    expect(await clients.registry.getStats()).toEqual({ totalBrokers: 3, activeBrokers: 3 });
+    expect((await clients.registry.getBroker(1)).name).toBe('Spokeo');
+    expect(await clients.factory.getAvailableTasks()).toEqual([1, 2]);
+    expect(await clients.factory.getUserTasks(requester)).toEqual([1, 2]);
+    expect(await clients.token.balanceOf(deployer)).toBe(parseEther('499000').toString());
+    expect(await clients.dex.tokenReserves()).toBe(parseEther('500000').toString());
+    expect(deployment.chain.account()).toBe(deployer);
+  });
+
+  test('mines one block per transaction and more while waiting for confirmations', async () => {
+    const { chain } = deployment;
+    const start = chain.block();
+
+    const receipt = await trackTransaction(await clients.token.approve(deployment.addresses.TASK_FACTORY, '1'), undefined, 3);
+
+    expect(receipt.blockNumber).toBe(start.number + 1);
+    expect(chain.block()).toEqual({ number: start.number + 3, timestamp: start.timestamp + 3 * BLOCK_TIME });
+    expect(start.timestamp).toBe(GENESIS_TIMESTAMP + start.number * BLOCK_TIME);
+  });
+
+  test('creates a task with a deadline from the block it was mined in', async () => {
+    const payout = parseEther('25');
+    await clients.token.approve(deployment.addresses.TASK_FACTORY, payout);
+    const balance = BigInt(await clients.token.balanceOf(deployer));
+
+    const created = await (await clients.factory.createTask(3, `0x${'ab'.repeat(32)}`, payout, 7 * DAY)).wait();
+    const minedAt = deployment.chain.block().timestamp;
+
+    expect(created.status).toBe(1);
+    expect(await clients.factory.getUserTasks(deployer)).toEqual([3]);
+    expect(BigInt(await clients.token.balanceOf(deployer))).toBe(balance - payout.toBigInt());
+    expect(await (await clients.task(3)).getSummary()).toEqual({
+      id: 3,
+      broker: 3,
+      status: TaskStatus.Created,
+      worker: '0x0000000000000000000000000000000000000000',
+      payoutAmount: payout.toString(),
+      taskDeadline: minedAt + 7 * DAY,
+      evidenceCount: 0,
+      disputed: false,
+    });
+  });
+
+  test('reverts with the contract reasons the app decodes', async () => {
+    const { factory, registry } = clients;
+
+    expect((await rejection(factory.createTask(1, `0x${'00'.repeat(32)}`, parseEther('5'), 7 * DAY))).code).toBe(
+      ContractErrorCode.PayoutTooLow
+    );
+    expect((await rejection(factory.createTask(1, `0x${'00'.repeat(32)}`, parseEther('50'), 7 * DAY))).code).toBe(
+      ContractErrorCode.InsufficientAllowance
+    );
+
+    deployment.chain.setAccount(requester);
+    expect(
+      (await rejection(registry.addBroker({ name: 'X', website: 'https://x.com', removalLink: 'https://x.com/optout', contact: 'a@x.com', weight: 100 }))).code
+    ).toBe(ContractErrorCode.Unauthorized);
+  });
+
+  test('registers a worker who takes an open task', async () => {
+    const { factory, token } = clients;
+    await token.approve(deployment.addresses.TASK_FACTORY, parseEther('100'));
+    await factory.registerWorker(parseEther('100'), 'Privacy paralegal');
+
+    await factory.selfAssignToTask(1);
+
+    expect(await factory.getAvailableTasks()).toEqual([2]);
+    expect(await factory.getWorkerTasks(deployer)).toEqual([1]);
+    expect((await factory.getWorker(deployer)).reputation).toBe(100);
+    expect((await rejection(factory.selfAssignToTask(1))).code).toBe(ContractErrorCode.TaskUnavailable);
+  });
+
+  test('lets the assigned worker drive a task up to evidence', async () => {
+    const { factory, token } = clients;
+    await token.approve(deployment.addresses.TASK_FACTORY, parseEther('100'));
+    await factory.registerWorker(parseEther('100'), 'Privacy paralegal');
+    await factory.selfAssignToTask(1);
+    const task = await clients.task(1);
+
+    expect((await rejection(task.markBrokerResponded('Too early'))).message).toBe(
+      'The task is not in a state that allows this step.'
+    );
+    await task.markRemovalRequested('Opt-out form sent');
+    await task.markBrokerResponded('Broker confirmed by email');
+    await task.submitEvidence('bafkreievidence', 'Listing no longer shows');
+
+    const details = await task.getTask();
+    expect(details.currentStatus).toBe(TaskStatus.Responded);
+    expect(details.requestedAt).toBeLessThan(details.respondedAt!);
+    expect(await task.getAllEvidence()).toEqual([
+      expect.objectContaining({ evidenceCid: 'bafkreievidence', summary: 'Listing no longer shows', submitter: deployer }),
+    ]);
+
+    deployment.chain.setAccount(requester);
+    expect((await rejection(task.submitEvidence('bafkreiother', 'Not mine'))).code).toBe(ContractErrorCode.NotAssigned);
+  });
+
+  test('advances block time for deadline checks', async () => {
+    const taskAddress = await clients.factory.getTaskAddress(2);
+    const task = deployment.chain.getContract(taskAddress)!;
+    const { taskDeadline } = await (await clients.task(2)).getSummary();
+
+    deployment.chain.advanceTime(taskDeadline - deployment.chain.block().timestamp + 1);
+
+    expect(await task.call('isPastDeadline')).toBe(true);
+    expect((await task.call('getTimeRemaining')).toNumber()).toBe(0);
+  });
+
+  test('refunds the creator once the deadline has passed', async () => {
+    const task = await clients.task(2);
+    deployment.chain.setAccount(requester);
+    const balance = BigInt(await clients.token.balanceOf(requester));
+
+    expect((await rejection(task.refund())).message).toBe('This task cannot be refunded yet.');
+
+    deployment.chain.advanceTime(15 * DAY);
+    await task.refund();
+
+    expect((await task.getTask()).currentStatus).toBe(TaskStatus.Refunded);
+    expect(BigInt(await clients.token.balanceOf(requester))).toBe(balance + parseEther('50').toBigInt());
+    expect((await rejection(task.refund())).message).toBe('This task has already been refunded.');
+  });
+
+  test('sells tokens from the DEX pool for ETH', async () => {
+    const { chain } = deployment;
+    const ethIn = parseEther('0.01');
+    const expected = await clients.dex.getAmountOut(ethIn, true);
+    const tokensBefore = BigInt(await clients.token.balanceOf(deployer));
+    const ethBefore = chain.getBalance(deployer);
+
+    await clients.dex.buyTokens(ethIn);
+
+    expect(BigInt(await clients.token.balanceOf(deployer))).toBe(tokensBefore + BigInt(expected));
+    expect(chain.getBalance(deployer)).toBe(ethBefore - ethIn.toBigInt());
+    expect(await clients.dex.ethReserves()).toBe(parseEther('1.01').toString());
+  });
+
+  test('verifies a task once the assigned verifiers approve it', async () => {
+    const { chain, addresses } = deployment;
+    const { factory, token, verifierRegistry } = clients;
+    await token.approve(addresses.TASK_FACTORY, parseEther('100'));
+    await factory.registerWorker(parseEther('100'), 'Privacy paralegal');
+    await factory.selfAssignToTask(1);
+    const task = await clients.task(1);
+    await task.markRemovalRequested('Opt-out form sent');
+    await task.submitEvidence('bafkreievidence', 'Listing no longer shows');
+
+    for (const verifier of VERIFIERS) {
+      chain.setAccount(deployer);
+      await token.transfer(verifier, parseEther('500'));
+      chain.setAccount(verifier);
+      await token.approve(addresses.VERIFIER_REGISTRY, parseEther('500'));
+      await verifierRegistry.registerVerifier(parseEther('500'), 'Independent reviewer');
+    }
+    expect((await rejection(verifierRegistry.castVerificationVote(1, true))).message).toBe(
+      'There is no verification session for that task.'
+    );
+    chain.setAccount(deployer);
+    chain.send(addresses.VERIFIER_REGISTRY, 'startVerificationSession', [1, await factory.getTaskAddress(1)]);
+
+    expect(await verifierRegistry.getVerifierTasks(VERIFIERS[0])).toEqual([1]);
+    chain.setAccount(VERIFIERS[0]);
+    await verifierRegistry.castVerificationVote(1, true);
+    expect((await rejection(verifierRegistry.castVerificationVote(1, true))).code).toBe(ContractErrorCode.AlreadyVoted);
+    chain.setAccount(VERIFIERS[1]);
+    await verifierRegistry.castVerificationVote(1, true);
+
+    expect(await verifierRegistry.getVerificationSession(1)).toEqual(
+      expect.objectContaining({ votesFor: 2, totalVotes: 2, isCompleted: true, isApproved: true })
+    );
+    expect((await task.getTask()).currentStatus).toBe(TaskStatus.Verified);
+    chain.setAccount(VERIFIERS[2]);
+    expect((await rejection(verifierRegistry.castVerificationVote(1, false))).code).toBe(
+      ContractErrorCode.VerificationClosed
+    );
+  });
+
+  test('overrides a verification once the arbitrators reveal their votes', async () => {
+    const { chain, addresses } = deployment;
+    const { disputeResolution, factory, token, verifierRegistry } = clients;
+    const send = (account: string, contract: string, method: string, args: unknown[]) => {
+      chain.setAccount(account);
+      chain.send(contract, method, args);
+    };
+    send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.TASK_FACTORY, parseEther('100')]);
+    send(deployer, addresses.TASK_FACTORY, 'registerWorker', [parseEther('100'), 'Privacy paralegal']);
+    send(deployer, addresses.TASK_FACTORY, 'selfAssignToTask', [1]);
+    const taskAddress = await factory.getTaskAddress(1);
+    send(deployer, taskAddress, 'markRemovalRequested', ['Opt-out form sent']);
+    send(deployer, taskAddress, 'submitEvidence', ['bafkreievidence', 'Listing no longer shows']);
+    for (const account of VERIFIERS) {
+      send(deployer, addresses.REMOVAL_NINJA_TOKEN, 'transfer', [account, parseEther('1500')]);
+      send(account, addresses.REMOVAL_NINJA_TOKEN, 'approve', [addresses.VERIFIER_REGISTRY, parseEther('500')]);
+      send(account, addresses.VERIFIER_REGISTRY, 'registerVerifier', [parseEther('500'), 'Independent reviewer']);
+    }
+    send(deployer, addresses.VERIFIER_REGISTRY, 'startVerificationSession', [1, taskAddress]);
+    send(VERIFIERS[0], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+    send(VERIFIERS[1], addresses.VERIFIER_REGISTRY, 'castVerificationVote', [1, true]);
+
+    chain.setAccount(deployer);
+    await token.approve(addresses.DISPUTE_RESOLUTION, parseEther('50'));
+    expect((await rejection(disputeResolution.createDispute(1, taskAddress, parseEther('50'), 'Still listed', ''))).code).toBe(
+      ContractErrorCode.Reverted
+    );
+    for (const account of VERIFIERS) {
+      chain.setAccount(account);
+      await token.approve(addresses.DISPUTE_RESOLUTION, parseEther('1000'));
+      await disputeResolution.registerArbitrator(parseEther('1000'), 'Privacy lawyer');
+    }
+    chain.setAccount(deployer);
+    const bondBefore = BigInt(await token.balanceOf(deployer));
+    await disputeResolution.createDispute(1, taskAddress, parseEther('50'), 'Still listed', 'bafkreirecheck');
+    expect(BigInt(await token.balanceOf(deployer))).toBe(bondBefore - parseEther('50').toBigInt());
+
+    const dispute = await disputeResolution.getDispute(1);
+    expect(dispute).toEqual(
+      expect.objectContaining({ taskId: 1, taskContract: taskAddress, evidenceCid: 'bafkreirecheck', status: DisputeStatus.Voting })
+    );
+    expect([...dispute.assignedArbitrators].sort()).toEqual([...VERIFIERS].sort());
+
+    const votes = VERIFIERS.map((_, index) => ({ vote: index === 2, reason: `Vote ${index}`, salt: `${index + 7}` }));
+    for (let index = 0; index < VERIFIERS.length; index++) {
+      chain.setAccount(VERIFIERS[index]);
+      await disputeResolution.commitVote(1, computeVoteCommitment(votes[index]));
+    }
+    expect((await disputeResolution.getDispute(1)).status).toBe(DisputeStatus.Revealing);
+    expect((await rejection(disputeResolution.revealVote(1, true, 'Vote 2', '8'))).code).toBe(
+      ContractErrorCode.InvalidReveal
+    );
+    for (let index = 0; index < VERIFIERS.length; index++) {
+      chain.setAccount(VERIFIERS[index]);
+      const { vote, reason, salt } = votes[index];
+      await disputeResolution.revealVote(1, vote, reason, salt);
+    }
+
+    expect(await disputeResolution.getDispute(1)).toEqual(
+      expect.objectContaining({
+        status: DisputeStatus.Resolved,
+        decision: DisputeDecision.OverrideOriginal,
+        votesForOriginal: 1,
+        votesForOverride: 2,
+        bondReturned: true,
+      })
+    );
+    expect(BigInt(await token.balanceOf(deployer))).toBe(bondBefore);
+    expect((await verifierRegistry.getVerifier(VERIFIERS[0])).isSlashed).toBe(true);
+    expect((await disputeResolution.getArbitrator(VERIFIERS[0])).correctDecisions).toBe(1);
+    expect((await disputeResolution.getArbitrator(VERIFIERS[2])).correctDecisions).toBe(0);
+    expect((await clients.registry.getBroker(1)).totalDisputes).toBe(1);
+
+    const history = await clients.registry.getBrokerHistory(1, 0);
+    expect(history.map(({ kind, total }) => [kind, total])).toEqual([
+      ['dispute', 1],
+      ['removal', 1],
+    ]);
+    expect(history[0].blockNumber).toBeGreaterThan(history[1].blockNumber);
+    expect(await clients.registry.getBrokerHistory(2, 0)).toEqual([]);
+    expect(await clients.registry.getBrokerHistory(1, history[0].blockNumber)).toHaveLength(1);
+    expect(await clients.registry.getBrokerHistory(1, history[0].blockNumber + 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+// In-process stand-in for a local node: accounts, blocks and contract state live in
+// memory, and contracts answer the same call/prepare interface as thirdweb's SmartContract
+import { BigNumber } from 'ethers';
+import type { BigNumberish, CallOverrides, ContractReceipt, ContractTransaction } from 'ethers';
+import { getAddress, getContractAddress, Interface, keccak256, toUtf8Bytes } from 'ethers/lib/utils';
+import type { AbiEntry } from '../contracts/abis';
+
+// 2025-01-01T00:00:00Z; every block after genesis lands exactly BLOCK_TIME seconds later
+export const GENESIS_TIMESTAMP = 1735689600;
+export const BLOCK_TIME = 12;
+
+export interface SimulatedBlock {
+  number: number;
+  timestamp: number;
+}
+
+// What a contract function sees: msg.sender, msg.value and block.timestamp
+export interface CallContext {
+  sender: string;
+  value: bigint;
+  timestamp: number;
+}
+
+type Handler = (args: any[], context: CallContext) => unknown;
+
+/**
+ * Function handlers for one contract. Write handlers must run every check
+ * before changing state, since a revert does not roll anything back.
+ */
+export interface ContractBehaviour {
+  views: Record<string, Handler>;
+  writes: Record<string, Handler>;
+}
+
+// An emitted event, shaped like thirdweb's ContractEvent
+export interface SimulatedEvent {
+  eventName: string;
+  data: Record<string, any>;
+  transaction: { blockNumber: number; transactionHash: string; logIndex: number };
+}
+
+// thirdweb's EventQueryOptions; filters match indexed arguments by value
+export interface SimulatedEventQuery {
+  fromBlock?: number;
+  toBlock?: number;
+  filters?: Record<string, unknown>;
+  order?: 'asc' | 'desc';
+}
+
+// The subset of thirdweb's SmartContract the typed clients and useContractRead use
+export interface SimulatedContract {
+  getAddress: () => string;
+  events: { getEvents: (eventName: string, options?: SimulatedEventQuery) => Promise<SimulatedEvent[]> };
+  call: (method: string, args?: unknown[], overrides?: CallOverrides) => Promise<any>;
+  prepare: (
+    method: string,
+    args?: unknown[],
+    overrides?: CallOverrides
+  ) => { send: () => Promise<ContractTransaction> };
+}
+
+export interface SimulatedChain {
+  chainId: number;
+  account: () => string;
+  setAccount: (account: string) => void;
+  block: () => SimulatedBlock;
+  mine: (blocks?: number) => SimulatedBlock;
+  advanceTime: (seconds: number) => SimulatedBlock;
+  getBalance: (address: string) => bigint;
+  setBalance: (address: string, balance: bigint) => void;
+  deploy: (from: string, behaviour: ContractBehaviour) => string;
+  send: (address: string, method: string, args?: unknown[], overrides?: CallOverrides) => ContractTransaction;
+  // Logs an event from `address` in the transaction being sent; dropped if it reverts
+  emit: (address: string, eventName: string, data: Record<string, unknown>) => void;
+  getContract: (address: string) => SimulatedContract | undefined;
+}
+
+const ERROR_STRING = new Interface(['function Error(string)']);
+
+// Shaped like the CALL_EXCEPTION ethers raises for a reverted call or gas estimate
+const revertError = (message: string, data: string, reason?: string) =>
+  Object.assign(new Error(message), { code: 'CALL_EXCEPTION', reason, data });
+
+// require(condition, reason)
+export const revert = (reason: string): never => {
+  throw revertError(`execution reverted: ${reason}`, ERROR_STRING.encodeFunctionData('Error', [reason]), reason);
+};
+
+// revert CustomError(args), encoded with the contract's ABI
+export const revertWith = (abi: AbiEntry[], name: string, args: unknown[] = []): never => {
+  const data = new Interface(abi as any[]).encodeErrorResult(name, args);
+  throw revertError(`execution reverted (custom error ${name})`, data);
+};
+
+export const toBigInt = (value: BigNumberish): bigint => BigInt(BigNumber.from(value).toString());
+
+export const toAddress = (value: string): string => getAddress(value);
+
+// Return values reach the decoders as ethers would hand them over: uints as BigNumber
+const toResult = (value: unknown): unknown => {
+  if (typeof value === 'bigint') return BigNumber.from(value.toString());
+  if (Array.isArray(value)) return value.map(toResult);
+  if (value && typeof value === 'object' && !BigNumber.isBigNumber(value)) {
+    return Object.keys(value).reduce<Record<string, unknown>>((result, key) => {
+      result[key] = toResult((value as Record<string, unknown>)[key]);
+      return result;
+    }, {});
+  }
+  return value;
+};
+
+export const createSimulatedChain = (chainId: number, account: string): SimulatedChain => {
+  const blocks: SimulatedBlock[] = [{ number: 0, timestamp: GENESIS_TIMESTAMP }];
+  const balances = new Map<string, bigint>();
+  const nonces = new Map<string, number>();
+  const behaviours = new Map<string, ContractBehaviour>();
+  const contracts = new Map<string, SimulatedContract>();
+  const logs: (SimulatedEvent & { address: string })[] = [];
+  let pendingEvents: { address: string; eventName: string; data: Record<string, unknown> }[] = [];
+  let currentAccount = toAddress(account);
+  let transactionCount = 0;
+
+  const block = () => blocks[blocks.length - 1];
+
+  const mineAt = (timestamp: number): SimulatedBlock => {
+    const next = { number: block().number + 1, timestamp };
+    blocks.push(next);
+    return next;
+  };
+
+  const mine = (count = 1): SimulatedBlock => {
+    for (let i = 0; i < count; i++) mineAt(block().timestamp + BLOCK_TIME);
+    return block();
+  };
+
+  // Like evm_increaseTime followed by evm_mine
+  const advanceTime = (seconds: number): SimulatedBlock => mineAt(block().timestamp + seconds);
+
+  const getBalance = (address: string) => balances.get(toAddress(address)) ?? BigInt(0);
+
+  const setBalance = (address: string, balance: bigint) => {
+    balances.set(toAddress(address), balance);
+  };
+
+  const nextNonce = (address: string) => {
+    const nonce = nonces.get(address) ?? 0;
+    nonces.set(address, nonce + 1);
+    return nonce;
+  };
+
+  const send = (
+    to: string,
+    method: string,
+    args: unknown[] = [],
+    overrides?: CallOverrides
+  ): ContractTransaction => {
+    const address = toAddress(to);
+    const handler = behaviours.get(address)?.writes[method];
+    if (!handler) throw new Error(`Function "${method}" is not a write function of ${address}`);
+
+    const sender = currentAccount;
+    const value = overrides?.value ? toBigInt(overrides.value as BigNumberish) : BigInt(0);
+    if (getBalance(sender) < value) {
+      throw Object.assign(new Error('insufficient funds for intrinsic transaction cost'), { code: 'INSUFFICIENT_FUNDS' });
+    }
+
+    pendingEvents = [];
+    handler(args, { sender, value, timestamp: block().timestamp + BLOCK_TIME });
+    setBalance(sender, getBalance(sender) - value);
+    setBalance(address, getBalance(address) + value);
+
+    const nonce = nextNonce(sender);
+    const mined = mine();
+    const hash = keccak256(toUtf8Bytes(`${chainId}:${transactionCount++}`));
+    pendingEvents.forEach(({ address: emitter, eventName, data }, logIndex) => {
+      logs.push({
+        address: emitter,
+        eventName,
+        data: toResult(data) as Record<string, any>,
+        transaction: { blockNumber: mined.number, transactionHash: hash, logIndex },
+      });
+    });
+    pendingEvents = [];
+    const receipt = {
+      to: address,
+      from: sender,
+      contractAddress: '',
+      transactionIndex: 0,
+      gasUsed: BigNumber.from(0),
+      logsBloom: '0x',
+      blockHash: keccak256(toUtf8Bytes(`${chainId}:block:${mined.number}`)),
+      transactionHash: hash,
+      logs: [],
+      events: [],
+      blockNumber: mined.number,
+      confirmations: 1,
+      cumulativeGasUsed: BigNumber.from(0),
+      effectiveGasPrice: BigNumber.from(0),
+      byzantium: true,
+      type: 2,
+      status: 1,
+    } as ContractReceipt;
+
+    return {
+      hash,
+      to: address,
+      from: sender,
+      nonce,
+      gasLimit: BigNumber.from(0),
+      data: '0x',
+      value: BigNumber.from(value.toString()),
+      chainId,
+      confirmations: 0,
+      // Nothing else produces blocks, so waiting for confirmations mines them
+      wait: async (confirmations = 1) => {
+        const target = mined.number + confirmations - 1;
+        if (block().number < target) mine(target - block().number);
+        return { ...receipt, confirmations: block().number - mined.number + 1 };
+      },
+    } as ContractTransaction;
+  };
+
+  const emit = (address: string, eventName: string, data: Record<string, unknown>) => {
+    pendingEvents.push({ address: toAddress(address), eventName, data });
+  };
+
+  const matchesFilters = (event: SimulatedEvent, filters: Record<string, unknown> = {}) =>
+    Object.keys(filters).every((key) => String(event.data[key]) === String(filters[key]));
+
+  const bind = (address: string, behaviour: ContractBehaviour): SimulatedContract => ({
+    getAddress: () => address,
+    events: {
+      getEvents: async (eventName, { fromBlock = 0, toBlock = Infinity, filters, order = 'desc' } = {}) => {
+        const events = logs
+          .filter(
+            (log) =>
+              log.address === address &&
+              log.eventName === eventName &&
+              log.transaction.blockNumber >= fromBlock &&
+              log.transaction.blockNumber <= toBlock &&
+              matchesFilters(log, filters)
+          )
+          .map(({ eventName: name, data, transaction }) => ({ eventName: name, data, transaction }));
+        return order === 'desc' ? events.reverse() : events;
+      },
+    },
+    call: async (method, args = []) => {
+      const handler = behaviour.views[method];
+      if (!handler) throw new Error(`Function "${method}" is not a view function of ${address}`);
+      return toResult(handler(args, { sender: currentAccount, value: BigInt(0), timestamp: block().timestamp }));
+    },
+    prepare: (method, args = [], overrides) => ({
+      send: async () => send(address, method, args, overrides),
+    }),
+  });
+
+  const deploy = (from: string, behaviour: ContractBehaviour): string => {
+    const deployer = toAddress(from);
+    const address = getContractAddress({ from: deployer, nonce: nextNonce(deployer) });
+    behaviours.set(address, behaviour);
+    contracts.set(address, bind(address, behaviour));
+    return address;
+  };
+
+  return {
+    chainId,
+    account: () => currentAccount,
+    setAccount: (next) => {
+      currentAccount = toAddress(next);
+    },
+    block,
+    mine,
+    advanceTime,
+    getBalance,
+    setBalance,
+    deploy,
+    send,
+    emit,
+    getContract: (address) => contracts.get(toAddress(address)),
+  };
+};
+
@@ -0,0 +1,1210 @@
+// In-memory versions of the deployed contracts, following the Solidity sources'
+// checks and revert reasons so the app sees the same failures as on a real node
+import type { BigNumberish } from 'ethers';
+import { defaultAbiCoder, keccak256, solidityKeccak256 } from 'ethers/lib/utils';
+import { REGISTRY_ABI, TOKEN_ABI } from '../contracts/abis';
+import { DisputeDecision, DisputeStatus, TaskStatus } from '../types/contracts';
+import { ContractBehaviour, revert, revertWith, SimulatedChain, toAddress, toBigInt } from './chain';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const WEI = BigInt('1000000000000000000');
+const DAY = 24 * 60 * 60;
+
+// ============ RemovalNinja Token ============
+
+export interface SimulatedToken {
+  address: string;
+  balanceOf: (owner: string) => bigint;
+  transfer: (from: string, to: string, amount: bigint) => void;
+  transferFrom: (spender: string, from: string, to: string, amount: bigint) => void;
+}
+
+export const deploySimulatedToken = (chain: SimulatedChain, owner: string): SimulatedToken => {
+  const balances = new Map<string, bigint>([[toAddress(owner), BigInt(1000000) * WEI]]);
+  const allowances = new Map<string, bigint>();
+  const totalSupply = BigInt(1000000) * WEI;
+
+  const balanceOf = (holder: string) => balances.get(toAddress(holder)) ?? BigInt(0);
+  const allowanceKey = (holder: string, spender: string) => `${toAddress(holder)}:${toAddress(spender)}`;
+  const allowance = (holder: string, spender: string) => allowances.get(allowanceKey(holder, spender)) ?? BigInt(0);
+
+  const transfer = (from: string, to: string, amount: bigint) => {
+    const balance = balanceOf(from);
+    if (balance < amount) revertWith(TOKEN_ABI, 'ERC20InsufficientBalance', [from, balance, amount]);
+    balances.set(toAddress(from), balance - amount);
+    balances.set(toAddress(to), balanceOf(to) + amount);
+  };
+
+  const transferFrom = (spender: string, from: string, to: string, amount: bigint) => {
+    const allowed = allowance(from, spender);
+    if (allowed < amount) revertWith(TOKEN_ABI, 'ERC20InsufficientAllowance', [spender, allowed, amount]);
+    transfer(from, to, amount);
+    allowances.set(allowanceKey(from, spender), allowed - amount);
+  };
+
+  const address = chain.deploy(owner, {
+    views: {
+      name: () => 'RemovalNinja',
+      symbol: () => 'RN',
+      decimals: () => 18,
+      totalSupply: () => totalSupply,
+      balanceOf: ([holder]) => balanceOf(holder),
+      allowance: ([holder, spender]) => allowance(holder, spender),
+    },
+    writes: {
+      approve: ([spender, amount], { sender }) => {
+        allowances.set(allowanceKey(sender, spender), toBigInt(amount));
+        return true;
+      },
+      transfer: ([to, amount], { sender }) => {
+        transfer(sender, to, toBigInt(amount));
+        return true;
+      },
+      transferFrom: ([from, to, amount], { sender }) => {
+        transferFrom(sender, from, to, toBigInt(amount));
+        return true;
+      },
+    },
+  });
+
+  return { address, balanceOf, transfer, transferFrom };
+};
+
+// ============ Data Broker Registry ============
+
+interface BrokerRecord {
+  id: bigint;
+  name: string;
+  website: string;
+  removalLink: string;
+  contact: string;
+  weight: bigint;
+  isActive: boolean;
+  totalRemovals: bigint;
+  totalDisputes: bigint;
+}
+
+export interface SimulatedRegistry {
+  address: string;
+  getBrokerWeightAndStatus: (brokerId: BigNumberish) => { weight: bigint; isActive: boolean };
+  // DataBrokerRegistry.recordDispute, which the dispute resolution contract calls
+  recordDispute: (brokerId: BigNumberish) => void;
+  // DataBrokerRegistry.recordRemovalCompleted, which the factory calls once a task is verified
+  recordRemovalCompleted: (brokerId: BigNumberish) => void;
+}
+
+export const deploySimulatedRegistry = (chain: SimulatedChain, owner: string): SimulatedRegistry => {
+  const brokers = new Map<number, BrokerRecord>();
+  let nextBrokerId = 1;
+  let totalActiveBrokers = 0;
+
+  const brokerAt = (brokerId: BigNumberish): BrokerRecord => {
+    const broker = brokers.get(Number(toBigInt(brokerId)));
+    if (!broker) return revert('Invalid broker ID');
+    return broker;
+  };
+
+  const onlyOwner = (sender: string) => {
+    if (sender !== toAddress(owner)) revertWith(REGISTRY_ABI, 'OwnableUnauthorizedAccount', [sender]);
+  };
+
+  const emptyBroker = (): BrokerRecord => ({
+    id: BigInt(0),
+    name: '',
+    website: '',
+    removalLink: '',
+    contact: '',
+    weight: BigInt(0),
+    isActive: false,
+    totalRemovals: BigInt(0),
+    totalDisputes: BigInt(0),
+  });
+
+  // Unrestricted in DataBrokerRegistryUltraSimple, as here
+  const recordRemovalCompleted = (brokerId: BigNumberish) => {
+    const broker = brokerAt(brokerId);
+    broker.totalRemovals += BigInt(1);
+    chain.emit(address, 'RemovalCompleted', { brokerId: broker.id, totalRemovals: broker.totalRemovals });
+  };
+
+  const recordDispute = (brokerId: BigNumberish) => {
+    const broker = brokerAt(brokerId);
+    broker.totalDisputes += BigInt(1);
+    chain.emit(address, 'DisputeRecorded', { brokerId: broker.id, totalDisputes: broker.totalDisputes });
+  };
+
+  const address = chain.deploy(owner, {
+    views: {
+      nextBrokerId: () => BigInt(nextBrokerId),
+      totalActiveBrokers: () => BigInt(totalActiveBrokers),
+      // Public mappings return the zero value for unknown keys rather than reverting
+      brokers: ([brokerId]) => brokers.get(Number(toBigInt(brokerId))) ?? emptyBroker(),
+      getBrokerWeightAndStatus: ([brokerId]) => {
+        const { weight, isActive } = brokerAt(brokerId);
+        return { weight, isActive };
+      },
+      getStats: () => ({ totalBrokers: BigInt(nextBrokerId - 1), activeBrokers: BigInt(totalActiveBrokers) }),
+    },
+    writes: {
+      addBroker: ([name, website, removalLink, contact, weight], { sender }) => {
+        onlyOwner(sender);
+        const id = nextBrokerId++;
+        brokers.set(id, {
+          id: BigInt(id),
+          name,
+          website,
+          removalLink,
+          contact,
+          weight: toBigInt(weight),
+          isActive: true,
+          totalRemovals: BigInt(0),
+          totalDisputes: BigInt(0),
+        });
+        totalActiveBrokers++;
+        chain.emit(address, 'BrokerAdded', { brokerId: BigInt(id), name, weight: toBigInt(weight) });
+        return BigInt(id);
+      },
+      deactivateBroker: ([brokerId], { sender }) => {
+        onlyOwner(sender);
+        const broker = brokerAt(brokerId);
+        if (!broker.isActive) revert('Already deactivated');
+        broker.isActive = false;
+        totalActiveBrokers--;
+      },
+      recordRemovalCompleted: ([brokerId]) => recordRemovalCompleted(brokerId),
+      recordDispute: ([brokerId]) => recordDispute(brokerId),
+    },
+  });
+
+  return {
+    address,
+    getBrokerWeightAndStatus: (brokerId) => {
+      const { weight, isActive } = brokerAt(brokerId);
+      return { weight, isActive };
+    },
+    recordDispute,
+    recordRemovalCompleted,
+  };
+};
+
+// ============ Removal Task ============
+
+interface EvidenceRecord {
+  evidenceCid: string;
+  summary: string;
+  timestamp: bigint;
+  submitter: string;
+}
+
+interface TaskRecord {
+  address: string;
+  id: number;
+  brokerId: bigint;
+  subjectCommit: string;
+  creator: string;
+  payout: bigint;
+  weight: bigint;
+  createdAt: number;
+  requestedAt: number;
+  respondedAt: number;
+  completedAt: number;
+  verificationDeadline: number;
+  deadline: number;
+  status: TaskStatus;
+  worker: string;
+  evidence: EvidenceRecord[];
+  disputed: boolean;
+  disputeInitiator: string;
+  disputeBond: bigint;
+  disputeReason: string;
+}
+
+// The factory keeps the escrowed payout, so refunds are paid from `escrow`
+const taskBehaviour = (task: TaskRecord, token: SimulatedToken, escrow: string): ContractBehaviour => {
+  const isWorker = (sender: string) => task.worker !== ZERO_ADDRESS && toAddress(sender) === toAddress(task.worker);
+  const onlyAssignedWorker = (sender: string) => {
+    if (!isWorker(sender)) revert('Only assigned worker can call');
+  };
+  const inStatus = (status: TaskStatus) => {
+    if (task.status !== status) revert('Invalid status for this operation');
+  };
+  const beforeDeadline = (timestamp: number) => {
+    if (timestamp > task.deadline) revert('Task deadline has passed');
+  };
+
+  return {
+    views: {
+      taskId: () => BigInt(task.id),
+      brokerId: () => task.brokerId,
+      subjectCommit: () => task.subjectCommit,
+      creator: () => task.creator,
+      payout: () => task.payout,
+      weight: () => task.weight,
+      createdAt: () => BigInt(task.createdAt),
+      requestedAt: () => BigInt(task.requestedAt),
+      respondedAt: () => BigInt(task.respondedAt),
+      completedAt: () => BigInt(task.completedAt),
+      verificationDeadline: () => BigInt(task.verificationDeadline),
+      deadline: () => BigInt(task.deadline),
+      currentStatus: () => task.status,
+      assignedWorker: () => task.worker,
+      isDisputed: () => task.disputed,
+      isInDisputeWindow: (_args, { timestamp }) =>
+        task.status === TaskStatus.Verified && timestamp <= task.verificationDeadline,
+      isPastDeadline: (_args, { timestamp }) => timestamp > task.deadline,
+      getTimeRemaining: (_args, { timestamp }) => BigInt(Math.max(task.deadline - timestamp, 0)),
+      getTaskSummary: () => ({
+        id: BigInt(task.id),
+        broker: task.brokerId,
+        status: task.status,
+        worker: task.worker,
+        payoutAmount: task.payout,
+        taskDeadline: BigInt(task.deadline),
+        evidenceCount: BigInt(task.evidence.length),
+        disputed: task.disputed,
+      }),
+      getAllEvidence: () => task.evidence,
+      getDisputeInfo: () => ({
+        disputed: task.disputed,
+        initiator: task.disputeInitiator,
+        bond: task.disputeBond,
+        reason: task.disputeReason,
+        deadline_: BigInt(task.verificationDeadline),
+      }),
+    },
+    writes: {
+      markRemovalRequested: (_args, { sender, timestamp }) => {
+        onlyAssignedWorker(sender);
+        inStatus(TaskStatus.Created);
+        beforeDeadline(timestamp);
+        task.status = TaskStatus.Requested;
+        task.requestedAt = timestamp;
+      },
+      markBrokerResponded: (_args, { sender, timestamp }) => {
+        onlyAssignedWorker(sender);
+        inStatus(TaskStatus.Requested);
+        beforeDeadline(timestamp);
+        task.status = TaskStatus.Responded;
+        task.respondedAt = timestamp;
+      },
+      submitEvidence: ([evidenceCid, summary], { sender, timestamp }) => {
+        beforeDeadline(timestamp);
+        if (!isWorker(sender)) revert('Only worker or verifier can submit evidence');
+        if (task.status !== TaskStatus.Requested && task.status !== TaskStatus.Responded) {
+          revert('Invalid status for evidence submission');
+        }
+        if (!String(evidenceCid).length) revert('Evidence CID cannot be empty');
+        task.evidence.push({ evidenceCid, summary, timestamp: BigInt(timestamp), submitter: sender });
+        return BigInt(task.evidence.length - 1);
+      },
+      markFailed: (_args, { sender, timestamp }) => {
+        const authorized = [task.worker, task.creator, escrow].some(
+          (account) => account !== ZERO_ADDRESS && toAddress(account) === toAddress(sender)
+        );
+        if (!authorized) revert('Not authorized to mark failed');
+        const failable = task.status === TaskStatus.Created || task.status === TaskStatus.Requested;
+        if (timestamp <= task.deadline && !failable) revert('Cannot mark as failed in current state');
+        task.status = TaskStatus.Failed;
+      },
+      refund: (_args, { timestamp }) => {
+        const pastDeadline = timestamp > task.deadline && task.status !== TaskStatus.Verified;
+        if (task.status !== TaskStatus.Failed && !pastDeadline) revert('Task not eligible for refund');
+        if (task.status === TaskStatus.Refunded) revert('Already refunded');
+
+        task.status = TaskStatus.Refunded;
+        token.transfer(escrow, task.creator, task.disputed ? task.payout + task.disputeBond : task.payout);
+      },
+    },
+  };
+};
+
+// ============ Task Factory ============
+
+interface WorkerRecord {
+  isRegistered: boolean;
+  stake: bigint;
+  completedTasks: bigint;
+  successRate: bigint;
+  reputation: bigint;
+  description: string;
+  isSlashed: boolean;
+}
+
+const MIN_PAYOUT = BigInt(10) * WEI;
+const MIN_WORKER_STAKE = BigInt(100) * WEI;
+
+export interface SimulatedTaskState {
+  taskId: number;
+  brokerId: bigint;
+  status: TaskStatus;
+  verificationDeadline: number;
+}
+
+export interface SimulatedFactory {
+  address: string;
+  // What other contracts read from the task at `taskContract`, if the factory created it
+  getTaskState: (taskContract: string) => SimulatedTaskState | undefined;
+  // RemovalTask.verifyCompletion on the task at `taskContract`, as the verifier registry calls it
+  verifyCompletion: (taskContract: string, timestamp: number) => void;
+}
+
+/**
+ * RemovalTaskFactoryUltraSimple plus the worker functions of the archived
+ * RemovalTaskFactorySimple that the app's factory ABI includes. Unlike the
+ * ultra-simple factory, each task gets its own task contract.
+ */
+export const deploySimulatedFactory = (
+  chain: SimulatedChain,
+  owner: string,
+  token: SimulatedToken,
+  registry: SimulatedRegistry
+): SimulatedFactory => {
+  const tasks = new Map<number, TaskRecord>();
+  const userTasks = new Map<string, number[]>();
+  const workerTasks = new Map<string, number[]>();
+  const workers = new Map<string, WorkerRecord>();
+  let nextTaskId = 1;
+
+  const taskAt = (taskId: BigNumberish): TaskRecord => {
+    const task = tasks.get(Number(toBigInt(taskId)));
+    if (!task) return revert('Invalid task ID');
+    return task;
+  };
+
+  const unregisteredWorker = (): WorkerRecord => ({
+    isRegistered: false,
+    stake: BigInt(0),
+    completedTasks: BigInt(0),
+    successRate: BigInt(0),
+    reputation: BigInt(0),
+    description: '',
+    isSlashed: false,
+  });
+
+  const push = (index: Map<string, number[]>, account: string, taskId: number) => {
+    index.set(account, [...(index.get(account) ?? []), taskId]);
+  };
+
+  const isAvailable = (task: TaskRecord) => task.status === TaskStatus.Created && task.worker === ZERO_ADDRESS;
+
+  const address = chain.deploy(owner, {
+    views: {
+      nextTaskId: () => BigInt(nextTaskId),
+      tasks: ([taskId]) => tasks.get(Number(toBigInt(taskId)))?.address ?? ZERO_ADDRESS,
+      getUserTasks: ([user]) => (userTasks.get(toAddress(user)) ?? []).map(BigInt),
+      getWorkerTasks: ([worker]) => (workerTasks.get(toAddress(worker)) ?? []).map(BigInt),
+      getAvailableTasks: () =>
+        Array.from(tasks.values())
+          .filter(isAvailable)
+          .map((task) => BigInt(task.id)),
+      workers: ([worker]) => workers.get(toAddress(worker)) ?? unregisteredWorker(),
+      getStats: () => BigInt(tasks.size),
+    },
+    writes: {
+      createTask: ([brokerId, subjectCommit, payout, duration], { sender, timestamp }) => {
+        const amount = toBigInt(payout);
+        const seconds = Number(toBigInt(duration));
+        if (amount < MIN_PAYOUT) revert('Payout too low');
+        if (seconds < 7 * DAY) revert('Duration too short');
+        if (seconds > 90 * DAY) revert('Duration too long');
+        const { weight, isActive } = registry.getBrokerWeightAndStatus(brokerId);
+        if (!isActive) revert('Broker not active');
+        token.transferFrom(address, sender, address, amount);
+
+        const id = nextTaskId++;
+        const task: TaskRecord = {
+          address: '',
+          id,
+          brokerId: toBigInt(brokerId),
+          subjectCommit,
+          creator: sender,
+          payout: amount,
+          weight,
+          createdAt: timestamp,
+          requestedAt: 0,
+          respondedAt: 0,
+          completedAt: 0,
+          verificationDeadline: 0,
+          deadline: timestamp + seconds,
+          status: TaskStatus.Created,
+          worker: ZERO_ADDRESS,
+          evidence: [],
+          disputed: false,
+          disputeInitiator: ZERO_ADDRESS,
+          disputeBond: BigInt(0),
+          disputeReason: '',
+        };
+        task.address = chain.deploy(address, taskBehaviour(task, token, address));
+        tasks.set(id, task);
+        push(userTasks, sender, id);
+        chain.emit(address, 'TaskCreated', {
+          taskId: BigInt(id),
+          creator: sender,
+          brokerId: task.brokerId,
+          taskContract: task.address,
+          payout: amount,
+        });
+        return { taskId: BigInt(id), taskContract: task.address };
+      },
+      registerWorker: ([stakeAmount, description], { sender }) => {
+        const stake = toBigInt(stakeAmount);
+        if (workers.get(sender)?.isRegistered) revert('Already registered');
+        if (stake < MIN_WORKER_STAKE) revert('Insufficient stake');
+        if (!String(description).length) revert('Description required');
+        token.transferFrom(address, sender, address, stake);
+
+        workers.set(sender, {
+          isRegistered: true,
+          stake,
+          completedTasks: BigInt(0),
+          successRate: BigInt(100),
+          reputation: BigInt(100),
+          description,
+          isSlashed: false,
+        });
+      },
+      selfAssignToTask: ([taskId], { sender }) => {
+        const worker = workers.get(sender);
+        if (!worker?.isRegistered) revert('Worker not registered');
+        if (worker?.isSlashed) revert('Worker is slashed');
+        const task = taskAt(taskId);
+        if (task.status !== TaskStatus.Created) revert('Task not available');
+        if (task.worker !== ZERO_ADDRESS) revert('Task already assigned');
+        if (sender === task.creator) revert('Creator cannot be worker');
+
+        task.worker = sender;
+        push(workerTasks, sender, task.id);
+      },
+    },
+  });
+
+  const findTask = (taskContract: string) =>
+    Array.from(tasks.values()).find((candidate) => candidate.address === toAddress(taskContract));
+
+  const getTaskState = (taskContract: string): SimulatedTaskState | undefined => {
+    const task = findTask(taskContract);
+    return task && {
+      taskId: task.id,
+      brokerId: task.brokerId,
+      status: task.status,
+      verificationDeadline: task.verificationDeadline,
+    };
+  };
+
+  // The archived RemovalTask only lets authorized verifiers call this; the registry is treated as one
+  const verifyCompletion = (taskContract: string, timestamp: number) => {
+    const task = findTask(taskContract);
+    if (!task) return revert('Invalid task ID');
+    if (task.disputed) revert('Task is currently disputed');
+    if (task.status !== TaskStatus.Requested && task.status !== TaskStatus.Responded) {
+      revert('Invalid status for verification');
+    }
+    if (!task.evidence.length) revert('No evidence submitted');
+    if (timestamp > task.deadline) revert('Verification deadline passed');
+
+    task.status = TaskStatus.Verified;
+    task.completedAt = timestamp;
+    task.verificationDeadline = timestamp + 7 * DAY;
+    // RemovalTaskFactory records the removal against the broker once a task is verified
+    registry.recordRemovalCompleted(task.brokerId);
+  };
+
+  return { address, getTaskState, verifyCompletion };
+};
+
+// ============ Verifier Registry ============
+
+interface VerifierRecord {
+  isRegistered: boolean;
+  stake: bigint;
+  verificationsCompleted: bigint;
+  correctVerifications: bigint;
+  reputation: bigint;
+  description: string;
+  isSlashed: boolean;
+  registrationTime: bigint;
+  lastActivityTime: bigint;
+}
+
+interface SessionRecord {
+  taskId: number;
+  taskContract: string;
+  assignedVerifiers: string[];
+  votes: Map<string, boolean>; // verifier => approve
+  votesFor: number;
+  votesAgainst: number;
+  isCompleted: boolean;
+  isApproved: boolean;
+  deadline: number;
+}
+
+const MIN_VERIFIER_STAKE = BigInt(500) * WEI;
+const VERIFICATION_REWARD = BigInt(5) * WEI;
+const VERIFIER_SLASH_PERCENTAGE = BigInt(20);
+const MIN_VERIFIERS_FOR_TASK = 3;
+const MAX_VERIFIERS_FOR_TASK = 5;
+const MAJORITY_THRESHOLD = 51;
+
+export interface SimulatedVerifierRegistry {
+  address: string;
+  // handleDisputeResolution as the dispute resolution contract calls it, once it holds the manager role
+  handleDisputeResolution: (taskId: BigNumberish, finalDecision: boolean) => void;
+}
+
+/**
+ * The archived VerifierRegistry. `owner` holds the manager role, so it starts
+ * sessions and resolves disputes; approving a session verifies the task.
+ */
+export const deploySimulatedVerifierRegistry = (
+  chain: SimulatedChain,
+  owner: string,
+  token: SimulatedToken,
+  factory: SimulatedFactory
+): SimulatedVerifierRegistry => {
+  const verifiers = new Map<string, VerifierRecord>();
+  const allVerifiers: string[] = [];
+  const sessions = new Map<number, SessionRecord>();
+  const verifierTasks = new Map<string, number[]>();
+  let totalActiveVerifiers = 0;
+  let rewardPool = BigInt(0);
+  let rewardsDistributed = BigInt(0);
+  let verificationsCompleted = BigInt(0);
+  let tasksVerified = BigInt(0);
+
+  const unregisteredVerifier = (): VerifierRecord => ({
+    isRegistered: false,
+    stake: BigInt(0),
+    verificationsCompleted: BigInt(0),
+    correctVerifications: BigInt(0),
+    reputation: BigInt(0),
+    description: '',
+    isSlashed: false,
+    registrationTime: BigInt(0),
+    lastActivityTime: BigInt(0),
+  });
+
+  const onlyManager = (sender: string) => {
+    if (sender !== toAddress(owner)) revert('Caller is not a verifier manager');
+  };
+
+  const onlyRegisteredVerifier = (sender: string): VerifierRecord => {
+    const verifier = verifiers.get(sender);
+    if (!verifier?.isRegistered) return revert('Verifier not registered');
+    if (verifier.isSlashed) revert('Verifier is slashed');
+    return verifier;
+  };
+
+  const sessionAt = (taskId: BigNumberish): SessionRecord => {
+    const session = sessions.get(Number(toBigInt(taskId)));
+    if (!session) return revert('Verification session does not exist');
+    return session;
+  };
+
+  const hasMajority = (session: SessionRecord, votesFor: number, votesAgainst: number) => {
+    const threshold = Math.floor((session.assignedVerifiers.length * MAJORITY_THRESHOLD) / 100);
+    return votesFor > threshold || votesAgainst > threshold;
+  };
+
+  // _selectVerifiersForTask: spread over the candidates with a keccak offset per slot
+  const selectVerifiers = (taskId: number): string[] => {
+    const candidates = allVerifiers.filter((account) => {
+      const verifier = verifiers.get(account)!;
+      return !verifier.isSlashed && verifier.reputation >= BigInt(50);
+    });
+    const count = Math.min(candidates.length, MAX_VERIFIERS_FOR_TASK);
+    const step = candidates.length > count ? Math.floor(candidates.length / count) : 1;
+    return Array.from({ length: count }, (_, slot) => {
+      const offset = BigInt(keccak256(defaultAbiCoder.encode(['uint256', 'uint256'], [taskId, slot]))) % BigInt(step);
+      return candidates[(slot * step + Number(offset)) % candidates.length];
+    });
+  };
+
+  const updateReputation = (verifier: VerifierRecord) => {
+    verifier.correctVerifications += BigInt(1);
+    let reputation = (verifier.correctVerifications * BigInt(100)) / verifier.verificationsCompleted;
+    if (verifier.verificationsCompleted >= BigInt(20)) reputation = (reputation * BigInt(105)) / BigInt(100);
+    verifier.reputation = reputation > BigInt(100) ? BigInt(100) : reputation;
+  };
+
+  const slash = (account: string) => {
+    const verifier = verifiers.get(account);
+    if (!verifier?.isRegistered) return revert('Verifier not registered');
+    if (verifier.isSlashed) revert('Verifier already slashed');
+    const amount = (verifier.stake * VERIFIER_SLASH_PERCENTAGE) / BigInt(100);
+    verifier.stake -= amount;
+    verifier.isSlashed = true;
+    verifier.reputation = BigInt(0);
+    totalActiveVerifiers--;
+    rewardPool += amount;
+  };
+
+  // Slashes every verifier whose vote the dispute's final decision went against
+  const handleDisputeResolution = (taskId: BigNumberish, finalDecision: boolean) => {
+    const session = sessionAt(taskId);
+    if (!session.isCompleted) revert('Verification not completed');
+    Array.from(session.votes.entries())
+      .filter(([, vote]) => vote !== finalDecision)
+      .forEach(([account]) => slash(account));
+  };
+
+  // Settles the session; approval verifies the task, which may still revert
+  const complete = (session: SessionRecord, timestamp: number) => {
+    const approved = session.votesFor > session.votesAgainst;
+    if (approved) factory.verifyCompletion(session.taskContract, timestamp);
+    session.isCompleted = true;
+    session.isApproved = approved;
+  };
+
+  const address = chain.deploy(owner, {
+    views: {
+      MIN_VERIFIER_STAKE: () => MIN_VERIFIER_STAKE,
+      VERIFICATION_REWARD: () => VERIFICATION_REWARD,
+      SLASH_PERCENTAGE: () => VERIFIER_SLASH_PERCENTAGE,
+      MIN_VERIFIERS_FOR_TASK: () => BigInt(MIN_VERIFIERS_FOR_TASK),
+      verifiers: ([account]) => verifiers.get(toAddress(account)) ?? unregisteredVerifier(),
+      verifierRewardPool: () => rewardPool,
+      getAllVerifiers: () => [...allVerifiers],
+      getVerifierTasks: ([account]) => (verifierTasks.get(toAddress(account)) ?? []).map(BigInt),
+      getVerificationSession: ([taskId]) => {
+        const session = sessionAt(taskId);
+        return {
+          id: BigInt(session.taskId),
+          taskContract: session.taskContract,
+          requiredVerifiers: BigInt(session.assignedVerifiers.length),
+          votesFor: BigInt(session.votesFor),
+          votesAgainst: BigInt(session.votesAgainst),
+          totalVotes: BigInt(session.votes.size),
+          isCompleted: session.isCompleted,
+          isApproved: session.isApproved,
+          deadline: BigInt(session.deadline),
+          assignedVerifiers: [...session.assignedVerifiers],
+        };
+      },
+      getRegistryStats: () => ({
+        totalVerifiers_: BigInt(allVerifiers.length),
+        activeVerifiers: BigInt(totalActiveVerifiers),
+        totalVerifications: verificationsCompleted,
+        totalTasks: tasksVerified,
+        rewardPool,
+        rewardsDistributed,
+      }),
+    },
+    writes: {
+      registerVerifier: ([stakeAmount, description], { sender, timestamp }) => {
+        const stake = toBigInt(stakeAmount);
+        if (verifiers.get(sender)?.isRegistered) revert('Already registered');
+        if (stake < MIN_VERIFIER_STAKE) revert('Insufficient stake');
+        if (!String(description).length) revert('Description required');
+        token.transferFrom(address, sender, address, stake);
+
+        verifiers.set(sender, {
+          isRegistered: true,
+          stake,
+          verificationsCompleted: BigInt(0),
+          correctVerifications: BigInt(0),
+          reputation: BigInt(100),
+          description,
+          isSlashed: false,
+          registrationTime: BigInt(timestamp),
+          lastActivityTime: BigInt(timestamp),
+        });
+        allVerifiers.push(sender);
+        totalActiveVerifiers++;
+      },
+      increaseStake: ([additionalStake], { sender }) => {
+        const verifier = onlyRegisteredVerifier(sender);
+        const amount = toBigInt(additionalStake);
+        if (amount <= BigInt(0)) revert('Additional stake must be greater than 0');
+        token.transferFrom(address, sender, address, amount);
+        verifier.stake += amount;
+      },
+      startVerificationSession: ([taskId, taskContract], { sender, timestamp }) => {
+        onlyManager(sender);
+        const id = Number(toBigInt(taskId));
+        if (sessions.has(id)) revert('Session already exists');
+        if (totalActiveVerifiers < MIN_VERIFIERS_FOR_TASK) revert('Not enough active verifiers');
+        const assignedVerifiers = selectVerifiers(id);
+        if (assignedVerifiers.length < MIN_VERIFIERS_FOR_TASK) revert('Could not assign enough verifiers');
+
+        sessions.set(id, {
+          taskId: id,
+          taskContract: toAddress(taskContract),
+          assignedVerifiers,
+          votes: new Map(),
+          votesFor: 0,
+          votesAgainst: 0,
+          isCompleted: false,
+          isApproved: false,
+          deadline: timestamp + 3 * DAY,
+        });
+        assignedVerifiers.forEach((account) => verifierTasks.set(account, [...(verifierTasks.get(account) ?? []), id]));
+        return assignedVerifiers;
+      },
+      castVerificationVote: ([taskId, approve], { sender, timestamp }) => {
+        const verifier = onlyRegisteredVerifier(sender);
+        const session = sessionAt(taskId);
+        if (session.isCompleted) revert('Verification already completed');
+        if (timestamp > session.deadline) revert('Verification deadline passed');
+        if (session.votes.has(sender)) revert('Already voted');
+        if (!session.assignedVerifiers.includes(sender)) revert('Not assigned to this task');
+
+        const votesFor = session.votesFor + (approve ? 1 : 0);
+        const votesAgainst = session.votesAgainst + (approve ? 0 : 1);
+        const settles = session.votes.size + 1 === session.assignedVerifiers.length || hasMajority(session, votesFor, votesAgainst);
+        if (settles && votesFor > votesAgainst) factory.verifyCompletion(session.taskContract, timestamp);
+
+        session.votes.set(sender, Boolean(approve));
+        session.votesFor = votesFor;
+        session.votesAgainst = votesAgainst;
+        verifier.lastActivityTime = BigInt(timestamp);
+        if (settles) {
+          session.isCompleted = true;
+          session.isApproved = votesFor > votesAgainst;
+        }
+      },
+      completeVerification: ([taskId], { timestamp }) => {
+        const session = sessionAt(taskId);
+        if (session.isCompleted) revert('Verification already completed');
+        if (timestamp <= session.deadline && session.votes.size !== session.assignedVerifiers.length) {
+          revert('Verification not ready for completion');
+        }
+        complete(session, timestamp);
+      },
+      handleDisputeResolution: ([taskId, finalDecision], { sender }) => {
+        onlyManager(sender);
+        handleDisputeResolution(taskId, Boolean(finalDecision));
+      },
+      fundRewardPool: ([amount], { sender }) => {
+        const value = toBigInt(amount);
+        if (value <= BigInt(0)) revert('Amount must be greater than 0');
+        token.transferFrom(address, sender, address, value);
+        rewardPool += value;
+      },
+      distributeVerificationRewards: ([taskId]) => {
+        const session = sessionAt(taskId);
+        if (!session.isCompleted) revert('Verification not completed');
+        if (rewardPool < VERIFICATION_REWARD * BigInt(session.votes.size)) revert('Insufficient reward pool');
+
+        session.votes.forEach((_vote, account) => {
+          const verifier = verifiers.get(account)!;
+          if (verifier.isSlashed) return;
+          rewardPool -= VERIFICATION_REWARD;
+          rewardsDistributed += VERIFICATION_REWARD;
+          token.transfer(address, account, VERIFICATION_REWARD);
+          verifier.verificationsCompleted += BigInt(1);
+          updateReputation(verifier);
+        });
+        verificationsCompleted += BigInt(session.votes.size);
+        tasksVerified += BigInt(1);
+      },
+    },
+  });
+
+  return { address, handleDisputeResolution };
+};
+
+// ============ Dispute Resolution ============
+
+interface ArbitratorRecord {
+  isRegistered: boolean;
+  stake: bigint;
+  disputesResolved: bigint;
+  correctDecisions: bigint;
+  reputation: bigint;
+  description: string;
+  isSlashed: boolean;
+  registrationTime: bigint;
+}
+
+interface VoteCommitmentRecord {
+  commitment: string;
+  hasCommitted: boolean;
+  hasRevealed: boolean;
+  vote: boolean;
+  reason: string;
+}
+
+interface DisputeRecord {
+  disputeId: bigint;
+  taskId: bigint;
+  taskContract: string;
+  initiator: string;
+  defendant: string;
+  bondAmount: bigint;
+  reason: string;
+  evidence: string;
+  status: DisputeStatus;
+  decision: DisputeDecision;
+  createdAt: bigint;
+  votingDeadline: bigint;
+  revealDeadline: bigint;
+  assignedArbitrators: string[];
+  totalVotes: bigint;
+  votesForOriginal: bigint;
+  votesForOverride: bigint;
+  bondReturned: boolean;
+}
+
+const MIN_DISPUTE_BOND = BigInt(50) * WEI;
+const VOTING_PERIOD = 5 * DAY;
+const REVEAL_PERIOD = 2 * DAY;
+const MIN_ARBITRATORS = 3;
+const ARBITRATOR_REWARD = BigInt(10) * WEI;
+const ZERO_HASH = `0x${'00'.repeat(32)}`;
+
+/**
+ * The archived DisputeResolution. `owner` holds the arbitrator role; resolving a
+ * dispute slashes the verifiers it overrules and counts it against the broker.
+ */
+export const deploySimulatedDisputeResolution = (
+  chain: SimulatedChain,
+  owner: string,
+  token: SimulatedToken,
+  verifierRegistry: SimulatedVerifierRegistry,
+  registry: SimulatedRegistry,
+  factory: SimulatedFactory
+): string => {
+  const disputes = new Map<number, DisputeRecord>();
+  const commitments = new Map<string, VoteCommitmentRecord>(); // `${disputeId}:${arbitrator}`
+  const arbitratorDisputes = new Map<string, number[]>();
+  const arbitrators = new Map<string, ArbitratorRecord>();
+  const allArbitrators: string[] = [];
+  let nextDisputeId = 1;
+  let totalActiveArbitrators = 0;
+  let totalDisputesResolved = 0;
+  let totalBondsSlashed = BigInt(0);
+  const minArbitratorStake = BigInt(1000) * WEI;
+
+  const unregisteredArbitrator = (): ArbitratorRecord => ({
+    isRegistered: false,
+    stake: BigInt(0),
+    disputesResolved: BigInt(0),
+    correctDecisions: BigInt(0),
+    reputation: BigInt(0),
+    description: '',
+    isSlashed: false,
+    registrationTime: BigInt(0),
+  });
+
+  const emptyCommitment = (): VoteCommitmentRecord => ({
+    commitment: ZERO_HASH,
+    hasCommitted: false,
+    hasRevealed: false,
+    vote: false,
+    reason: '',
+  });
+
+  const emptyDispute = (): DisputeRecord => ({
+    disputeId: BigInt(0),
+    taskId: BigInt(0),
+    taskContract: ZERO_ADDRESS,
+    initiator: ZERO_ADDRESS,
+    defendant: ZERO_ADDRESS,
+    bondAmount: BigInt(0),
+    reason: '',
+    evidence: '',
+    status: DisputeStatus.Created,
+    decision: DisputeDecision.Pending,
+    createdAt: BigInt(0),
+    votingDeadline: BigInt(0),
+    revealDeadline: BigInt(0),
+    assignedArbitrators: [],
+    totalVotes: BigInt(0),
+    votesForOriginal: BigInt(0),
+    votesForOverride: BigInt(0),
+    bondReturned: false,
+  });
+
+  const commitmentOf = (disputeId: number, arbitrator: string) => {
+    const key = `${disputeId}:${toAddress(arbitrator)}`;
+    if (!commitments.has(key)) commitments.set(key, emptyCommitment());
+    return commitments.get(key)!;
+  };
+
+  const onlyRegisteredArbitrator = (sender: string) => {
+    const arbitrator = arbitrators.get(sender);
+    if (!arbitrator?.isRegistered) revert('Arbitrator not registered');
+    if (arbitrator?.isSlashed) revert('Arbitrator is slashed');
+  };
+
+  const disputeAt = (disputeId: BigNumberish): DisputeRecord => {
+    const dispute = disputes.get(Number(toBigInt(disputeId)));
+    if (!dispute) return revert('Invalid dispute ID');
+    return dispute;
+  };
+
+  // _selectArbitrators: draws without replacement, seeded by the dispute and block time
+  const selectArbitrators = (disputeId: number, timestamp: number): string[] => {
+    const candidates = allArbitrators.filter((account) => {
+      const arbitrator = arbitrators.get(account)!;
+      return !arbitrator.isSlashed && arbitrator.reputation >= BigInt(50);
+    });
+    const count = Math.min(candidates.length, 5);
+    return Array.from({ length: count }, (_, slot) => {
+      const seed = BigInt(solidityKeccak256(['uint256', 'uint256', 'uint256'], [disputeId, slot, timestamp]));
+      const index = Number(seed % BigInt(candidates.length));
+      const [selected] = candidates.splice(index, 1, candidates[candidates.length - 1]);
+      candidates.pop();
+      return selected;
+    });
+  };
+
+  const updateReputation = (arbitrator: ArbitratorRecord) => {
+    let reputation = (arbitrator.correctDecisions * BigInt(100)) / arbitrator.disputesResolved;
+    if (arbitrator.disputesResolved >= BigInt(10)) reputation = (reputation * BigInt(105)) / BigInt(100);
+    arbitrator.reputation = reputation > BigInt(100) ? BigInt(100) : reputation;
+  };
+
+  const decide = (votesForOriginal: bigint, votesForOverride: bigint): DisputeDecision => {
+    if (votesForOriginal > votesForOverride) return DisputeDecision.UpholdOriginal;
+    if (votesForOverride > votesForOriginal) return DisputeDecision.OverrideOriginal;
+    return DisputeDecision.Inconclusive;
+  };
+
+  // The calls into other contracts; made before anything here changes, since only they can revert
+  const notifyResolution = (dispute: DisputeRecord, decision: DisputeDecision) => {
+    const task = factory.getTaskState(dispute.taskContract);
+    if (!task) return revert('Invalid task ID');
+    if (decision !== DisputeDecision.Inconclusive) {
+      verifierRegistry.handleDisputeResolution(dispute.taskId, decision === DisputeDecision.UpholdOriginal);
+    }
+    registry.recordDispute(task.brokerId);
+  };
+
+  // _resolveDispute: returns the bond when the verification is overridden, and rewards the majority
+  const settle = (dispute: DisputeRecord, decision: DisputeDecision) => {
+    dispute.status = DisputeStatus.Resolved;
+    dispute.decision = decision;
+    if (decision === DisputeDecision.OverrideOriginal) {
+      if (!dispute.bondReturned) token.transfer(address, dispute.initiator, dispute.bondAmount);
+      dispute.bondReturned = true;
+    } else {
+      totalBondsSlashed += dispute.bondAmount;
+    }
+
+    if (decision !== DisputeDecision.Inconclusive) {
+      const majorityVote = decision === DisputeDecision.UpholdOriginal;
+      dispute.assignedArbitrators.forEach((account) => {
+        const vote = commitmentOf(Number(dispute.disputeId), account);
+        if (!vote.hasRevealed || vote.vote !== majorityVote) return;
+        token.transfer(address, account, ARBITRATOR_REWARD);
+        const arbitrator = arbitrators.get(account)!;
+        arbitrator.disputesResolved += BigInt(1);
+        arbitrator.correctDecisions += BigInt(1);
+        updateReputation(arbitrator);
+      });
+    }
+    totalDisputesResolved++;
+  };
+
+  const address = chain.deploy(owner, {
+    views: {
+      MIN_DISPUTE_BOND: () => MIN_DISPUTE_BOND,
+      VOTING_PERIOD: () => BigInt(VOTING_PERIOD),
+      REVEAL_PERIOD: () => BigInt(REVEAL_PERIOD),
+      MIN_ARBITRATORS: () => BigInt(MIN_ARBITRATORS),
+      ARBITRATOR_REWARD: () => ARBITRATOR_REWARD,
+      minArbitratorStake: () => minArbitratorStake,
+      nextDisputeId: () => BigInt(nextDisputeId),
+      arbitrators: ([account]) => arbitrators.get(toAddress(account)) ?? unregisteredArbitrator(),
+      voteCommitments: ([disputeId, account]) =>
+        commitments.get(`${Number(toBigInt(disputeId))}:${toAddress(account)}`) ?? emptyCommitment(),
+      getArbitratorDisputes: ([account]) => (arbitratorDisputes.get(toAddress(account)) ?? []).map(BigInt),
+      // The public getter leaves out the arbitrators array
+      disputes: ([disputeId]) => {
+        const { assignedArbitrators, ...fields } = disputes.get(Number(toBigInt(disputeId))) ?? emptyDispute();
+        return fields;
+      },
+      getDispute: ([disputeId]) => {
+        const dispute = disputeAt(disputeId);
+        return {
+          id: dispute.disputeId,
+          taskId: dispute.taskId,
+          initiator: dispute.initiator,
+          bondAmount: dispute.bondAmount,
+          reason: dispute.reason,
+          status: dispute.status,
+          decision: dispute.decision,
+          votingDeadline: dispute.votingDeadline,
+          revealDeadline: dispute.revealDeadline,
+          assignedArbitrators: [...dispute.assignedArbitrators],
+          totalVotes: dispute.totalVotes,
+          votesForOriginal: dispute.votesForOriginal,
+          votesForOverride: dispute.votesForOverride,
+        };
+      },
+      getDisputeStats: () => ({
+        totalDisputes: BigInt(nextDisputeId - 1),
+        resolvedDisputes: BigInt(totalDisputesResolved),
+        totalArbitrators_: BigInt(allArbitrators.length),
+        activeArbitrators: BigInt(totalActiveArbitrators),
+        bondsSlashed: totalBondsSlashed,
+      }),
+    },
+    writes: {
+      registerArbitrator: ([stakeAmount, description], { sender, timestamp }) => {
+        const stake = toBigInt(stakeAmount);
+        if (arbitrators.get(sender)?.isRegistered) revert('Already registered');
+        if (stake < minArbitratorStake) revert('Insufficient stake');
+        if (!String(description).length) revert('Description required');
+        token.transferFrom(address, sender, address, stake);
+
+        arbitrators.set(sender, {
+          isRegistered: true,
+          stake,
+          disputesResolved: BigInt(0),
+          correctDecisions: BigInt(0),
+          reputation: BigInt(100),
+          description,
+          isSlashed: false,
+          registrationTime: BigInt(timestamp),
+        });
+        allArbitrators.push(sender);
+        totalActiveArbitrators++;
+      },
+      createDispute: ([taskId, taskContract, bondAmount, reason, evidenceCid], { sender, timestamp }) => {
+        const bond = toBigInt(bondAmount);
+        if (bond < MIN_DISPUTE_BOND) revert('Insufficient dispute bond');
+        if (!String(reason).length) revert('Reason required');
+        if (totalActiveArbitrators < MIN_ARBITRATORS) revert('Not enough active arbitrators');
+        const task = factory.getTaskState(taskContract);
+        if (!task) return revert('Task ID mismatch');
+        if (BigInt(task.taskId) !== toBigInt(taskId)) revert('Task ID mismatch');
+        if (task.status !== TaskStatus.Verified) revert('Task not in verified status');
+        if (timestamp > task.verificationDeadline) revert('Dispute window closed');
+        token.transferFrom(address, sender, address, bond);
+
+        const disputeId = nextDisputeId++;
+        const assignedArbitrators = selectArbitrators(disputeId, timestamp);
+        disputes.set(disputeId, {
+          disputeId: BigInt(disputeId),
+          taskId: toBigInt(taskId),
+          taskContract: toAddress(taskContract),
+          initiator: sender,
+          defendant: ZERO_ADDRESS,
+          bondAmount: bond,
+          reason,
+          evidence: evidenceCid,
+          status: DisputeStatus.Voting,
+          decision: DisputeDecision.Pending,
+          createdAt: BigInt(timestamp),
+          votingDeadline: BigInt(timestamp + VOTING_PERIOD),
+          revealDeadline: BigInt(timestamp + VOTING_PERIOD + REVEAL_PERIOD),
+          assignedArbitrators,
+          totalVotes: BigInt(0),
+          votesForOriginal: BigInt(0),
+          votesForOverride: BigInt(0),
+          bondReturned: false,
+        });
+        assignedArbitrators.forEach((account) =>
+          arbitratorDisputes.set(account, [...(arbitratorDisputes.get(account) ?? []), disputeId])
+        );
+        return BigInt(disputeId);
+      },
+      commitVote: ([disputeId, commitment], { sender, timestamp }) => {
+        onlyRegisteredArbitrator(sender);
+        const dispute = disputeAt(disputeId);
+        if (dispute.status !== DisputeStatus.Voting) revert('Invalid dispute status');
+        if (BigInt(timestamp) > dispute.votingDeadline) revert('Voting period ended');
+        if (!dispute.assignedArbitrators.includes(sender)) revert('Not assigned to this dispute');
+        const vote = commitmentOf(Number(dispute.disputeId), sender);
+        if (vote.hasCommitted) revert('Already committed');
+
+        vote.commitment = commitment;
+        vote.hasCommitted = true;
+        const id = Number(dispute.disputeId);
+        if (dispute.assignedArbitrators.every((account) => commitmentOf(id, account).hasCommitted)) {
+          dispute.status = DisputeStatus.Revealing;
+        }
+      },
+      revealVote: ([disputeId, vote, reason, salt], { sender, timestamp }) => {
+        onlyRegisteredArbitrator(sender);
+        const dispute = disputeAt(disputeId);
+        const now = BigInt(timestamp);
+        const revealing =
+          dispute.status === DisputeStatus.Revealing ||
+          (dispute.status === DisputeStatus.Voting && now > dispute.votingDeadline);
+        if (!revealing) revert('Not in reveal phase');
+        if (now > dispute.revealDeadline) revert('Reveal period ended');
+        const committed = commitmentOf(Number(dispute.disputeId), sender);
+        if (!committed.hasCommitted) revert('No commitment found');
+        if (committed.hasRevealed) revert('Already revealed');
+        if (solidityKeccak256(['bool', 'string', 'uint256'], [vote, reason, salt]) !== committed.commitment) {
+          revert('Invalid reveal');
+        }
+
+        const totalVotes = dispute.totalVotes + BigInt(1);
+        const votesForOriginal = dispute.votesForOriginal + BigInt(vote ? 1 : 0);
+        const votesForOverride = dispute.votesForOverride + BigInt(vote ? 0 : 1);
+        const resolves = totalVotes === BigInt(dispute.assignedArbitrators.length);
+        const decision = decide(votesForOriginal, votesForOverride);
+        if (resolves) notifyResolution(dispute, decision);
+
+        committed.hasRevealed = true;
+        committed.vote = Boolean(vote);
+        committed.reason = reason;
+        dispute.totalVotes = totalVotes;
+        dispute.votesForOriginal = votesForOriginal;
+        dispute.votesForOverride = votesForOverride;
+        if (resolves) settle(dispute, decision);
+      },
+      resolveDispute: ([disputeId], { timestamp }) => {
+        const dispute = disputeAt(disputeId);
+        if (dispute.status !== DisputeStatus.Revealing && BigInt(timestamp) <= dispute.revealDeadline) {
+          revert('Dispute not ready for resolution');
+        }
+        const decision = decide(dispute.votesForOriginal, dispute.votesForOverride);
+        notifyResolution(dispute, decision);
+        settle(dispute, decision);
+      },
+    },
+  });
+
+  return address;
+};
+
+// ============ Simple DEX ============
+
+export const deploySimulatedDex = (chain: SimulatedChain, owner: string, token: SimulatedToken): string => {
+  let tokenReserves = BigInt(0);
+  let ethReserves = BigInt(0);
+
+  const hasLiquidity = () => tokenReserves > BigInt(0) && ethReserves > BigInt(0);
+
+  const address = chain.deploy(owner, {
+    views: {
+      tokenReserves: () => tokenReserves,
+      ethReserves: () => ethReserves,
+      getTokenPrice: () => (hasLiquidity() ? (ethReserves * WEI) / tokenReserves : BigInt(0)),
+      getEthPrice: () => (hasLiquidity() ? (tokenReserves * WEI) / ethReserves : BigInt(0)),
+      getAmountOut: ([amountIn, buyingTokens]) => {
+        if (!hasLiquidity()) return BigInt(0);
+        const amount = toBigInt(amountIn);
+        return buyingTokens
+          ? (amount * tokenReserves) / (ethReserves + amount)
+          : (amount * ethReserves) / (tokenReserves + amount);
+      },
+    },
+    writes: {
+      addLiquidity: ([tokenAmount], { sender, value }) => {
+        const amount = toBigInt(tokenAmount);
+        if (value <= BigInt(0)) revert('Must send ETH');
+        if (amount <= BigInt(0)) revert('Must send tokens');
+        token.transferFrom(address, sender, address, amount);
+        tokenReserves += amount;
+        ethReserves += value;
+      },
+      buyTokens: (_args, { sender, value }) => {
+        if (value <= BigInt(0)) revert('Must send ETH');
+        if (!hasLiquidity()) revert('No liquidity');
+        const tokenAmount = (value * tokenReserves) / (ethReserves + value);
+        if (tokenAmount <= BigInt(0)) revert('Insufficient token output');
+        ethReserves += value;
+        tokenReserves -= tokenAmount;
+        token.transfer(address, sender, tokenAmount);
+      },
+    },
+  });
+
+  return address;
+};
@@ -0,0 +1,99 @@
+// Offline stand-in for a local node, used when the SIMULATED network is selected
+import { id, parseEther } from 'ethers/lib/utils';
+import { createSimulatedChain, SimulatedChain, SimulatedContract } from './chain';
+import {
+  deploySimulatedDex,
+  deploySimulatedDisputeResolution,
+  deploySimulatedFactory,
+  deploySimulatedRegistry,
+  deploySimulatedToken,
+  deploySimulatedVerifierRegistry,
+} from './contracts';
+
+export * from './chain';
+export * from './contracts';
+
+export const SIMULATED_CHAIN_ID = 1337;
+
+// The first two Anvil/Hardhat dev accounts, so contracts land at the usual local addresses.
+// The first deploys everything and is the app's account; the second posts the seed tasks.
+export const SIMULATED_ACCOUNTS = [
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+];
+
+export interface SimulatedDeployment {
+  chain: SimulatedChain;
+  addresses: {
+    REMOVAL_NINJA_TOKEN: string;
+    DATA_BROKER_REGISTRY: string;
+    TASK_FACTORY: string;
+    SIMPLE_DEX: string;
+    VERIFIER_REGISTRY: string;
+    DISPUTE_RESOLUTION: string;
+  };
+}
+
+// The brokers DeployBaseSepolia.s.sol registers
+const SEED_BROKERS = [
+  ['Spokeo', 'https://www.spokeo.com', 'https://www.spokeo.com/optout', 'privacy@spokeo.com', 300],
+  ['Radaris', 'https://radaris.com', 'https://radaris.com/page/how-to-remove', 'support@radaris.com', 300],
+  ['Whitepages', 'https://www.whitepages.com', 'https://www.whitepages.com/suppression-requests', 'privacy@whitepages.com', 300],
+];
+
+/**
+ * A fresh chain with the protocol deployed and seeded the way the Foundry
+ * scripts leave a local node: brokers registered, half the RN supply as DEX
+ * liquidity, plus two open tasks from another account for workers to take.
+ */
+export const createSimulatedDeployment = (): SimulatedDeployment => {
+  const [deployer, requester] = SIMULATED_ACCOUNTS;
+  const chain = createSimulatedChain(SIMULATED_CHAIN_ID, deployer);
+  SIMULATED_ACCOUNTS.forEach((account) => chain.setBalance(account, parseEther('100').toBigInt()));
+
+  const token = deploySimulatedToken(chain, deployer);
+  const registry = deploySimulatedRegistry(chain, deployer);
+  const factory = deploySimulatedFactory(chain, deployer, token, registry);
+  const dex = deploySimulatedDex(chain, deployer, token);
+  const verifierRegistry = deploySimulatedVerifierRegistry(chain, deployer, token, factory);
+  const disputeResolution = deploySimulatedDisputeResolution(chain, deployer, token, verifierRegistry, registry, factory);
+
+  SEED_BROKERS.forEach((broker) => chain.send(registry.address, 'addBroker', broker));
+  chain.send(token.address, 'approve', [dex, parseEther('500000')]);
+  chain.send(dex, 'addLiquidity', [parseEther('500000')], { value: parseEther('1') });
+  chain.send(token.address, 'transfer', [requester, parseEther('1000')]);
+
+  chain.setAccount(requester);
+  chain.send(token.address, 'approve', [factory.address, parseEther('150')]);
+  chain.send(factory.address, 'createTask', [1, id('simulated-subject-1'), parseEther('100'), 30 * 24 * 60 * 60]);
+  chain.send(factory.address, 'createTask', [2, id('simulated-subject-2'), parseEther('50'), 14 * 24 * 60 * 60]);
+  chain.setAccount(deployer);
+
+  return {
+    chain,
+    addresses: {
+      REMOVAL_NINJA_TOKEN: token.address,
+      DATA_BROKER_REGISTRY: registry.address,
+      TASK_FACTORY: factory.address,
+      SIMPLE_DEX: dex,
+      VERIFIER_REGISTRY: verifierRegistry.address,
+      DISPUTE_RESOLUTION: disputeResolution,
+    },
+  };
+};
+
+// Created on first use so other networks never pay for seeding it
+let simulation: SimulatedDeployment | undefined;
+
+export const getSimulation = (): SimulatedDeployment => {
+  if (!simulation) simulation = createSimulatedDeployment();
+  return simulation;
+};
+
+// Discards the chain so the next use starts from a fresh deployment
+export const resetSimulation = (): void => {
+  simulation = undefined;
+};
+
+export const getSimulatedContract = (address: string): SimulatedContract | undefined =>
+  getSimulation().chain.getContract(address);
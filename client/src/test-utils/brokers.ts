@@ -0,0 +1,19 @@
+// DataBroker fixtures: a broker with no removals, disputes or tags on its own .com site
+import { DataBroker } from '../types/contracts';
+
+export const broker = (id: number, name: string, overrides: Partial<DataBroker> = {}): DataBroker => {
+  const site = `${name.toLowerCase().replace(/[^a-z0-9]/g, '')}.com`;
+  return {
+    id,
+    name,
+    website: `https://${site}`,
+    removalLink: `https://${site}/optout`,
+    contact: `privacy@${site}`,
+    weight: 100,
+    isActive: true,
+    totalRemovals: 0,
+    totalDisputes: 0,
+    tags: [],
+    ...overrides,
+  };
+};
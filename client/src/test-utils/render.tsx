@@ -0,0 +1,29 @@
+// Renders the whole app at a route, on top of the fake thirdweb module in ./thirdweb
+import React from 'react';
+import { render } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import App from '../App';
+import { NetworkKey } from '../config/contracts';
+import { EvidenceStorageProvider } from '../context/EvidenceContext';
+import { NETWORK_STORAGE_KEY } from '../context/NetworkContext';
+import { EvidenceStorage } from '../evidence';
+import { connectWallet, FakeWallet } from './thirdweb';
+
+export interface RenderRouteOptions {
+  wallet?: FakeWallet; // Connected wallet; leave out to render disconnected
+  network?: NetworkKey; // Network selected in the header, Base Sepolia by default
+  evidenceStorage?: EvidenceStorage; // Where evidence files are stored and fetched from
+}
+
+export const renderRoute = (path: string, { wallet, network, evidenceStorage }: RenderRouteOptions = {}) => {
+  if (wallet) connectWallet(wallet);
+  if (network) window.localStorage.setItem(NETWORK_STORAGE_KEY, network);
+
+  return render(
+    <EvidenceStorageProvider storage={evidenceStorage}>
+      <MemoryRouter initialEntries={[path]}>
+        <App />
+      </MemoryRouter>
+    </EvidenceStorageProvider>
+  );
+};
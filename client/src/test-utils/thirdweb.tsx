@@ -0,0 +1,383 @@
+// Fake @thirdweb-dev/react for page tests: a configurable wallet, contracts whose reads,
+// writes and logs are scripted per test, and a log of every contract call for assertions.
+//
+//   jest.mock('@thirdweb-dev/react', () => require('../../test-utils/thirdweb').thirdwebReactMock);
+//
+// Contracts are addressed by their manifest name (e.g. 'TASK_FACTORY') or, for contracts
+// outside the manifests such as task contracts, by address.
+import React from 'react';
+import { BigNumber } from 'ethers';
+import type { BigNumberish } from 'ethers';
+import { ContractName, DEPLOYMENTS, SUPPORTED_NETWORKS } from '../config/contracts';
+import { NETWORK_STORAGE_KEY, useNetwork } from '../context/NetworkContext';
+import { clearQueryCache } from '../hooks/queryCache';
+import { NetworkConfig, TaskStatus } from '../types/contracts';
+
+export interface FakeWallet {
+  address?: string;
+  chainId?: number; // Defaults to the selected network's chain
+  balance?: BigNumberish; // RN balance in wei, returned by the token's balanceOf for this address
+}
+
+export type ReadScript = unknown | ((args: any[]) => unknown);
+
+export type WriteOutcome =
+  | { kind: 'success'; onMined?: () => void }
+  | { kind: 'revert'; reason: string }
+  | { kind: 'rejected' };
+
+// A deployed task contract; anything left out reads as a fresh, unassigned task
+export interface FakeTask {
+  taskId: number;
+  creator: string;
+  brokerId?: number;
+  status?: TaskStatus;
+  worker?: string;
+  payout?: BigNumberish; // wei
+  createdAt?: number;
+  deadline?: number;
+  requestedAt?: number;
+  respondedAt?: number;
+  completedAt?: number;
+  timeRemaining?: number; // seconds
+  evidence?: { evidenceCid: string; summary: string; timestamp: number; submitter: string }[];
+  dispute?: { initiator: string; bond: BigNumberish; reason: string };
+  verificationDeadline?: number;
+}
+
+// A log the contract emitted; getEvents applies the query's block range and filters to these
+export interface FakeEvent {
+  data: Record<string, unknown>;
+  blockNumber: number;
+}
+
+export interface ContractCall {
+  contract: string;
+  method: string;
+  args: unknown[];
+  value?: string;
+  kind: 'read' | 'write' | 'events';
+}
+
+// ============ Outcomes ============
+
+// The transaction is mined; `onMined` runs first so follow-up reads can be rescripted
+export const succeed = (onMined?: () => void): WriteOutcome => ({ kind: 'success', onMined });
+
+export const revertWith = (reason: string): WriteOutcome => ({ kind: 'revert', reason });
+
+export const rejectInWallet = (): WriteOutcome => ({ kind: 'rejected' });
+
+// ============ Default reads ============
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const unregisteredWorker = {
+  isRegistered: false,
+  stake: 0,
+  completedTasks: 0,
+  successRate: 0,
+  reputation: 0,
+  description: '',
+  isSlashed: false,
+};
+
+// An empty protocol: no brokers, no tasks, no approvals, the wallet's RN balance
+const defaultReads = (): Record<string, Record<string, ReadScript>> => ({
+  REMOVAL_NINJA_TOKEN: {
+    name: 'RemovalNinja',
+    symbol: 'RN',
+    decimals: 18,
+    totalSupply: BigNumber.from(10).pow(24),
+    balanceOf: ([owner]: string[]) =>
+      owner.toLowerCase() === fixture.wallet.address?.toLowerCase() ? BigNumber.from(fixture.wallet.balance ?? 0) : 0,
+    allowance: 0,
+  },
+  DATA_BROKER_REGISTRY: {
+    nextBrokerId: 1,
+    getStats: { totalBrokers: 0, activeBrokers: 0 },
+  },
+  TASK_FACTORY: {
+    tasks: ([taskId]: BigNumberish[]) => fixture.taskAddresses.get(Number(taskId)) ?? ZERO_ADDRESS,
+    getUserTasks: [],
+    getWorkerTasks: [],
+    getAvailableTasks: [],
+    workers: unregisteredWorker,
+    getStats: 0,
+  },
+  SIMPLE_DEX: {
+    getTokenPrice: 0,
+    tokenReserves: 0,
+    ethReserves: 0,
+    getAmountOut: 0,
+  },
+});
+
+// ============ Fixture state ============
+
+const fixture = {
+  wallet: {} as FakeWallet,
+  reads: defaultReads(),
+  writes: {} as Record<string, Record<string, WriteOutcome>>,
+  events: {} as Record<string, Record<string, FakeEvent[] | Error>>,
+  calls: [] as ContractCall[],
+  transactionCount: 0,
+  taskAddresses: new Map<number, string>(),
+};
+
+// Manifest name for a deployed address; every network deploys a contract under the same name
+const contractKey = (address: string): string => {
+  for (const manifest of Object.values(DEPLOYMENTS)) {
+    const name = (Object.keys(manifest.contracts) as ContractName[]).find(
+      (key) => manifest.contracts[key]?.address.toLowerCase() === address.toLowerCase()
+    );
+    if (name) return name;
+  }
+  return address;
+};
+
+/**
+ * Reset wallet, scripts, call log, cached reads and the saved network.
+ * Call it in beforeEach.
+ */
+export const resetThirdwebFixture = () => {
+  fixture.wallet = {};
+  fixture.reads = defaultReads();
+  fixture.writes = {};
+  fixture.events = {};
+  fixture.calls = [];
+  fixture.transactionCount = 0;
+  fixture.taskAddresses = new Map();
+  clearQueryCache();
+  window.localStorage.removeItem(NETWORK_STORAGE_KEY);
+};
+
+export const connectWallet = (wallet: FakeWallet) => {
+  fixture.wallet = { ...fixture.wallet, ...wallet };
+};
+
+export const disconnectWallet = () => {
+  fixture.wallet = {};
+};
+
+// Results for view calls, as a value or a function of the call's arguments
+export const scriptReads = (contract: string, reads: Record<string, ReadScript>) => {
+  fixture.reads[contract] = { ...fixture.reads[contract], ...reads };
+};
+
+// Writes without a script succeed
+export const scriptWrites = (contract: string, writes: Record<string, WriteOutcome>) => {
+  fixture.writes[contract] = { ...fixture.writes[contract], ...writes };
+};
+
+// Logs for `contract.getEvents(eventName)`, or the error the node answers with. Events without a script read as none
+export const scriptEvents = (contract: string, eventName: string, events: FakeEvent[] | Error) => {
+  fixture.events[contract] = { ...fixture.events[contract], [eventName]: events };
+};
+
+// Deterministic address of task `taskId`'s contract, for scripting its writes
+export const taskAddress = (taskId: number): string => `0x7a5c${taskId.toString(16).padStart(36, '0')}`;
+
+/**
+ * Deploy a task: the factory's `tasks(taskId)` resolves to it and its views
+ * answer from `task`. Scripting the same id again replaces the task.
+ */
+export const scriptTask = (task: FakeTask): string => {
+  const address = taskAddress(task.taskId);
+  const createdAt = task.createdAt ?? 1735689600;
+  const evidence = task.evidence ?? [];
+  fixture.taskAddresses.set(task.taskId, address);
+  scriptReads(address, {
+    getTaskSummary: {
+      id: task.taskId,
+      broker: task.brokerId ?? 1,
+      status: task.status ?? TaskStatus.Created,
+      worker: task.worker ?? ZERO_ADDRESS,
+      payoutAmount: task.payout ?? BigNumber.from(10).pow(18).mul(50),
+      taskDeadline: task.deadline ?? createdAt + 30 * 24 * 60 * 60,
+      evidenceCount: evidence.length,
+      disputed: Boolean(task.dispute),
+    },
+    subjectCommit: `0x${'ab'.repeat(32)}`,
+    creator: task.creator,
+    weight: 100,
+    createdAt,
+    requestedAt: task.requestedAt ?? 0,
+    respondedAt: task.respondedAt ?? 0,
+    completedAt: task.completedAt ?? 0,
+    getAllEvidence: evidence,
+    getDisputeInfo: {
+      disputed: Boolean(task.dispute),
+      initiator: task.dispute?.initiator ?? ZERO_ADDRESS,
+      bond: task.dispute?.bond ?? 0,
+      reason: task.dispute?.reason ?? '',
+      deadline_: task.verificationDeadline ?? 0,
+    },
+    getTimeRemaining: task.timeRemaining ?? 7 * 24 * 60 * 60,
+  });
+  return address;
+};
+
+export const getCalls = (contract?: string, method?: string): ContractCall[] =>
+  fixture.calls.filter(
+    (call) => (contract === undefined || call.contract === contract) && (method === undefined || call.method === method)
+  );
+
+// Arguments of every write sent to `contract.method`, in order
+export const getWrites = (contract: string, method: string): unknown[][] =>
+  getCalls(contract, method)
+    .filter((call) => call.kind === 'write')
+    .map((call) => call.args);
+
+// ============ Fake contracts ============
+
+const readResult = (contract: string, method: string, args: unknown[]) => {
+  const scripts = fixture.reads[contract];
+  if (!scripts || !(method in scripts)) {
+    throw new Error(`No scripted result for ${contract}.${method}; add it with scriptReads`);
+  }
+  const script = scripts[method];
+  return typeof script === 'function' ? (script as (args: unknown[]) => unknown)(args) : script;
+};
+
+interface EventQuery {
+  fromBlock?: number;
+  filters?: Record<string, unknown>;
+  order?: 'asc' | 'desc';
+}
+
+const eventsResult = (contract: string, eventName: string, { fromBlock = 0, filters = {}, order = 'desc' }: EventQuery) => {
+  const script = fixture.events[contract]?.[eventName] ?? [];
+  if (script instanceof Error) throw script;
+  const events = script
+    .map(({ data, blockNumber }, logIndex) => ({
+      eventName,
+      data,
+      transaction: {
+        blockNumber,
+        logIndex,
+        transactionHash: `0x${(blockNumber * 1000 + logIndex).toString(16).padStart(64, '0')}`,
+      },
+    }))
+    .filter(
+      ({ data, transaction }) =>
+        transaction.blockNumber >= fromBlock &&
+        Object.keys(filters).every((key) => String(data[key]) === String(filters[key]))
+    );
+  return order === 'desc' ? events.reverse() : events;
+};
+
+const sendTransaction = async (contract: string, method: string, args: unknown[], value?: string) => {
+  fixture.calls.push({ contract, method, args, value, kind: 'write' });
+  const outcome = fixture.writes[contract]?.[method] ?? succeed();
+
+  if (outcome.kind === 'rejected') {
+    throw Object.assign(new Error('user rejected transaction'), { code: 'ACTION_REJECTED' });
+  }
+  if (outcome.kind === 'revert') {
+    throw Object.assign(new Error(`execution reverted: ${outcome.reason}`), {
+      code: 'CALL_EXCEPTION',
+      reason: outcome.reason,
+    });
+  }
+
+  fixture.transactionCount += 1;
+  const hash = `0x${fixture.transactionCount.toString(16).padStart(64, '0')}`;
+  const blockNumber = 100 + fixture.transactionCount;
+  outcome.onMined?.();
+  return {
+    hash,
+    wait: async (confirmations = 1) => ({
+      transactionHash: hash,
+      blockNumber,
+      confirmations,
+      status: 1,
+    }),
+  };
+};
+
+const MULTICALL3_ADDRESSES = Object.values(SUPPORTED_NETWORKS).reduce<string[]>(
+  (addresses, network: NetworkConfig) => (network.multicall3 ? addresses.concat(network.multicall3) : addresses),
+  []
+);
+
+const fakeContracts = new Map<string, unknown>();
+
+// One instance per address so hooks memoizing on the contract stay stable across renders
+const fakeContract = (address: string) => {
+  if (!fakeContracts.has(address)) {
+    const contract = contractKey(address);
+    fakeContracts.set(address, {
+      getAddress: () => address,
+      call: async (method: string, args: unknown[] = []) => {
+        fixture.calls.push({ contract, method, args, kind: 'read' });
+        return readResult(contract, method, args);
+      },
+      events: {
+        getEvents: async (eventName: string, query: EventQuery = {}) => {
+          fixture.calls.push({ contract, method: eventName, args: [query], kind: 'events' });
+          return eventsResult(contract, eventName, query);
+        },
+      },
+      prepare: (method: string, args: unknown[] = [], overrides?: { value?: BigNumberish }) => ({
+        send: () =>
+          sendTransaction(contract, method, args, overrides?.value ? BigNumber.from(overrides.value).toString() : undefined),
+      }),
+    });
+  }
+  return fakeContracts.get(address);
+};
+
+// ============ Mocked module ============
+
+// Plain functions rather than jest.fn, so CRA's resetMocks between tests cannot strip them
+const MockThirdwebProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => <>{children}</>;
+
+const MockConnectWallet: React.FC<{ btnTitle?: string; className?: string; theme?: string }> = ({
+  btnTitle,
+  className,
+  theme,
+}) => (
+  <button className={className} data-theme={theme}>
+    {btnTitle ?? 'Connect Wallet'}
+  </button>
+);
+
+const walletConfig = () => ({});
+
+// Task lists load their contracts through the SDK instead of useContract
+const fakeSdk = {
+  getContract: async (address: string) => fakeContract(address),
+};
+
+export const thirdwebReactMock = {
+  __esModule: true,
+  ThirdwebProvider: MockThirdwebProvider,
+  ConnectWallet: MockConnectWallet,
+  metamaskWallet: walletConfig,
+  coinbaseWallet: walletConfig,
+  rainbowWallet: walletConfig,
+  walletConnect: walletConfig,
+  useAddress: () => fixture.wallet.address,
+  useChainId: (): number | undefined => {
+    const { network } = useNetwork();
+    if (!fixture.wallet.address) return undefined;
+    return fixture.wallet.chainId ?? network.chainId;
+  },
+  useConnectionStatus: () => (fixture.wallet.address ? 'connected' : 'disconnected'),
+  useDisconnect: () => disconnectWallet,
+  useSigner: () => undefined,
+  useSwitchChain: () => async (chainId: number) => connectWallet({ chainId }),
+  useSDK: () => fakeSdk,
+  // Multicall3 is not faked, so batched reads fall back to direct calls
+  useContract: (address?: string) => ({
+    contract: address && !MULTICALL3_ADDRESSES.includes(address) ? fakeContract(address) : undefined,
+    isLoading: false,
+  }),
+  useContractRead: (contract: any, method: string, args: unknown[] = []) => {
+    if (!contract) return { data: undefined, isLoading: false };
+    const name = contractKey(contract.getAddress());
+    fixture.calls.push({ contract: name, method, args, kind: 'read' });
+    return { data: readResult(name, method, args), isLoading: false };
+  },
+};
@@ -2,6 +2,19 @@
 
 // ============ Data Broker Registry Types ============
 
+// Categories from the archived DataBrokerRegistry's starter set; impact is left to the weight
+export const BROKER_TAGS = [
+  'people-search',
+  'background-checks',
+  'public-records',
+  'phone-directory',
+  'data-aggregator',
+  'marketing',
+  'credit',
+  'legal',
+] as const;
+export type BrokerTag = typeof BROKER_TAGS[number];
+
 export interface DataBroker {
   id: number;
   name: string;
@@ -12,6 +25,21 @@ export interface DataBroker {
   isActive: boolean;
   totalRemovals: number;
   totalDisputes: number;
+  tags: BrokerTag[]; // From the broker metadata document; the deployed registry stores none
+}
+
+// Tags per broker site, keyed by hostname without "www."
+export interface BrokerMetadataDocument {
+  version: string;
+  brokers: Record<string, BrokerTag[]>;
+}
+
+// A registry RemovalCompleted or DisputeRecorded event for one broker
+export interface BrokerEvent {
+  kind: 'removal' | 'dispute';
+  total: number; // The broker's removal or dispute count after this event
+  blockNumber: number;
+  transactionHash: string;
 }
 
 export interface BrokerSubmission {
@@ -90,6 +118,109 @@ export interface TaskSummary {
   disputed: boolean;
 }
 
+export interface DisputeInfo {
+  disputed: boolean;
+  initiator?: string; // address
+  bond: string; // BigNumber as string
+  reason: string;
+  verificationDeadline?: number; // timestamp, set once evidence is submitted
+}
+
+// ============ Verifier Registry Types ============
+
+export interface Verifier {
+  isRegistered: boolean;
+  stake: string; // BigNumber as string
+  verificationsCompleted: number; // Rewarded verifications
+  correctVerifications: number;
+  reputation: number; // 0-100
+  description: string;
+  isSlashed: boolean;
+  registrationTime?: number; // timestamp
+  lastActivityTime?: number; // timestamp
+}
+
+export interface VerificationSession {
+  taskId: number;
+  taskContract: string; // address
+  requiredVerifiers: number;
+  votesFor: number;
+  votesAgainst: number;
+  totalVotes: number;
+  isCompleted: boolean;
+  isApproved: boolean;
+  deadline: number; // timestamp
+  assignedVerifiers: string[];
+}
+
+export interface VerifierRegistryConstants {
+  minStake: string; // BigNumber as string
+  verificationReward: string; // BigNumber as string, paid per vote
+  slashPercentage: number;
+}
+
+// ============ Dispute Resolution Types ============
+
+export enum DisputeStatus {
+  Created = 0,
+  Voting = 1, // Arbitrators commit votes
+  Revealing = 2, // Arbitrators reveal what they committed
+  Resolved = 3,
+  Expired = 4
+}
+
+export enum DisputeDecision {
+  Pending = 0,
+  UpholdOriginal = 1, // The verification stands
+  OverrideOriginal = 2, // The verification was wrong
+  Inconclusive = 3 // No votes revealed, or a tie
+}
+
+export interface Dispute {
+  disputeId: number;
+  taskId: number;
+  taskContract: string; // address
+  initiator: string; // address
+  bondAmount: string; // BigNumber as string
+  reason: string;
+  evidenceCid: string; // Empty when none was attached
+  status: DisputeStatus;
+  decision: DisputeDecision;
+  createdAt: number; // timestamp
+  votingDeadline: number; // timestamp, end of the commit phase
+  revealDeadline: number; // timestamp
+  assignedArbitrators: string[];
+  totalVotes: number; // Revealed votes
+  votesForOriginal: number;
+  votesForOverride: number;
+  bondReturned: boolean;
+}
+
+export interface Arbitrator {
+  isRegistered: boolean;
+  stake: string; // BigNumber as string
+  disputesResolved: number; // Rewarded decisions
+  correctDecisions: number;
+  reputation: number; // 0-100
+  description: string;
+  isSlashed: boolean;
+  registrationTime?: number; // timestamp
+}
+
+export interface VoteCommitment {
+  commitment: string; // bytes32 as hex string
+  hasCommitted: boolean;
+  hasRevealed: boolean;
+  vote: boolean; // true upholds the original verification; only meaningful once revealed
+  reason: string;
+}
+
+export interface DisputeResolutionConstants {
+  minDisputeBond: string; // BigNumber as string
+  minArbitratorStake: string; // BigNumber as string
+  arbitratorReward: string; // BigNumber as string, paid to each arbitrator in the majority
+}
+
 // ============ Contract Statistics ============
 
 export interface RegistryStats {
@@ -115,6 +246,27 @@ export interface UserTaskData {
   evidence: Evidence[];
 }
 
+export interface TaskDetailsData {
+  address: string; // task contract
+  task: RemovalTask;
+  evidence: Evidence[];
+  dispute: DisputeInfo;
+  timeRemaining: number; // seconds until the deadline, 0 once past it
+}
+
+export interface VerificationSessionData {
+  session: VerificationSession;
+  task: RemovalTask;
+  broker: DataBroker;
+  evidence: Evidence[];
+}
+
+export interface DisputeData {
+  dispute: Dispute;
+  task: RemovalTask;
+  broker: DataBroker;
+}
+
 export interface WorkerDashboardData {
   worker: Worker;
   assignedTasks: RemovalTask[];
@@ -135,6 +287,11 @@ export interface CreateTaskForm {
   payout: string;
   duration: string; // in days, will be converted to seconds
   description: string;
+  // Identifiers of the person to remove; only their commitment goes on-chain
+  subjectName: string;
+  subjectEmail: string;
+  subjectPhone: string;
+  subjectLocation: string;
 }
 
 export interface AddBrokerForm {
@@ -143,6 +300,7 @@ export interface AddBrokerForm {
   removalLink: string;
   contact: string;
   weight: string;
+  tags: BrokerTag[];
 }
 
 export interface RegisterWorkerForm {
@@ -150,6 +308,30 @@ export interface RegisterWorkerForm {
   description: string;
 }
 
+export interface RegisterVerifierForm {
+  stakeAmount: string;
+  description: string;
+}
+
+export interface RegisterArbitratorForm {
+  stakeAmount: string;
+  description: string;
+}
+
+export interface CreateDisputeForm {
+  bondAmount: string;
+  reason: string;
+  evidenceCid: string; // Optional
+}
+
+export interface CommitVoteForm {
+  reason: string;
+}
+
+export interface IncreaseStakeForm {
+  amount: string;
+}
+
 export interface SubmitEvidenceForm {
   evidenceCid: string;
   summary: string;
@@ -167,6 +349,8 @@ export interface NetworkConfig {
     symbol: string;
     decimals: number;
   };
+  multicall3?: string; // Multicall3 deployment, if the chain has one
+  simulated?: boolean; // Served by the in-process chain in src/simulation instead of an RPC
 }
 
 export interface ContractConfig {
@@ -174,6 +358,20 @@ export interface ContractConfig {
   abi: any[]; // Contract ABI
 }
 
+export interface ContractDeployment {
+  address: string;
+  abi: string; // Artifact name, resolved through CONTRACT_ABIS
+  deploymentBlock?: number; // Block the contract was deployed in; event queries start here
+}
+
+// Contents of a per-chain file in config/deployments
+export interface DeploymentManifest {
+  version: string;
+  chainId: number;
+  deployedAt?: string; // ISO 8601
+  contracts: Record<string, ContractDeployment>;
+}
+
 export interface ContractAddresses {
   REMOVAL_NINJA_TOKEN: string;
   DATA_BROKER_REGISTRY: string;
@@ -210,10 +408,58 @@ export interface TaskCompletedEvent {
 
 // ============ Error Types ============
 
+// Stable identifiers for decoded failures; safe to branch on and to log
+export enum ContractErrorCode {
+  UserRejected = 'USER_REJECTED',
+  InsufficientGasFunds = 'INSUFFICIENT_GAS_FUNDS',
+  InsufficientBalance = 'INSUFFICIENT_BALANCE',
+  InsufficientAllowance = 'INSUFFICIENT_ALLOWANCE',
+  InsufficientStake = 'INSUFFICIENT_STAKE',
+  InvalidBroker = 'INVALID_BROKER',
+  BrokerInactive = 'BROKER_INACTIVE',
+  BrokerAlreadyDeactivated = 'BROKER_ALREADY_DEACTIVATED',
+  BrokerNameRequired = 'BROKER_NAME_REQUIRED',
+  BrokerWebsiteRequired = 'BROKER_WEBSITE_REQUIRED',
+  PayoutTooLow = 'PAYOUT_TOO_LOW',
+  DurationTooShort = 'DURATION_TOO_SHORT',
+  DurationTooLong = 'DURATION_TOO_LONG',
+  DescriptionRequired = 'DESCRIPTION_REQUIRED',
+  NoProcessorsSelected = 'NO_PROCESSORS_SELECTED',
+  TooManyProcessors = 'TOO_MANY_PROCESSORS',
+  InvalidProcessor = 'INVALID_PROCESSOR',
+  ProcessorSlashed = 'PROCESSOR_SLASHED',
+  NotProcessor = 'NOT_PROCESSOR',
+  AlreadyRegistered = 'ALREADY_REGISTERED',
+  AlreadyStaking = 'ALREADY_STAKING',
+  NotStaking = 'NOT_STAKING',
+  InvalidRemoval = 'INVALID_REMOVAL',
+  NotAssigned = 'NOT_ASSIGNED',
+  AlreadyCompleted = 'ALREADY_COMPLETED',
+  InvalidTask = 'INVALID_TASK',
+  TaskUnavailable = 'TASK_UNAVAILABLE',
+  NoLiquidity = 'NO_LIQUIDITY',
+  InvalidAmount = 'INVALID_AMOUNT',
+  Unauthorized = 'UNAUTHORIZED',
+  Paused = 'PAUSED',
+  NotVerifier = 'NOT_VERIFIER',
+  AlreadyVoted = 'ALREADY_VOTED',
+  VerificationClosed = 'VERIFICATION_CLOSED',
+  NotArbitrator = 'NOT_ARBITRATOR',
+  DisputeClosed = 'DISPUTE_CLOSED',
+  InvalidReveal = 'INVALID_REVEAL',
+  TransactionReplaced = 'TRANSACTION_REPLACED',
+  TransactionDropped = 'TRANSACTION_DROPPED',
+  NetworkError = 'NETWORK_ERROR',
+  Reverted = 'REVERTED',
+  Unknown = 'UNKNOWN',
+}
+
 export interface ContractError {
-  code: string;
+  code: ContractErrorCode;
   message: string;
-  transaction?: string;
+  remedy?: string; // What the user can do about it, when anything
+  field?: string; // Form field a revert was caused by
+  transaction?: string; // Hash, when the failure happened after submission
 }
 
 export interface ValidationError {
@@ -233,6 +479,24 @@ export type TokenAmount = string;
 export interface TransactionResult {
   hash: string;
   success: boolean;
+  error?: ContractError;
+}
+
+export enum TransactionStatus {
+  Submitted = 'submitted',
+  Mined = 'mined',
+  Confirmed = 'confirmed',
+  Failed = 'failed',
+  Replaced = 'replaced',
+}
+
+export interface TrackedTransaction {
+  hash: string;
+  status: TransactionStatus;
+  confirmations: number;
+  requiredConfirmations: number;
+  blockNumber?: number;
+  replacedBy?: string; // hash of the replacing transaction
   error?: string;
 }
 
@@ -254,7 +518,8 @@ export interface UseContractReturn<T> {
 export interface UseTransactionReturn {
   execute: (args: any[]) => Promise<TransactionResult>;
   loading: boolean;
-  error: string | null;
+  error: ContractError | null;
+  transaction: TrackedTransaction | null;
 }
 
 // ============ Component Props Types ============
@@ -271,6 +536,7 @@ export interface TaskCardProps {
   broker: DataBroker;
   onViewDetails?: (taskId: number) => void;
   onTakeAction?: (taskId: number, action: string) => void;
+  actionsDisabled?: boolean; // e.g. while another action's transaction is pending
   userRole?: 'creator' | 'worker' | 'viewer';
 }
 
@@ -304,12 +570,46 @@ export const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
   [TaskStatus.Refunded]: 'bg-gray-100 text-gray-800',
 };
 
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  [DisputeStatus.Created]: 'Created',
+  [DisputeStatus.Voting]: 'Commit Phase',
+  [DisputeStatus.Revealing]: 'Reveal Phase',
+  [DisputeStatus.Resolved]: 'Resolved',
+  [DisputeStatus.Expired]: 'Expired',
+};
+
+export const DISPUTE_DECISION_LABELS: Record<DisputeDecision, string> = {
+  [DisputeDecision.Pending]: 'Pending',
+  [DisputeDecision.UpholdOriginal]: 'Verification upheld',
+  [DisputeDecision.OverrideOriginal]: 'Verification overridden',
+  [DisputeDecision.Inconclusive]: 'Inconclusive',
+};
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  [TransactionStatus.Submitted]: 'Waiting to be mined',
+  [TransactionStatus.Mined]: 'Waiting for confirmations',
+  [TransactionStatus.Confirmed]: 'Confirmed',
+  [TransactionStatus.Failed]: 'Failed',
+  [TransactionStatus.Replaced]: 'Replaced',
+};
+
 export const WEIGHT_LABELS: Record<number, string> = {
   100: 'Standard',
   200: 'Medium Impact',
   300: 'High Impact',
 };
 
+export const BROKER_TAG_LABELS: Record<BrokerTag, string> = {
+  'people-search': 'People Search',
+  'background-checks': 'Background Checks',
+  'public-records': 'Public Records',
+  'phone-directory': 'Phone Directory',
+  'data-aggregator': 'Data Aggregator',
+  marketing: 'Marketing',
+  credit: 'Credit',
+  legal: 'Legal',
+};
+
 export const WEIGHT_COLORS: Record<number, string> = {
   100: 'bg-gray-100 text-gray-800',
   200: 'bg-yellow-100 text-yellow-800', 
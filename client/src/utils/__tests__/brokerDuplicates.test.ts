@@ -0,0 +1,39 @@
+import { findDuplicateBrokers, namesMatch, registrableDomain } from '../brokerDuplicates';
+import { broker } from '../../test-utils/brokers';
+
+const BROKERS = [
+  broker(1, 'Spokeo', { website: 'https://www.spokeo.com' }),
+  broker(2, 'Whitepages', { website: 'https://www.whitepages.com' }),
+  broker(3, '192.com', { website: 'https://www.192.com', isActive: false }),
+  broker(4, 'Tracesmart', { website: 'https://tracesmart.co.uk' }),
+];
+
+describe('broker duplicates', () => {
+  test('reduces a URL to its registrable domain', () => {
+    expect(registrableDomain('https://www.Spokeo.com/optout?x=1')).toBe('spokeo.com');
+    expect(registrableDomain('http://optout.spokeo.com:8080/')).toBe('spokeo.com');
+    expect(registrableDomain('https://people.tracesmart.co.uk')).toBe('tracesmart.co.uk');
+    expect(registrableDomain('spokeo.com/optout')).toBe('spokeo.com');
+    expect(registrableDomain('https://localhost')).toBeNull();
+  });
+
+  test('matches names regardless of case, spacing and company suffixes', () => {
+    expect(namesMatch('White Pages, Inc.', 'Whitepages')).toBe(true);
+    expect(namesMatch('Spokeo.com', 'spokeo')).toBe(true);
+    expect(namesMatch('Spokoe', 'Spokeo')).toBe(false);
+    expect(namesMatch('Spokeeo', 'Spokeo')).toBe(true);
+    expect(namesMatch('Radaris', 'Spokeo')).toBe(false);
+    expect(namesMatch('ABC', 'ABD')).toBe(false);
+  });
+
+  test('finds brokers on the same domain, inactive ones included, before similar names', () => {
+    const find = (name: string, website: string) =>
+      findDuplicateBrokers({ name, website }, BROKERS).map(({ broker: { id }, match }) => [id, match]);
+
+    expect(find('Spokeo People Search', 'https://spokeo.com')).toEqual([[1, 'domain']]);
+    expect(find('One Nine Two', 'https://192.com/uk')).toEqual([[3, 'domain']]);
+    expect(find('White Pages', 'https://whitepages-premium.net')).toEqual([[2, 'name']]);
+    expect(find('Tracesmart', 'https://www.tracesmart.co.uk/optout')).toEqual([[4, 'domain']]);
+    expect(find('PeopleLooker', 'https://www.peoplelooker.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { DataBroker } from '../../types/contracts';
+import {
+  BrokerQuery,
+  DEFAULT_BROKER_QUERY,
+  disputeRate,
+  filterBrokers,
+  impactOf,
+  paginate,
+  parseBrokerQuery,
+  sortBrokers,
+  toBrokerSearchParams,
+} from '../brokerFilters';
+import { broker } from '../../test-utils/brokers';
+
+const BROKERS = [
+  broker(1, 'Spokeo', { weight: 300, totalRemovals: 20, totalDisputes: 4, tags: ['people-search', 'public-records'] }),
+  broker(2, 'radaris', { weight: 200, totalRemovals: 20, tags: ['people-search'] }),
+  broker(3, 'Acxiom', { isActive: false, totalDisputes: 1, tags: ['marketing'] }),
+];
+
+const names = (brokers: DataBroker[]) => brokers.map(({ name }) => name);
+
+describe('broker filters', () => {
+  test('round-trips a query through the URL, leaving defaults out', () => {
+    const query: BrokerQuery = {
+      search: 'people search',
+      status: 'all',
+      impact: 'high',
+      tags: ['people-search', 'credit'],
+      maxDisputeRate: 10,
+      sort: 'name',
+      page: 3,
+    };
+
+    expect(parseBrokerQuery(toBrokerSearchParams(query))).toEqual(query);
+    expect(toBrokerSearchParams(DEFAULT_BROKER_QUERY).toString()).toBe('');
+  });
+
+  test('falls back to defaults for values it does not know', () => {
+    expect(parseBrokerQuery(new URLSearchParams('status=gone&sort=price&page=-2&disputes=abc&tags=astrology'))).toEqual(
+      DEFAULT_BROKER_QUERY
+    );
+  });
+
+  test('matches every search word against name, website and contact', () => {
+    const search = (text: string) =>
+      names(filterBrokers(BROKERS, { ...DEFAULT_BROKER_QUERY, status: 'all', search: text }));
+
+    expect(search('SPOKEO')).toEqual(['Spokeo']);
+    expect(search('privacy radaris')).toEqual(['radaris']);
+    expect(search('privacy')).toEqual(['Spokeo', 'radaris', 'Acxiom']);
+  });
+
+  test('filters by status, impact, tags and dispute rate', () => {
+    const filter = (changes: object) => names(filterBrokers(BROKERS, { ...DEFAULT_BROKER_QUERY, ...changes }));
+
+    expect(filter({})).toEqual(['Spokeo', 'radaris']);
+    expect(filter({ status: 'inactive' })).toEqual(['Acxiom']);
+    expect(filter({ impact: 'medium' })).toEqual(['radaris']);
+    expect(filter({ status: 'all', maxDisputeRate: 20 })).toEqual(['Spokeo', 'radaris']);
+    expect(filter({ maxDisputeRate: 10 })).toEqual(['radaris']);
+    expect(filter({ tags: ['public-records'] })).toEqual(['Spokeo']);
+    expect(filter({ status: 'all', tags: ['public-records', 'marketing'] })).toEqual(['Spokeo', 'Acxiom']);
+  });
+
+  test('rates disputes per removal and grades impact by weight', () => {
+    expect(BROKERS.map(disputeRate)).toEqual([20, 0, 100]);
+    expect([100, 199, 200, 300, 500].map(impactOf)).toEqual(['standard', 'standard', 'medium', 'high', 'high']);
+  });
+
+  test('sorts with ties in registry order', () => {
+    expect(names(sortBrokers(BROKERS, 'name'))).toEqual(['Acxiom', 'radaris', 'Spokeo']);
+    expect(names(sortBrokers(BROKERS, 'removals'))).toEqual(['Spokeo', 'radaris', 'Acxiom']);
+    expect(names(sortBrokers(BROKERS, 'disputes'))).toEqual(['Spokeo', 'Acxiom', 'radaris']);
+  });
+
+  test('shows the last page for pages past the end', () => {
+    const items = Array.from({ length: 23 }, (_, index) => index);
+
+    expect(paginate(items, 3)).toEqual([20, 21, 22]);
+    expect(paginate(items, 9)).toEqual([20, 21, 22]);
+    expect(paginate([], 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { DataBroker, RemovalTask, TaskStatus, UserTaskData } from '../../types/contracts';
+import {
+  BULK_TASK_STORAGE_KEY,
+  bulkTaskCost,
+  BulkTaskRun,
+  chunkItems,
+  clearBulkRun,
+  getBulkRun,
+  planBulkTasks,
+  reconcileBulkRun,
+  saveBulkRun,
+  selectBrokers,
+} from '../bulkTasks';
+import { parseUnits } from '../formatters';
+import { broker } from '../../test-utils/brokers';
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CREATOR = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const BROKERS = [
+  broker(1, 'Broker 1', { weight: 300, tags: ['people-search'] }),
+  broker(2, 'Broker 2', { tags: ['marketing', 'credit'] }),
+  broker(3, 'Broker 3', { weight: 500, isActive: false, tags: ['people-search'] }),
+  broker(4, 'Broker 4', { weight: 250 }),
+];
+
+const commitment = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+
+const run = (): BulkTaskRun => ({
+  factory: FACTORY,
+  creator: CREATOR,
+  duration: 30 * 24 * 60 * 60,
+  items: planBulkTasks(BROKERS.slice(0, 2), parseUnits('50'), 'flat').map((item, index) => ({
+    ...item,
+    subjectCommit: commitment(index + 1),
+  })),
+  startedAt: 0,
+});
+
+describe('bulk task planning', () => {
+  beforeEach(() => {
+    window.localStorage.removeItem(BULK_TASK_STORAGE_KEY);
+  });
+
+  test('selects active brokers by set', () => {
+    const ids = (brokers: DataBroker[]) => brokers.map(({ id }) => id);
+
+    expect(ids(selectBrokers(BROKERS, 'active'))).toEqual([1, 2, 4]);
+    expect(ids(selectBrokers(BROKERS, 'highImpact'))).toEqual([1]);
+    expect(ids(selectBrokers(BROKERS, 'tagged', [], ['people-search', 'credit']))).toEqual([1, 2]);
+    expect(ids(selectBrokers(BROKERS, 'tagged'))).toEqual([]);
+    expect(ids(selectBrokers(BROKERS, 'custom', [2, 3]))).toEqual([2]);
+  });
+
+  test('pays a flat amount or scales it by the broker weight', () => {
+    const brokers = selectBrokers(BROKERS, 'active');
+    const payouts = (items: { payout: string }[]) => items.map(({ payout }) => payout);
+
+    expect(payouts(planBulkTasks(brokers, parseUnits('20'), 'flat'))).toEqual(
+      [20, 20, 20].map((amount) => parseUnits(String(amount)).toString())
+    );
+    expect(payouts(planBulkTasks(brokers, parseUnits('20'), 'weighted'))).toEqual(
+      [60, 20, 50].map((amount) => parseUnits(String(amount)).toString())
+    );
+  });
+
+  test('adds the platform fee on top of the payouts', () => {
+    const items = planBulkTasks(selectBrokers(BROKERS, 'active'), parseUnits('20'), 'weighted');
+
+    expect(bulkTaskCost(items)).toBe(parseUnits('130'));
+    expect(bulkTaskCost(items, 5)).toBe(parseUnits('136.5'));
+  });
+
+  test('splits items into batches the factory accepts', () => {
+    const items = planBulkTasks(Array.from({ length: 45 }, (_, index) => broker(index + 1, `Broker ${index + 1}`)), parseUnits('10'), 'flat');
+
+    expect(chunkItems(items).map((chunk) => chunk.length)).toEqual([20, 20, 5]);
+  });
+
+  test('marks items whose task was mined after the run stopped', () => {
+    const task = { subjectCommit: commitment(2).toUpperCase(), currentStatus: TaskStatus.Created } as RemovalTask;
+    const userTasks: UserTaskData[] = [{ task, broker: BROKERS[1], evidence: [] }];
+
+    expect(reconcileBulkRun(run(), userTasks).items.map(({ created }) => created)).toEqual([false, true]);
+  });
+
+  test('keeps one run per factory and creator', () => {
+    saveBulkRun(run());
+
+    expect(getBulkRun(FACTORY.toLowerCase(), CREATOR.toLowerCase())).toEqual(run());
+    expect(getBulkRun(FACTORY, FACTORY)).toBeUndefined();
+
+    clearBulkRun(FACTORY, CREATOR);
+    expect(getBulkRun(FACTORY, CREATOR)).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  computeSubjectCommitment,
+  createSubjectCommitment,
+  getSubjectSalt,
+  normalizeSubject,
+  openSubjectCommitment,
+  saveSubjectSalt,
+  SUBJECT_SALT_STORAGE_KEY,
+  verifySubjectOpening,
+} from '../commitments';
+
+const SALT = `0x${'11'.repeat(32)}`;
+const JANE = { fullName: 'Jane Doe', email: 'jane@example.com', phone: '+1 555 010 9999', location: 'Austin, TX' };
+
+describe('subject commitments', () => {
+  beforeEach(() => {
+    window.localStorage.removeItem(SUBJECT_SALT_STORAGE_KEY);
+  });
+
+  test('normalizes case, spacing and phone punctuation', () => {
+    expect(normalizeSubject({ fullName: '  JANE   Doe ', email: ' Jane@Example.COM', phone: '+1 (555) 010-9999' })).toEqual({
+      fullName: 'jane doe',
+      email: 'jane@example.com',
+      phone: '+15550109999',
+      location: '',
+    });
+    expect(computeSubjectCommitment({ ...JANE, fullName: 'JANE  DOE' }, SALT)).toBe(computeSubjectCommitment(JANE, SALT));
+  });
+
+  test('binds every identifier and the salt', () => {
+    const commitment = computeSubjectCommitment(JANE, SALT);
+
+    expect(commitment).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(computeSubjectCommitment({ ...JANE, location: 'Dallas, TX' }, SALT)).not.toBe(commitment);
+    expect(computeSubjectCommitment({ ...JANE, phone: '15550109999' }, SALT)).not.toBe(commitment);
+    expect(computeSubjectCommitment(JANE, `0x${'22'.repeat(32)}`)).not.toBe(commitment);
+    // Fields cannot bleed into each other the way plain concatenation would allow
+    expect(computeSubjectCommitment({ fullName: 'jane', location: 'doe' }, SALT)).not.toBe(
+      computeSubjectCommitment({ fullName: 'jane doe' }, SALT)
+    );
+  });
+
+  test('rejects salts that are not 32 bytes', () => {
+    expect(() => computeSubjectCommitment(JANE, '0x1234')).toThrow('Subject salt must be 32 bytes of hex');
+  });
+
+  test('creates commitments with fresh salts that verify against their opening', () => {
+    const first = createSubjectCommitment(JANE);
+    const second = createSubjectCommitment(JANE);
+
+    expect(first.commitment).not.toBe(second.commitment);
+    expect(verifySubjectOpening(first.commitment, first.opening)).toBe(true);
+    expect(verifySubjectOpening(first.commitment, second.opening)).toBe(false);
+    expect(verifySubjectOpening(first.commitment, { ...first.opening, salt: 'not hex' })).toBe(false);
+  });
+
+  test('opens a stored commitment from identifiers entered again', () => {
+    const { commitment, opening } = createSubjectCommitment(JANE);
+    saveSubjectSalt(commitment, opening.salt);
+
+    expect(getSubjectSalt(commitment.toUpperCase().replace('0X', '0x'))).toBe(opening.salt);
+    expect(openSubjectCommitment(commitment, { ...JANE, email: 'JANE@example.com' })).toEqual(opening);
+    expect(() => openSubjectCommitment(commitment, { ...JANE, fullName: 'John Doe' })).toThrow(
+      'These identifiers do not match the commitment'
+    );
+    expect(() => openSubjectCommitment(computeSubjectCommitment(JANE, SALT), JANE)).toThrow(
+      'No salt for this commitment is stored in this browser'
+    );
+  });
+});
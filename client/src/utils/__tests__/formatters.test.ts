@@ -1,27 +1,16 @@
-// Utility functions for formatting that we can test
-export const formatAddress = (address: string): string => {
-  if (!address) return '';
-  return `${address.slice(0, 6)}...${address.slice(-4)}`;
-};
-
-export const formatTokenAmount = (amount: string | number, decimals: number = 2): string => {
-  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return num.toFixed(decimals);
-};
-
-export const validateEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-};
-
-export const validateUrl = (url: string): boolean => {
-  try {
-    new URL(url);
-    return true;
-  } catch {
-    return false;
-  }
-};
+import {
+  divideRounded,
+  formatAddress,
+  formatAmount,
+  formatBytes,
+  formatDuration,
+  formatTokenAmount,
+  formatUnits,
+  parseUnits,
+  toBigInt,
+  validateEmail,
+  validateUrl,
+} from '../formatters';
 
 // Tests
 describe('Formatter Utilities', () => {
@@ -57,6 +46,179 @@ describe('Formatter Utilities', () => {
     test('handles zero', () => {
       expect(formatTokenAmount(0)).toBe('0.00');
     });
+
+    test('rounds decimal strings exactly', () => {
+      expect(formatTokenAmount('1.005')).toBe('1.01');
+      expect(formatTokenAmount('12345678901234567890.125')).toBe('12345678901234567890.13');
+    });
+  });
+
+  describe('toBigInt', () => {
+    test('accepts bigint, integer numbers, strings and BigNumber-like values', () => {
+      expect(toBigInt(BigInt(7))).toBe(BigInt(7));
+      expect(toBigInt(42)).toBe(BigInt(42));
+      expect(toBigInt('100000000000000000000')).toBe(BigInt('100000000000000000000'));
+      expect(toBigInt({ toString: () => '5' })).toBe(BigInt(5));
+    });
+
+    test('rejects fractional input', () => {
+      expect(() => toBigInt(1.5)).toThrow();
+      expect(() => toBigInt('1.5')).toThrow();
+    });
+  });
+
+  describe('divideRounded', () => {
+    const cases: [string, string[]][] = [
+      // numerator/denominator -> down, up, floor, ceil, halfUp, halfEven
+      ['7/2', ['3', '4', '3', '4', '4', '4']],
+      ['5/2', ['2', '3', '2', '3', '3', '2']],
+      ['-5/2', ['-2', '-3', '-3', '-2', '-3', '-2']],
+      ['-7/3', ['-2', '-3', '-3', '-2', '-2', '-2']],
+      ['8/3', ['2', '3', '2', '3', '3', '3']],
+      ['6/3', ['2', '2', '2', '2', '2', '2']],
+    ];
+    const modes = ['down', 'up', 'floor', 'ceil', 'halfUp', 'halfEven'] as const;
+
+    test.each(cases)('%s', (fraction, expected) => {
+      const [numerator, denominator] = fraction.split('/').map((part) => BigInt(part));
+      modes.forEach((mode, index) => {
+        expect(divideRounded(numerator, denominator, mode).toString()).toBe(expected[index]);
+      });
+    });
+  });
+
+  describe('parseUnits', () => {
+    test('parses whole and fractional amounts with 18 decimals by default', () => {
+      expect(parseUnits('1')).toBe(BigInt('1000000000000000000'));
+      expect(parseUnits('0.5')).toBe(BigInt('500000000000000000'));
+      expect(parseUnits('.25')).toBe(BigInt('250000000000000000'));
+      expect(parseUnits('10.')).toBe(BigInt('10000000000000000000'));
+      expect(parseUnits('  3  ')).toBe(BigInt('3000000000000000000'));
+    });
+
+    test('keeps full precision beyond 2^53', () => {
+      expect(parseUnits('123456789012345678.123456789012345678')).toBe(
+        BigInt('123456789012345678123456789012345678')
+      );
+      expect(parseUnits('9007199254740993', 0)).toBe(BigInt('9007199254740993'));
+    });
+
+    test('handles signs and custom decimals', () => {
+      expect(parseUnits('-1.5', 6)).toBe(BigInt(-1500000));
+      expect(parseUnits('+2', 6)).toBe(BigInt(2000000));
+      expect(parseUnits('0', 0)).toBe(BigInt(0));
+    });
+
+    test('rejects malformed input', () => {
+      ['', '.', 'abc', '1.2.3', '1e18', '1,000', '--1', '0x10'].forEach((value) => {
+        expect(() => parseUnits(value)).toThrow('Invalid amount');
+      });
+    });
+
+    test('rejects extra decimal places unless a rounding mode is given', () => {
+      expect(() => parseUnits('1.234', 2)).toThrow('more than 2 decimal places');
+      expect(parseUnits('1.234', 2, 'down')).toBe(BigInt(123));
+      expect(parseUnits('1.235', 2, 'halfUp')).toBe(BigInt(124));
+      expect(parseUnits('1.225', 2, 'halfEven')).toBe(BigInt(122));
+      expect(parseUnits('1.231', 2, 'up')).toBe(BigInt(124));
+      expect(parseUnits('-1.231', 2, 'floor')).toBe(BigInt(-124));
+      expect(parseUnits('1.200', 2)).toBe(BigInt(120));
+    });
+  });
+
+  describe('formatUnits', () => {
+    test('formats exactly and trims trailing zeros', () => {
+      expect(formatUnits(BigInt('1000000000000000000'))).toBe('1');
+      expect(formatUnits(BigInt('1500000000000000000'))).toBe('1.5');
+      expect(formatUnits(BigInt(1))).toBe('0.000000000000000001');
+      expect(formatUnits(BigInt(0))).toBe('0');
+      expect(formatUnits('-2500000', 6)).toBe('-2.5');
+      expect(formatUnits(BigInt(42), 0)).toBe('42');
+    });
+
+    test('round-trips with parseUnits', () => {
+      ['0', '1', '0.1', '123456789012345678.123456789012345678', '-42.000001'].forEach((value) => {
+        expect(formatUnits(parseUnits(value))).toBe(value);
+      });
+    });
+  });
+
+  describe('formatAmount', () => {
+    const wei = (value: string) => parseUnits(value);
+
+    test('shows two fraction digits rounded down by default', () => {
+      expect(formatAmount(wei('1234.5678'), { locale: 'en-US' })).toBe('1,234.56');
+      expect(formatAmount(wei('0'), { locale: 'en-US' })).toBe('0.00');
+      expect(formatAmount(wei('0.009'), { locale: 'en-US' })).toBe('0.00');
+    });
+
+    test('applies rounding modes', () => {
+      expect(formatAmount(wei('1.005'), { locale: 'en-US', rounding: 'halfUp' })).toBe('1.01');
+      expect(formatAmount(wei('1.005'), { locale: 'en-US', rounding: 'halfEven' })).toBe('1.00');
+      expect(formatAmount(wei('1.001'), { locale: 'en-US', rounding: 'up' })).toBe('1.01');
+      expect(formatAmount(wei('-1.001'), { locale: 'en-US', rounding: 'floor' })).toBe('-1.01');
+    });
+
+    test('trims zeros down to minFractionDigits', () => {
+      const options = { locale: 'en-US', minFractionDigits: 2, maxFractionDigits: 6 };
+      expect(formatAmount(wei('1.5'), options)).toBe('1.50');
+      expect(formatAmount(wei('1.123456789'), options)).toBe('1.123456');
+      expect(formatAmount(wei('7'), { ...options, minFractionDigits: 0 })).toBe('7');
+    });
+
+    test('formats values above 2^53 without losing digits', () => {
+      expect(formatAmount(wei('123456789012345678901.99'), { locale: 'en-US' })).toBe(
+        '123,456,789,012,345,678,901.99'
+      );
+    });
+
+    test('uses the locale separators', () => {
+      expect(formatAmount(wei('1234567.891'), { locale: 'de-DE' })).toBe('1.234.567,89');
+      expect(formatAmount(wei('1234.5'), { locale: 'en-US', grouping: false })).toBe('1234.50');
+    });
+
+    test('supports custom decimals', () => {
+      expect(formatAmount(BigInt(123456789), { decimals: 6, locale: 'en-US' })).toBe('123.45');
+      expect(formatAmount(BigInt(5), { decimals: 0, locale: 'en-US' })).toBe('5.00');
+    });
+
+    test('supports compact notation', () => {
+      const options = { locale: 'en-US', compact: true, maxFractionDigits: 1 };
+      expect(formatAmount(wei('999'), options)).toBe('999');
+      expect(formatAmount(wei('1234'), options)).toBe('1.2K');
+      expect(formatAmount(wei('2500000'), options)).toBe('2.5M');
+      expect(formatAmount(wei('7000000000'), options)).toBe('7B');
+      expect(formatAmount(wei('1234567000000000'), options)).toBe('1,234.5T');
+      expect(formatAmount(wei('-1500'), options)).toBe('-1.5K');
+    });
+
+    test('carries compact rounding into the next unit', () => {
+      expect(formatAmount(wei('999999'), { locale: 'en-US', compact: true, maxFractionDigits: 1, rounding: 'halfUp' })).toBe('1M');
+    });
+
+    test('accepts BigNumber-like values', () => {
+      expect(formatAmount({ toString: () => '2000000000000000000' }, { locale: 'en-US' })).toBe('2.00');
+    });
+  });
+
+  describe('formatDuration', () => {
+    test('shows the two largest units', () => {
+      expect(formatDuration(3 * 86400 + 4 * 3600 + 59 * 60)).toBe('3d 4h');
+      expect(formatDuration(2 * 3600 + 5 * 60 + 30)).toBe('2h 5m');
+    });
+
+    test('skips empty units after the largest', () => {
+      expect(formatDuration(86400 + 30 * 60)).toBe('1d');
+      expect(formatDuration(45)).toBe('0m');
+    });
+  });
+
+  describe('formatBytes', () => {
+    test('picks the largest unit under 1024', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(1024 * 1024)).toBe('1.0 MB');
+    });
   });
 
   describe('validateEmail', () => {
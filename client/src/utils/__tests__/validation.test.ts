@@ -0,0 +1,129 @@
+import {
+  ARBITRATOR_SCHEMA,
+  BROKER_SCHEMA,
+  DISPUTE_SCHEMA,
+  emailOrPhone,
+  getFieldError,
+  INCREASE_STAKE_SCHEMA,
+  sameSiteAs,
+  TASK_SCHEMA,
+  validate,
+  VERIFIER_SCHEMA,
+  WORKER_SCHEMA,
+} from '../validation';
+import { parseUnits } from '../formatters';
+import { AddBrokerForm } from '../../types/contracts';
+
+const broker: AddBrokerForm = {
+  name: 'Spokeo',
+  website: 'https://www.spokeo.com',
+  removalLink: 'https://www.spokeo.com/optout',
+  contact: 'privacy@spokeo.com',
+  weight: '300',
+  tags: [],
+};
+
+describe('validate', () => {
+  test('passes a complete broker submission', () => {
+    expect(validate(BROKER_SCHEMA, broker, {})).toEqual([]);
+  });
+
+  test('reports the first failing rule of each field', () => {
+    const errors = validate(BROKER_SCHEMA, { ...broker, name: ' ', website: 'spokeo', weight: '500' }, {});
+
+    expect(errors).toEqual([
+      { field: 'name', message: 'Enter the broker name' },
+      { field: 'website', message: 'Enter a full http(s) URL' },
+      { field: 'weight', message: 'Choose an impact level' },
+    ]);
+    expect(getFieldError(errors, 'website')).toBe('Enter a full http(s) URL');
+    expect(getFieldError(errors, 'contact')).toBeUndefined();
+  });
+});
+
+describe('cross-field rules', () => {
+  const onWebsite = sameSiteAs<AddBrokerForm, {}>('website', 'website');
+
+  test('keeps the removal link on the broker domain', () => {
+    expect(onWebsite('https://optout.spokeo.com/remove', broker, {})).toBeNull();
+    expect(onWebsite('https://spokeo.com/optout', broker, {})).toBeNull();
+    expect(onWebsite('https://spokeo-optout.example/remove', broker, {})).toBe(
+      'Must be on the same domain as the website (spokeo.com)'
+    );
+  });
+
+  test('accepts an email address or phone number as contact', () => {
+    const contact = emailOrPhone();
+
+    expect(contact('privacy@spokeo.com', {}, {})).toBeNull();
+    expect(contact('+1 (800) 555-0199', {}, {})).toBeNull();
+    expect(contact('555', {}, {})).toBe('Enter an email address or phone number');
+    expect(contact('call us', {}, {})).toBe('Enter an email address or phone number');
+  });
+
+  test('bounds the task payout by the minimum and the balance', () => {
+    const task = { brokerId: '1', payout: '50', duration: '30', description: '', subjectName: 'Jane Doe', subjectEmail: '', subjectPhone: '', subjectLocation: '' };
+
+    expect(validate(TASK_SCHEMA, task, { balance: parseUnits('100') })).toEqual([]);
+    expect(validate(TASK_SCHEMA, { ...task, payout: '5' }, {})).toEqual([{ field: 'payout', message: 'Minimum is 10 RN' }]);
+    expect(validate(TASK_SCHEMA, task, { balance: parseUnits('20.5') })).toEqual([
+      { field: 'payout', message: 'Exceeds your balance of 20.5 RN' },
+    ]);
+    expect(validate(TASK_SCHEMA, { ...task, payout: '1e3' }, {})).toEqual([
+      { field: 'payout', message: 'Enter a valid RN amount' },
+    ]);
+  });
+
+  test('limits task duration to 7-90 whole days', () => {
+    const task = { brokerId: '1', payout: '50', duration: '6', description: '', subjectName: 'Jane Doe', subjectEmail: '', subjectPhone: '', subjectLocation: '' };
+    const message = 'Must be a whole number of days between 7 and 90';
+
+    expect(validate(TASK_SCHEMA, task, {})).toEqual([{ field: 'duration', message }]);
+    expect(validate(TASK_SCHEMA, { ...task, duration: '91' }, {})).toEqual([{ field: 'duration', message }]);
+    expect(validate(TASK_SCHEMA, { ...task, duration: '7.5' }, {})).toEqual([{ field: 'duration', message }]);
+    expect(validate(TASK_SCHEMA, { ...task, duration: '90' }, {})).toEqual([]);
+  });
+
+  test('requires the subject name and checks optional contact identifiers', () => {
+    const task = { brokerId: '1', payout: '50', duration: '30', description: '', subjectName: 'Jane Doe', subjectEmail: '', subjectPhone: '', subjectLocation: '' };
+
+    expect(validate(TASK_SCHEMA, { ...task, subjectName: ' ' }, {})).toEqual([
+      { field: 'subjectName', message: 'Enter the full name the broker lists' },
+    ]);
+    expect(validate(TASK_SCHEMA, { ...task, subjectEmail: 'jane@', subjectPhone: '12' }, {})).toEqual([
+      { field: 'subjectEmail', message: 'Enter a valid email address' },
+      { field: 'subjectPhone', message: 'Enter a valid phone number' },
+    ]);
+    expect(validate(TASK_SCHEMA, { ...task, subjectEmail: 'jane@example.com', subjectPhone: '+1 (555) 010-9999' }, {})).toEqual([]);
+  });
+
+  test('requires a worker stake of at least 100 RN and a description', () => {
+    expect(validate(WORKER_SCHEMA, { stakeAmount: '99', description: '' }, {})).toEqual([
+      { field: 'stakeAmount', message: 'Minimum is 100 RN' },
+      { field: 'description', message: 'Describe your experience' },
+    ]);
+  });
+
+  test('requires a verifier stake of at least 500 RN and a positive top-up', () => {
+    expect(validate(VERIFIER_SCHEMA, { stakeAmount: '499', description: 'Reviewer' }, {})).toEqual([
+      { field: 'stakeAmount', message: 'Minimum is 500 RN' },
+    ]);
+    expect(validate(INCREASE_STAKE_SCHEMA, { amount: '0' }, {})).toEqual([
+      { field: 'amount', message: 'Must be greater than 0' },
+    ]);
+    expect(validate(INCREASE_STAKE_SCHEMA, { amount: '50' }, { balance: parseUnits('20') })).toEqual([
+      { field: 'amount', message: 'Exceeds your balance of 20 RN' },
+    ]);
+  });
+
+  test('requires a 50 RN dispute bond with a reason and a 1000 RN arbitrator stake', () => {
+    expect(validate(DISPUTE_SCHEMA, { bondAmount: '49', reason: ' ', evidenceCid: '' }, {})).toEqual([
+      { field: 'bondAmount', message: 'Minimum is 50 RN' },
+      { field: 'reason', message: 'Explain why the verification was wrong' },
+    ]);
+    expect(validate(DISPUTE_SCHEMA, { bondAmount: '50', reason: 'Still listed', evidenceCid: '' }, {})).toEqual([]);
+    expect(validate(ARBITRATOR_SCHEMA, { stakeAmount: '999', description: 'Lawyer' }, {})).toEqual([
+      { field: 'stakeAmount', message: 'Minimum is 1000 RN' },
+    ]);
+  });
+});
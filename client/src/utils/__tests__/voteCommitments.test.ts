@@ -0,0 +1,43 @@
+import { solidityKeccak256 } from 'ethers/lib/utils';
+import {
+  computeVoteCommitment,
+  createDisputeVote,
+  DISPUTE_VOTE_STORAGE_KEY,
+  generateVoteSalt,
+  getDisputeVote,
+} from '../voteCommitments';
+
+const CONTRACT = '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707';
+const ARBITRATOR = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('dispute vote commitments', () => {
+  beforeEach(() => {
+    window.localStorage.removeItem(DISPUTE_VOTE_STORAGE_KEY);
+  });
+
+  test('hashes the vote the way the contract packs it', () => {
+    const vote = { vote: true, reason: 'Listing is gone', salt: '42' };
+
+    expect(computeVoteCommitment(vote)).toBe(
+      solidityKeccak256(['bool', 'string', 'uint256'], [true, 'Listing is gone', 42])
+    );
+    expect(computeVoteCommitment({ ...vote, vote: false })).not.toBe(computeVoteCommitment(vote));
+    expect(computeVoteCommitment({ ...vote, salt: '43' })).not.toBe(computeVoteCommitment(vote));
+  });
+
+  test('draws a fresh uint256 salt each time', () => {
+    const salt = generateVoteSalt();
+
+    expect(salt).toMatch(/^\d+$/);
+    expect(generateVoteSalt()).not.toBe(salt);
+  });
+
+  test('keeps the opening of a committed vote for the reveal', () => {
+    const { commitment, opening } = createDisputeVote(CONTRACT, 1, ARBITRATOR, false, 'Still listed');
+
+    expect(getDisputeVote(CONTRACT.toLowerCase(), 1, ARBITRATOR.toLowerCase())).toEqual(opening);
+    expect(computeVoteCommitment(opening)).toBe(commitment);
+    expect(getDisputeVote(CONTRACT, 2, ARBITRATOR)).toBeUndefined();
+    expect(getDisputeVote(CONTRACT, 1, CONTRACT)).toBeUndefined();
+  });
+});
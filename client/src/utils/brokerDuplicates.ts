@@ -0,0 +1,81 @@
+// Duplicate checks for broker submissions. The registry accepts the same broker any number of
+// times, so the form compares a submission against the existing entries before it is sent.
+import { DataBroker } from '../types/contracts';
+
+// Suffixes under which sites register one level deeper, e.g. example.co.uk. A short list for
+// the countries brokers operate from, not the full Public Suffix List.
+const MULTI_PART_SUFFIXES = ['co.uk', 'org.uk', 'com.au', 'net.au', 'co.nz', 'co.in', 'co.za', 'com.br', 'co.jp'];
+
+// Company suffixes and TLDs that do not tell two broker names apart
+const NAME_NOISE = /\.(com|net|org|io)\b|\b(inc|llc|ltd|corp|corporation|company|co)\b/g;
+
+export type DuplicateMatch = 'domain' | 'name';
+
+export interface BrokerDuplicate {
+  broker: DataBroker;
+  match: DuplicateMatch; // domain blocks the submission; name only warns
+}
+
+/**
+ * The host between "//" and the next "/", as `_extractDomain` in the archived DataBrokerRegistry
+ * cuts it, reduced to the registrable domain: www.spokeo.com and optout.spokeo.com both give
+ * spokeo.com. Null when there is no host. Broker tags are keyed by it too.
+ */
+export const registrableDomain = (url: string): string | null => {
+  const afterScheme = url.includes('//') ? url.slice(url.indexOf('//') + 2) : url;
+  const host = afterScheme
+    .split('/')[0]
+    .replace(/^.*@/, '') // credentials
+    .replace(/:\d*$/, '') // port
+    .replace(/\.$/, '')
+    .toLowerCase();
+  const labels = host.split('.');
+  if (labels.length < 2 || labels.some((label) => !label)) return null;
+  const suffixLength = MULTI_PART_SUFFIXES.includes(labels.slice(-2).join('.')) ? 3 : 2;
+  return labels.slice(-suffixLength).join('.');
+};
+
+export const normalizeBrokerName = (name: string): string =>
+  name.toLowerCase().replace(NAME_NOISE, '').replace(/[^a-z0-9]/g, '');
+
+// Levenshtein distance: the single-character edits that turn `a` into `b`
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Whether two names likely mean the same broker once case, punctuation and company suffixes
+ * are dropped: "White Pages Inc." matches "Whitepages", and a one-letter typo matches too
+ * (two letters in names longer than eight, none in names under four).
+ */
+export const namesMatch = (a: string, b: string): boolean => {
+  const first = normalizeBrokerName(a);
+  const second = normalizeBrokerName(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+  const shorter = Math.min(first.length, second.length);
+  // Names this short differ by one letter too often to mean anything
+  if (shorter < 4) return false;
+  return editDistance(first, second) <= (shorter > 8 ? 2 : 1);
+};
+
+// Every existing broker, active or not, on the submission's domain or with a matching name
+export const findDuplicateBrokers = (
+  submission: { name: string; website: string },
+  brokers: DataBroker[]
+): BrokerDuplicate[] => {
+  const domain = registrableDomain(submission.website);
+  return brokers.reduce<BrokerDuplicate[]>((duplicates, broker) => {
+    if (domain && registrableDomain(broker.website) === domain) duplicates.push({ broker, match: 'domain' });
+    else if (namesMatch(submission.name, broker.name)) duplicates.push({ broker, match: 'name' });
+    return duplicates;
+  }, []);
+};
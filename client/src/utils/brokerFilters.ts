@@ -0,0 +1,138 @@
+// Search, filters, sort and paging for the broker list. The state lives in the query string,
+// so a filtered view can be shared as a link; defaults are left out to keep links short.
+import { BROKER_TAGS, BrokerTag, DataBroker } from '../types/contracts';
+
+// Weight thresholds of the impact levels; a weight is the reward multiplier in hundredths
+export const MEDIUM_IMPACT_WEIGHT = 200;
+export const HIGH_IMPACT_WEIGHT = 300;
+
+export const BROKER_PAGE_SIZE = 10;
+
+export type BrokerStatusFilter = 'all' | 'active' | 'inactive';
+export type ImpactLevel = 'standard' | 'medium' | 'high';
+export type BrokerSort = 'id' | 'name' | 'removals' | 'disputes';
+
+export interface BrokerQuery {
+  search: string;
+  status: BrokerStatusFilter;
+  impact: ImpactLevel | 'all';
+  tags: BrokerTag[]; // A broker matches with any one of them
+  maxDisputeRate?: number; // percent
+  sort: BrokerSort;
+  page: number; // 1-based
+}
+
+export const DEFAULT_BROKER_QUERY: BrokerQuery = {
+  search: '',
+  status: 'active',
+  impact: 'all',
+  tags: [],
+  maxDisputeRate: undefined,
+  sort: 'id',
+  page: 1,
+};
+
+export const IMPACT_LABELS: Record<ImpactLevel, string> = {
+  standard: 'Standard',
+  medium: 'Medium Impact',
+  high: 'High Impact',
+};
+
+export const BROKER_SORT_LABELS: Record<BrokerSort, string> = {
+  id: 'Oldest first',
+  name: 'Name (A-Z)',
+  removals: 'Most removals',
+  disputes: 'Most disputes',
+};
+
+export const impactOf = (weight: number): ImpactLevel =>
+  weight >= HIGH_IMPACT_WEIGHT ? 'high' : weight >= MEDIUM_IMPACT_WEIGHT ? 'medium' : 'standard';
+
+/**
+ * Disputes per completed removal, as a percent capped at 100. A broker with disputes
+ * but no removals counts as fully disputed.
+ */
+export const disputeRate = (broker: DataBroker): number => {
+  if (broker.totalDisputes === 0) return 0;
+  if (broker.totalRemovals === 0) return 100;
+  return Math.min(100, (broker.totalDisputes / broker.totalRemovals) * 100);
+};
+
+// ============ Query string ============
+
+const pickOption = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const positiveInteger = (value: string | null): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+// Unknown or malformed values fall back to the defaults rather than emptying the list
+export const parseBrokerQuery = (params: URLSearchParams): BrokerQuery => {
+  const maxDisputeRate = Number(params.get('disputes'));
+  return {
+    search: params.get('q') ?? '',
+    status: pickOption(params.get('status'), ['all', 'active', 'inactive'], DEFAULT_BROKER_QUERY.status),
+    impact: pickOption(params.get('impact'), ['all', 'standard', 'medium', 'high'], DEFAULT_BROKER_QUERY.impact),
+    tags: BROKER_TAGS.filter((tag) => (params.get('tags') ?? '').split(',').includes(tag)),
+    maxDisputeRate:
+      params.has('disputes') && maxDisputeRate >= 0 && maxDisputeRate <= 100 ? maxDisputeRate : undefined,
+    sort: pickOption(params.get('sort'), ['id', 'name', 'removals', 'disputes'], DEFAULT_BROKER_QUERY.sort),
+    page: positiveInteger(params.get('page')) ?? DEFAULT_BROKER_QUERY.page,
+  };
+};
+
+export const toBrokerSearchParams = (query: BrokerQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search.trim()) params.set('q', query.search);
+  if (query.status !== DEFAULT_BROKER_QUERY.status) params.set('status', query.status);
+  if (query.impact !== DEFAULT_BROKER_QUERY.impact) params.set('impact', query.impact);
+  if (query.tags.length > 0) params.set('tags', query.tags.join(','));
+  if (query.maxDisputeRate !== undefined) params.set('disputes', String(query.maxDisputeRate));
+  if (query.sort !== DEFAULT_BROKER_QUERY.sort) params.set('sort', query.sort);
+  if (query.page !== DEFAULT_BROKER_QUERY.page) params.set('page', String(query.page));
+  return params;
+};
+
+// ============ Filtering ============
+
+// Every word of the search has to appear in the name, website or contact
+const matchesSearch = (broker: DataBroker, search: string): boolean => {
+  const haystack = `${broker.name} ${broker.website} ${broker.contact}`.toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+};
+
+export const filterBrokers = (brokers: DataBroker[], query: BrokerQuery): DataBroker[] =>
+  brokers.filter(
+    (broker) =>
+      matchesSearch(broker, query.search) &&
+      (query.status === 'all' || broker.isActive === (query.status === 'active')) &&
+      (query.impact === 'all' || impactOf(broker.weight) === query.impact) &&
+      (query.tags.length === 0 || query.tags.some((tag) => broker.tags.includes(tag))) &&
+      (query.maxDisputeRate === undefined || disputeRate(broker) <= query.maxDisputeRate)
+  );
+
+const COMPARATORS: Record<BrokerSort, (a: DataBroker, b: DataBroker) => number> = {
+  id: (a, b) => a.id - b.id,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  removals: (a, b) => b.totalRemovals - a.totalRemovals,
+  disputes: (a, b) => b.totalDisputes - a.totalDisputes,
+};
+
+// Ties keep registry order, so paging through a sorted list never shuffles brokers between pages
+export const sortBrokers = (brokers: DataBroker[], sort: BrokerSort): DataBroker[] =>
+  [...brokers].sort((a, b) => COMPARATORS[sort](a, b) || a.id - b.id);
+
+export const pageCount = (total: number, pageSize: number = BROKER_PAGE_SIZE): number =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+// Pages past the end show the last one, e.g. after a filter narrows a shared link
+export const paginate = <T>(items: T[], page: number, pageSize: number = BROKER_PAGE_SIZE): T[] => {
+  const current = Math.min(page, pageCount(items.length, pageSize));
+  return items.slice((current - 1) * pageSize, current * pageSize);
+};
@@ -0,0 +1,126 @@
+// Bulk task planning: one removal task per broker in a set, with payouts from a single rule.
+// Runs are kept in this browser until every task is created, so a closed tab or a failed
+// transaction can be resumed without paying twice.
+import { BrokerTag, DataBroker, UserTaskData } from '../types/contracts';
+import { HIGH_IMPACT_WEIGHT } from './brokerFilters';
+
+export const BULK_TASK_STORAGE_KEY = 'removal-ninja:bulk-tasks';
+
+// RemovalTaskFactory.batchCreateTasks rejects batches larger than this
+export const MAX_BATCH_SIZE = 20;
+
+export type BrokerSet = 'active' | 'highImpact' | 'tagged' | 'custom';
+
+// flat pays every broker the base payout; weighted scales it by the broker's multiplier
+export type PayoutRule = 'flat' | 'weighted';
+
+export interface BulkTaskItem {
+  brokerId: number;
+  brokerName: string;
+  payout: string; // wei
+  subjectCommit?: string; // set once the run starts
+  created: boolean;
+}
+
+export interface BulkTaskRun {
+  factory: string;
+  creator: string;
+  duration: number; // seconds
+  items: BulkTaskItem[];
+  startedAt: number;
+}
+
+/**
+ * The active brokers in `set`; `tags` picks them by category for `tagged`, and `brokerIds`
+ * by hand for `custom`.
+ */
+export const selectBrokers = (
+  brokers: DataBroker[],
+  set: BrokerSet,
+  brokerIds: number[] = [],
+  tags: BrokerTag[] = []
+): DataBroker[] => {
+  const active = brokers.filter((broker) => broker.isActive);
+  if (set === 'highImpact') return active.filter((broker) => broker.weight >= HIGH_IMPACT_WEIGHT);
+  if (set === 'tagged') return active.filter((broker) => tags.some((tag) => broker.tags.includes(tag)));
+  if (set === 'custom') return active.filter((broker) => brokerIds.includes(broker.id));
+  return active;
+};
+
+// A broker's weight is its multiplier in hundredths, e.g. 300 pays 3x
+export const payoutFor = (broker: DataBroker, basePayout: bigint, rule: PayoutRule): bigint =>
+  rule === 'weighted' ? (basePayout * BigInt(broker.weight)) / BigInt(100) : basePayout;
+
+export const planBulkTasks = (brokers: DataBroker[], basePayout: bigint, rule: PayoutRule): BulkTaskItem[] =>
+  brokers.map((broker) => ({
+    brokerId: broker.id,
+    brokerName: broker.name,
+    payout: payoutFor(broker, basePayout, rule).toString(),
+    created: false,
+  }));
+
+export const pendingItems = (items: BulkTaskItem[]): BulkTaskItem[] => items.filter((item) => !item.created);
+
+/**
+ * What creating `items` pulls from the wallet: the payouts plus the factory's platform fee,
+ * a percentage charged on top of each payout (zero for factories without one).
+ */
+export const bulkTaskCost = (items: BulkTaskItem[], feeRate: number = 0): bigint => {
+  const payouts = items.reduce((total, item) => total + BigInt(item.payout), BigInt(0));
+  return payouts + (payouts * BigInt(feeRate)) / BigInt(100);
+};
+
+export const chunkItems = (items: BulkTaskItem[], size: number = MAX_BATCH_SIZE): BulkTaskItem[][] => {
+  const chunks: BulkTaskItem[][] = [];
+  for (let index = 0; index < items.length; index += size) chunks.push(items.slice(index, index + size));
+  return chunks;
+};
+
+/**
+ * Mark items whose commitment already shows up among the creator's tasks, e.g. a task
+ * mined after the tab closed but before the run recorded it.
+ */
+export const reconcileBulkRun = (run: BulkTaskRun, userTasks: UserTaskData[]): BulkTaskRun => {
+  const commitments = new Set(userTasks.map(({ task }) => task.subjectCommit.toLowerCase()));
+  return {
+    ...run,
+    items: run.items.map((item) =>
+      !item.created && item.subjectCommit && commitments.has(item.subjectCommit.toLowerCase())
+        ? { ...item, created: true }
+        : item
+    ),
+  };
+};
+
+// ============ Local run storage ============
+
+// One run per factory and creator, so switching wallets or networks never resumes another's run
+const runKey = (factory: string, creator: string): string => `${factory.toLowerCase()}:${creator.toLowerCase()}`;
+
+const readRuns = (): Record<string, BulkTaskRun> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(BULK_TASK_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeRuns = (runs: Record<string, BulkTaskRun>) => {
+  window.localStorage.setItem(BULK_TASK_STORAGE_KEY, JSON.stringify(runs));
+};
+
+// Only brokers, payouts and commitments are stored; the subject's details never are
+export const saveBulkRun = (run: BulkTaskRun) => {
+  const runs = readRuns();
+  runs[runKey(run.factory, run.creator)] = run;
+  writeRuns(runs);
+};
+
+export const getBulkRun = (factory: string, creator: string): BulkTaskRun | undefined =>
+  readRuns()[runKey(factory, creator)];
+
+export const clearBulkRun = (factory: string, creator: string) => {
+  const runs = readRuns();
+  delete runs[runKey(factory, creator)];
+  writeRuns(runs);
+};
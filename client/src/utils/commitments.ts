@@ -0,0 +1,130 @@
+// Subject commitments: the bytes32 a removal task carries instead of the identifiers of the
+// person it is about. The commitment binds the task to one subject without revealing them,
+// and the requester can later open it to a processor or in a dispute.
+import { defaultAbiCoder, hexlify, isHexString, keccak256, randomBytes } from 'ethers/lib/utils';
+
+export const SUBJECT_SALT_STORAGE_KEY = 'removal-ninja:subject-salts';
+
+// Domain tag hashed into every commitment, bumped if the encoding ever changes
+const SUBJECT_COMMITMENT_DOMAIN = 'removal.ninja/subject/v1';
+
+export interface SubjectIdentifiers {
+  fullName: string;
+  email?: string;
+  phone?: string;
+  location?: string; // City and state as the broker lists them
+}
+
+// Everything needed to check a commitment; safe to hand to the task's processor
+export interface SubjectOpening {
+  subject: SubjectIdentifiers;
+  salt: string;
+}
+
+export interface StoredSalt {
+  salt: string;
+  createdAt: number;
+}
+
+// ============ Encoding ============
+
+const normalizeText = (value = ''): string =>
+  value.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Keeps a leading + so international and national forms of a number stay distinct
+const normalizePhone = (value = ''): string => {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return digits && trimmed.startsWith('+') ? `+${digits}` : digits;
+};
+
+/**
+ * Canonical form of a subject: case, spacing and phone punctuation do not change the
+ * commitment, so the requester can reproduce it from identifiers typed again later.
+ */
+export const normalizeSubject = (subject: SubjectIdentifiers): Required<SubjectIdentifiers> => ({
+  fullName: normalizeText(subject.fullName),
+  email: normalizeText(subject.email),
+  phone: normalizePhone(subject.phone),
+  location: normalizeText(subject.location),
+});
+
+export const generateSalt = (): string => hexlify(randomBytes(32));
+
+/**
+ * keccak256 over the ABI encoding of the domain tag, the normalized identifiers and a
+ * 32-byte salt. The salt keeps a commitment from being matched against guessed names.
+ */
+export const computeSubjectCommitment = (subject: SubjectIdentifiers, salt: string): string => {
+  if (!isHexString(salt, 32)) {
+    throw new Error('Subject salt must be 32 bytes of hex');
+  }
+  const { fullName, email, phone, location } = normalizeSubject(subject);
+  return keccak256(
+    defaultAbiCoder.encode(
+      ['string', 'string', 'string', 'string', 'string', 'bytes32'],
+      [SUBJECT_COMMITMENT_DOMAIN, fullName, email, phone, location, salt]
+    )
+  );
+};
+
+export const createSubjectCommitment = (
+  subject: SubjectIdentifiers
+): { commitment: string; opening: SubjectOpening } => {
+  const opening = { subject: normalizeSubject(subject), salt: generateSalt() };
+  return { commitment: computeSubjectCommitment(opening.subject, opening.salt), opening };
+};
+
+export const verifySubjectOpening = (commitment: string, opening: SubjectOpening): boolean => {
+  try {
+    return computeSubjectCommitment(opening.subject, opening.salt) === commitment.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// ============ Local salt storage ============
+
+const readSalts = (): Record<string, StoredSalt> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(SUBJECT_SALT_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Only the salt is kept; the identifiers are never written to the browser
+export const saveSubjectSalt = (commitment: string, salt: string) => {
+  const salts = readSalts();
+  salts[commitment.toLowerCase()] = { salt, createdAt: Date.now() };
+  window.localStorage.setItem(SUBJECT_SALT_STORAGE_KEY, JSON.stringify(salts));
+};
+
+export const getSubjectSalt = (commitment: string): string | undefined =>
+  readSalts()[commitment.toLowerCase()]?.salt;
+
+// Hand every locally stored salt over, e.g. to the encrypted vault, and forget them here
+export const takeLocalSubjectSalts = (): Record<string, StoredSalt> => {
+  const salts = readSalts();
+  window.localStorage.removeItem(SUBJECT_SALT_STORAGE_KEY);
+  return salts;
+};
+
+/**
+ * Rebuild the opening of a task's commitment from identifiers the requester enters again
+ * and the salt saved when the task was created (in the vault, or in this browser).
+ */
+export const openSubjectCommitment = (
+  commitment: string,
+  subject: SubjectIdentifiers,
+  salt: string | undefined = getSubjectSalt(commitment)
+): SubjectOpening => {
+  if (!salt) {
+    throw new Error('No salt for this commitment is stored in this browser');
+  }
+  const opening = { subject: normalizeSubject(subject), salt };
+  if (!verifySubjectOpening(commitment, opening)) {
+    throw new Error('These identifiers do not match the commitment');
+  }
+  return opening;
+};
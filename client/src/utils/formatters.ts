@@ -4,9 +4,210 @@ export const formatAddress = (address: string): string => {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
+// ============ Token Amounts ============
+// On-chain amounts are integers in the token's smallest unit. Everything below
+// works on bigint so values above 2^53 wei never pass through a float.
+
+export const TOKEN_DECIMALS = 18;
+
+/**
+ * How to drop digits that do not fit: 'down'/'up' round toward/away from zero,
+ * 'floor'/'ceil' toward -/+ infinity, 'halfUp' sends ties away from zero and
+ * 'halfEven' sends ties to the even neighbour.
+ */
+export type RoundingMode = 'down' | 'up' | 'floor' | 'ceil' | 'halfUp' | 'halfEven';
+
+// Raw amounts as returned by contracts: bigint, ethers BigNumber, or an integer string/number
+export type AmountLike = bigint | number | string | { toString(): string };
+
+export interface FormatAmountOptions {
+  decimals?: number; // decimals of the raw value, 18 for RN and ETH
+  maxFractionDigits?: number;
+  minFractionDigits?: number;
+  rounding?: RoundingMode;
+  compact?: boolean; // 1.2K, 3.4M, ...
+  grouping?: boolean; // thousands separators
+  locale?: string; // defaults to the browser locale
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const COMPACT_SUFFIXES = ['', 'K', 'M', 'B', 'T'];
+
+const pow10 = (exponent: number): bigint => BigInt(`1${'0'.repeat(exponent)}`);
+
+const abs = (value: bigint): bigint => (value < ZERO ? -value : value);
+
+export const toBigInt = (value: AmountLike): bigint => {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(value);
+  return BigInt(value.toString());
+};
+
+/**
+ * Integer division with an explicit rounding mode.
+ */
+export const divideRounded = (numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint => {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === ZERO) return quotient;
+
+  const negative = (numerator < ZERO) !== (denominator < ZERO);
+  const awayFromZero = negative ? quotient - ONE : quotient + ONE;
+
+  switch (rounding) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return awayFromZero;
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    case 'halfUp':
+    case 'halfEven': {
+      const twiceRemainder = abs(remainder) * TWO;
+      const absDenominator = abs(denominator);
+      if (twiceRemainder !== absDenominator) {
+        return twiceRemainder > absDenominator ? awayFromZero : quotient;
+      }
+      if (rounding === 'halfUp') return awayFromZero;
+      return quotient % TWO === ZERO ? quotient : awayFromZero;
+    }
+  }
+};
+
+const rescale = (amount: bigint, fromDecimals: number, toDecimals: number, rounding: RoundingMode): bigint =>
+  toDecimals >= fromDecimals
+    ? amount * pow10(toDecimals - fromDecimals)
+    : divideRounded(amount, pow10(fromDecimals - toDecimals), rounding);
+
+/**
+ * Parse a decimal string such as "12.5" into the token's smallest unit.
+ * Extra fraction digits are an error unless a rounding mode is given.
+ */
+export const parseUnits = (
+  value: string,
+  decimals: number = TOKEN_DECIMALS,
+  rounding?: RoundingMode
+): bigint => {
+  const match = /^\s*([-+])?(\d*)(?:\.(\d*))?\s*$/.exec(value);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [, sign, whole = '', rawFraction = ''] = match;
+  const fraction = rawFraction.replace(/0+$/, ''); // trailing zeros never need rounding
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  const signed = sign === '-' ? -digits : digits;
+
+  if (fraction.length > decimals && !rounding) {
+    throw new Error(`Amount "${value}" has more than ${decimals} decimal places`);
+  }
+  return rescale(signed, fraction.length, decimals, rounding ?? 'down');
+};
+
+/**
+ * Exact decimal representation of a raw amount, without trailing zeros.
+ */
+export const formatUnits = (value: AmountLike, decimals: number = TOKEN_DECIMALS): string => {
+  const amount = toBigInt(value);
+  const base = pow10(decimals);
+  const whole = abs(amount) / base;
+  const fraction = (abs(amount) % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${amount < ZERO ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+const decimalSeparator = (locale?: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+
+/**
+ * Display a raw amount rounded to a fixed number of fraction digits, with
+ * locale grouping and optional compact notation. Defaults to two digits
+ * rounded down, so a balance is never shown larger than it is.
+ */
+export const formatAmount = (value: AmountLike, options: FormatAmountOptions = {}): string => {
+  const {
+    decimals = TOKEN_DECIMALS,
+    maxFractionDigits = 2,
+    rounding = 'down',
+    compact = false,
+    grouping = true,
+    locale,
+  } = options;
+  const minFractionDigits = Math.min(options.minFractionDigits ?? (compact ? 0 : maxFractionDigits), maxFractionDigits);
+  const amount = toBigInt(value);
+  const fractionBase = pow10(maxFractionDigits);
+
+  let unit = 0;
+  if (compact) {
+    while (unit < COMPACT_SUFFIXES.length - 1 && abs(amount) >= pow10(decimals + 3 * (unit + 1))) {
+      unit++;
+    }
+  }
+
+  let rounded = rescale(amount, decimals + 3 * unit, maxFractionDigits, rounding);
+  // Rounding can carry into the next unit, e.g. 999.95K -> 1.00M
+  if (compact && unit < COMPACT_SUFFIXES.length - 1 && abs(rounded) >= pow10(3) * fractionBase) {
+    unit++;
+    rounded = rescale(amount, decimals + 3 * unit, maxFractionDigits, rounding);
+  }
+
+  const whole = abs(rounded) / fractionBase;
+  let fraction = (abs(rounded) % fractionBase).toString().padStart(maxFractionDigits, '0');
+  while (fraction.length > minFractionDigits && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const wholeText = new Intl.NumberFormat(locale, { useGrouping: grouping }).format(whole);
+  const fractionText = fraction ? `${decimalSeparator(locale)}${fraction}` : '';
+  return `${rounded < ZERO ? '-' : ''}${wholeText}${fractionText}${COMPACT_SUFFIXES[unit]}`;
+};
+
+/**
+ * Round a human-readable amount ("123.456") to a fixed number of decimals.
+ * Strings are rounded exactly; numbers are already floats and use toFixed.
+ */
 export const formatTokenAmount = (amount: string | number, decimals: number = 2): string => {
-  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return num.toFixed(decimals);
+  if (typeof amount === 'number') return amount.toFixed(decimals);
+  return formatAmount(parseUnits(amount, decimals, 'halfUp'), {
+    decimals,
+    maxFractionDigits: decimals,
+    grouping: false,
+    locale: 'en-US',
+  });
+};
+
+// ============ Time ============
+// Contracts count time in seconds since the epoch
+
+export const formatTimestamp = (seconds: number): string => new Date(seconds * 1000).toLocaleString();
+
+/**
+ * Largest two units of a duration, e.g. "3d 4h" or "12m"; "0m" for anything under a minute.
+ */
+export const formatDuration = (seconds: number): string => {
+  const units: [string, number][] = [
+    ['d', Math.floor(seconds / 86400)],
+    ['h', Math.floor(seconds / 3600) % 24],
+    ['m', Math.floor(seconds / 60) % 60],
+  ];
+  const first = units.findIndex(([, count]) => count > 0);
+  if (first === -1) return '0m';
+  return units
+    .slice(first, first + 2)
+    .filter(([, count]) => count > 0)
+    .map(([unit, count]) => `${count}${unit}`)
+    .join(' ');
+};
+
+// ============ File Sizes ============
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
 export const validateEmail = (email: string): boolean => {
@@ -22,3 +223,6 @@ export const validateUrl = (url: string): boolean => {
     return false;
   }
 };
+
+// Safe to render as a link: anything but http(s), e.g. javascript:, is shown as text instead
+export const isHttpUrl = (url: string): boolean => validateUrl(url) && /^https?:$/.test(new URL(url).protocol);
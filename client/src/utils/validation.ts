@@ -0,0 +1,216 @@
+// Declarative form validation. Schemas are plain data so the same rules run in
+// forms, bulk imports and anything else that builds contract arguments.
+import type { WorkerAction } from '../contracts/tasks';
+import {
+  AddBrokerForm,
+  CommitVoteForm,
+  CreateDisputeForm,
+  CreateTaskForm,
+  IncreaseStakeForm,
+  RegisterArbitratorForm,
+  RegisterVerifierForm,
+  RegisterWorkerForm,
+  SubmitEvidenceForm,
+  ValidationError,
+} from '../types/contracts';
+import type { SubjectProfile } from '../vault';
+import { formatUnits, isHttpUrl, parseUnits, validateEmail, validateUrl } from './formatters';
+
+// A rule returns an error message, or null when the value passes
+export type Rule<T, C = {}> = (value: string, values: T, context: C) => string | null;
+
+export type FormSchema<T, C = {}> = { [K in keyof T]?: Rule<T, C>[] };
+
+// Limits enforced on-chain by RemovalTaskFactoryUltraSimple and RemovalTaskFactorySimple
+export const MIN_PAYOUT = parseUnits('10');
+export const MIN_STAKE = parseUnits('100');
+export const MIN_DURATION_DAYS = 7;
+export const MAX_DURATION_DAYS = 90;
+// VerifierRegistry.MIN_VERIFIER_STAKE
+export const MIN_VERIFIER_STAKE = parseUnits('500');
+// DisputeResolution.MIN_DISPUTE_BOND and the initial minArbitratorStake
+export const MIN_DISPUTE_BOND = parseUnits('50');
+export const MIN_ARBITRATOR_STAKE = parseUnits('1000');
+
+// Wallet state the amount rules check against; balance is skipped while it is loading
+export interface BalanceContext {
+  balance?: bigint;
+}
+
+/**
+ * Run every field's rules against `values`. Each field reports only its first
+ * failing rule, so the messages stay actionable one at a time.
+ */
+export const validate = <T, C>(schema: FormSchema<T, C>, values: T, context: C): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  (Object.keys(schema) as (keyof T & string)[]).forEach((field) => {
+    const value = String(values[field] ?? '');
+    for (const rule of schema[field] ?? []) {
+      const message = rule(value, values, context);
+      if (message) {
+        errors.push({ field, message });
+        break;
+      }
+    }
+  });
+  return errors;
+};
+
+export const getFieldError = (errors: ValidationError[], field: string): string | undefined =>
+  errors.find((error) => error.field === field)?.message;
+
+// ============ Rules ============
+
+export const required = <T, C>(message = 'This field is required'): Rule<T, C> => (value) =>
+  value.trim() ? null : message;
+
+export const maxLength = <T, C>(max: number): Rule<T, C> => (value) =>
+  value.length <= max ? null : `Must be at most ${max} characters`;
+
+export const oneOf = <T, C>(options: string[], message = 'Choose one of the listed options'): Rule<T, C> => (value) =>
+  options.includes(value) ? null : message;
+
+export const httpUrl = <T, C>(): Rule<T, C> => (value) =>
+  isHttpUrl(value) ? null : 'Enter a full http(s) URL';
+
+const hostnameOf = (url: string): string | null => {
+  if (!validateUrl(url)) return null;
+  return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+};
+
+// Subdomains count as the same site, e.g. optout.spokeo.com for spokeo.com
+export const sameSiteAs = <T, C>(field: keyof T, label: string): Rule<T, C> => (value, values) => {
+  const host = hostnameOf(value);
+  const siteHost = hostnameOf(String(values[field] ?? ''));
+  if (!host || !siteHost) return null; // Malformed URLs are reported by their own rules
+  const matches = host === siteHost || host.endsWith(`.${siteHost}`) || siteHost.endsWith(`.${host}`);
+  return matches ? null : `Must be on the same domain as the ${label} (${siteHost})`;
+};
+
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+const isPhoneNumber = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '').length;
+  return PHONE_PATTERN.test(value) && digits >= 7 && digits <= 15;
+};
+
+export const emailOrPhone = <T, C>(): Rule<T, C> => (value) => {
+  const trimmed = value.trim();
+  return validateEmail(trimmed) || isPhoneNumber(trimmed) ? null : 'Enter an email address or phone number';
+};
+
+// Blank values pass these two; pair them with required() when the field is mandatory
+export const emailAddress = <T, C>(): Rule<T, C> => (value) =>
+  !value.trim() || validateEmail(value.trim()) ? null : 'Enter a valid email address';
+
+export const phoneNumber = <T, C>(): Rule<T, C> => (value) =>
+  !value.trim() || isPhoneNumber(value.trim()) ? null : 'Enter a valid phone number';
+
+export const integerBetween = <T, C>(min: number, max: number, unit: string): Rule<T, C> => (value) => {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value.trim()) || parsed < min || parsed > max) {
+    return `Must be a whole number of ${unit} between ${min} and ${max}`;
+  }
+  return null;
+};
+
+// The amount in wei, or null when `value` is not a valid RN amount
+export const parseAmount = (value: string): bigint | null => {
+  try {
+    return parseUnits(value);
+  } catch {
+    return null;
+  }
+};
+
+export const tokenAmount = <T, C>(): Rule<T, C> => (value) =>
+  parseAmount(value) === null ? 'Enter a valid RN amount' : null;
+
+export const minAmount = <T, C>(min: bigint): Rule<T, C> => (value) => {
+  const amount = parseAmount(value);
+  return amount !== null && amount < min ? `Minimum is ${formatUnits(min)} RN` : null;
+};
+
+export const positiveAmount = <T, C>(): Rule<T, C> => (value) => {
+  const amount = parseAmount(value);
+  return amount !== null && amount <= BigInt(0) ? 'Must be greater than 0' : null;
+};
+
+export const withinBalance = <T, C extends BalanceContext>(): Rule<T, C> => (value, _values, { balance }) => {
+  const amount = parseAmount(value);
+  if (amount === null || balance === undefined || amount <= balance) return null;
+  return `Exceeds your balance of ${formatUnits(balance)} RN`;
+};
+
+// ============ Schemas ============
+
+export const BROKER_SCHEMA: FormSchema<AddBrokerForm> = {
+  name: [required('Enter the broker name'), maxLength(100)],
+  website: [required('Enter the broker website'), httpUrl()],
+  removalLink: [required('Enter the opt-out page'), httpUrl(), sameSiteAs('website', 'website')],
+  contact: [required('Enter a privacy contact'), emailOrPhone()],
+  weight: [oneOf(['100', '200', '300'], 'Choose an impact level')],
+};
+
+export const TASK_SCHEMA: FormSchema<CreateTaskForm, BalanceContext> = {
+  brokerId: [required('Select a data broker')],
+  payout: [required('Enter a payout'), tokenAmount(), minAmount(MIN_PAYOUT), withinBalance()],
+  duration: [required('Enter a duration'), integerBetween(MIN_DURATION_DAYS, MAX_DURATION_DAYS, 'days')],
+  description: [maxLength(500)],
+  subjectName: [required('Enter the full name the broker lists'), maxLength(100)],
+  subjectEmail: [emailAddress(), maxLength(254)],
+  subjectPhone: [phoneNumber()],
+  subjectLocation: [maxLength(100)],
+};
+
+export const WORKER_SCHEMA: FormSchema<RegisterWorkerForm, BalanceContext> = {
+  stakeAmount: [required('Enter a stake amount'), tokenAmount(), minAmount(MIN_STAKE), withinBalance()],
+  description: [required('Describe your experience'), maxLength(500)],
+};
+
+export const VERIFIER_SCHEMA: FormSchema<RegisterVerifierForm, BalanceContext> = {
+  stakeAmount: [required('Enter a stake amount'), tokenAmount(), minAmount(MIN_VERIFIER_STAKE), withinBalance()],
+  description: [required('Describe how you review evidence'), maxLength(500)],
+};
+
+export const INCREASE_STAKE_SCHEMA: FormSchema<IncreaseStakeForm, BalanceContext> = {
+  amount: [required('Enter an amount'), tokenAmount(), positiveAmount(), withinBalance()],
+};
+
+export const ARBITRATOR_SCHEMA: FormSchema<RegisterArbitratorForm, BalanceContext> = {
+  stakeAmount: [required('Enter a stake amount'), tokenAmount(), minAmount(MIN_ARBITRATOR_STAKE), withinBalance()],
+  description: [required('Describe your arbitration experience'), maxLength(500)],
+};
+
+export const DISPUTE_SCHEMA: FormSchema<CreateDisputeForm, BalanceContext> = {
+  bondAmount: [required('Enter a bond amount'), tokenAmount(), minAmount(MIN_DISPUTE_BOND), withinBalance()],
+  reason: [required('Explain why the verification was wrong'), maxLength(500)],
+};
+
+export const VOTE_SCHEMA: FormSchema<CommitVoteForm> = {
+  reason: [required('Explain your vote'), maxLength(500)],
+};
+
+// Worker steps on an assigned task; `summary` is the note sent along with each step
+export const TASK_STEP_SCHEMAS: Record<WorkerAction, FormSchema<SubmitEvidenceForm>> = {
+  markRemovalRequested: { summary: [maxLength(500)] },
+  markBrokerResponded: { summary: [required("Describe the broker's response"), maxLength(500)] },
+  submitEvidence: {
+    evidenceCid: [required('Attach an evidence file')],
+    summary: [required('Summarize what the evidence shows'), maxLength(500)],
+  },
+  markFailed: { summary: [required('Explain why the removal failed'), maxLength(500)] },
+};
+
+export const PROFILE_SCHEMA: FormSchema<Omit<SubjectProfile, 'id'>> = {
+  label: [required('Name this profile'), maxLength(50)],
+  fullName: [required('Enter the full legal name'), maxLength(100)],
+  email: [emailAddress(), maxLength(254)],
+  phone: [phoneNumber()],
+  location: [maxLength(100)],
+  identifiers: [maxLength(2000)],
+};
+
+// Attributes tying an input to the FieldError rendered for it
+export const errorProps = (errors: ValidationError[], field: string) =>
+  getFieldError(errors, field) ? { 'aria-invalid': true, 'aria-describedby': `${field}-error` } : {};
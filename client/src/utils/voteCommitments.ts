@@ -0,0 +1,66 @@
+// Dispute vote commitments: arbitrators commit keccak256(vote, reason, salt) while a dispute
+// is in its commit phase, and reveal the three values once it moves on. Nobody sees a vote
+// before every arbitrator has committed, so no one can copy the majority.
+import { BigNumber } from 'ethers';
+import { randomBytes, solidityKeccak256 } from 'ethers/lib/utils';
+
+export const DISPUTE_VOTE_STORAGE_KEY = 'removal-ninja:dispute-votes';
+
+// What the arbitrator needs to reveal a committed vote
+export interface DisputeVote {
+  vote: boolean; // true upholds the original verification
+  reason: string;
+  salt: string; // uint256 as a decimal string
+}
+
+export interface StoredDisputeVote extends DisputeVote {
+  createdAt: number;
+}
+
+export const generateVoteSalt = (): string => BigNumber.from(randomBytes(32)).toString();
+
+// Matches the contract's keccak256(abi.encodePacked(vote, reason, salt))
+export const computeVoteCommitment = ({ vote, reason, salt }: DisputeVote): string =>
+  solidityKeccak256(['bool', 'string', 'uint256'], [vote, reason, salt]);
+
+// ============ Local vote storage ============
+
+// One entry per dispute contract, dispute and arbitrator, so switching wallets or networks
+// never reveals another account's vote
+const voteKey = (contract: string, disputeId: number, arbitrator: string): string =>
+  `${contract.toLowerCase()}:${disputeId}:${arbitrator.toLowerCase()}`;
+
+const readVotes = (): Record<string, StoredDisputeVote> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(DISPUTE_VOTE_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Saved before the commitment is sent: a vote committed without its salt can never be revealed
+export const saveDisputeVote = (contract: string, disputeId: number, arbitrator: string, vote: DisputeVote) => {
+  const votes = readVotes();
+  votes[voteKey(contract, disputeId, arbitrator)] = { ...vote, createdAt: Date.now() };
+  window.localStorage.setItem(DISPUTE_VOTE_STORAGE_KEY, JSON.stringify(votes));
+};
+
+export const getDisputeVote = (contract: string, disputeId: number, arbitrator: string): DisputeVote | undefined => {
+  const stored = readVotes()[voteKey(contract, disputeId, arbitrator)];
+  return stored && { vote: stored.vote, reason: stored.reason, salt: stored.salt };
+};
+
+/**
+ * Create a vote and its commitment, keeping the opening in this browser for the reveal.
+ */
+export const createDisputeVote = (
+  contract: string,
+  disputeId: number,
+  arbitrator: string,
+  vote: boolean,
+  reason: string
+): { commitment: string; opening: DisputeVote } => {
+  const opening = { vote, reason, salt: generateVoteSalt() };
+  saveDisputeVote(contract, disputeId, arbitrator, opening);
+  return { commitment: computeVoteCommitment(opening), opening };
+};
@@ -0,0 +1,111 @@
+import { createMemoryVaultStore, createVault, DEFAULT_AUTO_LOCK_MINUTES, SubjectProfile, VaultStore } from '..';
+
+const PASSPHRASE = { method: 'passphrase' as const, passphrase: 'correct horse battery staple' };
+const SIGNATURE = { method: 'wallet' as const, signature: `0x${'ab'.repeat(65)}` };
+const ADDRESS = '0x1234567890123456789012345678901234567890';
+
+const JANE: SubjectProfile = {
+  id: 'jane',
+  label: 'Me',
+  fullName: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '+1 555 010 9999',
+  location: 'Austin, TX',
+  identifiers: 'https://www.spokeo.com/Jane-Doe',
+};
+
+const addJane = (vault: ReturnType<typeof createVault>) =>
+  vault.update((contents) => ({ ...contents, profiles: [JANE] }));
+
+describe('vault', () => {
+  let store: VaultStore;
+
+  beforeEach(() => {
+    store = createMemoryVaultStore();
+  });
+
+  test('stores only ciphertext and key-derivation parameters', async () => {
+    const vault = createVault(store);
+
+    expect(await vault.create(PASSPHRASE)).toEqual({
+      profiles: [],
+      salts: {},
+      settings: { autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES },
+    });
+    await addJane(vault);
+
+    const record = await store.load();
+    expect(record?.kdf).toMatchObject({ method: 'passphrase', iterations: 310000 });
+    expect(JSON.stringify(record)).not.toMatch(/jane|austin/i);
+  });
+
+  test('locks, and unlocks only with the same passphrase', async () => {
+    const vault = createVault(store);
+    await vault.create(PASSPHRASE);
+    await addJane(vault);
+
+    vault.lock();
+    expect(vault.isUnlocked()).toBe(false);
+    expect(() => vault.getContents()).toThrow('The vault is locked');
+    await expect(vault.unlock({ ...PASSPHRASE, passphrase: 'wrong' })).rejects.toThrow(
+      'Could not decrypt the vault: wrong passphrase or signature, or the data was modified'
+    );
+
+    expect((await createVault(store).unlock(PASSPHRASE)).profiles).toEqual([JANE]);
+  });
+
+  test('re-derives a wallet vault key from the same signature', async () => {
+    const vault = createVault(store);
+    await vault.create(SIGNATURE, ADDRESS);
+    await addJane(vault);
+
+    expect(await vault.getKdf()).toMatchObject({ method: 'wallet', address: ADDRESS });
+    await expect(createVault(store).unlock(PASSPHRASE)).rejects.toThrow(
+      'This vault is unlocked by signing with the wallet that created it'
+    );
+    expect((await createVault(store).unlock(SIGNATURE)).profiles).toEqual([JANE]);
+  });
+
+  test('encrypts every save with a fresh IV', async () => {
+    const vault = createVault(store);
+    await vault.create(PASSPHRASE);
+    const first = await store.load();
+
+    await addJane(vault);
+
+    expect((await store.load())?.iv).not.toBe(first?.iv);
+  });
+
+  test('refuses to overwrite an existing vault', async () => {
+    await createVault(store).create(PASSPHRASE);
+
+    await expect(createVault(store).create(PASSPHRASE)).rejects.toThrow('A vault already exists on this device');
+  });
+
+  test('restores an exported backup on another device', async () => {
+    const vault = createVault(store);
+    await vault.create(PASSPHRASE);
+    await addJane(vault);
+    const backup = await vault.exportBackup();
+    expect(backup).not.toMatch(/jane/i);
+
+    const otherDevice = createVault(createMemoryVaultStore());
+    await expect(otherDevice.importBackup(backup, { ...PASSPHRASE, passphrase: 'wrong' })).rejects.toThrow(
+      'Could not decrypt the vault'
+    );
+    expect(await otherDevice.exists()).toBe(false);
+
+    expect((await otherDevice.importBackup(backup, PASSPHRASE)).profiles).toEqual([JANE]);
+    expect(await otherDevice.exists()).toBe(true);
+  });
+
+  test('rejects files that are not vault backups', async () => {
+    const vault = createVault(store);
+
+    await expect(vault.importBackup('not json', PASSPHRASE)).rejects.toThrow('The backup file is not valid JSON');
+    await expect(vault.importBackup('{"profiles":[]}', PASSPHRASE)).rejects.toThrow('Not a removal.ninja vault backup');
+    await expect(vault.importBackup('{"format":"removal-ninja-vault","version":9}', PASSPHRASE)).rejects.toThrow(
+      'Unsupported vault backup (expected version 1)'
+    );
+  });
+});
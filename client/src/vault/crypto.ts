@@ -0,0 +1,134 @@
+// WebCrypto primitives for the vault: AES-GCM keys derived from a passphrase (PBKDF2)
+// or from a wallet signature (HKDF), and JSON sealed under them
+export const VAULT_KEY_MESSAGE = [
+  'removal.ninja vault key v1',
+  '',
+  'Signing this message unlocks your encrypted vault on this device.',
+  'It does not send a transaction or cost gas.',
+].join('\n');
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 310000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// What the user unlocks with; a signature must be over VAULT_KEY_MESSAGE
+export type KeySource = { method: 'passphrase'; passphrase: string } | { method: 'wallet'; signature: string };
+
+// Stored next to the ciphertext so the same key can be derived again
+export type KdfParams =
+  | { method: 'passphrase'; salt: string; iterations: number }
+  | { method: 'wallet'; salt: string; address: string };
+
+export interface SealedData {
+  iv: string;
+  ciphertext: string;
+}
+
+// ============ Encoding ============
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const digits = hex.replace(/^0x/, '');
+  if (!/^([0-9a-fA-F]{2})+$/.test(digits)) {
+    throw new Error('Signature must be hex encoded');
+  }
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+};
+
+export const randomBase64 = (length: number): string =>
+  toBase64(window.crypto.getRandomValues(new Uint8Array(length)));
+
+// ============ Keys ============
+
+const AES_KEY = { name: 'AES-GCM', length: 256 };
+
+export const newKdfParams = (source: KeySource, address?: string): KdfParams => {
+  const salt = randomBase64(SALT_BYTES);
+  if (source.method === 'passphrase') {
+    return { method: 'passphrase', salt, iterations: PBKDF2_ITERATIONS };
+  }
+  if (!address) {
+    throw new Error('A wallet vault needs the address that signed');
+  }
+  return { method: 'wallet', salt, address: address.toLowerCase() };
+};
+
+/**
+ * AES-256-GCM key for `kdf`. Wallet signatures are deterministic for a given message on
+ * standard wallets, so signing again yields the same key.
+ */
+export const deriveVaultKey = async (subtle: SubtleCrypto, source: KeySource, kdf: KdfParams): Promise<CryptoKey> => {
+  if (source.method !== kdf.method) {
+    throw new Error(
+      kdf.method === 'wallet'
+        ? 'This vault is unlocked by signing with the wallet that created it'
+        : 'This vault is unlocked with its passphrase'
+    );
+  }
+  const salt = fromBase64(kdf.salt);
+
+  if (source.method === 'passphrase' && kdf.method === 'passphrase') {
+    const material = await subtle.importKey('raw', new TextEncoder().encode(source.passphrase), 'PBKDF2', false, [
+      'deriveKey',
+    ]);
+    return subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: kdf.iterations, hash: 'SHA-256' },
+      material,
+      AES_KEY,
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  const signature = source.method === 'wallet' ? source.signature : '';
+  const material = await subtle.importKey('raw', hexToBytes(signature), 'HKDF', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'HKDF', salt, info: new TextEncoder().encode('removal.ninja vault'), hash: 'SHA-256' },
+    material,
+    AES_KEY,
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// ============ Sealing ============
+
+// A fresh IV every time; reusing one under the same key breaks AES-GCM
+export const sealJson = async (subtle: SubtleCrypto, key: CryptoKey, value: unknown): Promise<SealedData> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt and parse sealed JSON. A wrong key fails GCM authentication, which is reported
+ * the same way as tampered data.
+ */
+export const openJson = async <T>(subtle: SubtleCrypto, key: CryptoKey, sealed: SealedData): Promise<T> => {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.ciphertext));
+  } catch {
+    throw new Error('Could not decrypt the vault: wrong passphrase or signature, or the data was modified');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
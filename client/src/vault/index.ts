@@ -0,0 +1,4 @@
+// Client-side encrypted vault for subject PII; nothing in it leaves the browser unencrypted
+export * from './crypto';
+export * from './store';
+export * from './vault';
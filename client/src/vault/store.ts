@@ -0,0 +1,67 @@
+// Persistence for the encrypted vault record. Only ciphertext and key-derivation
+// parameters are ever written.
+import type { EncryptedVault } from './vault';
+
+export interface VaultStore {
+  load: () => Promise<EncryptedVault | undefined>;
+  save: (vault: EncryptedVault) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'removal-ninja';
+const DB_VERSION = 1;
+const STORE_NAME = 'vault';
+const RECORD_KEY = 'default';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  return promisify(request);
+};
+
+export const createIndexedDbVaultStore = (): VaultStore => {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    database = database ?? openDatabase();
+    const store = (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(action(store));
+  };
+
+  return {
+    load: async () => (await withStore('readonly', (store) => store.get(RECORD_KEY))) ?? undefined,
+    save: async (vault) => {
+      await withStore('readwrite', (store) => store.put(vault, RECORD_KEY));
+    },
+    clear: async () => {
+      await withStore('readwrite', (store) => store.delete(RECORD_KEY));
+    },
+  };
+};
+
+// Lives only as long as the page; used where IndexedDB is unavailable and in tests
+export const createMemoryVaultStore = (initial?: EncryptedVault): VaultStore => {
+  let record = initial;
+  return {
+    load: async () => record,
+    save: async (vault) => {
+      record = vault;
+    },
+    clear: async () => {
+      record = undefined;
+    },
+  };
+};
+
+export const createDefaultVaultStore = (): VaultStore =>
+  typeof window !== 'undefined' && window.indexedDB ? createIndexedDbVaultStore() : createMemoryVaultStore();
@@ -0,0 +1,165 @@
+// The vault: subject profiles and commitment salts, encrypted at rest and held in memory
+// only while unlocked
+import type { StoredSalt } from '../utils/commitments';
+import { deriveVaultKey, KdfParams, KeySource, newKdfParams, openJson, SealedData, sealJson } from './crypto';
+import { VaultStore } from './store';
+
+export const VAULT_VERSION = 1;
+const BACKUP_FORMAT = 'removal-ninja-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// One person whose data is being removed; the fields the removal flows ask for
+export interface SubjectProfile {
+  id: string;
+  label: string;
+  fullName: string;
+  email: string;
+  phone: string;
+  location: string;
+  identifiers: string; // URLs, usernames and account IDs to remove, one per line
+}
+
+export interface VaultSettings {
+  autoLockMinutes: number;
+}
+
+export interface VaultContents {
+  profiles: SubjectProfile[];
+  salts: Record<string, StoredSalt>; // Keyed by lowercase commitment
+  settings: VaultSettings;
+}
+
+export interface EncryptedVault extends SealedData {
+  version: number;
+  kdf: KdfParams;
+  updatedAt: number;
+}
+
+export interface Vault {
+  exists: () => Promise<boolean>;
+  isUnlocked: () => boolean;
+  getKdf: () => Promise<KdfParams | undefined>;
+  getContents: () => VaultContents;
+  create: (source: KeySource, address?: string) => Promise<VaultContents>;
+  unlock: (source: KeySource) => Promise<VaultContents>;
+  lock: () => void;
+  update: (change: (contents: VaultContents) => VaultContents) => Promise<VaultContents>;
+  exportBackup: () => Promise<string>;
+  importBackup: (backup: string, source: KeySource) => Promise<VaultContents>;
+  destroy: () => Promise<void>;
+}
+
+export const emptyVaultContents = (): VaultContents => ({
+  profiles: [],
+  salts: {},
+  settings: { autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES },
+});
+
+const isEncryptedVault = (value: any): value is EncryptedVault =>
+  Boolean(value) &&
+  value.version === VAULT_VERSION &&
+  typeof value.iv === 'string' &&
+  typeof value.ciphertext === 'string' &&
+  typeof value.kdf?.salt === 'string' &&
+  (value.kdf.method === 'passphrase' || value.kdf.method === 'wallet');
+
+const parseBackup = (backup: string): EncryptedVault => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(backup);
+  } catch {
+    throw new Error('The backup file is not valid JSON');
+  }
+  if (parsed?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a removal.ninja vault backup');
+  }
+  const { format, ...vault } = parsed;
+  if (!isEncryptedVault(vault)) {
+    throw new Error(`Unsupported vault backup (expected version ${VAULT_VERSION})`);
+  }
+  return vault;
+};
+
+/**
+ * Vault over `store`. The derived key and decrypted contents live in this closure until
+ * lock(); every change is re-encrypted with a fresh IV before it is saved.
+ */
+export const createVault = (store: VaultStore, subtle: SubtleCrypto = window.crypto.subtle): Vault => {
+  let unlocked: { key: CryptoKey; kdf: KdfParams; contents: VaultContents } | undefined;
+
+  const persist = async (key: CryptoKey, kdf: KdfParams, contents: VaultContents) => {
+    const sealed = await sealJson(subtle, key, contents);
+    await store.save({ version: VAULT_VERSION, kdf, updatedAt: Date.now(), ...sealed });
+    unlocked = { key, kdf, contents };
+    return contents;
+  };
+
+  const openRecord = async (record: EncryptedVault, source: KeySource) => {
+    const key = await deriveVaultKey(subtle, source, record.kdf);
+    const contents = { ...emptyVaultContents(), ...(await openJson<VaultContents>(subtle, key, record)) };
+    return { key, contents };
+  };
+
+  const requireUnlocked = () => {
+    if (!unlocked) throw new Error('The vault is locked');
+    return unlocked;
+  };
+
+  return {
+    exists: async () => Boolean(await store.load()),
+
+    isUnlocked: () => Boolean(unlocked),
+
+    getKdf: async () => (await store.load())?.kdf,
+
+    getContents: () => requireUnlocked().contents,
+
+    create: async (source, address) => {
+      if (await store.load()) {
+        throw new Error('A vault already exists on this device');
+      }
+      const kdf = newKdfParams(source, address);
+      return persist(await deriveVaultKey(subtle, source, kdf), kdf, emptyVaultContents());
+    },
+
+    unlock: async (source) => {
+      const record = await store.load();
+      if (!record) throw new Error('There is no vault on this device yet');
+      const { key, contents } = await openRecord(record, source);
+      unlocked = { key, kdf: record.kdf, contents };
+      return contents;
+    },
+
+    lock: () => {
+      unlocked = undefined;
+    },
+
+    update: async (change) => {
+      const { key, kdf, contents } = requireUnlocked();
+      return persist(key, kdf, change(contents));
+    },
+
+    // The stored record is already encrypted, so the backup is safe to keep anywhere
+    exportBackup: async () => {
+      requireUnlocked();
+      const record = await store.load();
+      if (!record) throw new Error('There is no vault on this device yet');
+      return JSON.stringify({ format: BACKUP_FORMAT, ...record }, null, 2);
+    },
+
+    // Replaces the vault on this device once the backup decrypts with `source`
+    importBackup: async (backup, source) => {
+      const record = parseBackup(backup);
+      const { key, contents } = await openRecord(record, source);
+      await store.save(record);
+      unlocked = { key, kdf: record.kdf, contents };
+      return contents;
+    },
+
+    destroy: async () => {
+      unlocked = undefined;
+      await store.clear();
+    },
+  };
+};
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * ABI sync script for removal.ninja
+ * Copies the ABIs produced by `forge build` (foundry/out) into the client so
+ * every page uses the same contract interface instead of hand-written copies.
+ *
+ * Usage:
+ *   node scripts/sync-abis.js                # read from foundry/out
+ *   node scripts/sync-abis.js --out <dir>    # read from another artifacts dir
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Contracts consumed by the client: [artifact source file, contract name]
+const ARTIFACTS = [
+  ['DataBrokerRegistryUltraSimple.sol', 'DataBrokerRegistryUltraSimple'],
+  ['RemovalTaskFactoryUltraSimple.sol', 'RemovalTaskFactoryUltraSimple'],
+  ['RemovalNinja.sol', 'RemovalNinja'],
+  ['AddLiquidity.s.sol', 'SimpleDEX'],
+  ['IMulticall3.sol', 'IMulticall3'],
+  // Archived modular contracts (build with `forge build ../archive/foundry`)
+  ['RemovalTaskFactorySimple.sol', 'RemovalTaskFactorySimple'],
+  ['RemovalTaskSimple.sol', 'RemovalTaskSimple'],
+  ['VerifierRegistry.sol', 'VerifierRegistry'],
+  ['DisputeResolution.sol', 'DisputeResolution'],
+];
+
+const outFlag = process.argv.indexOf('--out');
+const outDir = outFlag !== -1
+  ? path.resolve(process.argv[outFlag + 1])
+  : path.join(__dirname, '../foundry/out');
+const abiDir = path.join(__dirname, '../client/src/contracts/abis');
+
+console.log(`🥷 Syncing contract ABIs from ${outDir}\n`);
+
+fs.mkdirSync(abiDir, { recursive: true });
+
+const missing = [];
+for (const [sourceFile, contractName] of ARTIFACTS) {
+  const artifactPath = path.join(outDir, sourceFile, `${contractName}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    missing.push(artifactPath);
+    continue;
+  }
+
+  const { abi } = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+  fs.writeFileSync(
+    path.join(abiDir, `${contractName}.json`),
+    `${JSON.stringify(abi, null, 2)}\n`
+  );
+  console.log(`✅ ${contractName} (${abi.length} entries)`);
+}
+
+if (missing.length > 0) {
+  console.error('\n❌ Missing artifacts:');
+  missing.forEach((artifactPath) => console.error(`   ${artifactPath}`));
+  console.error('\n💡 Run `npm run compile` (and `forge build ../archive/foundry` for archived contracts) first.');
+  process.exit(1);
+}
+
+console.log('\n✨ ABIs are up to date');